@@ -1,9 +1,12 @@
 /**
  * Example calculation providers for different e-commerce scenarios
- * Apps can use these as-is or create their own custom implementations
+ * Apps can use these as-is or create their own custom implementations.
+ * Rates and thresholds are given in the order currency's major unit (dollars)
+ * and results are Money in the currency of the subtotal.
  */
 
-import { TaxProvider, ShippingProvider, TaxCalculationContext, ShippingCalculationContext } from './types';
+import { TaxProvider, ShippingProvider, TaxCalculationContext, ShippingCalculationContext, Money } from './types';
+import { multiplyMoney, toMoney, zeroMoney } from './money';
 
 // Example: US-based tax calculation with state-specific rates
 export class USTaxProvider implements TaxProvider {
@@ -17,47 +20,68 @@ export class USTaxProvider implements TaxProvider {
     // Add more states as needed
   };
 
-  calculateTax(context: TaxCalculationContext): number {
+  calculateTax(context: TaxCalculationContext): Money {
     const state = context.shippingAddress?.state;
     // console.log("Shipping address: ", context.shippingAddress)
     const taxRate = state ? this.stateTaxRates[state] || 0.08 : 0.08; // Default 8%
-    return context.subtotal * taxRate;
+    return multiplyMoney(context.subtotal, taxRate);
   }
 }
 
 // Example: Tiered shipping with weight consideration
 export class TieredShippingProvider implements ShippingProvider {
-  calculateShipping(context: ShippingCalculationContext): number {
+  calculateShipping(context: ShippingCalculationContext): Money {
     const { subtotal, items, shippingAddress } = context;
     
     // Free shipping over threshold
-    if (subtotal >= 75) return 0;
+    if (subtotal.amount >= toMoney(75, subtotal.currency).amount) return zeroMoney(subtotal.currency);
     
     // International shipping
     if (shippingAddress?.country && shippingAddress.country !== 'US') {
-      return 25.00;
+      return toMoney(25.00, subtotal.currency);
     }
     
     // Calculate based on item count (simple weight estimation)
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
     
-    if (itemCount <= 2) return 5.99;
-    if (itemCount <= 5) return 9.99;
-    return 14.99;
+    if (itemCount <= 2) return toMoney(5.99, subtotal.currency);
+    if (itemCount <= 5) return toMoney(9.99, subtotal.currency);
+    return toMoney(14.99, subtotal.currency);
   }
 }
 
 // Example: No tax (for tax-exempt businesses)
 export class NoTaxProvider implements TaxProvider {
-  calculateTax(): number {
-    return 0;
+  calculateTax(context: TaxCalculationContext): Money {
+    return zeroMoney(context.subtotal.currency);
   }
 }
 
 // Example: Free shipping always (for premium services)
 export class FreeShippingProvider implements ShippingProvider {
-  calculateShipping(): number {
-    return 0;
+  calculateShipping(context: ShippingCalculationContext): Money {
+    return zeroMoney(context.subtotal.currency);
+  }
+}
+
+// Example: Single tax rate everywhere
+export class FlatRateTaxProvider implements TaxProvider {
+  constructor(private rate: number = 0.08) {}
+
+  calculateTax(context: TaxCalculationContext): Money {
+    return multiplyMoney(context.subtotal, this.rate);
+  }
+}
+
+// Example: Free shipping over a subtotal threshold, flat rate below it
+export class ThresholdShippingProvider implements ShippingProvider {
+  constructor(public readonly freeShippingThreshold: number = 50, private rate: number = 9.99) {}
+
+  calculateShipping(context: ShippingCalculationContext): Money {
+    const { subtotal } = context;
+    return subtotal.amount > toMoney(this.freeShippingThreshold, subtotal.currency).amount
+      ? zeroMoney(subtotal.currency)
+      : toMoney(this.rate, subtotal.currency);
   }
 }
 
@@ -65,20 +89,20 @@ export class FreeShippingProvider implements ShippingProvider {
 export class FlatRateShippingProvider implements ShippingProvider {
   constructor(private rate: number = 9.99) {}
   
-  calculateShipping(): number {
-    return this.rate;
+  calculateShipping(context: ShippingCalculationContext): Money {
+    return toMoney(this.rate, context.subtotal.currency);
   }
 }
 
 // Example: International tax provider using external service
 export class InternationalTaxProvider implements TaxProvider {
-  async calculateTax(context: TaxCalculationContext): Promise<number> {
+  async calculateTax(context: TaxCalculationContext): Promise<Money> {
     const { subtotal, shippingAddress } = context;
     
     // This would typically call an external tax service like TaxJar, Avalara, etc.
     // For demo purposes, we'll use simple logic
     
-    if (!shippingAddress?.country) return 0;
+    if (!shippingAddress?.country) return zeroMoney(subtotal.currency);
     
     const taxRates: Record<string, number> = {
       'US': 0.08,
@@ -89,26 +113,26 @@ export class InternationalTaxProvider implements TaxProvider {
     };
     
     const rate = taxRates[shippingAddress.country] || 0;
-    return subtotal * rate;
+    return multiplyMoney(subtotal, rate);
   }
 }
 
 // Example: Shopify-style shipping calculator
 export class ShopifyStyleShippingProvider implements ShippingProvider {
-  calculateShipping(context: ShippingCalculationContext): number {
+  calculateShipping(context: ShippingCalculationContext): Money {
     const { subtotal, shippingAddress } = context;
     
     // Free shipping threshold
-    if (subtotal >= 50) return 0;
+    if (subtotal.amount >= toMoney(50, subtotal.currency).amount) return zeroMoney(subtotal.currency);
     
     // Zone-based shipping
     const isInternational = shippingAddress?.country !== 'US';
     
     if (isInternational) {
-      return 15.00; // International shipping
+      return toMoney(15.00, subtotal.currency); // International shipping
     }
     
     // Domestic shipping
-    return 7.99;
+    return toMoney(7.99, subtotal.currency);
   }
 }
\ No newline at end of file
@@ -1,62 +1,33 @@
-import { ChatMessage, AIShoppingConfig, ToolResult, TaxCalculationContext, ShippingCalculationContext, CartItem, ShippingAddress, OrderData } from './types';
-
-// Default order calculations (fallback when no custom providers are configured)
-interface OrderTotals {
-  subtotal: number;
-  shipping: number;
-  tax: number;
-  total: number;
-  currency: string;
-}
-
-// Default tax calculation (8% - configurable per app)
-function defaultTaxCalculation(context: TaxCalculationContext): number {
-  return context.subtotal * 0.08;
-}
-
-// Default shipping calculation (free over $50, otherwise $9.99 - configurable per app)
-function defaultShippingCalculation(context: ShippingCalculationContext): number {
-  return context.subtotal > 50 ? 0 : 9.99;
-}
-
-async function calculateOrderTotals(
-  items: CartItem[], 
-  config: AIShoppingConfig,
-  shippingAddress?: ShippingAddress
-): Promise<OrderTotals> {
-  const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const currency = config.orderCalculations?.currency || 'USD';
-  
-  const taxContext: TaxCalculationContext = { subtotal, shippingAddress, items };
-  const shippingContext: ShippingCalculationContext = { subtotal, shippingAddress, items };
-  
-  // Use custom providers if available, otherwise use defaults
-  const tax = config.orderCalculations?.taxProvider 
-    ? await config.orderCalculations.taxProvider.calculateTax(taxContext)
-    : defaultTaxCalculation(taxContext);
-    
-  const shipping = config.orderCalculations?.shippingProvider
-    ? await config.orderCalculations.shippingProvider.calculateShipping(shippingContext)
-    : defaultShippingCalculation(shippingContext);
-  
-  const total = subtotal + shipping + tax;
-
-  return {
-    subtotal: Number(subtotal.toFixed(2)),
-    shipping: Number(shipping.toFixed(2)),
-    tax: Number(tax.toFixed(2)),
-    total: Number(total.toFixed(2)),
-    currency
-  };
-}
+import {
+  ChatMessage,
+  AIShoppingConfig,
+  ToolResult,
+  CartItem,
+  OrderData,
+  VariantOptions,
+  AppliedDiscount,
+  LLMMessage,
+  LLMProvider,
+  LLMTool,
+  LLMToolCall
+} from './types';
+import { calculateOrderPricing, convertItemsToOrderCurrency } from './pricing';
+import { formatMoney } from './money';
+import { AzureOpenAIProvider } from './llm-providers';
 
 export class AIShoppingEngine {
   private config: AIShoppingConfig;
   private baseUrl: string;
+  private llm: LLMProvider;
 
   constructor(config: AIShoppingConfig, baseUrl?: string) {
     this.config = config;
     this.baseUrl = baseUrl || '';
+    this.llm = config.llmProvider || new AzureOpenAIProvider(
+      config.azureOpenAI?.endpoint || '',
+      config.azureOpenAI?.apiKey || '',
+      config.azureOpenAI?.deploymentName || 'gpt-4'
+    );
   }
 
   // System prompt for the AI assistant
@@ -72,6 +43,9 @@ You are a helpful shopping assistant for an e-commerce platform with autonomous
 **Searching and Managing the Cart:**
 - When you get the search results, be smart enough to only display the products that are significant to what the user is looking for.
 - Understand the user's intent and add items to cart after doing search, if they ask you to do so.
+- Some products come in variants (size, color, style), each with its own SKU, price and stock. Ask the user which option they want before adding such a product unless they already said, and always pass the chosen "variant" to add_to_cart.
+- Search results include a "stock" field for products with limited stock. Never add out-of-stock products to the cart, and mention "Only N left" when stock is low.
+- Cart and order amounts are given as { "amount", "currency" } with the amount in the currency's smallest unit (cents for USD), so 1999 USD means $19.99. Always show them as normal prices.
 
 **Product Recommendations:**
 Format your responses conversationally and provide specific product recommendations. When displaying search results, always format product names as clickable links using [Product Name](/products/product-id). Use markdown tables for multiple products:
@@ -86,6 +60,7 @@ Always show products/cart/preview in table format like this:
 **Checkout Process:**
 - When the user initiates a checkout process, use "preview_order" to show a summary of the order and confirming with the user.
 - After the user confirmation, use "complete_checkout" to process the payment and complete the order.
+- If the user gives a discount code, pass it as "promotionCode" to both "preview_order" and "complete_checkout", and show the discount in the preview. If the code is rejected, tell the user why.
 - Always include the following details after the checkout process:
   - Order ID: <order id>
   - Items: <number of items>
@@ -96,17 +71,23 @@ Always show products/cart/preview in table format like this:
 - If no saved information is found, Ask the user to complete his/her profile, payment, and shipping details by going to the [Profile](/profile) page before proceeding with checkout. Giving the [Profile](/profile) link is important.
 - Users must have both shipping address and payment methods saved in their profile for autonomous checkout
 
+**Cancellations & Refunds:**
+- Use "cancel_order" when the user wants to cancel an order that has not shipped yet. Always confirm the order ID with the user first.
+- Use "request_refund" when the user wants money back for a delivered or returned order. Pass specific items to refund only part of the order.
+- Refund requests are reviewed by staff before any money is refunded; tell the user their request was submitted, not that they were refunded.
+- Report the refunded amount and the new order status after cancelling.
+
 `;
   }
 
   // Define available tools for the AI
-  private getTools() {
+  private getTools(): LLMTool[] {
     return [
       {
         type: "function",
         function: {
           name: "search_products",
-          description: "Search for products in the catalog by name, category, description, or specifications",
+          description: "Search for products in the catalog by name, category, description, or specifications, or by describing what the shopper needs (e.g. \"something to keep my coffee hot\"). Results include stock availability when it is tracked.",
           parameters: {
             type: "object",
             properties: {
@@ -117,6 +98,11 @@ Always show products/cart/preview in table format like this:
               limit: {
                 type: "number",
                 description: "Maximum number of results to return (default: 10)"
+              },
+              specifications: {
+                type: "array",
+                items: { type: "string" },
+                description: "Specification filters such as \"Color=Black\", \"Weight<2kg\" or \"Screen Size>=15 inch\". Operators are =, !=, <, <=, > and >=; numbers are compared with their units, so use these for requests like \"laptops under 2kg\""
               }
             },
             required: ["query"]
@@ -143,6 +129,15 @@ Always show products/cart/preview in table format like this:
                       quantity: {
                           type: "number",
                           description: "The quantity of the product to add (default: 1)"
+                      },
+                      variant: {
+                          type: "object",
+                          description: "Required for products with variants: the option for every variant axis, taken from the product's variants",
+                          properties: {
+                              size: { type: "string" },
+                              color: { type: "string" },
+                              style: { type: "string" }
+                          }
                       }
                 },
                   required: ["productId"]
@@ -178,6 +173,15 @@ Always show products/cart/preview in table format like this:
                     removeAll: {
                         type: "boolean",
                         description: "If true, removes all quantities of this item from cart"
+                    },
+                    variant: {
+                        type: "object",
+                        description: "The variant to remove. Omit to remove every variant of the product",
+                        properties: {
+                            size: { type: "string" },
+                            color: { type: "string" },
+                            style: { type: "string" }
+                        }
                     }
                   },
                   required: ["productId"]
@@ -208,7 +212,12 @@ Always show products/cart/preview in table format like this:
           description: "Use this when the user initiates a checkout process. This is an important step for the user to see the shipping and tax cost. Get order preview with cart contents, shipping address, payment method, and total before complete checkout. Use this to show order summary and ask for confirmation to proceed with payment.",
           parameters: {
             type: "object",
-            properties: {},
+            properties: {
+              promotionCode: {
+                type: "string",
+                description: "Optional discount code given by the user"
+              }
+            },
             required: []
           }
         }
@@ -224,11 +233,75 @@ Always show products/cart/preview in table format like this:
               orderNote: {
                 type: "string",
                 description: "Optional note for the order"
+              },
+              promotionCode: {
+                type: "string",
+                description: "Optional discount code, the same one shown in the order preview"
               }
             },
             required: []
           }
         }
+      },
+      {
+        type: "function",
+        function: {
+          name: "cancel_order",
+          description: "Cancel one of the user's orders that has not shipped yet. The payment is voided or refunded automatically. ONLY use this AFTER the user has confirmed which order to cancel.",
+          parameters: {
+            type: "object",
+            properties: {
+              orderId: {
+                type: "string",
+                description: "The ID of the order to cancel"
+              },
+              reason: {
+                type: "string",
+                description: "Why the user is cancelling the order"
+              }
+            },
+            required: ["orderId"]
+          }
+        }
+      },
+      {
+        type: "function",
+        function: {
+          name: "request_refund",
+          description: "Request a refund of a delivered or returned order, either in full or for specific items. Staff review the request before any money is refunded. ONLY use this AFTER the user has confirmed the order and the items to refund.",
+          parameters: {
+            type: "object",
+            properties: {
+              orderId: {
+                type: "string",
+                description: "The ID of the order to refund"
+              },
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    productId: {
+                      type: "string",
+                      description: "The ID of the product to refund"
+                    },
+                    quantity: {
+                      type: "number",
+                      description: "How many units of the product to refund"
+                    }
+                  },
+                  required: ["productId", "quantity"]
+                },
+                description: "Items to refund. Omit to refund the whole order."
+              },
+              reason: {
+                type: "string",
+                description: "Why the user wants a refund"
+              }
+            },
+            required: ["orderId"]
+          }
+        }
       }
     ];
   }
@@ -238,7 +311,7 @@ Always show products/cart/preview in table format like this:
     try {
       switch (toolName) {
         case 'search_products':
-          return await this.handleSearchProducts(parameters);
+          return await this.handleSearchProducts(parameters, userEmail);
           
         case 'add_to_cart':
           return await this.handleAddToCart(parameters, userEmail);
@@ -250,11 +323,17 @@ Always show products/cart/preview in table format like this:
           return await this.handleViewCart(userEmail);
           
         case 'preview_order':
-          return await this.handlePreviewOrder(userEmail);
+          return await this.handlePreviewOrder(parameters, userEmail);
           
         case 'complete_checkout':
           return await this.handleCompleteCheckout(parameters, userEmail);
           
+        case 'cancel_order':
+          return await this.handleCancelOrder(parameters, userEmail);
+          
+        case 'request_refund':
+          return await this.handleRequestRefund(parameters, userEmail);
+          
         default:
           return { success: false, error: `Unknown tool: ${toolName}` };
       }
@@ -267,30 +346,35 @@ Always show products/cart/preview in table format like this:
     }
   }
 
-  private async handleSearchProducts(parameters: Record<string, unknown>): Promise<ToolResult> {
+  private async handleSearchProducts(parameters: Record<string, unknown>, userEmail: string): Promise<ToolResult> {
     const query = parameters.query as string;
     const limit = (parameters.limit as number) || 10;
+    const specs = parameters.specifications as string[] | undefined;
     
-    const results = await this.config.productProvider.search(query, { limit });
+    const results = await this.config.productProvider.search(query, { limit, specs, userIdentifier: userEmail });
+    const outOfStock = results.filter(product => product.stock?.status === 'out_of_stock').length;
     
     return {
       success: true,
       data: {
         results,
         total: results.length,
-        query
+        query,
+        ...(specs?.length && { specifications: specs })
       },
-      message: `Found ${results.length} products matching "${query}"`
+      message: `Found ${results.length} products matching "${query}"${outOfStock > 0 ? ` (${outOfStock} out of stock)` : ''}`
     };
   }
 
   private async handleAddToCart(parameters: Record<string, unknown>, userEmail: string): Promise<ToolResult> {
-    const items = parameters.items as Array<{ productId: string; quantity?: number }>;
+    const items = parameters.items as Array<{ productId: string; quantity?: number; variant?: VariantOptions }>;
     
-    // Prepare cart items (no need to validate since AI only gets productIds from search results)
+    // Prepare cart items (no need to validate since AI only gets productIds from search results;
+    // the cart provider checks variants and stock)
     const validatedItems = items.map(item => ({
       productId: item.productId,
-      quantity: item.quantity || 1
+      quantity: item.quantity || 1,
+      ...(item.variant && { variant: item.variant })
     }));
     
     const cart = await this.config.cartProvider.addItems(userEmail, validatedItems);
@@ -303,7 +387,7 @@ Always show products/cart/preview in table format like this:
   }
 
   private async handleRemoveFromCart(parameters: Record<string, unknown>, userEmail: string): Promise<ToolResult> {
-    const items = parameters.items as Array<{ productId: string; quantity?: number; removeAll?: boolean }>;
+    const items = parameters.items as Array<{ productId: string; quantity?: number; removeAll?: boolean; variant?: VariantOptions }>;
     
     const cart = await this.config.cartProvider.removeItems(userEmail, items);
     
@@ -324,14 +408,37 @@ Always show products/cart/preview in table format like this:
     };
   }
 
-  private async handlePreviewOrder(userEmail: string): Promise<ToolResult> {
+  // Resolve an optional discount code; throws with the reason if it can't be used
+  private async getDiscounts(promotionCode: unknown, items: CartItem[], userEmail: string): Promise<AppliedDiscount[]> {
+    if (!promotionCode || typeof promotionCode !== 'string') {
+      return [];
+    }
+    if (!this.config.promotionProvider) {
+      throw new Error('Discount codes are not supported');
+    }
+    // Promotions are checked against prices in the order currency, which is what the discount comes off
+    const orderItems = await convertItemsToOrderCurrency(items, this.config.orderCalculations);
+    return [await this.config.promotionProvider.applyPromotion(promotionCode, orderItems, userEmail)];
+  }
+
+  private async handlePreviewOrder(parameters: Record<string, unknown>, userEmail: string): Promise<ToolResult> {
     const cart = await this.config.cartProvider.getCart(userEmail);
     const customerInfo = await this.config.paymentProvider.validateCustomer(userEmail);
     const shippingAddress = await this.config.profileProvider.getShippingAddress(userEmail);
     customerInfo.hasShippingAddress = !!shippingAddress;
+
+    let discounts: AppliedDiscount[];
+    try {
+      discounts = await this.getDiscounts(parameters.promotionCode, cart.items || [], userEmail);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid discount code' };
+    }
     
-    // Calculate order totals with tax and shipping using configurable providers
-    const orderTotals = await calculateOrderTotals(cart.items || [], this.config, shippingAddress || undefined);
+    // Calculate itemized order totals with discounts, tax and shipping using configurable providers
+    const orderTotals = await calculateOrderPricing(cart.items || [], this.config.orderCalculations, {
+      shippingAddress: shippingAddress || undefined,
+      discounts
+    });
     
     return {
       success: true,
@@ -342,7 +449,7 @@ Always show products/cart/preview in table format like this:
         shippingAddress,
         readyForCheckout: !!(shippingAddress && customerInfo.hasPaymentMethods)
       },
-      message: `Order preview ready with ${cart.items?.length || 0} items. Subtotal: $${orderTotals.subtotal}, Shipping: $${orderTotals.shipping}, Tax: $${orderTotals.tax}, Total: $${orderTotals.total}`
+      message: `Order preview ready with ${cart.items?.length || 0} items. Subtotal: ${formatMoney(orderTotals.subtotal)}, ${orderTotals.discounts.length > 0 ? `Discount (${orderTotals.discounts.map(applied => applied.code).join(', ')}): -${formatMoney(orderTotals.discount)}, ` : ''}Shipping: ${formatMoney(orderTotals.shipping)}, Tax: ${formatMoney(orderTotals.tax)}, Total: ${formatMoney(orderTotals.total)}`
     };
   }
 
@@ -371,11 +478,50 @@ Always show products/cart/preview in table format like this:
       };
     }
     
-    // Calculate order totals with tax and shipping
-    const orderTotals = await calculateOrderTotals(cart.items || [], this.config, shippingAddress);
+    let discounts: AppliedDiscount[];
+    try {
+      discounts = await this.getDiscounts(parameters.promotionCode, cart.items, userEmail);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid discount code' };
+    }
+
+    // Calculate itemized order totals with discounts, tax and shipping
+    const orderTotals = await calculateOrderPricing(cart.items || [], this.config.orderCalculations, {
+      shippingAddress,
+      discounts
+    });
     
     // Create secure payment token with calculated totals
     const secureToken = await this.config.paymentProvider.createSecureToken(cart, customerInfo, userEmail, orderTotals);
+
+    // Hold the stock for the lifetime of the token
+    if (this.config.inventoryProvider) {
+      try {
+        await this.config.inventoryProvider.reserveStock(
+          secureToken.token,
+          cart.items.map(item => ({ productId: item.id, quantity: item.quantity, variant: item.variant })),
+          { expiresAt: secureToken.expiresAt, userEmail }
+        );
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Some items are out of stock' };
+      }
+    }
+
+    // Hold a use of each discount code for the same time, so two checkouts can't both take its last use
+    const promotionProvider = this.config.promotionProvider;
+    if (promotionProvider?.reservePromotion) {
+      try {
+        for (const applied of discounts) {
+          await promotionProvider.reservePromotion(applied.code, secureToken.token, cart.items, secureToken.expiresAt);
+        }
+      } catch (error) {
+        for (const applied of discounts) {
+          await promotionProvider.releasePromotion?.(applied.code, secureToken.token);
+        }
+        await this.config.inventoryProvider?.releaseStock(secureToken.token);
+        return { success: false, error: error instanceof Error ? error.message : 'Invalid discount code' };
+      }
+    }
     
     // Complete payment with calculated totals
     const paymentResult = await this.config.paymentProvider.capturePayment(
@@ -405,19 +551,26 @@ Always show products/cart/preview in table format like this:
             zipCode: shippingAddress.zipCode,
             country: shippingAddress.country
           },
-          items: cart.items.map(item => ({
+          // Item prices are stored in the order currency, like the totals
+          items: (await convertItemsToOrderCurrency(cart.items, this.config.orderCalculations)).map(item => ({
             id: item.id,
             productName: item.name,
             quantity: item.quantity,
             price: item.price,
-            currency: orderTotals.currency
+            ...(item.variant && { variant: item.variant }),
+            ...(item.sku && { sku: item.sku })
           })),
           totals: {
             subtotal: orderTotals.subtotal,
+            ...(discounts.length > 0 && {
+              discount: orderTotals.discount,
+              discounts
+            }),
             shipping: orderTotals.shipping,
             tax: orderTotals.tax,
             total: orderTotals.total,
-            currency: orderTotals.currency
+            currency: orderTotals.currency,
+            lines: orderTotals.lines
           },
           status: 'confirmed' as const,
           createdAt: new Date().toISOString(),
@@ -432,6 +585,9 @@ Always show products/cart/preview in table format like this:
 
         if (saveResult.success) {
           console.log('Order saved successfully:', saveResult.orderId);
+          for (const applied of discounts) {
+            await promotionProvider?.redeemPromotion(applied.code, saveResult.orderId, secureToken.token);
+          }
         } else {
           console.error('Failed to save order:', saveResult.error);
         }
@@ -446,9 +602,13 @@ Always show products/cart/preview in table format like this:
       return {
         success: true,
         data: paymentResult,
-        message: `🎉 Order placed successfully! Order ID: ${paymentResult.orderId}. Total charged: $${orderTotals.total}`
+        message: `🎉 Order placed successfully! Order ID: ${paymentResult.orderId}. Total charged: ${formatMoney(orderTotals.total)}`
       };
     } else {
+      await this.config.inventoryProvider?.releaseStock(secureToken.token);
+      for (const applied of discounts) {
+        await promotionProvider?.releasePromotion?.(applied.code, secureToken.token);
+      }
       return {
         success: false,
         error: paymentResult.error || 'Payment processing failed'
@@ -458,63 +618,71 @@ Always show products/cart/preview in table format like this:
 
   }
 
-  private async orchestrateChatCompletion(messages: ChatMessage[], userEmail: string): Promise<string> {
-    try {
+  private async handleCancelOrder(parameters: Record<string, unknown>, userEmail: string): Promise<ToolResult> {
+    if (!this.config.orderProvider.cancelOrder) {
+      return { success: false, error: 'Order cancellation is not supported' };
+    }
 
-      const massagedMessages = messages.map(msg => {
-          const message = {
-            role: msg.role,
-            content: msg.content
-          }
-          if (msg.tool_call_id) {
-            return { ...message, tool_call_id: msg.tool_call_id, name: msg.name};
-          }
-          if (msg.tool_calls) {
-            return { ...message, tool_calls: msg.tool_calls };
-          }
-          return message;
-      })
+    const orderId = parameters.orderId as string;
+    const result = await this.config.orderProvider.cancelOrder(orderId, userEmail, parameters.reason as string | undefined);
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to cancel order' };
+    }
 
+    return {
+      success: true,
+      data: result,
+      message: `Order ${orderId} cancelled.${result.refundedAmount?.amount ? ` Refunded: ${formatMoney(result.refundedAmount)}` : ''} Status: ${result.status}`
+    };
+  }
+
+  private async handleRequestRefund(parameters: Record<string, unknown>, userEmail: string): Promise<ToolResult> {
+    if (!this.config.orderProvider.requestRefund) {
+      return { success: false, error: 'Refunds are not supported' };
+    }
+
+    const orderId = parameters.orderId as string;
+    const result = await this.config.orderProvider.requestRefund(orderId, userEmail, {
+      items: parameters.items as Array<{ productId: string; quantity: number }> | undefined,
+      reason: parameters.reason as string | undefined
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to request refund' };
+    }
+
+    return {
+      success: true,
+      data: result,
+      message: `Refund requested for order ${orderId} (request ${result.refundRequestId}). Staff will review it before any money is refunded.`
+    };
+  }
+
+  private async orchestrateChatCompletion(messages: LLMMessage[], userEmail: string): Promise<string> {
+    try {
       let addRemindertoContinue = false;
       if(messages[messages.length -1 ].role === 'tool') {
         addRemindertoContinue = true;
       }
 
-      const response = await fetch(`${this.config.azureOpenAI.endpoint}/openai/deployments/${this.config.azureOpenAI.deploymentName}/chat/completions?api-version=2024-12-01-preview`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.config.azureOpenAI.apiKey,
-        },
-        body: JSON.stringify({
-          messages: !addRemindertoContinue ? 
-                    massagedMessages : 
-                    [...massagedMessages, { role: 'system', content: 'Continue based on the tool results provided.' }],
-          tools: this.getTools(),
-          tool_choice: "auto",
-          max_tokens: 2000,
-          temperature: 0.7,
-          top_p: 0.9,
-        }),
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Azure OpenAI error:', response.status, errorText);
-        throw new Error(`Azure OpenAI API error: ${response.status}`);
-      }
-
-      const result = await response.json();
-      const assistantMessage = result.choices[0]?.message;
+      const completion = await this.llm.complete(
+        !addRemindertoContinue ?
+          messages :
+          [...messages, { role: 'system', content: 'Continue based on the tool results provided.' }],
+        { tools: this.getTools(), toolChoice: 'auto', maxTokens: 2000, temperature: 0.7, topP: 0.9 }
+      );
 
       // Check if the assistant wants to call tools
-      if (assistantMessage?.tool_calls) {
+      if (completion.toolCalls.length > 0) {
         // Add the assistant message with tool calls to conversation
-        // console.log(assistantMessage)
-        const toolMessages = [...messages, assistantMessage];
+        const toolMessages: LLMMessage[] = [
+          ...messages,
+          { role: 'assistant', content: completion.content, tool_calls: completion.toolCalls }
+        ];
 
         // Execute each tool call
-        for (const toolCall of assistantMessage.tool_calls) {
+        for (const toolCall of completion.toolCalls) {
           const toolResult = await this.executeTool(
             toolCall.function.name,
             JSON.parse(toolCall.function.arguments),
@@ -529,14 +697,10 @@ Always show products/cart/preview in table format like this:
             content: JSON.stringify(toolResult)
           });
         }
-        // toolMessages.push({
-        //   role: 'system',
-        //   content: "Continue based on the tool results provided."
-        // })
         // Make another call to the orchestrateChatCompletion
         return await this.orchestrateChatCompletion(toolMessages, userEmail);
       } else {
-        return assistantMessage?.content || 'I apologize, but I cannot process your request right now.';
+        return completion.content || 'I apologize, but I cannot process your request right now.';
       }
     }
     catch (error) {
@@ -545,56 +709,52 @@ Always show products/cart/preview in table format like this:
     }
   }
 
+  // Chat messages from the app in the provider's format
+  private toLLMMessages(messages: ChatMessage[]): LLMMessage[] {
+    return messages.map(msg => {
+      const message: LLMMessage = {
+        role: msg.role,
+        content: msg.content
+      };
+      if (msg.tool_call_id) {
+        return { ...message, tool_call_id: msg.tool_call_id, name: msg.name };
+      }
+      if (msg.tool_calls) {
+        return { ...message, tool_calls: msg.tool_calls as LLMToolCall[] };
+      }
+      return message;
+    });
+  }
+
   // Main chat completion method
   async processChat2(messages: ChatMessage[], userEmail: string): Promise<string> {
-    if (!this.config.azureOpenAI.endpoint || !this.config.azureOpenAI.apiKey) {
-      throw new Error('Azure OpenAI configuration missing');
-    }
-
     // Add system message
-    const systemMessage: ChatMessage = {
+    const systemMessage: LLMMessage = {
       role: 'system',
       content: this.getSystemPrompt()
     };
 
-    const chatMessages = [systemMessage, ...messages];
+    const chatMessages = [systemMessage, ...messages.map(msg => ({ role: msg.role, content: msg.content }))];
 
     try {
-      const response = await fetch(`${this.config.azureOpenAI.endpoint}/openai/deployments/${this.config.azureOpenAI.deploymentName}/chat/completions?api-version=2024-12-01-preview`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.config.azureOpenAI.apiKey,
-        },
-        body: JSON.stringify({
-          messages: chatMessages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          })),
-          tools: this.getTools(),
-          tool_choice: "auto",
-          max_tokens: 2000,
-          temperature: 0.7,
-          top_p: 0.9,
-        }),
+      const completion = await this.llm.complete(chatMessages, {
+        tools: this.getTools(),
+        toolChoice: 'auto',
+        maxTokens: 2000,
+        temperature: 0.7,
+        topP: 0.9
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Azure OpenAI error:', response.status, errorText);
-        throw new Error(`Azure OpenAI API error: ${response.status}`);
-      }
-
-      const result = await response.json();
-      const assistantMessage = result.choices[0]?.message;
-
       // Check if the assistant wants to call tools
-      if (assistantMessage?.tool_calls) {
+      if (completion.toolCalls.length > 0) {
         // Add the assistant message with tool calls to conversation
-        const toolMessages = [systemMessage, ...messages, assistantMessage];
+        const toolMessages: LLMMessage[] = [
+          ...chatMessages,
+          { role: 'assistant', content: completion.content, tool_calls: completion.toolCalls }
+        ];
 
         // Execute each tool call
-        for (const toolCall of assistantMessage.tool_calls) {
+        for (const toolCall of completion.toolCalls) {
           const toolResult = await this.executeTool(
             toolCall.function.name,
             JSON.parse(toolCall.function.arguments),
@@ -610,45 +770,25 @@ Always show products/cart/preview in table format like this:
         }
         
         // Make another call to get the final response
-        const finalResponse = await fetch(`${this.config.azureOpenAI.endpoint}/openai/deployments/${this.config.azureOpenAI.deploymentName}/chat/completions?api-version=2024-12-01-preview`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'api-key': this.config.azureOpenAI.apiKey,
-          },
-          body: JSON.stringify({
-            messages: toolMessages,
-            max_tokens: 2000,
-            temperature: 0.7,
-            top_p: 0.9,
-          }),
-        });
-
-        if (finalResponse.ok) {
-          const finalResult = await finalResponse.json();
-          return finalResult.choices[0]?.message?.content || 'I apologize, but I cannot process your request right now.';
-        }
+        const finalCompletion = await this.llm.complete(toolMessages, { maxTokens: 2000, temperature: 0.7, topP: 0.9 });
+        return finalCompletion.content || 'I apologize, but I cannot process your request right now.';
       }
 
-      return assistantMessage?.content || 'I apologize, but I cannot process your request right now.';
+      return completion.content || 'I apologize, but I cannot process your request right now.';
     } catch (error) {
-      console.error('Error calling Azure OpenAI:', error);
+      console.error('Error calling LLM provider:', error);
       throw new Error('Failed to get AI response');
     }
   }
 
   async processChat(messages: ChatMessage[], userEmail: string): Promise<string> {
-    if (!this.config.azureOpenAI.endpoint || !this.config.azureOpenAI.apiKey) {
-      throw new Error('Azure OpenAI configuration missing');
-    }
-
     // Add system message
-    const systemMessage: ChatMessage = {
+    const systemMessage: LLMMessage = {
       role: 'system',
       content: this.getSystemPrompt()
     };
 
-    const chatMessages = [systemMessage, ...messages];
+    const chatMessages = [systemMessage, ...this.toLLMMessages(messages)];
     return await this.orchestrateChatCompletion(chatMessages, userEmail);
   }
-}
\ No newline at end of file
+}
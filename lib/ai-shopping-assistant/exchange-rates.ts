@@ -0,0 +1,46 @@
+/**
+ * Exchange rates
+ * A rate table maps each currency to how many of its units one unit of a
+ * base currency buys. Any two currencies in the table can be converted
+ * through the base, so the table works the same whatever the store currency.
+ */
+
+import { ExchangeRateProvider } from './types';
+
+// Approximate rates per US dollar, for offline use and tests
+export const STATIC_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.37,
+  AUD: 1.52,
+  NZD: 1.66,
+  JPY: 150,
+  CHF: 0.88,
+  SEK: 10.5,
+  INR: 83.2,
+  MXN: 17.1
+};
+
+// Rate between two currencies of the same table, as units of `to` per unit of `from`
+export function getCrossRate(rates: Record<string, number>, from: string, to: string): number {
+  const fromRate = rates[from.toUpperCase()];
+  const toRate = rates[to.toUpperCase()];
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate from ${from.toUpperCase()} to ${to.toUpperCase()}`);
+  }
+  return toRate / fromRate;
+}
+
+// Example: fixed rates from a table, no network calls
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  constructor(private rates: Record<string, number> = STATIC_EXCHANGE_RATES) {}
+
+  get currencies(): string[] {
+    return Object.keys(this.rates);
+  }
+
+  getRate(from: string, to: string): number {
+    return getCrossRate(this.rates, from, to);
+  }
+}
@@ -5,9 +5,44 @@ export { AIShoppingAssistant } from './component';
 // Provider implementations
 export { StripePaymentProvider } from './providers/stripe';
 
+// LLM providers
+export { AzureOpenAIProvider, OpenAICompatibleProvider, MockLLMProvider } from './llm-providers';
+export type { MockLLMReply, MockLLMStep } from './llm-providers';
+
+// Order pricing shared by the engine and the host app
+export {
+  calculateOrderPricing,
+  convertItemsToOrderCurrency,
+  DEFAULT_TAX_RATE,
+  DEFAULT_FREE_SHIPPING_THRESHOLD,
+  DEFAULT_SHIPPING_RATE
+} from './pricing';
+
+// Integer minor-unit money helpers
+export {
+  getCurrencyDigits,
+  isMoney,
+  zeroMoney,
+  toMoney,
+  toMajorUnits,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  sumMoney,
+  minMoney,
+  negateMoney,
+  convertMoney,
+  formatMoney
+} from './money';
+
+// Exchange rates for multi-currency catalogs
+export { STATIC_EXCHANGE_RATES, getCrossRate, StaticExchangeRateProvider } from './exchange-rates';
+
 // Calculation providers for tax and shipping
 export {
   USTaxProvider,
+  FlatRateTaxProvider,
+  ThresholdShippingProvider,
   TieredShippingProvider,
   NoTaxProvider,
   FreeShippingProvider,
@@ -19,11 +54,18 @@ export {
 // Types
 export type {
   AIShoppingConfig,
+  Money,
   Product,
+  ProductStock,
+  ProductVariant,
+  VariantOptions,
   CartItem,
   Cart,
   ShippingAddress,
   OrderSummary,
+  OrderPricing,
+  PriceLine,
+  AppliedDiscount,
   PaymentResult,
   SecureToken,
   CustomerInfo,
@@ -33,12 +75,23 @@ export type {
   AuthProvider,
   ProfileProvider,
   OrderProvider,
+  OrderActionResult,
+  InventoryProvider,
+  PromotionProvider,
   OrderData,
   TaxProvider,
   ShippingProvider,
   OrderCalculationsProvider,
+  ExchangeRateProvider,
   TaxCalculationContext,
   ShippingCalculationContext,
+  LLMProvider,
+  LLMMessage,
+  LLMContentPart,
+  LLMTool,
+  LLMToolCall,
+  LLMCompletion,
+  LLMCompletionOptions,
   ChatMessage,
   ChatAction,
   ToolResult
@@ -0,0 +1,191 @@
+/**
+ * LLM providers for chat completions with tools and JSON output
+ * Azure OpenAI and any OpenAI-compatible API (OpenAI, Ollama, vLLM, LM Studio)
+ * speak the same chat completions format and differ only in URL and auth.
+ * MockLLMProvider plays back a script so apps can run and be tested offline.
+ */
+
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMProvider, LLMToolCall } from './types';
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: LLMToolCall[] };
+    finish_reason?: string;
+  }>;
+}
+
+// Endpoints and base URLs are accepted with or without a trailing slash
+export function normalizeEndpoint(url: string | undefined): string {
+  return (url || '').replace(/\/+$/, '');
+}
+
+function toRequestBody(
+  messages: LLMMessage[],
+  options: LLMCompletionOptions,
+  supportsStructuredOutput: boolean
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    messages,
+    max_tokens: options.maxTokens ?? 2000,
+    temperature: options.temperature ?? 0.7
+  };
+  if (options.topP !== undefined) body.top_p = options.topP;
+  if (options.tools?.length) {
+    body.tools = options.tools;
+    body.tool_choice = options.toolChoice || 'auto';
+  }
+  if (options.responseFormat === 'json') {
+    body.response_format = options.jsonSchema && supportsStructuredOutput
+      ? { type: 'json_schema', json_schema: { ...options.jsonSchema, strict: false } }
+      : { type: 'json_object' };
+  }
+  return body;
+}
+
+async function requestChatCompletion(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>
+): Promise<LLMCompletion> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${providerName} error:`, response.status, errorText);
+    throw new Error(`${providerName} API error: ${response.status}`);
+  }
+
+  const result: ChatCompletionResponse = await response.json();
+  const choice = result.choices?.[0];
+  return {
+    content: choice?.message?.content ?? null,
+    toolCalls: choice?.message?.tool_calls || [],
+    finishReason: choice?.finish_reason
+  };
+}
+
+export class AzureOpenAIProvider implements LLMProvider {
+  readonly name = 'azure-openai';
+  readonly model: string;
+  private endpoint: string;
+
+  constructor(
+    endpoint: string,
+    private apiKey: string,
+    deploymentName: string,
+    private apiVersion: string = '2024-12-01-preview',
+    readonly supportsVision: boolean = true,
+    readonly supportsStructuredOutput: boolean = true
+  ) {
+    this.endpoint = normalizeEndpoint(endpoint);
+    this.model = deploymentName;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    if (!this.endpoint || !this.apiKey) {
+      throw new Error('Azure OpenAI configuration missing');
+    }
+
+    return requestChatCompletion(
+      'Azure OpenAI',
+      `${this.endpoint}/openai/deployments/${this.model}/chat/completions?api-version=${this.apiVersion}`,
+      { 'api-key': this.apiKey },
+      toRequestBody(messages, options, this.supportsStructuredOutput)
+    );
+  }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    readonly model: string,
+    private apiKey?: string, // Local servers often need none
+    readonly supportsVision: boolean = true,
+    readonly supportsStructuredOutput: boolean = true
+  ) {
+    this.baseUrl = normalizeEndpoint(baseUrl);
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    return requestChatCompletion(
+      'OpenAI-compatible',
+      `${this.baseUrl}/chat/completions`,
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      { model: this.model, ...toRequestBody(messages, options, this.supportsStructuredOutput) }
+    );
+  }
+}
+
+export interface MockLLMReply {
+  content?: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+// A scripted reply, or a function that works one out from the request
+export type MockLLMStep = MockLLMReply | ((messages: LLMMessage[], options: LLMCompletionOptions) => MockLLMReply);
+
+/**
+ * Scripted LLM for offline runs and tests
+ * Each completion plays the next step of the script. Once the script runs
+ * out it answers text requests by quoting the last user message and JSON
+ * requests with an empty object, so the same input always gets the same output.
+ */
+// Requests MockLLMProvider keeps for inspection; older ones are dropped so a
+// long-running mock server doesn't hold every conversation in memory
+const MAX_RECORDED_MOCK_CALLS = 50;
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  readonly supportsVision = true;
+  readonly supportsStructuredOutput = true;
+  // The most recent requests, for tests to inspect
+  readonly calls: Array<{ messages: LLMMessage[]; options: LLMCompletionOptions }> = [];
+  private position = 0;
+  private callCount = 0;
+
+  constructor(private script: MockLLMStep[] = []) {}
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    this.callCount++;
+    this.calls.push({ messages, options });
+    if (this.calls.length > MAX_RECORDED_MOCK_CALLS) {
+      this.calls.shift();
+    }
+
+    const step = this.script[this.position++];
+    const reply = typeof step === 'function' ? step(messages, options) : step || this.getDefaultReply(messages, options);
+
+    const toolCalls: LLMToolCall[] = (reply.toolCalls || []).map((toolCall, index) => ({
+      id: `call_mock_${this.callCount}_${index}`,
+      type: 'function',
+      function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) }
+    }));
+
+    return {
+      content: reply.content ?? null,
+      toolCalls,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop'
+    };
+  }
+
+  private getDefaultReply(messages: LLMMessage[], options: LLMCompletionOptions): MockLLMReply {
+    if (options.responseFormat === 'json') {
+      return { content: '{}' };
+    }
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    const content = lastUserMessage?.content;
+    const text = Array.isArray(content)
+      ? content.map(part => part.type === 'text' ? part.text : '[image]').join(' ')
+      : content || '';
+    return { content: `Mock response to: ${text}` };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Money
+ * Amounts are whole numbers of the currency's minor unit (cents for USD, yen
+ * for JPY), so totals add up exactly and the amount charged in Stripe is the
+ * amount shown. Convert to and from decimal prices only at the edges.
+ */
+
+import { Money } from './types';
+
+// Digits after the decimal point, e.g. 2 for USD and 0 for JPY
+export function getCurrencyDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'object' && value !== null &&
+    Number.isInteger((value as Money).amount) &&
+    typeof (value as Money).currency === 'string';
+}
+
+export function zeroMoney(currency: string): Money {
+  return { amount: 0, currency: currency.toUpperCase() };
+}
+
+// Convert a decimal price such as 19.99 to Money
+export function toMoney(majorAmount: number, currency: string): Money {
+  const factor = 10 ** getCurrencyDigits(currency);
+  // toPrecision drops float noise first, so 1.005 * 100 rounds to 101 rather than 100
+  return { amount: Math.round(Number((majorAmount * factor).toPrecision(15))), currency: currency.toUpperCase() };
+}
+
+// Convert Money back to a decimal price, for display and for legacy callers
+export function toMajorUnits(money: Money): number {
+  return money.amount / 10 ** getCurrencyDigits(money.currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+// Multiply by a quantity or rate, rounding to the nearest minor unit
+export function multiplyMoney(money: Money, factor: number): Money {
+  return { amount: Math.round(Number((money.amount * factor).toPrecision(15))), currency: money.currency };
+}
+
+// Convert to another currency at a rate given as units of that currency per unit of this one
+export function convertMoney(money: Money, currency: string, rate: number): Money {
+  const target = currency.toUpperCase();
+  if (money.currency === target) {
+    return money;
+  }
+  return toMoney(toMajorUnits(money) * rate, target);
+}
+
+export function sumMoney(amounts: Money[], currency: string): Money {
+  return amounts.reduce(addMoney, zeroMoney(currency));
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount <= b.amount ? a : b;
+}
+
+export function negateMoney(money: Money): Money {
+  return { amount: -money.amount, currency: money.currency };
+}
+
+export function formatMoney(money: Money, locale: string = 'en-US'): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(toMajorUnits(money));
+}
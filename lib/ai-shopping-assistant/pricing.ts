@@ -0,0 +1,131 @@
+/**
+ * Order pricing
+ * The single calculation behind every order total: the engine uses it for
+ * previews and payments, and apps can call it so their own checkout charges
+ * exactly what the assistant quotes.
+ */
+
+import {
+  AppliedDiscount,
+  CartItem,
+  OrderCalculationsProvider,
+  OrderPricing,
+  PriceLine,
+  ShippingAddress,
+  ShippingCalculationContext,
+  TaxCalculationContext
+} from './types';
+import {
+  addMoney,
+  convertMoney,
+  minMoney,
+  multiplyMoney,
+  negateMoney,
+  subtractMoney,
+  sumMoney,
+  toMoney,
+  zeroMoney
+} from './money';
+
+// Defaults used when no tax or shipping provider is configured, in the order currency's major unit
+export const DEFAULT_TAX_RATE = 0.08;
+export const DEFAULT_FREE_SHIPPING_THRESHOLD = 50;
+export const DEFAULT_SHIPPING_RATE = 9.99;
+
+/**
+ * Convert item prices to the order currency
+ * Items already in the order currency are returned as they are; any others
+ * need an exchange rate provider.
+ */
+export async function convertItemsToOrderCurrency(
+  items: CartItem[],
+  orderCalculations?: OrderCalculationsProvider
+): Promise<CartItem[]> {
+  const currency = (orderCalculations?.currency || 'USD').toUpperCase();
+  return Promise.all(items.map(async item => {
+    if (item.price.currency === currency) {
+      return item;
+    }
+    if (!orderCalculations?.exchangeRateProvider) {
+      throw new Error(`Cannot price ${item.price.currency} items in ${currency} without an exchange rate provider`);
+    }
+    const rate = await orderCalculations.exchangeRateProvider.getRate(item.price.currency, currency);
+    return { ...item, price: convertMoney(item.price, currency, rate) };
+  }));
+}
+
+/**
+ * Calculate an itemized order total
+ * Discounts come off the subtotal first; tax and shipping are worked out on
+ * what is left, and never total more than the subtotal: once it is used up,
+ * later discounts are cut down to what remains, so their lines add up to the
+ * discount taken. A free-shipping discount sets shipping to zero. Items priced
+ * in other currencies are converted first, and discounts must already be in
+ * the order currency, so the lines add up to the total exactly.
+ */
+export async function calculateOrderPricing(
+  items: CartItem[],
+  orderCalculations?: OrderCalculationsProvider,
+  options: { shippingAddress?: ShippingAddress; discounts?: AppliedDiscount[] } = {}
+): Promise<OrderPricing> {
+  const { shippingAddress } = options;
+  const currency = orderCalculations?.currency || 'USD';
+  const orderItems = await convertItemsToOrderCurrency(items, orderCalculations);
+  const itemTotals = orderItems.map(item => multiplyMoney(item.price, item.quantity));
+  const subtotal = sumMoney(itemTotals, currency);
+
+  // Never discount more than the subtotal
+  let remaining = subtotal;
+  const discounts = (options.discounts || []).map(applied => {
+    const amount = minMoney(remaining, applied.amount);
+    remaining = subtractMoney(remaining, amount);
+    return { ...applied, amount };
+  });
+  const discount = sumMoney(discounts.map(applied => applied.amount), currency);
+  const discountedSubtotal = subtractMoney(subtotal, discount);
+
+  const taxContext: TaxCalculationContext = { subtotal: discountedSubtotal, shippingAddress, items: orderItems };
+  const shippingContext: ShippingCalculationContext = { subtotal: discountedSubtotal, shippingAddress, items: orderItems };
+
+  // Use custom providers if available, otherwise use defaults
+  const tax = orderCalculations?.taxProvider
+    ? await orderCalculations.taxProvider.calculateTax(taxContext)
+    : multiplyMoney(discountedSubtotal, DEFAULT_TAX_RATE);
+
+  const shipping = discounts.some(applied => applied.freeShipping)
+    ? zeroMoney(currency)
+    : orderCalculations?.shippingProvider
+    ? await orderCalculations.shippingProvider.calculateShipping(shippingContext)
+    : discountedSubtotal.amount > toMoney(DEFAULT_FREE_SHIPPING_THRESHOLD, currency).amount
+    ? zeroMoney(currency)
+    : toMoney(DEFAULT_SHIPPING_RATE, currency);
+
+  const lines: PriceLine[] = [
+    ...orderItems.map((item, index) => ({
+      type: 'item' as const,
+      label: item.name,
+      amount: itemTotals[index],
+      productId: item.id,
+      quantity: item.quantity
+    })),
+    ...discounts.map(applied => ({
+      type: 'discount' as const,
+      label: applied.description,
+      amount: negateMoney(applied.amount),
+      code: applied.code
+    })),
+    { type: 'shipping', label: 'Shipping', amount: shipping },
+    { type: 'tax', label: 'Tax', amount: tax }
+  ];
+
+  return {
+    subtotal,
+    discount,
+    discounts,
+    shipping,
+    tax,
+    total: addMoney(addMoney(discountedSubtotal, shipping), tax),
+    currency,
+    lines
+  };
+}
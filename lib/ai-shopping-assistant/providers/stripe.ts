@@ -1,5 +1,7 @@
 import Stripe from 'stripe';
+import { createHash } from 'crypto';
 import { PaymentProvider, Cart, CustomerInfo, SecureToken, PaymentResult, ShippingAddress, OrderSummary } from '../types';
+import { formatMoney } from '../money';
 
 export class StripePaymentProvider implements PaymentProvider {
   name = 'stripe';
@@ -86,14 +88,14 @@ export class StripePaymentProvider implements PaymentProvider {
         paymentMethodId = paymentMethods.data[0].id;
       }
 
-      // Calculate total in cents - use order totals if provided, otherwise fallback to cart total
+      // Use order totals if provided, otherwise fallback to cart total
+      // Money is already in the minor unit Stripe expects
       const totalAmount = orderTotals ? orderTotals.total : cart.totalAmount;
-      const totalInCents = Math.round(totalAmount * 100);
 
       // Create payment intent with manual capture
       const paymentIntent = await this.stripe.paymentIntents.create({
-        amount: totalInCents,
-        currency: 'usd',
+        amount: totalAmount.amount,
+        currency: totalAmount.currency.toLowerCase(),
         payment_method: paymentMethodId,
         customer: stripeCustomer.id,
         capture_method: 'manual',
@@ -106,14 +108,16 @@ export class StripePaymentProvider implements PaymentProvider {
           cart_hash: this.generateCartHash(cart),
           generated_at: new Date().toISOString(),
           expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(), // 30 minutes
+          ...(orderTotals?.discounts?.length && {
+            promotion_code: orderTotals.discounts.map(applied => applied.code).join(',')
+          }),
         },
-        description: `AI Assistant Order - ${cart.items.length} items${orderTotals ? ` (Subtotal: $${orderTotals.subtotal}, Tax: $${orderTotals.tax}, Shipping: $${orderTotals.shipping})` : ''}`
+        description: `AI Assistant Order - ${cart.items.length} items${orderTotals ? ` (Subtotal: ${formatMoney(orderTotals.subtotal)}, ${orderTotals.discount?.amount ? `Discount: ${formatMoney(orderTotals.discount)}, ` : ''}Tax: ${formatMoney(orderTotals.tax)}, Shipping: ${formatMoney(orderTotals.shipping)})` : ''}`
       });
 
       return {
         token: paymentIntent.id,
         amount: totalAmount,
-        currency: orderTotals?.currency || 'usd',
         expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString()
       };
     } catch (error) {
@@ -154,22 +158,26 @@ export class StripePaymentProvider implements PaymentProvider {
         console.log('Payment intent confirmed, status:', finalPaymentIntent.status);
       }
       
+      // Generate order ID (in a real system, this would be from your order management system)
+      // and record it on the intent so payment webhooks can match the two
+      const orderId = `ORD_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`.toUpperCase();
+
       // Now capture the payment
-      const captureResult = await this.stripe.paymentIntents.capture(token);
+      const captureResult = await this.stripe.paymentIntents.capture(token, {
+        metadata: { order_id: orderId }
+      });
       
       if (captureResult.status !== 'succeeded') {
         throw new Error(captureResult.last_payment_error?.message || 'Payment capture failed');
       }
 
-      // Generate order ID (in a real system, this would be from your order management system)
-      const orderId = `ORD_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
       return {
         success: true,
-        orderId: orderId.toUpperCase(),
+        orderId,
         transactionId: captureResult.id,
-        total: orderTotals ? orderTotals.total : (captureResult.amount / 100),
-        currency: orderTotals?.currency || captureResult.currency
+        total: orderTotals
+          ? orderTotals.total
+          : { amount: captureResult.amount_received, currency: captureResult.currency.toUpperCase() }
       };
     } catch (error) {
       console.error('Error capturing Stripe payment:', error);
@@ -180,12 +188,14 @@ export class StripePaymentProvider implements PaymentProvider {
     }
   }
 
+  // Covers every product, variant, quantity and unit price, so any cart change invalidates the token
   private generateCartHash(cart: Cart): string {
-    const cartString = cart.items
-      .sort((a, b) => a.id.localeCompare(b.id))
-      .map(item => `${item.id}:${item.quantity}:${item.price}`)
-      .join('|');
-    
-    return Buffer.from(cartString).toString('base64').slice(0, 16);
+    const lines = cart.items
+      .map(item => {
+        const variant = Object.entries(item.variant || {}).filter(([, value]) => value).sort().map(([axis, value]) => `${axis}:${value}`).join('|');
+        return `${item.id}#${variant}:${item.quantity}:${item.price.amount}:${item.price.currency}`;
+      })
+      .sort();
+    return createHash('sha256').update(lines.join('\n')).digest('hex');
   }
 }
\ No newline at end of file
@@ -1,5 +1,11 @@
 // Core types for AI Shopping Assistant
 
+// An amount in the currency's minor unit (cents for USD), see money.ts
+export interface Money {
+  amount: number; // Whole number
+  currency: string; // ISO 4217 code, e.g. USD
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -8,20 +14,43 @@ export interface Product {
   category: string;
   imageUrl?: string;
   specifications?: Record<string, string | number | boolean>;
+  stock?: ProductStock; // Omitted for products without stock tracking
+  variants?: ProductVariant[]; // Purchasable size/color/style combinations, if any
+}
+
+export interface VariantOptions {
+  size?: string;
+  color?: string;
+  style?: string;
+}
+
+export interface ProductVariant {
+  sku: string;
+  options: VariantOptions;
+  price: number;
+  stock?: ProductStock;
+}
+
+export interface ProductStock {
+  status: 'in_stock' | 'low_stock' | 'out_of_stock';
+  available: number;
+  message?: string; // e.g. "Only 3 left"
 }
 
 export interface CartItem {
   id: string;
   name: string;
-  price: number;
+  price: Money; // Unit price
   quantity: number;
   imageUrl?: string;
+  variant?: VariantOptions;
+  sku?: string;
 }
 
 export interface Cart {
   items: CartItem[];
   totalItems: number;
-  totalAmount: number;
+  totalAmount: Money;
   sessionId: string;
 }
 
@@ -37,39 +66,72 @@ export interface ShippingAddress {
   phone?: string;
 }
 
+export interface AppliedDiscount {
+  code: string;
+  description: string;
+  amount: Money; // Taken off the subtotal
+  freeShipping?: boolean;
+}
+
 export interface OrderSummary {
-  subtotal: number;
-  tax: number;
-  shipping: number;
-  total: number;
+  subtotal: Money;
+  discount?: Money;
+  discounts?: AppliedDiscount[];
+  tax: Money;
+  shipping: Money;
+  total: Money;
   currency: string;
+  lines?: PriceLine[];
+}
+
+// One row of an itemized order total
+export interface PriceLine {
+  type: 'item' | 'discount' | 'shipping' | 'tax';
+  label: string;
+  amount: Money; // Negative for discounts
+  productId?: string;
+  quantity?: number;
+  code?: string; // Promotion code, for discount lines
+}
+
+// Totals as worked out by calculateOrderPricing, always itemized
+export interface OrderPricing extends OrderSummary {
+  discount: Money;
+  discounts: AppliedDiscount[];
+  lines: PriceLine[];
 }
 
 // New configurable calculation interfaces
 export interface TaxCalculationContext {
-  subtotal: number;
+  subtotal: Money;
   shippingAddress?: ShippingAddress;
   items: CartItem[];
 }
 
 export interface ShippingCalculationContext {
-  subtotal: number;
+  subtotal: Money;
   shippingAddress?: ShippingAddress;
   items: CartItem[];
   totalWeight?: number;
 }
 
 export interface TaxProvider {
-  calculateTax(context: TaxCalculationContext): Promise<number> | number;
+  calculateTax(context: TaxCalculationContext): Promise<Money> | Money;
 }
 
 export interface ShippingProvider {
-  calculateShipping(context: ShippingCalculationContext): Promise<number> | number;
+  calculateShipping(context: ShippingCalculationContext): Promise<Money> | Money;
+}
+
+// Converts between currencies; the rate is units of `to` per unit of `from`
+export interface ExchangeRateProvider {
+  getRate(from: string, to: string): Promise<number> | number;
 }
 
 export interface OrderCalculationsProvider {
   taxProvider?: TaxProvider;
   shippingProvider?: ShippingProvider;
+  exchangeRateProvider?: ExchangeRateProvider; // Converts items priced in other currencies to the order currency
   currency?: string;
 }
 
@@ -77,15 +139,13 @@ export interface PaymentResult {
   success: boolean;
   orderId?: string;
   transactionId?: string;
-  total?: number;
-  currency?: string;
+  total?: Money;
   error?: string;
 }
 
 export interface SecureToken {
   token: string;
-  amount: number;
-  currency: string;
+  amount: Money;
   expiresAt: string;
 }
 
@@ -97,13 +157,15 @@ export interface CustomerInfo {
 
 // Provider Interfaces
 export interface ProductProvider {
-  search(query: string, options?: { category?: string; limit?: number }): Promise<Product[]>;
+  // specs are filter expressions such as "Weight<2kg"; invalid ones should throw.
+  // userIdentifier is set for searches the assistant makes for a shopper.
+  search(query: string, options?: { category?: string; limit?: number; specs?: string[]; userIdentifier?: string }): Promise<Product[]>;
 }
 
 export interface CartProvider {
   getCart(sessionId: string): Promise<Cart>;
-  addItems(sessionId: string, items: Array<{ productId: string; quantity: number }>): Promise<Cart>;
-  removeItems(sessionId: string, items: Array<{ productId: string; quantity?: number; removeAll?: boolean }>): Promise<Cart>;
+  addItems(sessionId: string, items: Array<{ productId: string; quantity: number; variant?: VariantOptions }>): Promise<Cart>;
+  removeItems(sessionId: string, items: Array<{ productId: string; quantity?: number; removeAll?: boolean; variant?: VariantOptions }>): Promise<Cart>;
   clearCart(sessionId: string): Promise<Cart>;
 }
 
@@ -114,6 +176,27 @@ export interface PaymentProvider {
   validateCustomer(email: string): Promise<CustomerInfo>;
 }
 
+export interface InventoryProvider {
+  // Hold stock for a payment token; throws if there is not enough available
+  reserveStock(
+    reservationId: string,
+    items: Array<{ productId: string; quantity: number; variant?: VariantOptions }>,
+    options?: { expiresAt?: string; userEmail?: string }
+  ): Promise<void>;
+  releaseStock(reservationId: string): Promise<void>;
+}
+
+export interface PromotionProvider {
+  // Work out the discount a code gives on the cart; throws if the code can't be used
+  applyPromotion(code: string, items: CartItem[], userEmail: string): Promise<AppliedDiscount>;
+  // Optional - hold a use of the code for a checkout until it is redeemed or released;
+  // throws if the code can't be used, e.g. its last use is held by another checkout
+  reservePromotion?(code: string, reservationId: string, items: CartItem[], expiresAt: string): Promise<void>;
+  releasePromotion?(code: string, reservationId: string): Promise<void>;
+  // Count the redemption once the order is saved, ending the checkout's hold
+  redeemPromotion(code: string, orderId: string, reservationId?: string): Promise<void>;
+}
+
 export interface AuthProvider {
   getCurrentUser(): Promise<{ email: string; name?: string } | null>;
   validateServerAuth(userEmail: string): Promise<boolean>;
@@ -123,8 +206,24 @@ export interface ProfileProvider {
   getShippingAddress(userEmail: string): Promise<ShippingAddress | null>;
 }
 
+export interface OrderActionResult {
+  success: boolean;
+  orderId: string;
+  status?: string;
+  refundedAmount?: Money;
+  refundRequestId?: string; // Set when a refund was requested for review rather than made
+  error?: string;
+}
+
 export interface OrderProvider {
   saveOrder(orderData: OrderData, userEmail: string): Promise<{ success: boolean; orderId: string; error?: string }>;
+  // Optional - enables the cancel_order and request_refund tools
+  cancelOrder?(orderId: string, userEmail: string, reason?: string): Promise<OrderActionResult>;
+  requestRefund?(
+    orderId: string,
+    userEmail: string,
+    options: { items?: Array<{ productId: string; quantity: number }>; reason?: string }
+  ): Promise<OrderActionResult>;
 }
 
 export interface OrderData {
@@ -147,30 +246,91 @@ export interface OrderData {
     id: string;
     productName: string;
     quantity: number;
-    price: number;
-    currency: string;
+    price: Money; // Unit price
+    variant?: VariantOptions;
+    sku?: string;
   }>;
   totals: {
-    subtotal: number;
-    shipping: number;
-    tax: number;
-    total: number;
+    subtotal: Money;
+    discount?: Money;
+    discounts?: AppliedDiscount[];
+    shipping: Money;
+    tax: Money;
+    total: Money;
     currency: string;
+    lines?: PriceLine[];
   };
   status: 'confirmed' | 'processing' | 'shipped' | 'delivered';
   createdAt: string;
   userId: string;
 }
 
+// LLM Types
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON
+  };
+}
+
+// Part of a multimodal user message; images need a vision-capable model
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } }; // https or data: URL
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | LLMContentPart[] | null;
+  tool_calls?: LLMToolCall[]; // assistant messages that call tools
+  tool_call_id?: string; // tool results
+  name?: string;
+}
+
+export interface LLMTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>; // JSON Schema
+  };
+}
+
+export interface LLMCompletionOptions {
+  tools?: LLMTool[];
+  toolChoice?: 'auto' | 'none';
+  responseFormat?: 'text' | 'json'; // json asks for a single JSON object
+  jsonSchema?: { name: string; schema: Record<string, unknown> }; // With json, the shape the object must have
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  finishReason?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly supportsVision: boolean; // Whether messages may include images
+  readonly supportsStructuredOutput: boolean; // Whether jsonSchema is enforced by the model, not just described
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+}
+
 // Configuration Interface
 export interface AIShoppingConfig {
-  // AI Configuration
-  azureOpenAI: {
+  // AI Configuration - llmProvider wins; azureOpenAI is kept for existing setups
+  llmProvider?: LLMProvider;
+  azureOpenAI?: {
     endpoint: string;
     apiKey: string;
     deploymentName: string;
   };
-  
+
   // Provider Implementations
   productProvider: ProductProvider;
   cartProvider: CartProvider;
@@ -178,6 +338,8 @@ export interface AIShoppingConfig {
   authProvider?: AuthProvider;  // Optional - may be handled at API level
   profileProvider: ProfileProvider;
   orderProvider: OrderProvider;
+  inventoryProvider?: InventoryProvider; // Optional - reserves stock during checkout
+  promotionProvider?: PromotionProvider; // Optional - enables discount codes at checkout
   
   // Order Calculations (optional - falls back to defaults)
   orderCalculations?: OrderCalculationsProvider;
@@ -3,7 +3,11 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { saveOrderToSupabase, OrderData } from '@/lib/supabase-storage';
 import { CartItem } from '@/contexts/CartContext';
-import { calculateOrderTotals } from '@/lib/order-calculations';
+import { convertItemsToStoreCurrency } from '@/lib/currency';
+import { generateCartHash, getPromotionItems, priceOrder, toOrderTotals, toStripeAmount, toStripeCurrency } from '@/lib/pricing';
+import { formatMoney } from '@/lib/money';
+import { commitOrderStock, releaseStockReservation } from '@/lib/inventory';
+import { getPromotionByCode, redeemPromotion, releasePromotionReservation, reservePromotion } from '@/lib/promotions';
 import Stripe from 'stripe';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -62,9 +66,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Step 3: Security checks - token expiration
+    // The token's hold on a discount code, if it has one
+    const promotionReservationId = paymentIntent.metadata.promotion_reservation || shared_payment_token;
     const expiresAt = new Date(paymentIntent.metadata.expires_at);
     if (expiresAt < new Date()) {
         console.log('Payment token expired at:', expiresAt.toISOString());
+      await releaseStockReservation(shared_payment_token);
+      if (paymentIntent.metadata.promotion_code) {
+        await releasePromotionReservation(paymentIntent.metadata.promotion_code, promotionReservationId);
+      }
       return NextResponse.json({ error: 'Payment token expired' }, { status: 410 });
     }
 
@@ -78,21 +88,40 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Step 4: Calculate totals using utility function
-    const orderTotals = calculateOrderTotals(cartItems);
-
-    // Use full total including tax and shipping (should match SPT creation)
-    const total = orderTotals.total; // This includes subtotal + tax + shipping
+    // Step 4: Price the order with the pricing service, exactly as the SPT endpoint did
+    // A discount code is locked in when the token is created, so only its held use is confirmed below
+    const promotion = paymentIntent.metadata.promotion_code
+      ? await getPromotionByCode(paymentIntent.metadata.promotion_code)
+      : null;
+    const orderPricing = await priceOrder(cartItems, {
+      promotions: promotion ? [promotion] : [],
+      shippingAddress: shippingInfo
+    });
+    const total = orderPricing.total; // This includes discounts, tax and shipping
 
-    // Verify amount matches payment intent
-    if (Math.abs(total - (paymentIntent.amount / 100)) > 0.01) {
-        console.log('Calculated total:', total);
-        console.log('Payment intent amount:', paymentIntent.amount / 100);
+    // Verify amount and currency match the payment intent
+    if (toStripeAmount(orderPricing) !== paymentIntent.amount || toStripeCurrency(orderPricing) !== paymentIntent.currency) {
+        console.log('Calculated total:', formatMoney(total));
+        console.log('Payment intent amount:', paymentIntent.amount, paymentIntent.currency);
       return NextResponse.json({ 
         error: 'Order total mismatch with payment token' 
       }, { status: 400 });
     }
 
+    // Confirm the token still holds a use of the code before any money moves. This
+    // re-takes a lost hold under the promotions lock, failing if the last use went elsewhere
+    if (promotion) {
+      try {
+        await reservePromotion(promotion.code, promotionReservationId, await getPromotionItems(cartItems), paymentIntent.metadata.expires_at);
+      } catch (error) {
+        await stripe.paymentIntents.cancel(shared_payment_token);
+        await releaseStockReservation(shared_payment_token);
+        return NextResponse.json({ 
+          error: error instanceof Error ? error.message : 'Invalid discount code' 
+        }, { status: 409 });
+      }
+    }
+
     // Step 5: Confirm and capture the payment
     let finalPaymentIntent = paymentIntent;
     
@@ -103,10 +132,19 @@ export async function POST(request: NextRequest) {
       console.log('Payment intent confirmed, status:', finalPaymentIntent.status);
     }
     
+    // Reserve the order ID and record it on the intent so payment webhooks can match them
+    const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+
     // Now capture the payment
-    const captureResult = await stripe.paymentIntents.capture(shared_payment_token);
+    const captureResult = await stripe.paymentIntents.capture(shared_payment_token, {
+      metadata: { order_id: orderId }
+    });
     
     if (captureResult.status !== 'succeeded') {
+      await releaseStockReservation(shared_payment_token);
+      if (promotion) {
+        await releasePromotionReservation(promotion.code, promotionReservationId);
+      }
       return NextResponse.json({ 
         error: 'Payment capture failed', 
         details: captureResult.last_payment_error?.message,
@@ -114,10 +152,8 @@ export async function POST(request: NextRequest) {
       }, { status: 402 });
     }
 
-    // Step 6: Generate order ID and create order
-    const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-
-    const orderData: OrderData = {
+    // Step 6: Create order
+    const draftOrder: OrderData = {
       orderId,
       paymentIntentId: shared_payment_token,
       customerInfo: {
@@ -133,20 +169,16 @@ export async function POST(request: NextRequest) {
         zipCode: shippingInfo.zipCode,
         country: shippingInfo.country || 'US',
       },
-      items: cartItems.map((item: CartItem) => ({
+      // Stored in the order currency, like the totals
+      items: (await convertItemsToStoreCurrency(cartItems as CartItem[])).map(item => ({
         id: item.id,
         productName: item.productName,
         quantity: item.quantity,
         price: item.price,
-        currency: item.currency,
+        ...(item.variant && { variant: item.variant }),
+        ...(item.sku && { sku: item.sku }),
       })),
-      totals: {
-        subtotal: orderTotals.subtotal,
-        shipping: 0, // Free shipping for SPT demo
-        tax: orderTotals.tax,
-        total,
-        currency: 'USD',
-      },
+      totals: toOrderTotals(orderPricing),
       status: 'confirmed',
       createdAt: new Date().toISOString()
     };
@@ -156,9 +188,14 @@ export async function POST(request: NextRequest) {
       console.log('Order note:', orderNote);
     }
 
-    // Step 7: Save order to Supabase
+    // Step 7: Take the reserved items out of stock and save order to Supabase
+    const orderData = await commitOrderStock(draftOrder);
     await saveOrderToSupabase(orderData);
 
+    if (promotion) {
+      await redeemPromotion(promotion.code, orderId, promotionReservationId);
+    }
+
     console.log('Agent checkout completed successfully:', orderId);
 
     return NextResponse.json({
@@ -169,7 +206,7 @@ export async function POST(request: NextRequest) {
       orderData: {
         orderId,
         total,
-        currency: 'USD',
+        currency: orderPricing.currency,
         items: cartItems.length,
         status: 'confirmed'
       }
@@ -186,13 +223,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper function to generate consistent cart hash (same as SPT endpoint)
-function generateCartHash(cartItems: CartItem[]): string {
-  const cartString = cartItems
-    .sort((a, b) => a.id.localeCompare(b.id))
-    .map(item => `${item.id}:${item.quantity}:${item.price}`)
-    .join('|');
-  
-  return Buffer.from(cartString).toString('base64').slice(0, 16);
-}
\ No newline at end of file
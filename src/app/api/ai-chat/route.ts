@@ -6,12 +6,16 @@ import {
   AIShoppingEngine,
   StripePaymentProvider,
   createAIShoppingConfig,
-  USTaxProvider,
-  TieredShippingProvider,
   type ProductProvider,
   type CartProvider,
   type ProfileProvider,
   type OrderProvider,
+  type OrderActionResult,
+  type InventoryProvider,
+  type PromotionProvider,
+  type AppliedDiscount,
+  type ProductStock,
+  type VariantOptions,
   type CartItem,
   type OrderData,
   type Product,
@@ -24,29 +28,107 @@ import {
   saveCartToSupabase, 
   deleteCartFromSupabase,
   getUserProfileFromSupabase,
-  saveOrderToSupabase
+  saveOrderToSupabase,
+  getOrderFromSupabase
 } from '@/lib/supabase-storage';
+import {
+  cancelOrder,
+  isRefundItemList,
+  requestOrderRefund,
+  validateRefundRequest,
+  CUSTOMER_REFUNDABLE_STATUSES
+} from '@/lib/order-refunds';
+import { validateOrderStatusTransition } from '@/lib/order-status';
+import {
+  commitOrderStock,
+  releaseStockReservation,
+  reserveStock,
+  validateStockAvailability
+} from '@/lib/inventory';
+import { getStockInfo, getStockMessage, ProductInventory } from '@/lib/stock-status';
+import {
+  findProductVariant,
+  hasVariants,
+  normalizeVariantSelection,
+  validateVariantSelection
+} from '@/lib/product-variants';
+import { calculatePromotionDiscount, AppliedDiscount as PromotionDiscount } from '@/lib/promotion-rules';
+import { redeemPromotion, releasePromotionReservation, reservePromotion, resolvePromotion } from '@/lib/promotions';
+import { getPromotionItems, orderCalculations } from '@/lib/pricing';
+import { toMoney, zeroMoney } from '@/lib/money';
+import { getItemsTotal } from '@/lib/currency';
+import { searchProducts } from '@/lib/product-search';
+import { parseSpecFilter } from '@/lib/spec-filters';
+import { recordAssistantAddToCart, recordSearch, rememberAssistantSearch } from '@/lib/search-analytics';
+import { llmProvider } from '@/lib/llm';
 
 const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
 
 // Direct service providers that use database calls instead of HTTP (more secure)
 // Note: Using userIdentifier as parameter name for flexibility - can be email, user ID, etc.
+function toProductStock(inventory?: ProductInventory): ProductStock | undefined {
+  const stockInfo = getStockInfo(inventory);
+  if (stockInfo.status === 'untracked') return undefined;
+
+  const stockMessage = getStockMessage(stockInfo);
+  return {
+    status: stockInfo.status,
+    available: stockInfo.available || 0,
+    ...(stockMessage && { message: stockMessage })
+  };
+}
+
 class DirectServiceProductProvider implements ProductProvider {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async search(query: string, options?: { category?: string; limit?: number }): Promise<Product[]> {
-    // TODO: Implement search filtering based on query and options
-    const allProducts = await getProductsFromSupabase();
-    
-    // Map to the expected Product interface
-    return allProducts.map(product => ({
-      id: product.id,
-      name: product.productName,
-      description: product.productName, // ProductIndexItem doesn't have description, use name as fallback
-      price: product.pricing?.price || 0,
-      category: product.category || '',
-      imageUrl: product.imageUrl,
-      specifications: {} // ProductIndexItem doesn't have specifications
-    }));
+  // Ranked by the same keyword and semantic search as the storefront
+  async search(query: string, options?: { category?: string; limit?: number; specs?: string[]; userIdentifier?: string }): Promise<Product[]> {
+    const specs = (options?.specs || []).map(expression => {
+      const filter = parseSpecFilter(expression);
+      if (!filter) {
+        throw new Error(`Invalid specification filter "${expression}"; use e.g. "Color=Black" or "Weight<2kg"`);
+      }
+      return filter;
+    });
+
+    const filters = { category: options?.category, ...(specs.length > 0 && { specs }) };
+    const [{ results, total }, allProducts] = await Promise.all([
+      searchProducts({ query, filters, limit: options?.limit || 10 }),
+      getProductsFromSupabase()
+    ]);
+
+    const searchId = recordSearch({ source: 'assistant', query, filters, resultCount: total });
+    if (options?.userIdentifier) {
+      rememberAssistantSearch(options.userIdentifier, searchId, results.map(result => result.id));
+    }
+
+    const indexItems = new Map(allProducts.map(product => [product.id, product]));
+
+    // Map to the expected Product interface, with stock and variants from the products index
+    return results.map(result => {
+      const product = { ...result, ...indexItems.get(result.id) };
+      const stock = toProductStock(product.inventory);
+      return {
+        id: product.id,
+        name: product.productName,
+        description: result.description || product.productName,
+        price: product.pricing?.price || 0,
+        category: product.category || '',
+        imageUrl: product.imageUrl,
+        specifications: result.specifications || {},
+        ...(stock && { stock }),
+        ...(hasVariants(product) && {
+          variants: product.variants!.map(variant => {
+            // Variants without their own inventory share the product's stock
+            const variantStock = toProductStock(variant.inventory) || stock;
+            return {
+              sku: variant.sku,
+              options: variant.options,
+              price: variant.price ?? product.pricing?.price ?? 0,
+              ...(variantStock && { stock: variantStock })
+            };
+          })
+        })
+      };
+    });
   }
 }
 
@@ -60,43 +142,72 @@ class DirectServiceCartProvider implements CartProvider {
       name: item.productName,
       price: item.price,
       quantity: item.quantity,
-      imageUrl: item.imageUrl
+      imageUrl: item.imageUrl,
+      ...(item.variant && { variant: item.variant }),
+      ...(item.sku && { sku: item.sku })
     }));
     
     return {
       items: mappedCartItems,
       totalItems: mappedCartItems.reduce((sum: number, item: CartItem) => sum + item.quantity, 0),
-      totalAmount: mappedCartItems.reduce((sum: number, item: CartItem) => sum + (item.price * item.quantity), 0),
+      totalAmount: await getItemsTotal(mappedCartItems), // In the store currency
       sessionId: userIdentifier
     };
   }
 
-  async addItems(userIdentifier: string, items: Array<{ productId: string; quantity: number }>): Promise<Cart> {
+  async addItems(userIdentifier: string, items: Array<{ productId: string; quantity: number; variant?: VariantOptions }>): Promise<Cart> {
     const allProducts = await getProductsFromSupabase();
+
+    // Products with variants can only be added as one of their variants
+    for (const item of items) {
+      const product = allProducts.find(p => p.id === item.productId);
+      const variantError = product && validateVariantSelection(product, item.variant);
+      if (variantError) {
+        throw new Error(variantError);
+      }
+    }
+
+    // Check the new quantities together with what is already in the cart
+    const existingItems = await getCartFromSupabase(userIdentifier);
+    const stockError = await validateStockAvailability([
+      ...existingItems.map(item => ({ productId: item.id, quantity: item.quantity, variant: item.variant })),
+      ...items
+    ]);
+    if (stockError) {
+      throw new Error(stockError);
+    }
     
     const cartItems = [];
     for (const item of items) {
       const product = allProducts.find(p => p.id === item.productId);
       if (product && product.pricing) {
+        const variant = normalizeVariantSelection(item.variant);
+        const productVariant = findProductVariant(product, variant);
         cartItems.push({
           id: item.productId,
           productName: product.productName,
-          price: product.pricing.price,
+          price: toMoney(productVariant?.price ?? product.pricing.price, product.pricing.currency || 'USD'),
           quantity: item.quantity,
-          imageUrl: product.imageUrl,
+          imageUrl: productVariant?.imageUrl || product.imageUrl,
+          ...(productVariant && { variant, sku: productVariant.sku }),
           addedAt: new Date().toISOString()
         });
       }
     }
     await saveCartToSupabase(userIdentifier, cartItems);
+    recordAssistantAddToCart(userIdentifier, cartItems.map(item => item.id));
     return await this.getCart(userIdentifier);
   }
 
-  async removeItems(userIdentifier: string, items: Array<{ productId: string; quantity?: number; removeAll?: boolean }>): Promise<Cart> {
+  async removeItems(
+    userIdentifier: string,
+    items: Array<{ productId: string; quantity?: number; removeAll?: boolean; variant?: VariantOptions }>
+  ): Promise<Cart> {
     // Map to the format expected by deleteCartFromSupabase
     const cartItemsToRemove = items.map(item => ({
       productId: item.productId,
-      quantity: item.quantity || 0
+      quantity: item.quantity || 0,
+      variant: normalizeVariantSelection(item.variant)
     }));
     
     await deleteCartFromSupabase(userIdentifier, cartItemsToRemove);
@@ -133,7 +244,12 @@ class DirectServiceOrderProvider implements OrderProvider {
   async saveOrder(orderData: OrderData, userEmail: string): Promise<{ success: boolean; orderId: string; error?: string }> {
     try {
       console.log('DirectServiceOrderProvider: Saving order for user:', userEmail);
-      const savedOrderId = await saveOrderToSupabase(orderData);
+      // Discounts come from DirectServicePromotionProvider, so they carry the full promotion details
+      const order = {
+        ...orderData,
+        totals: { ...orderData.totals, discounts: orderData.totals.discounts as PromotionDiscount[] | undefined }
+      };
+      const savedOrderId = await saveOrderToSupabase(await commitOrderStock(order));
       return { success: true, orderId: savedOrderId };
     } catch (error) {
       console.error('DirectServiceOrderProvider: Error saving order:', error);
@@ -144,25 +260,129 @@ class DirectServiceOrderProvider implements OrderProvider {
       };
     }
   }
+
+  async cancelOrder(orderId: string, userEmail: string, reason?: string): Promise<OrderActionResult> {
+    try {
+      const order = await getOrderFromSupabase(orderId);
+      if (!order || order.customerInfo.email !== userEmail) {
+        return { success: false, orderId, error: 'Order not found' };
+      }
+
+      const validationError = validateOrderStatusTransition(order.status, 'cancelled');
+      if (validationError) {
+        return { success: false, orderId, error: validationError };
+      }
+
+      const updatedOrder = await cancelOrder(orderId, { reason, requestedBy: userEmail });
+      return {
+        success: true,
+        orderId,
+        status: updatedOrder.status,
+        refundedAmount: updatedOrder.totals.refunded || zeroMoney(updatedOrder.totals.currency)
+      };
+    } catch (error) {
+      console.error('DirectServiceOrderProvider: Error cancelling order:', error);
+      return { success: false, orderId, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async requestRefund(
+    orderId: string,
+    userEmail: string,
+    options: { items?: Array<{ productId: string; quantity: number }>; reason?: string }
+  ): Promise<OrderActionResult> {
+    try {
+      const order = await getOrderFromSupabase(orderId);
+      if (!order || order.customerInfo.email !== userEmail) {
+        return { success: false, orderId, error: 'Order not found' };
+      }
+
+      if (!CUSTOMER_REFUNDABLE_STATUSES.includes(order.status)) {
+        return { success: false, orderId, error: `Refunds can only be requested for delivered or returned orders (order is ${order.status})` };
+      }
+
+      const items = Array.isArray(options.items)
+        ? options.items.map(item => ({ id: item?.productId, quantity: item?.quantity }))
+        : options.items;
+      if (items !== undefined && !isRefundItemList(items)) {
+        return { success: false, orderId, error: 'Each item needs a productId and a whole, positive quantity' };
+      }
+
+      const refundRequest = {
+        items,
+        reason: typeof options.reason === 'string' ? options.reason : undefined,
+        requestedBy: userEmail
+      };
+
+      const validationError = validateRefundRequest(order, refundRequest);
+      if (validationError) {
+        return { success: false, orderId, error: validationError };
+      }
+      if (order.refundRequests?.some(r => r.status === 'pending')) {
+        return { success: false, orderId, error: 'A refund request for this order is already waiting for review' };
+      }
+
+      // Staff review the request before any money goes back
+      const result = await requestOrderRefund(orderId, refundRequest);
+      return {
+        success: true,
+        orderId,
+        status: result.order.status,
+        refundRequestId: result.refundRequest.requestId
+      };
+    } catch (error) {
+      console.error('DirectServiceOrderProvider: Error requesting refund:', error);
+      return { success: false, orderId, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+class DirectServiceInventoryProvider implements InventoryProvider {
+  async reserveStock(
+    reservationId: string,
+    items: Array<{ productId: string; quantity: number }>,
+    options?: { expiresAt?: string; userEmail?: string }
+  ): Promise<void> {
+    await reserveStock(reservationId, items, options);
+  }
+
+  async releaseStock(reservationId: string): Promise<void> {
+    await releaseStockReservation(reservationId);
+  }
+}
+
+class DirectServicePromotionProvider implements PromotionProvider {
+  async applyPromotion(code: string, items: CartItem[]): Promise<AppliedDiscount> {
+    // Category-limited codes need each item's category from the catalog
+    const promotionItems = await getPromotionItems(items);
+    const promotion = await resolvePromotion(code, promotionItems);
+    return calculatePromotionDiscount(promotion, promotionItems);
+  }
+
+  async reservePromotion(code: string, reservationId: string, items: CartItem[], expiresAt: string): Promise<void> {
+    await reservePromotion(code, reservationId, await getPromotionItems(items), expiresAt);
+  }
+
+  async releasePromotion(code: string, reservationId: string): Promise<void> {
+    await releasePromotionReservation(code, reservationId);
+  }
+
+  async redeemPromotion(code: string, orderId: string, reservationId?: string): Promise<void> {
+    await redeemPromotion(code, orderId, reservationId);
+  }
 }
 
 // Create AI engine with server-side secrets
 const aiConfig = createAIShoppingConfig({
-  azureOpenAI: {
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiKey: process.env.AZURE_OPENAI_API_KEY!,
-    deploymentName: process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4'
-  },
+  llmProvider,
   productProvider: new DirectServiceProductProvider(),
   cartProvider: new DirectServiceCartProvider(),
   profileProvider: new DirectServiceProfileProvider(),
   paymentProvider: new StripePaymentProvider(process.env.STRIPE_SECRET_KEY!),
   orderProvider: new DirectServiceOrderProvider(),
-  orderCalculations: {
-    currency: 'USD',
-    taxProvider: new USTaxProvider(), // State-based tax calculation
-    shippingProvider: new TieredShippingProvider() // Tiered shipping calculation
-  }
+  inventoryProvider: new DirectServiceInventoryProvider(),
+  promotionProvider: new DirectServicePromotionProvider(),
+  orderCalculations // Same tax, shipping and currency as the web checkout
 });
 
 const aiEngine = new AIShoppingEngine(aiConfig, baseUrl);
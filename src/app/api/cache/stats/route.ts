@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
+import { authOptions, isAdminEmail } from '@/lib/auth';
 import { getCartCacheStats, clearExpiredCartCache } from '@/lib/supabase-storage';
 
 export async function GET(request: NextRequest) {
@@ -11,11 +11,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Only allow admins to view cache stats (you can implement your own admin check)
-    // For now, just check if email contains 'admin' - replace with proper admin logic
-    const isAdmin = session.user.email.includes('admin') || process.env.NODE_ENV === 'development';
-    
-    if (!isAdmin) {
+    // Only allow admins to view cache stats
+    if (!isAdminEmail(session.user.email)) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
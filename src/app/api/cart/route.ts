@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { CartItem, getCartFromSupabase, saveCartToSupabase, deleteCartFromSupabase } from '@/lib/supabase-storage';
+import { isMoney } from '@/lib/money';
+import { getItemsTotal } from '@/lib/currency';
 
 export const runtime = 'nodejs';
 
@@ -26,7 +28,7 @@ export async function GET() {
       success: true,
       items: cartItems,
       totalItems: cartItems.reduce((sum, item) => sum + item.quantity, 0),
-      totalAmount: cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0),
+      totalAmount: await getItemsTotal(cartItems), // In the store currency
     });
 
     // Disable all caching
@@ -71,7 +73,7 @@ export async function POST(request: NextRequest) {
     
     // Validate cart items structure
     for (const item of items) {
-      if (!item.id || !item.productName || typeof item.price !== 'number' || typeof item.quantity !== 'number') {
+      if (!item.id || !item.productName || !isMoney(item.price) || typeof item.quantity !== 'number') {
         return NextResponse.json(
           { error: 'Invalid cart item structure' },
           { status: 400 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
+import { zeroMoney } from '@/lib/money';
 
 // API endpoint to sync server cart with client cart
 export async function POST(request: NextRequest) {
@@ -87,7 +88,7 @@ export async function GET() {
     const serverCartResponse = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/cart?sessionId=${userEmail}`);
     
     if (!serverCartResponse.ok) {
-      const response = NextResponse.json({ items: [], totalItems: 0, totalAmount: 0 });
+      const response = NextResponse.json({ items: [], totalItems: 0, totalAmount: zeroMoney('USD') });
       // Disable all caching
       response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
       response.headers.set('Pragma', 'no-cache');
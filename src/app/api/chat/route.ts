@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { calculateOrderTotals } from '@/lib/order-calculations';
+import { priceOrder } from '@/lib/pricing';
+import { toMoney } from '@/lib/money';
+import { recordAssistantAddToCart, rememberAssistantSearch } from '@/lib/search-analytics';
+import { llmProvider, type LLMMessage, type LLMTool } from '@/lib/llm';
 import Stripe from 'stripe';
 
 // System prompt for the AI assistant
@@ -28,6 +31,7 @@ Format your responses conversationally and provide specific product recommendati
   Order ID: <order id>
   Items: <number of items>
   Total charged: <total cost>
+- Cart and order amounts are given as { "amount", "currency" } with the amount in the currency's smallest unit (cents for USD), so 1999 USD means $19.99. Always show them as normal prices.
 
 **Payment Methods & Profile:**
 - The system automatically uses the user's saved shipping address and payment methods from their profile
@@ -64,18 +68,13 @@ interface UserContext {
   timestamp: string;
 }
 
-// Azure OpenAI Configuration
-const AZURE_OPENAI_ENDPOINT = process.env.AZURE_OPENAI_ENDPOINT;
-const AZURE_OPENAI_API_KEY = process.env.AZURE_OPENAI_API_KEY;
-const AZURE_OPENAI_DEPLOYMENT_NAME = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
-
 // Define available tools for the AI
-const tools = [
+const tools: LLMTool[] = [
   {
     type: "function",
     function: {
       name: "search_products",
-      description: "Search for products in the catalog by name, category, description, or specifications",
+      description: "Search for products in the catalog by name, category, description, or specifications, or by describing what the shopper needs (e.g. \"something to keep my coffee hot\")",
       parameters: {
         type: "object",
         properties: {
@@ -86,6 +85,11 @@ const tools = [
           limit: {
             type: "number",
             description: "Maximum number of results to return (default: 10)"
+          },
+          specifications: {
+            type: "array",
+            items: { type: "string" },
+            description: "Specification filters such as \"Color=Black\", \"Weight<2kg\" or \"Screen Size>=15 inch\". Operators are =, !=, <, <=, > and >=; numbers are compared with their units, so use these for requests like \"laptops under 2kg\""
           }
         },
         required: ["query"]
@@ -208,27 +212,36 @@ async function executeTool(toolName: string, parameters: Record<string, unknown>
       const query = parameters.query as string;
       const category = parameters.category as string | undefined;
       const limit = (parameters.limit as number) || 10;
+      const specifications = (parameters.specifications as string[] | undefined) || [];
       
       try {
         // Use the existing search API
         const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
         const searchParams = new URLSearchParams({
           q: query,
-          limit: limit.toString()
+          limit: limit.toString(),
+          source: 'assistant'
         });
         
         if (category) {
           searchParams.append('category', category);
         }
+
+        // The search route reads the whole expression from the parameter name
+        specifications.forEach(expression => searchParams.append(`spec.${expression}`, ''));
         
         const response = await fetch(`${baseUrl}/api/search?${searchParams}`);
         
         if (!response.ok) {
-          return JSON.stringify({ error: 'Search failed' });
+          const { error } = await response.json().catch(() => ({ error: undefined }));
+          return JSON.stringify({ error: error || 'Search failed' });
         }
         
         const searchResults = await response.json();
         // console.log(searchResults)
+        if (userEmail && searchResults.searchId) {
+          rememberAssistantSearch(userEmail, searchResults.searchId, searchResults.results.map((result: { id: string }) => result.id));
+        }
         return JSON.stringify(searchResults);
       } catch {
         return JSON.stringify({ error: 'Failed to search products' });
@@ -295,8 +308,7 @@ async function executeTool(toolName: string, parameters: Record<string, unknown>
               productName: product.productName || product.name || 'Unknown Product',
               slug: product.slug || '',
               imageUrl: product.imageUrl || '',
-              price: Number(product.pricing?.price || product.price || 0),
-              currency: 'USD',
+              price: toMoney(Number(product.pricing?.price || product.price || 0), product.pricing?.currency || 'USD'),
               quantity: Number(quantity),
               category: product.category || 'General'
             };
@@ -329,6 +341,9 @@ async function executeTool(toolName: string, parameters: Record<string, unknown>
         
         const saveResult = await saveResponse.json();
         console.log('Cart save successful:', saveResult);
+        if (userEmail) {
+          recordAssistantAddToCart(userEmail, processedItems.map(({ product }) => product.id));
+        }
         
         // Create appropriate response message
         let message: string;
@@ -548,8 +563,18 @@ async function executeTool(toolName: string, parameters: Record<string, unknown>
           }
         }
 
-        // Calculate order totals using the utility function
-        const orderSummary = calculateOrderTotals(cartItems);
+        // Price the order with the pricing service
+        const orderSummary = await priceOrder(cartItems, {
+          ...(shippingAddress && {
+            shippingAddress: {
+              address: shippingAddress.address1,
+              city: shippingAddress.city,
+              state: shippingAddress.state,
+              zipCode: shippingAddress.postalCode,
+              country: shippingAddress.country
+            }
+          })
+        });
 
         return JSON.stringify({
           success: true,
@@ -687,6 +712,7 @@ async function executeTool(toolName: string, parameters: Record<string, unknown>
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             cartItems,
+            shippingInfo,
             paymentMethodId: 'pm_card_visa', // Demo payment method
             userEmail: userEmail // Pass user email for server-side authentication
           })
@@ -755,58 +781,40 @@ async function executeTool(toolName: string, parameters: Record<string, unknown>
   }
 }
 
-// Function to call Azure OpenAI with tools
-async function callAzureOpenAI(messages: ChatMessage[], userContext?: UserContext, userEmail?: string) {
-  if (!AZURE_OPENAI_ENDPOINT || !AZURE_OPENAI_API_KEY) {
-    throw new Error('Azure OpenAI configuration missing');
-  }
-
+// Function to call the LLM with tools
+async function callLLM(messages: ChatMessage[], userContext?: UserContext, userEmail?: string) {
   // Add system message with context
-  const systemMessage: ChatMessage = {
+  const systemMessage: LLMMessage = {
     role: 'system',
     content: `${SYSTEM_PROMPT}\n\n${userContext ? `\n\nUser context: ${JSON.stringify(userContext)}` : ''}`
   };
 
-  const chatMessages = [systemMessage, ...messages];
+  const chatMessages: LLMMessage[] = [systemMessage, ...messages.map(msg => ({
+    role: msg.role,
+    content: msg.content
+  }))];
 
   try {
-    const response = await fetch(`${AZURE_OPENAI_ENDPOINT}/openai/deployments/${AZURE_OPENAI_DEPLOYMENT_NAME}/chat/completions?api-version=2024-12-01-preview`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'api-key': AZURE_OPENAI_API_KEY,
-      },
-      body: JSON.stringify({
-        messages: chatMessages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        tools: tools,
-        tool_choice: "auto",
-        max_tokens: 2000,
-        temperature: 0.7,
-        top_p: 0.9,
-      }),
+    const completion = await llmProvider.complete(chatMessages, {
+      tools,
+      toolChoice: 'auto',
+      maxTokens: 2000,
+      temperature: 0.7,
+      topP: 0.9
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Azure OpenAI error:', response.status, errorText);
-      throw new Error(`Azure OpenAI API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    const assistantMessage = result.choices[0]?.message;
-
     // Check if the assistant wants to call tools
-    if (assistantMessage?.tool_calls) {
+    if (completion.toolCalls.length > 0) {
       // Add the assistant message with tool calls to conversation
-      const toolMessages = [systemMessage, ...messages, assistantMessage];
+      const toolMessages: LLMMessage[] = [
+        ...chatMessages,
+        { role: 'assistant', content: completion.content, tool_calls: completion.toolCalls }
+      ];
 
-      console.log("executing tool calls:", assistantMessage.tool_calls);
+      console.log("executing tool calls:", completion.toolCalls);
       
       // Execute each tool call
-      for (const toolCall of assistantMessage.tool_calls) {
+      for (const toolCall of completion.toolCalls) {
         const toolResult = await executeTool(
           toolCall.function.name,
           JSON.parse(toolCall.function.arguments),
@@ -822,29 +830,13 @@ async function callAzureOpenAI(messages: ChatMessage[], userContext?: UserContex
       }
       
       // Make another call to get the final response
-      const finalResponse = await fetch(`${AZURE_OPENAI_ENDPOINT}/openai/deployments/${AZURE_OPENAI_DEPLOYMENT_NAME}/chat/completions?api-version=2024-12-01-preview`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': AZURE_OPENAI_API_KEY,
-        },
-        body: JSON.stringify({
-          messages: toolMessages,
-          max_tokens: 2000,
-          temperature: 0.7,
-          top_p: 0.9,
-        }),
-      });
-
-      if (finalResponse.ok) {
-        const finalResult = await finalResponse.json();
-        return finalResult.choices[0]?.message?.content || 'I apologize, but I cannot process your request right now.';
-      }
+      const finalCompletion = await llmProvider.complete(toolMessages, { maxTokens: 2000, temperature: 0.7, topP: 0.9 });
+      return finalCompletion.content || 'I apologize, but I cannot process your request right now.';
     }
 
-    return assistantMessage?.content || 'I apologize, but I cannot process your request right now.';
+    return completion.content || 'I apologize, but I cannot process your request right now.';
   } catch (error) {
-    console.error('Error calling Azure OpenAI:', error);
+    console.error('Error calling LLM provider:', error);
     throw new Error('Failed to get AI response');
   }
 }
@@ -954,8 +946,8 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString()
     };
 
-    // Call Azure OpenAI
-    const aiResponse = await callAzureOpenAI(messages, userContext, session.user?.email || undefined);
+    // Call the LLM
+    const aiResponse = await callLLM(messages, userContext, session.user?.email || undefined);
 
     // Detect possible actions from user message
     const lastUserMessage = messages[messages.length - 1];
@@ -991,9 +983,8 @@ export async function GET() {
     endpoints: {
       POST: 'Send chat messages',
       configuration: {
-        azure_endpoint: !!AZURE_OPENAI_ENDPOINT,
-        api_key_configured: !!AZURE_OPENAI_API_KEY,
-        deployment: AZURE_OPENAI_DEPLOYMENT_NAME
+        provider: llmProvider.name,
+        model: llmProvider.model
       }
     }
   });
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { supabaseAdmin, BUCKETS } from '@/lib/supabase-storage';
+import { BUCKETS, deleteProductRevisionsFromSupabase, getProductsFromSupabase } from '@/lib/supabase-storage';
+import { getStorageBackend } from '@/lib/storage';
 
 interface ClearResult {
   bucket: string;
@@ -20,19 +21,23 @@ export async function POST() {
 
     console.log('Starting to clear all Supabase storage...');
     
+    const storage = await getStorageBackend();
     const results: ClearResult[] = [];
     const bucketsToClean: string[] = Object.values(BUCKETS);
     
     let totalDeleted = 0;
 
+    // Revisions are kept in a folder per product, which listing the bucket doesn't reach
+    for (const product of await getProductsFromSupabase()) {
+      await deleteProductRevisionsFromSupabase(product.id);
+    }
+
     for (const bucket of bucketsToClean) {
       try {
         console.log(`Clearing bucket: ${bucket}`);
         
         // List all files in the bucket
-        const { data: files, error: listError } = await supabaseAdmin.storage
-          .from(bucket)
-          .list();
+        const { data: files, error: listError } = await storage.list(bucket);
 
         if (listError) {
           console.error(`Error listing files in ${bucket}:`, listError);
@@ -59,9 +64,7 @@ export async function POST() {
         
         // Delete all files in the bucket
         const filePaths = files.map(file => file.name);
-        const { error: deleteError } = await supabaseAdmin.storage
-          .from(bucket)
-          .remove(filePaths);
+        const { error: deleteError } = await storage.remove(bucket, filePaths);
 
         if (deleteError) {
           console.error(`Error deleting files from ${bucket}:`, deleteError);
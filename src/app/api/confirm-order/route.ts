@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
 import { saveOrderToSupabase, OrderData, updateOrdersIndex } from '@/lib/supabase-storage';
 import { CartItem } from '@/contexts/CartContext';
+import { zeroMoney } from '@/lib/money';
 
+// Records an order paid outside the checkout routes. Stock is only taken out by
+// direct-checkout and agent-checkout, which price and reserve the items themselves
 export async function POST(request: NextRequest) {
   try {
-    
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const {
       paymentIntentId,
       checkoutData,
@@ -19,6 +29,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Totals arrive as Money in the order currency
+    const currency = totals.total?.currency || 'USD';
+
     // Generate order ID
     const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
 
@@ -29,7 +42,7 @@ export async function POST(request: NextRequest) {
       customerInfo: {
         firstName: checkoutData.shipping.firstName,
         lastName: checkoutData.shipping.lastName,
-        email: checkoutData.shipping.email,
+        email: session.user.email,
         phone: checkoutData.shipping.phone,
       },
       shippingAddress: {
@@ -44,14 +57,19 @@ export async function POST(request: NextRequest) {
         productName: item.productName,
         quantity: item.quantity,
         price: item.price,
-        currency: item.currency,
+        ...(item.variant && { variant: item.variant }),
+        ...(item.sku && { sku: item.sku }),
       })),
       totals: {
         subtotal: totals.subtotal,
-        shipping: totals.shipping || 0,
-        tax: totals.tax || 0,
+        ...(totals.discounts?.length > 0 && {
+          discount: totals.discount,
+          discounts: totals.discounts,
+        }),
+        shipping: totals.shipping || zeroMoney(currency),
+        tax: totals.tax || zeroMoney(currency),
         total: totals.total,
-        currency: totals.currency || 'USD',
+        currency,
       },
       status: 'confirmed',
       createdAt: new Date().toISOString(),
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
+import { isMoney } from '@/lib/money';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-09-30.clover' as unknown as Stripe.LatestApiVersion,
@@ -7,9 +8,10 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 
 export async function POST(request: NextRequest) {
   try {
-    const { amount, currency = 'usd', metadata = {} } = await request.json();
+    // amount is Money: { amount: 1999, currency: 'USD' }
+    const { amount, metadata = {} } = await request.json();
 
-    if (!amount || amount <= 0) {
+    if (!isMoney(amount) || amount.amount <= 0) {
       return NextResponse.json(
         { error: 'Invalid amount provided' },
         { status: 400 }
@@ -18,8 +20,8 @@ export async function POST(request: NextRequest) {
 
     // Create a PaymentIntent with the order amount and currency
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
-      currency,
+      amount: amount.amount, // Already in the minor unit
+      currency: amount.currency.toLowerCase(),
       automatic_payment_methods: {
         enabled: true,
       },
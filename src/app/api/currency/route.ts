@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getUserProfileFromSupabase, saveUserProfileToSupabase } from '@/lib/supabase-storage';
+import {
+  getDisplayCurrency,
+  getDisplayRates,
+  isSupportedCurrency,
+  STORE_CURRENCY,
+  SUPPORTED_CURRENCIES
+} from '@/lib/currency';
+import { UserProfile } from '@/types/user';
+
+// GET /api/currency - Store currency, the customer's display currency and rates from the store currency
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    return NextResponse.json({
+      success: true,
+      storeCurrency: STORE_CURRENCY,
+      displayCurrency: await getDisplayCurrency(session?.user?.email),
+      currencies: SUPPORTED_CURRENCIES,
+      rates: await getDisplayRates()
+    });
+  } catch (error) {
+    console.error('Error fetching currency settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch currency settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/currency - Save the signed-in customer's display currency
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { displayCurrency } = await request.json();
+
+    if (!isSupportedCurrency(displayCurrency)) {
+      return NextResponse.json(
+        { error: `Display currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const userEmail = session.user.email;
+    const existingProfile = await getUserProfileFromSupabase(userEmail);
+    const now = new Date().toISOString();
+
+    const updatedProfile: UserProfile = {
+      id: userEmail,
+      email: userEmail,
+      name: session.user.name || '',
+      image: session.user.image || undefined,
+      useBillingAsShipping: true,
+      paymentPreferences: {
+        saveCards: false,
+        autoFillShipping: true,
+        autoFillBilling: true,
+      },
+      ...existingProfile,
+      displayCurrency: displayCurrency.toUpperCase(),
+      updatedAt: now,
+      createdAt: existingProfile?.createdAt || now,
+    };
+
+    await saveUserProfileToSupabase(updatedProfile);
+
+    return NextResponse.json({
+      success: true,
+      displayCurrency: updatedProfile.displayCurrency
+    });
+  } catch (error) {
+    console.error('Error saving display currency:', error);
+    return NextResponse.json(
+      { error: 'Failed to save display currency' },
+      { status: 500 }
+    );
+  }
+}
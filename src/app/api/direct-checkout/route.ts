@@ -3,14 +3,25 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { saveOrderToSupabase, OrderData } from '@/lib/supabase-storage';
 import { CartItem } from '@/contexts/CartContext';
-import { calculateOrderTotals } from '@/lib/order-calculations';
+import { convertItemsToStoreCurrency } from '@/lib/currency';
+import { priceOrderWithCode, toOrderTotals, toStripeAmount, toStripeCurrency } from '@/lib/pricing';
+import { commitOrderStock, releaseStockReservation, reserveStock } from '@/lib/inventory';
+import { redeemPromotion, releasePromotionReservation } from '@/lib/promotions';
 import Stripe from 'stripe';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-09-30.clover' as unknown as Stripe.LatestApiVersion,
 });
 
+// How long a use of a discount code is held while the payment goes through
+const PROMOTION_HOLD_MS = 10 * 60 * 1000;
+
 export async function POST(request: NextRequest) {
+  // Set once stock is held so a failed payment can give it back
+  let stockReservationId: string | undefined;
+  // Likewise for a held use of the discount code
+  let promotionReservation: { code: string; id: string } | undefined;
+
   try {
     const {
       cartItems,
@@ -18,6 +29,7 @@ export async function POST(request: NextRequest) {
       paymentMethodId, // Optional: use saved payment method
       useDefaultPaymentMethod = false, // Use customer's default payment method
       orderNote,
+      promotionCode, // Optional discount code
       userEmail: serverUserEmail // For server-side calls from chat agent
     } = await request.json();
 
@@ -85,21 +97,56 @@ export async function POST(request: NextRequest) {
       finalPaymentMethodId = paymentMethods.data[0].id;
     }
 
-    // Step 3: Calculate totals using utility function
-    const orderTotals = calculateOrderTotals(cartItems);
-    const totalCents = Math.round(orderTotals.total * 100);
+    // Reserve the order ID up front so payment webhooks can match the intent to this order
+    const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+
+    // Step 3: Price the order (including any discount code) with the pricing service,
+    // holding a use of the code so concurrent checkouts can't exceed its usage limit
+    let orderPricing, promotion;
+    try {
+      ({ pricing: orderPricing, promotion } = await priceOrderWithCode(cartItems, promotionCode, shippingInfo, {
+        id: orderId,
+        expiresAt: new Date(Date.now() + PROMOTION_HOLD_MS).toISOString()
+      }));
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Invalid discount code' 
+      }, { status: 400 });
+    }
+    if (promotion) {
+      promotionReservation = { code: promotion.code, id: orderId };
+    }
+    const totalCents = toStripeAmount(orderPricing);
 
     // Validate minimum charge amount (50 cents for USD)
     if (totalCents < 50) {
+      if (promotion) {
+        await releasePromotionReservation(promotion.code, orderId);
+      }
       return NextResponse.json({ 
         error: 'Order total must be at least $0.50 USD' 
       }, { status: 400 });
     }
 
+    // Hold the stock while the payment is processed
+    try {
+      await reserveStock(orderId, cartItems.map((item: CartItem) => ({ productId: item.id, quantity: item.quantity, variant: item.variant })), {
+        userEmail
+      });
+      stockReservationId = orderId;
+    } catch (error) {
+      if (promotion) {
+        await releasePromotionReservation(promotion.code, orderId);
+      }
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Insufficient stock' 
+      }, { status: 409 });
+    }
+
     // Step 4: Create and confirm payment intent
     const paymentIntent = await stripe.paymentIntents.create({
       amount: totalCents,
-      currency: 'usd',
+      currency: toStripeCurrency(orderPricing),
       customer: customer.id,
       payment_method: finalPaymentMethodId,
       confirmation_method: 'automatic',
@@ -109,7 +156,9 @@ export async function POST(request: NextRequest) {
         source: 'genai-product-builder-direct',
         user_email: userEmail,
         order_type: 'agent_direct_checkout',
+        order_id: orderId,
         items_count: cartItems.length.toString(),
+        ...(promotion && { promotion_code: promotion.code }),
       },
     });
 
@@ -120,6 +169,11 @@ export async function POST(request: NextRequest) {
         errorMessage = paymentIntent.last_payment_error.message || errorMessage;
       }
 
+      await releaseStockReservation(orderId);
+      if (promotion) {
+        await releasePromotionReservation(promotion.code, orderId);
+      }
+
       return NextResponse.json({ 
         error: errorMessage,
         requiresAction: paymentIntent.status === 'requires_action',
@@ -127,10 +181,8 @@ export async function POST(request: NextRequest) {
       }, { status: 402 });
     }
 
-    // Step 5: Generate order ID and create order
-    const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-
-    const orderData: OrderData = {
+    // Step 5: Create order
+    const draftOrder: OrderData = {
       orderId,
       paymentIntentId: paymentIntent.id,
       customerInfo: {
@@ -146,20 +198,16 @@ export async function POST(request: NextRequest) {
         zipCode: shippingInfo.zipCode,
         country: shippingInfo.country || 'US',
       },
-      items: cartItems.map((item: CartItem) => ({
+      // Stored in the order currency, like the totals
+      items: (await convertItemsToStoreCurrency(cartItems as CartItem[])).map(item => ({
         id: item.id,
         productName: item.productName,
         quantity: item.quantity,
         price: item.price,
-        currency: item.currency,
+        ...(item.variant && { variant: item.variant }),
+        ...(item.sku && { sku: item.sku }),
       })),
-      totals: {
-        subtotal: orderTotals.subtotal,
-        shipping: orderTotals.shipping,
-        tax: orderTotals.tax,
-        total: orderTotals.total,
-        currency: 'USD',
-      },
+      totals: toOrderTotals(orderPricing),
       status: 'confirmed',
       createdAt: new Date().toISOString()
     };
@@ -169,9 +217,14 @@ export async function POST(request: NextRequest) {
       console.log('Order note:', orderNote);
     }
 
-    // Step 6: Save order to Supabase
+    // Step 6: Take the reserved items out of stock and save order to Supabase
+    const orderData = await commitOrderStock(draftOrder);
     await saveOrderToSupabase(orderData);
 
+    if (promotion) {
+      await redeemPromotion(promotion.code, orderId);
+    }
+
     console.log('Direct checkout completed successfully:', orderId);
 
     return NextResponse.json({
@@ -181,8 +234,8 @@ export async function POST(request: NextRequest) {
       message: 'Your order has been placed successfully!',
       orderData: {
         orderId,
-        total: orderTotals.total,
-        currency: 'USD',
+        total: orderPricing.total,
+        currency: orderPricing.currency,
         items: cartItems.length,
         status: 'confirmed'
       }
@@ -190,6 +243,13 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error in direct checkout:', error);
+
+    if (stockReservationId) {
+      await releaseStockReservation(stockReservationId);
+    }
+    if (promotionReservation) {
+      await releasePromotionReservation(promotionReservation.code, promotionReservation.id);
+    }
     
     // Handle specific Stripe errors
     if (error instanceof Stripe.errors.StripeCardError) {
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getMerchandisingRulesFromSupabase } from '@/lib/supabase-storage';
+import { deleteMerchandisingRule, updateMerchandisingRule } from '@/lib/merchandising';
+
+// GET /api/merchandising/[ruleId] - Get a merchandising rule (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { ruleId } = await params;
+    const rules = await getMerchandisingRulesFromSupabase();
+    const rule = rules.find(r => r.id === ruleId);
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Merchandising rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error('Error fetching merchandising rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch merchandising rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/merchandising/[ruleId] - Update a merchandising rule (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { ruleId } = await params;
+    const updates = await request.json();
+
+    try {
+      const rule = await updateMerchandisingRule(ruleId, updates);
+      return NextResponse.json({ success: true, rule });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid merchandising rule';
+      return NextResponse.json(
+        { error: message },
+        { status: message === 'Merchandising rule not found' ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating merchandising rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update merchandising rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/merchandising/[ruleId] - Delete a merchandising rule (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { ruleId } = await params;
+
+    try {
+      await deleteMerchandisingRule(ruleId);
+    } catch {
+      return NextResponse.json({ error: 'Merchandising rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ruleId });
+  } catch (error) {
+    console.error('Error deleting merchandising rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete merchandising rule' },
+      { status: 500 }
+    );
+  }
+}
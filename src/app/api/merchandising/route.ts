@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getMerchandisingRulesFromSupabase } from '@/lib/supabase-storage';
+import { createMerchandisingRule } from '@/lib/merchandising';
+
+// GET /api/merchandising - List all merchandising rules (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const rules = await getMerchandisingRulesFromSupabase();
+    return NextResponse.json({ success: true, rules });
+  } catch (error) {
+    console.error('Error fetching merchandising rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch merchandising rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/merchandising - Create a merchandising rule (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    try {
+      const rule = await createMerchandisingRule(body);
+      return NextResponse.json({ success: true, rule }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid merchandising rule' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error creating merchandising rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create merchandising rule' },
+      { status: 500 }
+    );
+  }
+}
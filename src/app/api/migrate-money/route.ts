@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { BUCKETS } from '@/lib/supabase-storage';
+import { getStorageBackend } from '@/lib/storage';
+import {
+  isLegacyCartItem,
+  isLegacyOrder,
+  isLegacyOrderIndexItem,
+  migrateCartItem,
+  migrateOrderData,
+  migrateOrderIndexItem
+} from '@/lib/money-migration';
+
+interface MoneyMigrationResults {
+  carts: { scanned: number; total: number; legacy: number }; // scanned counts every file listed
+  orders: { scanned: number; total: number; legacy: number };
+  ordersIndex: { total: number; legacy: number };
+  errors: string[];
+}
+
+async function readJson(bucket: string, path: string): Promise<unknown> {
+  const storage = await getStorageBackend();
+  const { data, error } = await storage.download(bucket, path);
+  if (error || !data) {
+    throw new Error(error?.message || 'File not found');
+  }
+  return JSON.parse(await data.text());
+}
+
+async function writeJson(bucket: string, path: string, value: unknown): Promise<void> {
+  const storage = await getStorageBackend();
+  const { error } = await storage.upload(bucket, path, JSON.stringify(value, null, 2), {
+    contentType: 'application/json',
+    upsert: true
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// Find carts and orders still stored with decimal amounts, rewriting them unless dryRun is set
+async function migrateStoredMoney(dryRun: boolean): Promise<MoneyMigrationResults> {
+  const storage = await getStorageBackend();
+  const results: MoneyMigrationResults = {
+    carts: { scanned: 0, total: 0, legacy: 0 },
+    orders: { scanned: 0, total: 0, legacy: 0 },
+    ordersIndex: { total: 0, legacy: 0 },
+    errors: []
+  };
+
+  // Carts: one array of items per customer
+  const { data: cartFiles, error: cartListError } = await storage.list(BUCKETS.CART);
+  if (cartListError) {
+    results.errors.push(`Listing carts: ${cartListError.message}`);
+  }
+  for (const file of cartFiles || []) {
+    results.carts.scanned++;
+    if (!file.name.endsWith('.json')) continue;
+    try {
+      const items = await readJson(BUCKETS.CART, file.name);
+      if (!Array.isArray(items)) continue;
+      results.carts.total++;
+      if (!items.some(isLegacyCartItem)) continue;
+      results.carts.legacy++;
+      if (!dryRun) {
+        await writeJson(BUCKETS.CART, file.name, items.map(migrateCartItem));
+      }
+    } catch (error) {
+      results.errors.push(`Cart ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Orders and the orders index
+  const { data: orderFiles, error: orderListError } = await storage.list(BUCKETS.ORDERS);
+  if (orderListError) {
+    results.errors.push(`Listing orders: ${orderListError.message}`);
+  }
+  for (const file of orderFiles || []) {
+    results.orders.scanned++;
+    if (!file.name.endsWith('.json')) continue;
+    try {
+      const stored = await readJson(BUCKETS.ORDERS, file.name);
+
+      if (file.name === 'orders-index.json') {
+        if (!Array.isArray(stored)) continue;
+        results.ordersIndex.total = stored.length;
+        results.ordersIndex.legacy = stored.filter(isLegacyOrderIndexItem).length;
+        if (!dryRun && results.ordersIndex.legacy > 0) {
+          await writeJson(BUCKETS.ORDERS, file.name, stored.map(migrateOrderIndexItem));
+        }
+        continue;
+      }
+
+      results.orders.total++;
+      if (!isLegacyOrder(stored)) continue;
+      results.orders.legacy++;
+      if (!dryRun) {
+        await writeJson(BUCKETS.ORDERS, file.name, migrateOrderData(stored));
+      }
+    } catch (error) {
+      results.errors.push(`Order ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return results;
+}
+
+// POST /api/migrate-money - Rewrite stored carts and orders with Money amounts (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { dryRun = false } = await request.json().catch(() => ({}));
+    const results = await migrateStoredMoney(dryRun);
+    const migrated = results.carts.legacy + results.orders.legacy + (results.ordersIndex.legacy > 0 ? 1 : 0);
+    const scanned = results.carts.scanned + results.orders.scanned;
+
+    console.log(`Money migration ${dryRun ? 'dry run' : 'run'}:`, results);
+
+    return NextResponse.json({
+      success: results.errors.length === 0,
+      dryRun,
+      results,
+      message: dryRun
+        ? `Dry run completed. Scanned ${scanned} files, ${migrated} need migration.`
+        : `Migration completed. Scanned ${scanned} files, ${migrated} updated.`
+    });
+  } catch (error) {
+    console.error('Money migration error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Migration failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/migrate-money - Count carts and orders still stored with decimal amounts (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const stats = await migrateStoredMoney(true);
+
+    return NextResponse.json({
+      success: true,
+      stats,
+      needsMigration: stats.carts.legacy + stats.orders.legacy + stats.ordersIndex.legacy > 0
+    });
+  } catch (error) {
+    console.error('Error getting money migration status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get migration status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getOrderFromSupabase } from '@/lib/supabase-storage';
+import { validateOrderStatusTransition } from '@/lib/order-status';
+import { cancelOrder } from '@/lib/order-refunds';
+
+// POST /api/orders/[orderId]/cancel - Cancel an unshipped order and void/refund its payment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orderId } = await params;
+    const { reason } = await request.json().catch(() => ({}));
+
+    const order = await getOrderFromSupabase(orderId);
+    if (!order || (!isAdminEmail(session.user.email) && order.customerInfo.email !== session.user.email)) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const validationError = validateOrderStatusTransition(order.status, 'cancelled');
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError, currentStatus: order.status },
+        { status: 409 }
+      );
+    }
+
+    const updatedOrder = await cancelOrder(orderId, {
+      reason: typeof reason === 'string' ? reason : undefined,
+      requestedBy: session.user.email
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Order ${orderId} cancelled`,
+      order: updatedOrder
+    });
+  } catch (error) {
+    console.error('Error cancelling order:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel order',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getOrderFromSupabase } from '@/lib/supabase-storage';
+import { formatMoney } from '@/lib/money';
+import {
+  CUSTOMER_REFUNDABLE_STATUSES,
+  isRefundItemList,
+  refundOrder,
+  requestOrderRefund,
+  reviewRefundRequest,
+  validateRefundRequest
+} from '@/lib/order-refunds';
+
+// POST /api/orders/[orderId]/refund - Request or make a refund, in full or per line item
+// Customers: { items?: [{ id, quantity }], reason?: string } files a refund request for an admin to review
+// Admins: the same body refunds straight away; { requestId, decision: 'approve' | 'decline' } reviews a request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orderId } = await params;
+    const { items, reason, requestId, decision } = await request.json().catch(() => ({}));
+
+    if (items !== undefined && !isRefundItemList(items)) {
+      return NextResponse.json(
+        { error: 'items must be an array of { id, quantity } with whole, positive quantities' },
+        { status: 400 }
+      );
+    }
+
+    const order = await getOrderFromSupabase(orderId);
+    const isAdmin = isAdminEmail(session.user.email);
+    if (!order || (!isAdmin && order.customerInfo.email !== session.user.email)) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    if (requestId !== undefined) {
+      if (!isAdmin) {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+      if (decision !== 'approve' && decision !== 'decline') {
+        return NextResponse.json({ error: 'decision must be "approve" or "decline"' }, { status: 400 });
+      }
+
+      const refundRequest = order.refundRequests?.find(r => r.requestId === requestId);
+      if (!refundRequest) {
+        return NextResponse.json({ error: 'Refund request not found' }, { status: 404 });
+      }
+      if (refundRequest.status !== 'pending') {
+        return NextResponse.json({ error: `Refund request has already been ${refundRequest.status}` }, { status: 409 });
+      }
+
+      const updatedOrder = await reviewRefundRequest(orderId, requestId, decision, session.user.email);
+      const refund = decision === 'approve' ? updatedOrder.refunds?.[updatedOrder.refunds.length - 1] : undefined;
+      return NextResponse.json({
+        success: true,
+        message: refund
+          ? `Refunded ${formatMoney(refund.amount)} for order ${orderId}`
+          : `Refund request ${requestId} declined`,
+        ...(refund && { refund }),
+        order: updatedOrder
+      });
+    }
+
+    if (!isAdmin && !CUSTOMER_REFUNDABLE_STATUSES.includes(order.status)) {
+      return NextResponse.json(
+        { error: `Refunds can only be requested for delivered or returned orders (order is ${order.status})` },
+        { status: 403 }
+      );
+    }
+
+    const refundRequest = {
+      items,
+      reason: typeof reason === 'string' ? reason : undefined,
+      requestedBy: session.user.email
+    };
+
+    const validationError = validateRefundRequest(order, refundRequest);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!isAdmin) {
+      if (order.refundRequests?.some(r => r.status === 'pending')) {
+        return NextResponse.json({ error: 'A refund request for this order is already waiting for review' }, { status: 409 });
+      }
+
+      const result = await requestOrderRefund(orderId, refundRequest);
+      return NextResponse.json({
+        success: true,
+        message: `Refund requested for order ${orderId}; it will be refunded once it has been reviewed`,
+        refundRequest: result.refundRequest,
+        order: result.order
+      }, { status: 202 });
+    }
+
+    const updatedOrder = await refundOrder(orderId, refundRequest);
+    const refund = updatedOrder.refunds?.[updatedOrder.refunds.length - 1];
+
+    return NextResponse.json({
+      success: true,
+      message: `Refunded ${refund ? formatMoney(refund.amount) : 'nothing'} for order ${orderId}`,
+      refund,
+      order: updatedOrder
+    });
+  } catch (error) {
+    console.error('Error refunding order:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to refund order',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
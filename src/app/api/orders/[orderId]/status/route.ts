@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getOrderFromSupabase, updateOrderStatusInSupabase } from '@/lib/supabase-storage';
+import {
+  CUSTOMER_ORDER_STATUSES,
+  getAllowedOrderStatusTransitions,
+  isOrderStatus,
+  validateOrderStatusTransition
+} from '@/lib/order-status';
+import { cancelOrder, refundOrder } from '@/lib/order-refunds';
+
+// GET /api/orders/[orderId]/status - Current status, history and allowed next statuses
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orderId } = await params;
+    const order = await getOrderFromSupabase(orderId);
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const isAdmin = isAdminEmail(session.user.email);
+    if (!isAdmin && order.customerInfo.email !== session.user.email) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const allowedTransitions = getAllowedOrderStatusTransitions(order.status)
+      .filter(status => isAdmin || CUSTOMER_ORDER_STATUSES.includes(status));
+
+    return NextResponse.json({
+      success: true,
+      orderId: order.orderId,
+      status: order.status,
+      statusHistory: order.statusHistory || [],
+      allowedTransitions
+    });
+  } catch (error) {
+    console.error('Error fetching order status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch order status' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/orders/[orderId]/status - Move an order to a new status
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { orderId } = await params;
+    const { status, note } = await request.json();
+
+    if (!isOrderStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const order = await getOrderFromSupabase(orderId);
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    // Customers may only cancel their own orders; everything else is admin-only
+    const isAdmin = isAdminEmail(session.user.email);
+    if (!isAdmin) {
+      if (order.customerInfo.email !== session.user.email) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+      if (!CUSTOMER_ORDER_STATUSES.includes(status)) {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+    }
+
+    const validationError = validateOrderStatusTransition(order.status, status);
+    if (validationError) {
+      return NextResponse.json(
+        {
+          error: validationError,
+          currentStatus: order.status,
+          allowedTransitions: getAllowedOrderStatusTransitions(order.status)
+        },
+        { status: 409 }
+      );
+    }
+
+    const options = {
+      changedBy: session.user.email,
+      note: typeof note === 'string' ? note : undefined
+    };
+
+    // Cancelling and refunding also move money, so they go through Stripe
+    let updatedOrder;
+    if (status === 'cancelled') {
+      updatedOrder = await cancelOrder(orderId, { reason: options.note, requestedBy: options.changedBy });
+    } else if (status === 'refunded' && order.paymentIntentId) {
+      updatedOrder = await refundOrder(orderId, { reason: options.note, requestedBy: options.changedBy });
+    } else {
+      updatedOrder = await updateOrderStatusInSupabase(orderId, status, options);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Order ${orderId} is now ${status}`,
+      order: updatedOrder
+    });
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update order status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
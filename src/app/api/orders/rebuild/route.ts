@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { supabaseAdmin, BUCKETS, OrderData, OrderIndexItem } from '@/lib/supabase-storage';
+import { BUCKETS, OrderData, OrderIndexItem } from '@/lib/supabase-storage';
+import { getStorageBackend } from '@/lib/storage';
+import { migrateOrderData } from '@/lib/money-migration';
 
 export async function POST() {
   try {
@@ -12,11 +14,10 @@ export async function POST() {
     }
 
     console.log('Rebuilding orders index...');
+    const storage = await getStorageBackend();
 
     // List all files in the orders bucket
-    const { data: files, error: listError } = await supabaseAdmin.storage
-      .from(BUCKETS.ORDERS)
-      .list();
+    const { data: files, error: listError } = await storage.list(BUCKETS.ORDERS);
 
     if (listError) {
       console.error('Error listing orders:', listError);
@@ -36,22 +37,21 @@ export async function POST() {
         try {
           console.log(`Processing order file: ${file.name}`);
           
-          const { data: orderData } = await supabaseAdmin.storage
-            .from(BUCKETS.ORDERS)
-            .download(file.name);
+          const { data: orderData } = await storage.download(BUCKETS.ORDERS, file.name);
           
           if (orderData) {
             const text = await orderData.text();
-            const order: OrderData = JSON.parse(text);
+            const order: OrderData = migrateOrderData(JSON.parse(text));
             
             const orderIndexItem: OrderIndexItem = {
               orderId: order.orderId,
+              paymentIntentId: order.paymentIntentId,
               customerEmail: order.customerInfo.email,
               customerName: `${order.customerInfo.firstName} ${order.customerInfo.lastName}`,
               total: order.totals.total,
-              currency: order.totals.currency,
               status: order.status,
               createdAt: order.createdAt,
+              updatedAt: order.updatedAt,
               userId: order.userId
             };
             
@@ -69,12 +69,10 @@ export async function POST() {
     );
 
     // Save the rebuilt index
-    const { error: uploadError } = await supabaseAdmin.storage
-      .from(BUCKETS.ORDERS)
-      .upload('orders-index.json', JSON.stringify(orderIndexItems, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const { error: uploadError } = await storage.upload(BUCKETS.ORDERS, 'orders-index.json', JSON.stringify(orderIndexItems, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
 
     if (uploadError) {
       console.error('Error uploading rebuilt index:', uploadError);
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FREE_SHIPPING_THRESHOLD, priceOrderWithCode } from '@/lib/pricing';
+import { isMoney, toMoney } from '@/lib/money';
+
+// POST /api/pricing - Itemized totals for a cart, with an optional discount code and shipping address
+// The checkout routes charge exactly what this returns for the same cart
+export async function POST(request: NextRequest) {
+  try {
+    const { cartItems, promotionCode, shippingAddress } = await request.json();
+
+    if (!Array.isArray(cartItems)) {
+      return NextResponse.json({ error: 'cartItems must be an array' }, { status: 400 });
+    }
+
+    if (cartItems.some(item => !isMoney(item?.price) || typeof item.quantity !== 'number')) {
+      return NextResponse.json({ error: 'Each cart item needs a Money price and a quantity' }, { status: 400 });
+    }
+
+    try {
+      const { pricing, promotion } = await priceOrderWithCode(cartItems, promotionCode, shippingAddress);
+      return NextResponse.json({
+        success: true,
+        pricing,
+        // Only what the checkout shows; usage counts and limits stay private
+        promotion: promotion && { code: promotion.code, description: promotion.description, type: promotion.type },
+        freeShippingThreshold: toMoney(FREE_SHIPPING_THRESHOLD, pricing.currency)
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid discount code' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error pricing order:', error);
+    return NextResponse.json(
+      { error: 'Failed to price order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { retryFailedProductImportRows } from '@/lib/product-import';
+import { getProductImportProgress } from '@/lib/product-import-rules';
+
+// POST /api/product-imports/[jobId]/retry - Queue the failed rows of an import again (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { jobId } = await params;
+
+    try {
+      const job = await retryFailedProductImportRows(jobId);
+      return NextResponse.json({ success: true, job: { ...job, progress: getProductImportProgress(job) } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to retry rows';
+      return NextResponse.json(
+        { error: message },
+        { status: message === 'Product import job not found' ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error retrying product import rows:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry product import rows' },
+      { status: 500 }
+    );
+  }
+}
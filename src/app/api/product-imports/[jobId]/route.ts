@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getProductImportJob } from '@/lib/product-import';
+import { getProductImportProgress } from '@/lib/product-import-rules';
+
+// GET /api/product-imports/[jobId] - Get a product import job with its rows (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { jobId } = await params;
+    const job = await getProductImportJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Product import job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job: { ...job, progress: getProductImportProgress(job) } });
+  } catch (error) {
+    console.error('Error fetching product import:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { createProductImportJob, listProductImportJobs } from '@/lib/product-import';
+import { getProductImportProgress, parseProductImportFile } from '@/lib/product-import-rules';
+
+// GET /api/product-imports - List product import jobs with their progress (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const jobs = await listProductImportJobs();
+    // Rows are fetched per job
+    const summaries = jobs.map(({ rows, ...job }) => ({
+      ...job,
+      progress: getProductImportProgress({ ...job, rows })
+    }));
+
+    return NextResponse.json({ success: true, jobs: summaries });
+  } catch (error) {
+    console.error('Error fetching product imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product imports' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/product-imports - Start a bulk import from a CSV or JSON file of briefs (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { format, content, name } = await request.json();
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 });
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'File content is required' }, { status: 400 });
+    }
+
+    let rows;
+    try {
+      rows = parseProductImportFile(content, format);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid import file' },
+        { status: 400 }
+      );
+    }
+
+    const job = await createProductImportJob(typeof name === 'string' ? name : '', rows, session.user.email);
+    return NextResponse.json(
+      { success: true, job: { ...job, progress: getProductImportProgress(job) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error starting product import:', error);
+    return NextResponse.json(
+      { error: 'Failed to start product import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getProductFromSupabase, updateProductInventoryInSupabase } from '@/lib/supabase-storage';
+import { DEFAULT_LOW_STOCK_THRESHOLD, getStockInfo, validateInventoryUpdate } from '@/lib/stock-status';
+
+// GET /api/products/[productId]/inventory - Stock levels and availability
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const { productId } = await params;
+    const product = await getProductFromSupabase(productId);
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      productId,
+      inventory: product.inventory || null,
+      stock: getStockInfo(product.inventory),
+      variants: (product.variants || []).map(variant => ({
+        sku: variant.sku,
+        options: variant.options,
+        inventory: variant.inventory || null,
+        // Variants without their own inventory share the product's stock
+        stock: getStockInfo(variant.inventory || product.inventory)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching product inventory:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product inventory' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/products/[productId]/inventory - Set on-hand stock and low-stock threshold (admin only)
+// Pass a variant SKU to set the stock of that variant instead of the whole product
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId } = await params;
+    const { onHand, lowStockThreshold, sku } = await request.json();
+
+    const validationError = validateInventoryUpdate({ onHand, lowStockThreshold });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const product = await getProductFromSupabase(productId);
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const variant = sku ? product.variants?.find(v => v.sku === sku) : undefined;
+    if (sku && !variant) {
+      return NextResponse.json({ error: `Variant ${sku} not found` }, { status: 404 });
+    }
+
+    const currentInventory = sku ? variant!.inventory : product.inventory;
+    if (!currentInventory && onHand === undefined) {
+      return NextResponse.json({ error: 'onHand is required to start tracking stock' }, { status: 400 });
+    }
+
+    // Reserved units are managed by checkouts and are never set by hand
+    const updatedProduct = await updateProductInventoryInSupabase(productId, stored => ({
+      onHand: onHand ?? stored!.onHand,
+      reserved: stored?.reserved || 0,
+      lowStockThreshold: lowStockThreshold ?? stored?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD
+    }), sku);
+    const updatedInventory = sku
+      ? updatedProduct.variants?.find(v => v.sku === sku)?.inventory
+      : updatedProduct.inventory;
+
+    console.log(`Inventory for ${productId}${sku ? ` (${sku})` : ''} updated by ${session.user.email}`);
+
+    return NextResponse.json({
+      success: true,
+      productId,
+      ...(sku && { sku }),
+      inventory: updatedInventory,
+      stock: getStockInfo(updatedInventory)
+    });
+  } catch (error) {
+    console.error('Error updating product inventory:', error);
+    return NextResponse.json(
+      { error: 'Failed to update product inventory' },
+      { status: 500 }
+    );
+  }
+}
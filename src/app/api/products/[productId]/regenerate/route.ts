@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getProductFromSupabase } from '@/lib/supabase-storage';
+import { regenerateProductField } from '@/lib/product-editing';
+import { REGENERATABLE_PRODUCT_FIELDS, RegeneratableProductField } from '@/lib/product-schema';
+
+// POST /api/products/[productId]/regenerate - Have the AI rewrite one field of a product (admin only)
+// Body: { field, product?, instructions? }; product holds unsaved edits to use as context
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId } = await params;
+    const { field, product: edits, instructions } = await request.json();
+
+    if (!REGENERATABLE_PRODUCT_FIELDS.includes(field)) {
+      return NextResponse.json(
+        { error: `Field must be one of: ${REGENERATABLE_PRODUCT_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const product = await getProductFromSupabase(productId);
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const result = await regenerateProductField(
+      field as RegeneratableProductField,
+      { ...product, ...(edits && typeof edits === 'object' ? edits : {}) },
+      typeof instructions === 'string' ? instructions.trim().slice(0, 500) : undefined
+    );
+
+    if (result.value === null) {
+      return NextResponse.json(
+        { error: `The regenerated ${field} failed validation after ${result.attempts} attempts`, issues: result.issues },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, field, value: result.value });
+  } catch (error) {
+    console.error('Error regenerating product field:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate product field' },
+      { status: 500 }
+    );
+  }
+}
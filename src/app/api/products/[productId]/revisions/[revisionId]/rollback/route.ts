@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { rollbackProductToRevision } from '@/lib/product-revisions';
+
+// POST /api/products/[productId]/revisions/[revisionId]/rollback - Restore a product to a revision (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string; revisionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId, revisionId } = await params;
+
+    try {
+      const product = await rollbackProductToRevision(productId, revisionId, session.user.email);
+      // The search embedding isn't shown, so don't send it to the browser
+      delete product.embedding;
+      return NextResponse.json({ success: true, productId, product });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Revision not found';
+      if (message === 'Product not found' || message === 'Revision not found') {
+        return NextResponse.json({ error: message }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error rolling back product:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back product' },
+      { status: 500 }
+    );
+  }
+}
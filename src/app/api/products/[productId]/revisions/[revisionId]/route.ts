@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getProductRevision } from '@/lib/product-revisions';
+
+// GET /api/products/[productId]/revisions/[revisionId] - Get a revision with its copy of the product (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string; revisionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId, revisionId } = await params;
+    const revision = await getProductRevision(productId, revisionId);
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, revision });
+  } catch (error) {
+    console.error('Error fetching product revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product revision' },
+      { status: 500 }
+    );
+  }
+}
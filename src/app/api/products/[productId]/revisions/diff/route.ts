@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { diffProductRevisions } from '@/lib/product-revisions';
+
+// GET /api/products/[productId]/revisions/diff?from=<revisionId>&to=<revisionId> - Compare two revisions field by field (admin only)
+// Without "to", compares with the latest revision
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId } = await params;
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') || undefined;
+
+    if (!from) {
+      return NextResponse.json({ error: 'from is required' }, { status: 400 });
+    }
+
+    try {
+      const diff = await diffProductRevisions(productId, from, to);
+      return NextResponse.json({ success: true, productId, ...diff });
+    } catch {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Error comparing product revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare product revisions' },
+      { status: 500 }
+    );
+  }
+}
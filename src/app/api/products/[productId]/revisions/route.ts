@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { listProductRevisions } from '@/lib/product-revisions';
+
+// GET /api/products/[productId]/revisions - List a product's revisions, newest first (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId } = await params;
+    const revisions = await listProductRevisions(productId);
+
+    return NextResponse.json({ success: true, productId, revisions });
+  } catch (error) {
+    console.error('Error fetching product revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { updateProductDetails, type ProductUpdate } from '@/lib/product-editing';
+import { EDITABLE_PRODUCT_FIELDS, validateProductUpdate } from '@/lib/product-schema';
+
+// PUT /api/products/[productId] - Update a product's details (admin only)
+// Send only the fields that changed
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId } = await params;
+    const body = await request.json();
+
+    // Keep only the fields an admin may set
+    const fields = Object.fromEntries(
+      EDITABLE_PRODUCT_FIELDS.filter(field => body?.[field] !== undefined).map(field => [field, body[field]])
+    );
+    const { data, issues } = validateProductUpdate(fields);
+    if (!data || issues.length > 0) {
+      return NextResponse.json({ error: 'Invalid product details', issues }, { status: 400 });
+    }
+
+    try {
+      const product = await updateProductDetails(productId, data as ProductUpdate, session.user.email);
+      // The search embedding isn't shown, so don't send it to the browser
+      delete product.embedding;
+      return NextResponse.json({ success: true, productId, product });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid product details';
+      return NextResponse.json(
+        { error: message },
+        { status: message === 'Product not found' ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating product:', error);
+    return NextResponse.json(
+      { error: 'Failed to update product' },
+      { status: 500 }
+    );
+  }
+}
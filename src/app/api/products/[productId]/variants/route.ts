@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getProductFromSupabase, updateProductVariantsInSupabase } from '@/lib/supabase-storage';
+import { normalizeVariantSelection, validateProductVariants, ProductVariant, ProductVariantAxis } from '@/lib/product-variants';
+
+// GET /api/products/[productId]/variants - Variant axes and variants of a product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const { productId } = await params;
+    const product = await getProductFromSupabase(productId);
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      productId,
+      variantAxes: product.variantAxes || [],
+      variants: product.variants || []
+    });
+  } catch (error) {
+    console.error('Error fetching product variants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product variants' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/products/[productId]/variants - Replace the variant axes and variants (admin only)
+// Send empty arrays to turn a product back into a single-variant product
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { productId } = await params;
+    const { variantAxes, variants } = await request.json();
+
+    const validationError = validateProductVariants(variantAxes, variants);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const product = await getProductFromSupabase(productId);
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    // Stock held by open checkouts stays with the variant it was reserved for
+    const existingVariants = new Map((product.variants || []).map(variant => [variant.sku, variant]));
+    const updatedVariants: ProductVariant[] = (variants as ProductVariant[]).map(variant => {
+      const existingInventory = existingVariants.get(variant.sku)?.inventory;
+      return {
+        sku: variant.sku,
+        options: normalizeVariantSelection(variant.options) || {},
+        ...(variant.price !== undefined && { price: variant.price }),
+        ...(variant.imageUrl && { imageUrl: variant.imageUrl }),
+        ...((variant.inventory || existingInventory) && {
+          inventory: {
+            onHand: variant.inventory?.onHand ?? existingInventory!.onHand,
+            reserved: existingInventory?.reserved || 0,
+            lowStockThreshold: variant.inventory?.lowStockThreshold ?? existingInventory?.lowStockThreshold ?? 0
+          }
+        })
+      };
+    });
+
+    const updatedProduct = await updateProductVariantsInSupabase(
+      productId,
+      variantAxes as ProductVariantAxis[],
+      updatedVariants,
+      session.user.email
+    );
+
+    return NextResponse.json({
+      success: true,
+      productId,
+      variantAxes: updatedProduct.variantAxes,
+      variants: updatedProduct.variants
+    });
+  } catch (error) {
+    console.error('Error updating product variants:', error);
+    return NextResponse.json(
+      { error: 'Failed to update product variants' },
+      { status: 500 }
+    );
+  }
+}
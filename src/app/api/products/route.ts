@@ -1,22 +1,132 @@
 import { NextResponse } from 'next/server';
-import { getProductsFromSupabase } from '@/lib/supabase-storage';
+import {
+  getCategoriesFromSupabase,
+  getCategoryPath,
+  getMerchandisingRulesFromSupabase,
+  getProductsFromSupabase,
+  ProductIndexItem
+} from '@/lib/supabase-storage';
+import { paginate, parsePageSize, SortDirection, SortKey } from '@/lib/pagination';
+import { applyMerchandisingRules, FiredMerchandisingRule, getMerchandisedSortKey } from '@/lib/merchandising-rules';
 
-export async function GET() {
+const PRODUCT_SORT_KEYS: Record<string, (product: ProductIndexItem) => SortKey> = {
+  date: product => [new Date(product.createdAt).getTime() || 0, product.id],
+  name: product => [product.productName.toLowerCase(), product.id],
+  price: product => [product.pricing.price, product.id]
+};
+
+function filterProducts(products: ProductIndexItem[], searchParams: URLSearchParams): ProductIndexItem[] {
+  let filtered = products;
+
+  // Text search on name and category
+  const query = searchParams.get('q')?.trim().toLowerCase();
+  if (query) {
+    filtered = filtered.filter(product =>
+      product.productName.toLowerCase().includes(query) ||
+      product.category.toLowerCase().includes(query)
+    );
+  }
+
+  // Category filter - support both new categoryId and legacy category string
+  const categoryId = searchParams.get('categoryId');
+  if (categoryId) {
+    filtered = filtered.filter(product => product.categoryId === categoryId || product.category === categoryId);
+  }
+
+  // Price range filter
+  const minPrice = parseFloat(searchParams.get('minPrice') || '');
+  if (Number.isFinite(minPrice)) {
+    filtered = filtered.filter(product => product.pricing.price >= minPrice);
+  }
+  const maxPrice = parseFloat(searchParams.get('maxPrice') || '');
+  if (Number.isFinite(maxPrice)) {
+    filtered = filtered.filter(product => product.pricing.price <= maxPrice);
+  }
+
+  return filtered;
+}
+
+async function merchandiseProducts(products: ProductIndexItem[], searchParams: URLSearchParams) {
+  // Products are still listed, unmerchandised, if the rules can't be read
+  const stored = await getMerchandisingRulesFromSupabase().catch(error => {
+    console.error('Error fetching merchandising rules:', error);
+    return [];
+  });
+  const rules = stored.filter(rule => rule.action !== 'boost');
+  const categoryId = searchParams.get('categoryId');
+  const categories = categoryId ? [categoryId] : [];
+  if (categoryId && rules.some(rule => rule.categories?.length)) {
+    // Rules may name the category by path rather than ID
+    categories.push(getCategoryPath(await getCategoriesFromSupabase(), categoryId));
+  }
+  return applyMerchandisingRules(rules, { query: searchParams.get('q') || '', categories }, products);
+}
+
+/**
+ * GET /api/products
+ * Without `limit` or `cursor`, returns the whole product index as an array.
+ * With either, returns one page as { products, total, nextCursor, merchandising },
+ * filtered by q, categoryId, minPrice and maxPrice and sorted by sortBy (date,
+ * name, price) and sortDirection. Merchandising rules reorder the default
+ * newest-first order.
+ */
+export async function GET(request: Request) {
   try {
+    const { searchParams } = new URL(request.url);
     const products = await getProductsFromSupabase();
-    
+
+    let body: unknown = products;
+    if (searchParams.has('limit') || searchParams.has('cursor')) {
+      const sortParam = searchParams.get('sortBy') || 'date';
+      const sortBy = Object.prototype.hasOwnProperty.call(PRODUCT_SORT_KEYS, sortParam) ? sortParam : 'date';
+      const direction: SortDirection = searchParams.get('sortDirection') === 'asc' ? 'asc' : 'desc';
+      const filtered = filterProducts(products, searchParams);
+
+      // Pins and burials apply to the default order; boosts need a relevance score, so only affect search
+      let getSortKey = PRODUCT_SORT_KEYS[sortBy];
+      let merchandising: FiredMerchandisingRule[] = [];
+      let notes = new Map<string, string[]>();
+      if (sortBy === 'date' && direction === 'desc') {
+        const outcome = await merchandiseProducts(filtered, searchParams);
+        merchandising = outcome.fired;
+        notes = new Map(Array.from(outcome.placements, ([productId, placement]) => [productId, placement.notes]));
+        getSortKey = product => getMerchandisedSortKey(outcome.placements.get(product.id), PRODUCT_SORT_KEYS.date(product), 'desc');
+      }
+
+      try {
+        const page = paginate(filtered, {
+          sort: `${sortBy}-${direction}`,
+          direction,
+          getSortKey,
+          limit: parsePageSize(searchParams.get('limit')),
+          cursor: searchParams.get('cursor')
+        });
+        body = {
+          products: page.items.map(product => notes.has(product.id) ? { ...product, merchandising: notes.get(product.id) } : product),
+          total: page.total,
+          nextCursor: page.nextCursor,
+          merchandising
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Invalid cursor') {
+          return NextResponse.json({ error: 'Invalid cursor; start again without one' }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
     // Return products with no cache headers
-    const response = NextResponse.json(products);
-    
+    const response = NextResponse.json(body);
+
     // Disable all caching
     response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
     response.headers.set('Pragma', 'no-cache');
     response.headers.set('Expires', '0');
     response.headers.set('Surrogate-Control', 'no-store');
-    
+
     return response;
   } catch (error) {
     console.error('Error fetching products:', error);
     return NextResponse.json([], { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { UserProfile, SaveProfileRequest, ProfileApiResponse } from '@/types/user';
 import { saveUserProfileToSupabase, getUserProfileFromSupabase } from '@/lib/supabase-storage';
+import { isSupportedCurrency, SUPPORTED_CURRENCIES } from '@/lib/currency';
 
 export async function GET(request: NextRequest) {
   try {
@@ -123,6 +124,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (body.profile.displayCurrency !== undefined && !isSupportedCurrency(body.profile.displayCurrency)) {
+      return NextResponse.json(
+        { error: `Display currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Save to Supabase
     try {
       await saveUserProfileToSupabase(updatedProfile);
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getPromotionsFromSupabase } from '@/lib/supabase-storage';
+import { deletePromotion, updatePromotion } from '@/lib/promotions';
+
+// GET /api/promotions/[promotionId] - Get a promotion (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ promotionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { promotionId } = await params;
+    const promotions = await getPromotionsFromSupabase();
+    const promotion = promotions.find(p => p.id === promotionId);
+
+    if (!promotion) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, promotion });
+  } catch (error) {
+    console.error('Error fetching promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promotion' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/promotions/[promotionId] - Update a promotion (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ promotionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { promotionId } = await params;
+    const updates = await request.json();
+
+    try {
+      const promotion = await updatePromotion(promotionId, updates);
+      return NextResponse.json({ success: true, promotion });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid promotion';
+      return NextResponse.json(
+        { error: message },
+        { status: message === 'Promotion not found' ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to update promotion' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/promotions/[promotionId] - Delete a promotion (admin only)
+// Orders keep the discounts they were placed with
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ promotionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { promotionId } = await params;
+
+    try {
+      await deletePromotion(promotionId);
+    } catch {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, promotionId });
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete promotion' },
+      { status: 500 }
+    );
+  }
+}
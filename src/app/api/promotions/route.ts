@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getPromotionsFromSupabase } from '@/lib/supabase-storage';
+import { createPromotion } from '@/lib/promotions';
+
+// GET /api/promotions - List all promotions (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const promotions = await getPromotionsFromSupabase();
+    return NextResponse.json({ success: true, promotions });
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promotions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/promotions - Create a promotion (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    try {
+      const promotion = await createPromotion(body);
+      return NextResponse.json({ success: true, promotion }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid promotion' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error creating promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to create promotion' },
+      { status: 500 }
+    );
+  }
+}
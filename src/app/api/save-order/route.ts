@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
+import { authOptions, isAdminEmail } from '@/lib/auth';
 import { saveOrderToSupabase, updateOrdersIndex, OrderData } from '@/lib/supabase-storage';
+import { migrateOrderData } from '@/lib/money-migration';
 
+// Records an order built elsewhere. Stock is only taken out by the checkout
+// routes and the assistant, which reserve the items before payment
 export async function POST(request: NextRequest) {
   try {
-    const orderData: OrderData = await request.json();
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Callers built against the old decimal amounts are converted to Money
+    const orderData: OrderData = migrateOrderData(await request.json());
 
     console.log('Saving order from AI assistant:', orderData.orderId);
     console.log('Order data:', JSON.stringify(orderData, null, 2));
@@ -18,20 +28,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // For AI-generated orders, we trust the data since it comes from our server
-    // But we still want to validate the session for security
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      console.log('No session found, but processing AI order for:', orderData.customerInfo.email);
-      // We'll allow AI orders even without session since they come from our server
+    // Customers may only save their own orders
+    if (orderData.customerInfo.email !== session.user.email && !isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
-    // Save order to Supabase
-    await saveOrderToSupabase(orderData);
+    // Save order to Supabase. Its stock wasn't taken here, so a cancellation mustn't put any back
+    const order: OrderData = { ...orderData, inventoryCommittedAt: undefined };
+    await saveOrderToSupabase(order);
     
     // Update orders index (this function extracts the index data from OrderData)
-    await updateOrdersIndex(orderData);
+    await updateOrdersIndex(order);
 
     console.log('Order saved successfully:', orderData.orderId);
 
@@ -1,41 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
-import { saveProductToSupabase } from '@/lib/supabase-storage';
-
-interface ProductData {
-  productName: string;
-  tagline: string;
-  description: string;
-  keyFeatures: string[];
-  specifications: Record<string, string>;
-  pricing: {
-    currency: string;
-    price: number;
-    originalPrice?: number;
-    discount?: string;
-  };
-  benefits: string[];
-  targetAudience: string;
-  category: string; // Legacy field for backward compatibility
-  categoryId?: string; // New structured category reference
-  categoryPath?: string; // Full category path
-  categoryConfidence?: number; // AI confidence in category selection
-  categoryReasoning?: string; // AI reasoning for category choice
-  categoryMetadata?: {
-    confidence: number;
-    reasoning: string;
-    isNovelProduct?: boolean;
-    assignmentMethod?: 'ai_primary' | 'fallback';
-  };
-  tags: string[];
-}
-
-interface ProductRecord extends ProductData {
-  id: string;
-  imageUrl: string;
-  createdAt: string;
-  slug: string;
-}
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { saveGeneratedProduct } from '@/lib/product-generation';
 
 export async function POST(request: NextRequest) {
   try {
@@ -45,57 +11,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Product data is required' }, { status: 400 });
     }
 
-    // Generate unique product ID
-    const tempProductId = uuidv4();
-    
-    // Create product record with metadata
-    const productRecord: ProductRecord = {
-      id: tempProductId, // This will be replaced by the actual ID from Supabase
-      ...productData,
-      imageUrl,
-      createdAt: new Date().toISOString(),
-      slug: productData.productName
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)/g, ''),
-    };
-
-    // Save to Supabase
-    const supabaseProductData = {
-      productName: productRecord.productName,
-      tagline: productRecord.tagline,
-      description: productRecord.description,
-      keyFeatures: productRecord.keyFeatures,
-      specifications: productRecord.specifications,
-      pricing: productRecord.pricing,
-      benefits: productRecord.benefits,
-      targetAudience: productRecord.targetAudience,
-      category: productRecord.category,
-      categoryId: productRecord.categoryId || 'cat_electronics',
-      categoryConfidence: productRecord.categoryConfidence || 0.8,
-      categoryReasoning: productRecord.categoryReasoning || 'Default category assignment',
-      tags: productRecord.tags,
-      categoryPath: productRecord.categoryPath || productRecord.category,
-      categoryMetadata: {
-        level: 0,
-        parentCategory: undefined,
-        suggestedSubcategories: []
-      },
-      imageUrl: productRecord.imageUrl,
-      createdAt: productRecord.createdAt,
-      slug: productRecord.slug
-    };
-    
-    // saveProductToSupabase returns the actual product ID that was used
-    const actualProductId = await saveProductToSupabase(supabaseProductData);
+    // Recorded as the author of the product's first revision
+    const session = await getServerSession(authOptions);
+    const { productId, slug } = await saveGeneratedProduct(productData, imageUrl, session?.user?.email || 'system');
 
     // No cache invalidation needed since we disabled all caching
 
     const response = NextResponse.json({
       success: true,
-      productId: actualProductId, // Use the actual ID from Supabase
-      productUrl: `/products/${actualProductId}`,
-      productSlug: productRecord.slug
+      productId,
+      productUrl: `/products/${productId}`,
+      productSlug: slug
     });
 
     // Disable all caching
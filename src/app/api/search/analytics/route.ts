@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getSearchEvents, summarizeSearchEvents } from '@/lib/search-analytics';
+
+// GET /api/search/analytics?days=30 - Top queries, zero-result queries and search-to-cart conversion (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '') || 30, 1), 90);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const events = await getSearchEvents();
+    return NextResponse.json({ days, ...summarizeSearchEvents(events, since) });
+  } catch (error) {
+    console.error('Error fetching search analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch search analytics' },
+      { status: 500 }
+    );
+  }
+}
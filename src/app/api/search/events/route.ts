@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { allowSearchAction, isRecentSearchId, recordSearchAction, SearchAction } from '@/lib/search-analytics';
+
+const SEARCH_ACTIONS: SearchAction[] = ['click', 'add_to_cart'];
+
+// POST /api/search/events - Record a click on a search result, or adding it to the cart
+// Body: { searchId, action: 'click' | 'add_to_cart', productId }
+export async function POST(request: NextRequest) {
+  try {
+    // Anyone can call this, so limit how much one client can move the numbers
+    const clientKey = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+    if (!allowSearchAction(clientKey)) {
+      return NextResponse.json({ error: 'Too many search events' }, { status: 429 });
+    }
+
+    // Sent with navigator.sendBeacon, so the body may arrive as text/plain
+    const body = JSON.parse(await request.text());
+    const { searchId, action, productId } = body || {};
+
+    if (typeof searchId !== 'string' || typeof productId !== 'string' || !productId) {
+      return NextResponse.json({ error: 'searchId and productId are required' }, { status: 400 });
+    }
+
+    if (!isRecentSearchId(searchId)) {
+      return NextResponse.json({ error: 'Unknown or expired searchId' }, { status: 400 });
+    }
+
+    if (!SEARCH_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${SEARCH_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+
+    recordSearchAction(searchId, action, productId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error recording search event:', error);
+    return NextResponse.json({ error: 'Failed to record search event' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { rebuildSearchIndexInSupabase } from '@/lib/supabase-storage';
+
+// POST /api/search/rebuild - Rebuild the search index from the whole catalog (admin only)
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const index = await rebuildSearchIndexInSupabase();
+    const productCount = Object.keys(index.documents).length;
+
+    return NextResponse.json({
+      success: true,
+      message: `Search index rebuilt with ${productCount} products`,
+      products: productCount,
+      tokens: Object.keys(index.postings).length
+    });
+  } catch (error) {
+    console.error('Error rebuilding search index:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to rebuild search index',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
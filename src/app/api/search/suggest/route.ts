@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchIndexFromSupabase } from '@/lib/supabase-storage';
+import { getPopularQueries } from '@/lib/popular-queries';
+import {
+  buildSuggestionTrie,
+  getSuggestions,
+  MAX_SUGGESTIONS_PER_TYPE,
+  SearchSuggestions,
+  SuggestionTrie
+} from '@/lib/search-suggest';
+
+// Rebuilt only when the search index or popular queries change
+let trieCache: {
+  indexUpdatedAt: string;
+  popularQueries: Record<string, number>;
+  trie: SuggestionTrie;
+} | null = null;
+
+async function getSuggestionTrie(): Promise<SuggestionTrie> {
+  const [index, popularQueries] = await Promise.all([getSearchIndexFromSupabase(), getPopularQueries()]);
+  if (trieCache?.indexUpdatedAt !== index.updatedAt || trieCache.popularQueries !== popularQueries) {
+    trieCache = { indexUpdatedAt: index.updatedAt, popularQueries, trie: buildSuggestionTrie(index.documents, popularQueries) };
+  }
+  return trieCache.trie;
+}
+
+// GET /api/search/suggest?q=prefix - Product name, category and popular query completions
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q') || '';
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '') || MAX_SUGGESTIONS_PER_TYPE,
+      MAX_SUGGESTIONS_PER_TYPE
+    );
+
+    const suggestions: SearchSuggestions = query.trim()
+      ? getSuggestions(await getSuggestionTrie(), query, limit)
+      : { products: [], categories: [], queries: [] };
+
+    const response = NextResponse.json({
+      query,
+      ...suggestions,
+      executionTime: Date.now() - startTime
+    });
+
+    // Suggestions change slowly; let the browser reuse them briefly while typing back and forth
+    response.headers.set('Cache-Control', 'private, max-age=30');
+    return response;
+  } catch (error) {
+    console.error('Search suggest error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getSearchSynonymsFromSupabase } from '@/lib/supabase-storage';
+import { deleteSynonymGroup, updateSynonymGroup } from '@/lib/search-synonyms';
+
+// GET /api/search/synonyms/[synonymId] - Get a synonym group (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ synonymId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { synonymId } = await params;
+    const synonyms = await getSearchSynonymsFromSupabase();
+    const synonym = synonyms.find(group => group.id === synonymId);
+
+    if (!synonym) {
+      return NextResponse.json({ error: 'Synonym group not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, synonym });
+  } catch (error) {
+    console.error('Error fetching synonym group:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch synonym group' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/search/synonyms/[synonymId] - Replace a synonym group's terms (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ synonymId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { synonymId } = await params;
+    const { terms } = await request.json();
+
+    try {
+      const synonym = await updateSynonymGroup(synonymId, terms);
+      return NextResponse.json({ success: true, synonym });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid synonym group';
+      return NextResponse.json(
+        { error: message },
+        { status: message === 'Synonym group not found' ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating synonym group:', error);
+    return NextResponse.json(
+      { error: 'Failed to update synonym group' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/search/synonyms/[synonymId] - Delete a synonym group (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ synonymId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { synonymId } = await params;
+
+    try {
+      await deleteSynonymGroup(synonymId);
+    } catch {
+      return NextResponse.json({ error: 'Synonym group not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, synonymId });
+  } catch (error) {
+    console.error('Error deleting synonym group:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete synonym group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions, isAdminEmail } from '@/lib/auth';
+import { getSearchSynonymsFromSupabase } from '@/lib/supabase-storage';
+import { createSynonymGroup } from '@/lib/search-synonyms';
+
+// GET /api/search/synonyms - List all synonym groups (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const synonyms = await getSearchSynonymsFromSupabase();
+    return NextResponse.json({ success: true, synonyms });
+  } catch (error) {
+    console.error('Error fetching search synonyms:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch search synonyms' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/search/synonyms - Create a synonym group from { terms: [...] } (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { terms } = await request.json();
+
+    try {
+      const synonym = await createSynonymGroup(terms);
+      return NextResponse.json({ success: true, synonym }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid synonym group' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error creating synonym group:', error);
+    return NextResponse.json(
+      { error: 'Failed to create synonym group' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { CartItem } from '@/contexts/CartContext';
-import { calculateOrderTotals } from '@/lib/order-calculations';
+import { generateCartHash, priceOrderWithCode, toStripeAmount, toStripeCurrency } from '@/lib/pricing';
+import { formatMoney } from '@/lib/money';
+import { reserveStock, validateStockAvailability } from '@/lib/inventory';
+import { releasePromotionReservation } from '@/lib/promotions';
 import Stripe from 'stripe';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -10,8 +13,11 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 });
 
 export async function POST(request: NextRequest) {
+  // Set once a use of the discount code is held, so a failure can give it back
+  let promotionReservation: { code: string; id: string } | undefined;
+
   try {
-    const { cartItems, paymentMethodId, userEmail: serverUserEmail } = await request.json();
+    const { cartItems, paymentMethodId, promotionCode, shippingInfo, userEmail: serverUserEmail } = await request.json();
 
     // If userEmail is provided in request body, use it (for server-side calls)
     // Otherwise, use session authentication
@@ -39,9 +45,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Payment method required' }, { status: 400 });
     }
 
-    // Calculate total from cart items including tax and shipping
-    const orderTotals = calculateOrderTotals(cartItems);
-    const totalWithTaxAndShipping = orderTotals.total; // This includes subtotal + tax + shipping
+    const stockItems = cartItems.map((item: CartItem) => ({ productId: item.id, quantity: item.quantity, variant: item.variant }));
+    const stockError = await validateStockAvailability(stockItems);
+    if (stockError) {
+      return NextResponse.json({ error: stockError }, { status: 409 });
+    }
+
+    // Price the cart with the pricing service; agent-checkout prices it the same way before capturing.
+    // A use of any discount code is held for the token's lifetime and redeemed when it is captured
+    const expiresAt = new Date(Date.now() + 30 * 60 * 1000).toISOString(); // 30 minutes
+    const promotionReservationId = `spt_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+    let orderPricing, promotion;
+    try {
+      ({ pricing: orderPricing, promotion } = await priceOrderWithCode(cartItems, promotionCode, shippingInfo, {
+        id: promotionReservationId,
+        expiresAt
+      }));
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Invalid discount code' 
+      }, { status: 400 });
+    }
+    if (promotion) {
+      promotionReservation = { code: promotion.code, id: promotionReservationId };
+    }
+    const totalWithTaxAndShipping = orderPricing.total; // This includes discounts, tax and shipping
 
     // Find or create Stripe customer
     let customer;
@@ -64,8 +92,8 @@ export async function POST(request: NextRequest) {
 
     // Generate a scoped payment token for this specific cart and user
     const sharedPaymentToken = await stripe.paymentIntents.create({
-      amount: Math.round(totalWithTaxAndShipping * 100), // Convert to cents
-      currency: 'usd',
+      amount: toStripeAmount(orderPricing),
+      currency: toStripeCurrency(orderPricing),
       payment_method: paymentMethodId,
       customer: customer.id, // Use proper Stripe customer ID
       capture_method: 'manual', // Don't capture until agent confirms
@@ -77,24 +105,46 @@ export async function POST(request: NextRequest) {
         user_email: userEmail,
         cart_hash: generateCartHash(cartItems),
         generated_at: new Date().toISOString(),
-        expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(), // 30 minutes
+        expires_at: expiresAt,
+        ...(promotion && { promotion_code: promotion.code, promotion_reservation: promotionReservationId }),
       },
       description: `Shared Payment Token for ${cartItems.length} items`
     });
 
-    console.log('Generated SPT for user:', userEmail, 'Total:', totalWithTaxAndShipping);
+    // Hold the stock until the token is captured or expires
+    try {
+      await reserveStock(sharedPaymentToken.id, stockItems, {
+        expiresAt: sharedPaymentToken.metadata.expires_at,
+        userEmail
+      });
+    } catch (error) {
+      // Stock ran out since the check above, so the token must not be usable
+      await stripe.paymentIntents.cancel(sharedPaymentToken.id);
+      if (promotion) {
+        await releasePromotionReservation(promotion.code, promotionReservationId);
+      }
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Insufficient stock' 
+      }, { status: 409 });
+    }
+
+    console.log('Generated SPT for user:', userEmail, 'Total:', formatMoney(totalWithTaxAndShipping));
 
     return NextResponse.json({
       success: true,
       shared_payment_token: sharedPaymentToken.id,
       amount: totalWithTaxAndShipping,
-      currency: 'usd',
+      discount: orderPricing.discount,
+      breakdown: orderPricing.lines,
       expires_at: sharedPaymentToken.metadata.expires_at,
       cart_items: cartItems.length
     });
 
   } catch (error) {
     console.error('Error generating shared payment token:', error);
+    if (promotionReservation) {
+      await releasePromotionReservation(promotionReservation.code, promotionReservation.id);
+    }
     return NextResponse.json(
       { error: 'Failed to generate payment token' },
       { status: 500 }
@@ -102,17 +152,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Helper function to generate a hash of cart contents for validation
-function generateCartHash(cartItems: CartItem[]): string {
-  const cartString = cartItems
-    .sort((a, b) => a.id.localeCompare(b.id)) // Sort for consistent hash
-    .map(item => `${item.id}:${item.quantity}:${item.price}`)
-    .join('|');
-  
-  // Simple hash for demo - in production use crypto.createHash
-  return Buffer.from(cartString).toString('base64').slice(0, 16);
-}
-
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -142,8 +181,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       valid: true,
-      amount: paymentIntent.amount / 100,
-      currency: paymentIntent.currency,
+      amount: { amount: paymentIntent.amount, currency: paymentIntent.currency.toUpperCase() },
       status: paymentIntent.status,
       expires_at: paymentIntent.metadata.expires_at,
       cart_hash: paymentIntent.metadata.cart_hash
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BUCKETS } from '@/lib/supabase-storage';
+import { getStorageBackend } from '@/lib/storage';
+
+// Serves public files (product images) for the local and memory storage
+// backends. Supabase serves its public buckets itself.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bucket: string; path: string[] }> }
+) {
+  try {
+    const { bucket, path } = await params;
+
+    if (bucket !== BUCKETS.IMAGES) {
+      return new NextResponse('File not found', { status: 404 });
+    }
+
+    const storage = await getStorageBackend();
+    const { data, error } = await storage.download(bucket, path.join('/'));
+
+    if (error) {
+      return new NextResponse('File not found', { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(await data.arrayBuffer()), {
+      headers: {
+        'Content-Type': data.type || 'application/octet-stream',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Storage file serve error:', error);
+    return new NextResponse('File not found', { status: 404 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { reconcileStripeEvent } from '@/lib/payment-reconciliation';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-09-30.clover' as unknown as Stripe.LatestApiVersion,
+});
+
+// POST /api/webhooks/stripe - Signature-verified Stripe events for payment reconciliation
+export async function POST(request: NextRequest) {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not configured');
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+  }
+
+  const signature = request.headers.get('stripe-signature');
+  if (!signature) {
+    return NextResponse.json({ error: 'Missing Stripe signature' }, { status: 400 });
+  }
+
+  // Signature verification needs the raw, unparsed body
+  const payload = await request.text();
+
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  } catch (error) {
+    console.error('Stripe webhook signature verification failed:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  try {
+    console.log(`Stripe webhook received: ${event.type} (${event.id})`);
+    const result = await reconcileStripeEvent(event, stripe);
+
+    if (result.action === 'deferred') {
+      // A non-2xx response makes Stripe retry the event later
+      console.log(`Stripe webhook ${event.id} deferred:`, result.issues);
+      return NextResponse.json({ received: true, ...result }, {
+        status: 503,
+        headers: { 'Retry-After': '300' }
+      });
+    }
+
+    if (result.issues.length > 0) {
+      console.warn(`Stripe webhook ${event.id} reconciliation issues for order ${result.orderId}:`, result.issues);
+    }
+
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    console.error(`Error processing Stripe webhook ${event.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process webhook',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
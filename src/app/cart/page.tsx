@@ -1,7 +1,9 @@
 'use client';
 
 import { useCart, formatPrice, CartItem } from '@/contexts/CartContext';
-import { calculateOrderTotals } from '@/lib/order-calculations';
+import { useOrderPricing } from '@/hooks/useOrderPricing';
+import { multiplyMoney, subtractMoney } from '@/lib/money';
+import type { Money } from '@/lib/money';
 import { Plus, Minus, Trash2, ShoppingBag, ArrowRight } from 'lucide-react';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -79,7 +81,6 @@ export default function CartPage() {
               <OrderSummary
                 items={state.items}
                 totalItems={state.totalItems}
-                currency={state.currency}
               />
             </div>
           </div>
@@ -113,7 +114,8 @@ interface CartItemCardProps {
 }
 
 function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
-  const itemTotal = item.price * item.quantity;
+  const { formatDisplayPrice } = useCart();
+  const itemTotal = multiplyMoney(item.price, item.quantity);
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -160,11 +162,11 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
           <div className="flex justify-between items-center">
             <div className="flex items-center gap-2">
               <span className="text-lg font-semibold text-blue-600">
-                {formatPrice(item.price, item.currency)}
+                {formatDisplayPrice(item.price)}
               </span>
-              {item.originalPrice && item.originalPrice > item.price && (
+              {item.originalPrice && item.originalPrice.amount > item.price.amount && (
                 <span className="text-sm text-gray-500 line-through">
-                  {formatPrice(item.originalPrice, item.currency)}
+                  {formatDisplayPrice(item.originalPrice)}
                 </span>
               )}
             </div>
@@ -194,11 +196,11 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
 
               <div className="text-right">
                 <div className="text-lg font-semibold text-gray-900">
-                  {formatPrice(itemTotal, item.currency)}
+                  {formatDisplayPrice(itemTotal)}
                 </div>
                 {item.quantity > 1 && (
                   <div className="text-xs text-gray-500">
-                    {item.quantity} × {formatPrice(item.price, item.currency)}
+                    {item.quantity} × {formatDisplayPrice(item.price)}
                   </div>
                 )}
               </div>
@@ -213,12 +215,13 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
 interface OrderSummaryProps {
   items: CartItem[];
   totalItems: number;
-  currency: string;
 }
 
-function OrderSummary({ items, totalItems, currency }: OrderSummaryProps) {
-  // Calculate totals using utility function
-  const orderTotals = calculateOrderTotals(items);
+function OrderSummary({ items, totalItems }: OrderSummaryProps) {
+  // Totals come from the pricing service so they match what checkout charges
+  const { pricing: orderTotals, freeShippingThreshold } = useOrderPricing(items);
+  const { state, formatDisplayPrice } = useCart();
+  const formatTotal = (amount?: Money) => amount ? formatDisplayPrice(amount) : '—';
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 sticky top-8">
@@ -227,39 +230,45 @@ function OrderSummary({ items, totalItems, currency }: OrderSummaryProps) {
       <div className="space-y-3 mb-4">
         <div className="flex justify-between text-sm">
           <span className="text-gray-600">Subtotal ({totalItems} items)</span>
-          <span className="font-medium">{formatPrice(orderTotals.subtotal, currency)}</span>
+          <span className="font-medium">{formatTotal(orderTotals?.subtotal)}</span>
         </div>
         
         <div className="flex justify-between text-sm">
           <span className="text-gray-600">Shipping</span>
           <span className="font-medium">
-            {orderTotals.shipping === 0 ? (
+            {orderTotals?.shipping.amount === 0 ? (
               <span className="text-green-600">Free</span>
             ) : (
-              formatPrice(orderTotals.shipping, currency)
+              formatTotal(orderTotals?.shipping)
             )}
           </span>
         </div>
         
         <div className="flex justify-between text-sm">
           <span className="text-gray-600">Tax</span>
-          <span className="font-medium">{formatPrice(orderTotals.tax, currency)}</span>
+          <span className="font-medium">{formatTotal(orderTotals?.tax)}</span>
         </div>
         
         <div className="border-t pt-3">
           <div className="flex justify-between">
             <span className="text-lg font-semibold text-gray-900">Total</span>
             <span className="text-lg font-bold text-blue-600">
-              {formatPrice(orderTotals.total, currency)}
+              {formatTotal(orderTotals?.total)}
             </span>
           </div>
+          {/* Orders are charged in the store currency; the display currency is an estimate */}
+          {orderTotals && orderTotals.currency !== state.displayCurrency && (
+            <p className="text-xs text-gray-500 mt-1 text-right">
+              Charged as {formatPrice(orderTotals.total)} ({orderTotals.currency})
+            </p>
+          )}
         </div>
       </div>
 
-      {orderTotals.subtotal > 0 && orderTotals.subtotal < 50 && (
+      {orderTotals && freeShippingThreshold && orderTotals.shipping.amount > 0 && orderTotals.subtotal.amount < freeShippingThreshold.amount && (
         <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
           <p className="text-sm text-blue-800">
-            Add {formatPrice(50 - orderTotals.subtotal, currency)} more for free shipping!
+            Add {formatDisplayPrice(subtractMoney(freeShippingThreshold, orderTotals.subtotal))} more for free shipping!
           </p>
         </div>
       )}
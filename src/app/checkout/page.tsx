@@ -10,6 +10,9 @@ import ShippingForm from '@/components/checkout/ShippingForm';
 import SavedPaymentMethodForm from '@/components/checkout/SavedPaymentMethodForm';
 import OrderReview from '@/components/checkout/OrderReview';
 import { UserProfile } from '@/types/user';
+import { useOrderPricing } from '@/hooks/useOrderPricing';
+import { formatMoney, multiplyMoney } from '@/lib/money';
+import type { Money } from '@/lib/money';
 
 type CheckoutStep = 'shipping' | 'payment' | 'review';
 
@@ -39,7 +42,7 @@ interface CheckoutData {
 }
 
 export default function CheckoutPage() {
-  const { state } = useCart();
+  const { state, formatDisplayPrice } = useCart();
   const { data: session } = useSession();
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('shipping');
@@ -66,6 +69,14 @@ export default function CheckoutPage() {
     },
   });
   const [isProcessing, setIsProcessing] = useState(false);
+  const [promotionCode, setPromotionCode] = useState<string | null>(null);
+  // Price with the address only once it's been entered, not on every keystroke
+  const { pricing: orderPricing } = useOrderPricing(state.items, {
+    promotionCode,
+    shippingAddress: currentStep === 'shipping' ? undefined : checkoutData.shipping
+  });
+  // Shown in the display currency; the order is charged in the store currency
+  const formatTotal = (amount?: Money) => amount ? formatDisplayPrice(amount) : '—';
 
   // Load user profile for auto-fill
   useEffect(() => {
@@ -162,6 +173,7 @@ export default function CheckoutPage() {
             phone: checkoutData.shipping.phone,
           },
           paymentMethodId: paymentData.paymentMethodId,
+          ...(promotionCode && { promotionCode }),
           orderNote: 'Order placed via checkout page'
         }),
       });
@@ -310,7 +322,7 @@ export default function CheckoutPage() {
                   handleStepChange('review');
                 }}
                 onBack={() => handleStepChange('shipping')}
-                totalAmount={state.totalAmount}
+                orderPricing={orderPricing}
               />
             )}
             
@@ -318,6 +330,9 @@ export default function CheckoutPage() {
               <OrderReview
                 checkoutData={checkoutData}
                 cartItems={state.items}
+                orderPricing={orderPricing}
+                promotionCode={promotionCode}
+                onPromotionCodeChange={setPromotionCode}
                 onPlaceOrder={handlePlaceOrder}
                 onBack={() => handleStepChange('payment')}
                 isProcessing={isProcessing}
@@ -347,7 +362,7 @@ export default function CheckoutPage() {
                       <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
                     </div>
                     <div className="text-sm font-medium text-gray-900">
-                      ${(item.price * item.quantity).toFixed(2)}
+                      {formatDisplayPrice(multiplyMoney(item.price, item.quantity))}
                     </div>
                   </div>
                 ))}
@@ -356,29 +371,40 @@ export default function CheckoutPage() {
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="font-medium">${state.totalAmount.toFixed(2)}</span>
+                  <span className="font-medium">{formatTotal(orderPricing?.subtotal)}</span>
                 </div>
+                {orderPricing && orderPricing.discount.amount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Discount</span>
+                    <span className="font-medium text-green-600">-{formatTotal(orderPricing.discount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Shipping</span>
                   <span className="font-medium">
-                    {state.totalAmount > 50 ? (
+                    {orderPricing?.shipping.amount === 0 ? (
                       <span className="text-green-600">Free</span>
                     ) : (
-                      '$9.99'
+                      formatTotal(orderPricing?.shipping)
                     )}
                   </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Tax</span>
-                  <span className="font-medium">${(state.totalAmount * 0.08).toFixed(2)}</span>
+                  <span className="font-medium">{formatTotal(orderPricing?.tax)}</span>
                 </div>
                 <div className="border-t pt-2">
                   <div className="flex justify-between">
                     <span className="text-lg font-semibold text-gray-900">Total</span>
                     <span className="text-lg font-bold text-blue-600">
-                      ${(state.totalAmount + (state.totalAmount > 50 ? 0 : 9.99) + (state.totalAmount * 0.08)).toFixed(2)}
+                      {formatTotal(orderPricing?.total)}
                     </span>
                   </div>
+                  {orderPricing && orderPricing.currency !== state.displayCurrency && (
+                    <p className="text-xs text-gray-500 mt-1 text-right">
+                      Charged as {formatMoney(orderPricing.total)} ({orderPricing.currency})
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
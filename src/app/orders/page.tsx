@@ -3,15 +3,15 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { Package, Calendar, CreditCard, Truck } from 'lucide-react';
+import { Package, Calendar, CreditCard, Truck, XCircle, RotateCcw } from 'lucide-react';
 import Link from 'next/link';
+import { formatMoney, Money } from '@/lib/money';
 
 interface Order {
   orderId: string;
   customerEmail: string;
   customerName: string;
-  total: number;
-  currency: string;
+  total: Money;
   status: string;
   createdAt: string;
 }
@@ -20,6 +20,7 @@ export default function OrdersPage() {
   const { data: session } = useSession();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchUserOrders = async () => {
@@ -50,6 +51,35 @@ export default function OrdersPage() {
 
   // This function is defined inside useEffect and used immediately
 
+  const handleCancelOrder = async (orderId: string) => {
+    if (!confirm(`Cancel order ${orderId}?`)) return;
+
+    setCancellingOrderId(orderId);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Cancelled by customer' }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setOrders(prev => prev.map(order =>
+          order.orderId === orderId ? { ...order, status: result.order.status } : order
+        ));
+      } else {
+        alert(result.error || 'Failed to cancel order');
+      }
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      alert('Failed to cancel order');
+    } finally {
+      setCancellingOrderId(null);
+    }
+  };
+
+  const canCancel = (status: string) => status === 'confirmed' || status === 'processing';
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -60,6 +90,11 @@ export default function OrdersPage() {
         return <Truck className="h-4 w-4 text-orange-500" />;
       case 'delivered':
         return <Package className="h-4 w-4 text-green-500" />;
+      case 'cancelled':
+        return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'returned':
+      case 'refunded':
+        return <RotateCcw className="h-4 w-4 text-purple-500" />;
       default:
         return <Package className="h-4 w-4 text-gray-500" />;
     }
@@ -75,18 +110,16 @@ export default function OrdersPage() {
         return 'bg-orange-100 text-orange-800';
       case 'delivered':
         return 'bg-green-100 text-green-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
+      case 'returned':
+      case 'refunded':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const formatPrice = (price: number, currency: string = 'USD') => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(price);
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -147,7 +180,7 @@ export default function OrdersPage() {
                           </div>
                           <div className="flex items-center">
                             <CreditCard className="h-4 w-4 mr-1" />
-                            {formatPrice(order.total, order.currency)}
+                            {formatMoney(order.total)}
                           </div>
                         </div>
                       </div>
@@ -172,6 +205,15 @@ export default function OrdersPage() {
                       <button className="text-gray-600 hover:text-gray-700 text-sm font-medium">
                         Track Order
                       </button>
+                      {canCancel(order.status) && (
+                        <button
+                          onClick={() => handleCancelOrder(order.orderId)}
+                          disabled={cancellingOrderId === order.orderId}
+                          className="text-red-600 hover:text-red-700 text-sm font-medium disabled:opacity-50"
+                        >
+                          {cancellingOrderId === order.orderId ? 'Cancelling...' : 'Cancel Order'}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
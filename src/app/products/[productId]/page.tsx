@@ -36,6 +36,8 @@ export default async function ProductPageRoute({ params }: Props) {
     
     if (product) {
       console.log(`Product ${productId} found with full data from Supabase`);
+      // The search embedding isn't shown, so don't send it to the browser
+      delete product.embedding;
     } else {
       // If direct fetch fails, try to find it in the products index
       console.log(`Product ${productId} not found directly, checking products index...`);
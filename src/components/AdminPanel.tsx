@@ -1,8 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Trash2, Database, AlertTriangle, Eye, Loader2, Folder } from 'lucide-react';
+import { Trash2, Database, AlertTriangle, Eye, Loader2, Folder, BarChart3, FileUp } from 'lucide-react';
 import CategoryManagement from './CategoryManagement';
+import SearchAnalytics from './SearchAnalytics';
+import ProductImports from './ProductImports';
 
 interface BlobInfo {
   pathname: string;
@@ -27,6 +29,8 @@ export default function AdminPanel() {
   const tabs = [
     { id: 'storage', name: 'Storage Management', icon: Database },
     { id: 'categories', name: 'Category Management', icon: Folder },
+    { id: 'search', name: 'Search Analytics', icon: BarChart3 },
+    { id: 'imports', name: 'Product Imports', icon: FileUp },
   ];
 
   const loadStorageStats = async () => {
@@ -115,6 +119,10 @@ export default function AdminPanel() {
 
       {/* Tab Content */}
       {activeTab === 'categories' && <CategoryManagement />}
+
+      {activeTab === 'search' && <SearchAnalytics />}
+
+      {activeTab === 'imports' && <ProductImports />}
       
       {activeTab === 'storage' && (
         <>
@@ -6,10 +6,12 @@ import { useState, useRef, useEffect } from 'react';
 import { User, LogOut, Settings, Package } from 'lucide-react';
 import Image from 'next/image';
 import CartIcon from '@/components/cart/CartIcon';
+import { useCart } from '@/contexts/CartContext';
 import SearchComponent from '@/components/SearchComponent';
 
 export default function Navigation() {
   const { data: session, status } = useSession();
+  const { state: cartState, setDisplayCurrency } = useCart();
   const [showUserMenu, setShowUserMenu] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
 
@@ -72,6 +74,18 @@ export default function Navigation() {
           {/* Right side - Cart and Auth */}
           <div className="flex items-center space-x-4">
             <CartIcon />
+
+            {/* Display currency */}
+            <select
+              value={cartState.displayCurrency}
+              onChange={(e) => setDisplayCurrency(e.target.value)}
+              aria-label="Display currency"
+              className="hidden sm:block text-sm text-gray-600 border border-gray-300 rounded-md px-2 py-1 bg-white"
+            >
+              {Object.keys(cartState.rates).map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
             
             {/* Authentication */}
             {status === 'loading' ? (
@@ -5,6 +5,7 @@ import { useForm } from 'react-hook-form';
 import { Upload, Loader2, AlertCircle } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import type { ValidationIssue } from '@/lib/json-schema';
 
 interface FormData {
   productBrief: string;
@@ -36,6 +37,11 @@ interface ProductData {
     isNovelProduct?: boolean;
     assignmentMethod?: 'ai_primary' | 'fallback';
   };
+  imageAnalysis?: {
+    usedImage: boolean; // Whether the model saw the photo
+    inferredFields: string[]; // e.g. "specifications.Color", "categoryId"
+    fallbackReason?: string;
+  };
   tags: string[];
 }
 
@@ -49,6 +55,8 @@ export default function ProductBuilderForm({ onProductGenerated }: ProductBuilde
   const [isSaving, setIsSaving] = useState(false);
   const [isCompressing, setIsCompressing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Field problems in generated details that the model couldn't repair
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
   const router = useRouter();
 
   // Image compression function
@@ -156,7 +164,7 @@ export default function ProductBuilderForm({ onProductGenerated }: ProductBuilde
     return result.url;
   };
 
-  const generateProduct = async (productBrief: string, imageName: string) => {
+  const generateProduct = async (productBrief: string, imageName: string, imageUrl: string) => {
     const response = await fetch('/api/generate-product', {
       method: 'POST',
       headers: {
@@ -165,11 +173,13 @@ export default function ProductBuilderForm({ onProductGenerated }: ProductBuilde
       body: JSON.stringify({
         productBrief,
         imageName,
+        imageUrl,
       }),
     });
 
     if (!response.ok) {
       const error = await response.json();
+      setValidationIssues(error.validation?.issues || []);
       throw new Error(error.error || 'Generation failed');
     }
 
@@ -201,6 +211,7 @@ export default function ProductBuilderForm({ onProductGenerated }: ProductBuilde
   const onSubmit = async (data: FormData) => {
     try {
       setError(null);
+      setValidationIssues([]);
       setIsUploading(true);
 
       // Upload image
@@ -209,7 +220,7 @@ export default function ProductBuilderForm({ onProductGenerated }: ProductBuilde
 
       // Generate product details
       setIsGenerating(true);
-      const productData = await generateProduct(data.productBrief, data.image[0].name);
+      const productData = await generateProduct(data.productBrief, data.image[0].name, imageUrl);
       setIsGenerating(false);
 
       // Save product and get URL
@@ -354,6 +365,21 @@ export default function ProductBuilderForm({ onProductGenerated }: ProductBuilde
           </div>
         )}
 
+        {validationIssues.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm font-medium text-red-700 mb-1">
+              These fields were still invalid; try again or add detail to the brief:
+            </p>
+            <ul className="list-disc list-inside text-sm text-red-700 space-y-0.5">
+              {validationIssues.map((issue, index) => (
+                <li key={index}>
+                  <span className="font-mono">{issue.field}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Progress Indicator */}
         {isProcessing && (
           <div className="flex items-center space-x-2 p-3 bg-blue-50 border border-blue-200 rounded-md">
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, Loader2, Save, Sparkles, X } from 'lucide-react';
+import CategorySelector from './CategorySelector';
+import type { ValidationIssue } from '@/lib/json-schema';
+import type { RegeneratableProductField } from '@/lib/product-schema';
+
+export interface EditableProduct {
+  productName: string;
+  tagline: string;
+  description: string;
+  keyFeatures: string[];
+  specifications: Record<string, string>;
+  pricing: {
+    currency: string;
+    price: number;
+    originalPrice?: number;
+    discount?: string;
+  };
+  benefits: string[];
+  targetAudience: string;
+  categoryId?: string;
+  tags: string[];
+}
+
+interface ProductEditFormProps {
+  productId: string;
+  productData: EditableProduct;
+  onSaved: (product: EditableProduct) => void;
+  onCancel: () => void;
+}
+
+// Lists are edited one item per line, specifications as "Name: value" lines
+interface FormValues {
+  productName: string;
+  tagline: string;
+  description: string;
+  keyFeatures: string;
+  specifications: string;
+  currency: string;
+  price: string;
+  originalPrice: string;
+  benefits: string;
+  targetAudience: string;
+  categoryId: string;
+  tags: string;
+}
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+function toFormValues(product: EditableProduct): FormValues {
+  return {
+    productName: product.productName,
+    tagline: product.tagline,
+    description: product.description,
+    keyFeatures: product.keyFeatures.join('\n'),
+    specifications: Object.entries(product.specifications).map(([key, value]) => `${key}: ${value}`).join('\n'),
+    currency: product.pricing.currency,
+    price: String(product.pricing.price),
+    originalPrice: product.pricing.originalPrice !== undefined ? String(product.pricing.originalPrice) : '',
+    benefits: (product.benefits || []).join('\n'),
+    targetAudience: product.targetAudience,
+    categoryId: product.categoryId || '',
+    tags: (product.tags || []).join(', ')
+  };
+}
+
+function toProduct(values: FormValues, original: EditableProduct): EditableProduct {
+  return {
+    productName: values.productName.trim(),
+    tagline: values.tagline.trim(),
+    description: values.description.trim(),
+    keyFeatures: toLines(values.keyFeatures),
+    specifications: Object.fromEntries(toLines(values.specifications).map(line => {
+      const separator = line.indexOf(':');
+      return separator === -1 ? [line, ''] : [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+    })),
+    pricing: {
+      ...original.pricing,
+      currency: values.currency.trim().toUpperCase(),
+      price: parseFloat(values.price),
+      originalPrice: values.originalPrice.trim() ? parseFloat(values.originalPrice) : undefined
+    },
+    benefits: toLines(values.benefits),
+    targetAudience: values.targetAudience.trim(),
+    categoryId: values.categoryId || original.categoryId,
+    tags: values.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+  };
+}
+
+const inputClassName = 'block text-black w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function ProductEditForm({ productId, productData, onSaved, onCancel }: ProductEditFormProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(productData));
+  const [isSaving, setIsSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState<RegeneratableProductField | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+
+  const setValue = (field: keyof FormValues, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const regenerate = async (field: RegeneratableProductField) => {
+    setRegenerating(field);
+    setError(null);
+    setIssues([]);
+    try {
+      const response = await fetch(`/api/products/${productId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ field, product: toProduct(values, productData) })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setValue(field, Array.isArray(data.value) ? data.value.join('\n') : data.value);
+      } else {
+        setError(data.error || `Failed to regenerate ${field}`);
+        setIssues(data.issues || []);
+      }
+    } catch (err) {
+      console.error('Regenerate error:', err);
+      setError(`Failed to regenerate ${field}`);
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const product = toProduct(values, productData);
+    // Send only what changed
+    const updates = Object.fromEntries(
+      (Object.keys(product) as Array<keyof EditableProduct>)
+        .filter(field => JSON.stringify(product[field]) !== JSON.stringify(productData[field]))
+        .map(field => [field, product[field]])
+    );
+    if (Object.keys(updates).length === 0) {
+      onCancel();
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setIssues([]);
+    try {
+      const response = await fetch(`/api/products/${productId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      const data = await response.json();
+      if (response.ok) {
+        onSaved(data.product);
+      } else {
+        setError(data.error || 'Failed to save product');
+        setIssues(data.issues || []);
+      }
+    } catch (err) {
+      console.error('Save error:', err);
+      setError('Failed to save product');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const regenerateButton = (field: RegeneratableProductField) => (
+    <button
+      type="button"
+      onClick={() => regenerate(field)}
+      disabled={regenerating !== null || isSaving}
+      className="inline-flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-800 disabled:opacity-50"
+    >
+      {regenerating === field ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+      <span>Regenerate with AI</span>
+    </button>
+  );
+
+  const fieldLabel = (text: string, field?: RegeneratableProductField) => (
+    <div className="flex items-center justify-between mb-2">
+      <span className="block text-sm font-medium text-gray-700">{text}</span>
+      {field && regenerateButton(field)}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Edit Product</h2>
+        <button onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          {fieldLabel('Product Name')}
+          <input className={inputClassName} value={values.productName} onChange={(e) => setValue('productName', e.target.value)} />
+        </div>
+        <div>
+          {fieldLabel('Category')}
+          <CategorySelector
+            value={values.categoryId || null}
+            onChange={(categoryId) => setValue('categoryId', categoryId || '')}
+            allowEmpty={false}
+          />
+        </div>
+      </div>
+
+      <div>
+        {fieldLabel('Tagline', 'tagline')}
+        <input className={inputClassName} value={values.tagline} onChange={(e) => setValue('tagline', e.target.value)} />
+      </div>
+
+      <div>
+        {fieldLabel('Description', 'description')}
+        <textarea rows={8} className={inputClassName} value={values.description} onChange={(e) => setValue('description', e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          {fieldLabel('Key Features (one per line)', 'keyFeatures')}
+          <textarea rows={6} className={inputClassName} value={values.keyFeatures} onChange={(e) => setValue('keyFeatures', e.target.value)} />
+        </div>
+        <div>
+          {fieldLabel('Benefits (one per line)')}
+          <textarea rows={6} className={inputClassName} value={values.benefits} onChange={(e) => setValue('benefits', e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          {fieldLabel('Price')}
+          <input type="number" min="0" step="0.01" className={inputClassName} value={values.price} onChange={(e) => setValue('price', e.target.value)} />
+        </div>
+        <div>
+          {fieldLabel('Original Price (optional)')}
+          <input type="number" min="0" step="0.01" className={inputClassName} value={values.originalPrice} onChange={(e) => setValue('originalPrice', e.target.value)} />
+        </div>
+        <div>
+          {fieldLabel('Currency')}
+          <input maxLength={3} className={inputClassName} value={values.currency} onChange={(e) => setValue('currency', e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          {fieldLabel('Specifications (Name: value per line)')}
+          <textarea rows={6} className={inputClassName} value={values.specifications} onChange={(e) => setValue('specifications', e.target.value)} />
+        </div>
+        <div className="space-y-6">
+          <div>
+            {fieldLabel('Perfect For')}
+            <input className={inputClassName} value={values.targetAudience} onChange={(e) => setValue('targetAudience', e.target.value)} />
+          </div>
+          <div>
+            {fieldLabel('Tags (comma separated)')}
+            <input className={inputClassName} value={values.tags} onChange={(e) => setValue('tags', e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-500" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+          {issues.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-red-700 space-y-0.5 mt-2">
+              {issues.map((issue, index) => (
+                <li key={index}>
+                  <span className="font-mono">{issue.field}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || regenerating !== null}
+          className="flex-1 inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, History, Loader2, RotateCcw, X } from 'lucide-react';
+import type { ProductFieldChange, ProductRevisionSummary } from '@/lib/product-revision-rules';
+import type { EditableProduct } from './ProductEditForm';
+
+interface ProductHistoryPanelProps {
+  productId: string;
+  onRolledBack: (product: EditableProduct) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ProductRevisionSummary['source'], string> = {
+  baseline: 'Before history',
+  create: 'Created',
+  edit: 'Edited',
+  variants: 'Variants changed',
+  rollback: 'Rolled back'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value.join('\n');
+  return JSON.stringify(value, null, 2);
+};
+
+export default function ProductHistoryPanel({ productId, onRolledBack, onClose }: ProductHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ProductRevisionSummary[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [changes, setChanges] = useState<ProductFieldChange[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComparing, setIsComparing] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/products/${productId}/revisions`);
+      const data = await response.json();
+      if (response.ok) {
+        setRevisions(data.revisions);
+        // Compare the latest save with the one before it by default
+        setToId(data.revisions[0]?.id || '');
+        setFromId(data.revisions[1]?.id || '');
+        setChanges(null);
+      } else {
+        setError(data.error || 'Failed to load history');
+      }
+    } catch (err) {
+      console.error('Error loading product history:', err);
+      setError('Error loading history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const compare = async () => {
+    setIsComparing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/products/${productId}/revisions/diff?from=${fromId}&to=${toId}`);
+      const data = await response.json();
+      if (response.ok) {
+        setChanges(data.changes);
+      } else {
+        setError(data.error || 'Failed to compare revisions');
+      }
+    } catch (err) {
+      console.error('Error comparing revisions:', err);
+      setError('Error comparing revisions');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const rollback = async (revision: ProductRevisionSummary) => {
+    if (!confirm(`Restore the product as it was in revision ${revision.number}? The current version stays in the history.`)) {
+      return;
+    }
+
+    setRollingBackId(revision.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/products/${productId}/revisions/${revision.id}/rollback`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        onRolledBack(data.product);
+        await loadRevisions();
+      } else {
+        setError(data.error || 'Failed to roll back');
+      }
+    } catch (err) {
+      console.error('Error rolling back product:', err);
+      setError('Error rolling back');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const revisionLabel = (revision: ProductRevisionSummary) =>
+    `#${revision.number} · ${SOURCE_LABELS[revision.source]} · ${new Date(revision.createdAt).toLocaleString()}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+          <History className="h-6 w-6" />
+          <span>History</span>
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-md">
+          <AlertCircle className="h-5 w-5 text-red-500" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">
+          <Loader2 className="h-6 w-6 mx-auto animate-spin" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 text-sm">
+          No revisions yet. One is kept every time the product is saved.
+        </div>
+      ) : (
+        <>
+          {/* Revision List */}
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="px-4 py-3 flex items-start justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {revisionLabel(revision)}
+                    {index === 0 && <span className="ml-2 text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full">Current</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {revision.author}
+                    {revision.restoredFrom !== undefined && ` · restored revision #${revision.restoredFrom}`}
+                  </div>
+                  {revision.changedFields.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {revision.changedFields.map(field => (
+                        <span key={field} className="bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full font-mono">
+                          {field}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => rollback(revision)}
+                    disabled={rollingBackId !== null}
+                    className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {rollingBackId === revision.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                    Roll back
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Compare */}
+          {revisions.length > 1 && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <span>Compare</span>
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="px-3 py-2 text-sm text-gray-800 border border-gray-300 rounded-md"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                  ))}
+                </select>
+                <span>with</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="px-3 py-2 text-sm text-gray-800 border border-gray-300 rounded-md"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={compare}
+                  disabled={isComparing || !fromId || !toId}
+                  className="inline-flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isComparing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Compare
+                </button>
+              </div>
+
+              {changes && (changes.length === 0 ? (
+                <div className="text-center py-4 text-gray-500 text-sm">These revisions are the same</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {['Field', 'Before', 'After'].map(heading => (
+                          <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {changes.map(change => (
+                        <tr key={change.field} className="align-top">
+                          <td className="px-4 py-3 text-sm font-mono text-gray-900">{change.field}</td>
+                          <td className="px-4 py-3 text-sm text-red-700 bg-red-50 whitespace-pre-wrap">{formatValue(change.before)}</td>
+                          <td className="px-4 py-3 text-sm text-green-700 bg-green-50 whitespace-pre-wrap">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
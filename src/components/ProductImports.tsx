@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, ArrowLeft, Loader2, RefreshCw, RotateCcw, Upload } from 'lucide-react';
+import type {
+  ProductImportFormat,
+  ProductImportJob,
+  ProductImportProgress,
+  ProductImportRowStatus
+} from '@/lib/product-import-rules';
+
+type ProductImportSummary = Omit<ProductImportJob, 'rows'> & { progress: ProductImportProgress };
+type ProductImportDetails = ProductImportJob & { progress: ProductImportProgress };
+
+// How often running jobs are refreshed
+const POLL_INTERVAL = 3000;
+
+const STATUS_STYLES: Record<ProductImportRowStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+function ProgressBar({ progress }: { progress: ProductImportProgress }) {
+  const width = (count: number) => `${progress.total > 0 ? (count / progress.total) * 100 : 0}%`;
+  return (
+    <div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-200">
+        <div className="bg-green-500" style={{ width: width(progress.succeeded) }} />
+        <div className="bg-red-500" style={{ width: width(progress.failed) }} />
+        <div className="bg-blue-400" style={{ width: width(progress.running) }} />
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        {progress.succeeded} succeeded, {progress.failed} failed, {progress.running} running, {progress.pending} pending
+        of {progress.total}
+      </div>
+    </div>
+  );
+}
+
+export default function ProductImports() {
+  const [jobs, setJobs] = useState<ProductImportSummary[]>([]);
+  const [selectedJob, setSelectedJob] = useState<ProductImportDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/product-imports');
+      const data = await response.json();
+      if (response.ok) {
+        setJobs(data.jobs);
+      } else {
+        setError(data.error || 'Failed to load product imports');
+      }
+    } catch (err) {
+      console.error('Error loading product imports:', err);
+      setError('Error loading product imports');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/product-imports/${jobId}`);
+      const data = await response.json();
+      if (response.ok) {
+        setSelectedJob(data.job);
+      } else {
+        setError(data.error || 'Failed to load product import');
+      }
+    } catch (err) {
+      console.error('Error loading product import:', err);
+      setError('Error loading product import');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Keep polling while anything is still running
+  const hasRunningJob = selectedJob
+    ? selectedJob.status === 'running'
+    : jobs.some(job => job.status === 'running');
+  useEffect(() => {
+    if (!hasRunningJob) return;
+    const timer = setInterval(() => {
+      if (selectedJob) {
+        loadJob(selectedJob.id);
+      } else {
+        loadJobs();
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasRunningJob, selectedJob, loadJob, loadJobs]);
+
+  const uploadFile = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const format: ProductImportFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const content = await file.text();
+      const response = await fetch('/api/product-imports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, content, name: file.name })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setSelectedJob(data.job);
+        loadJobs();
+      } else {
+        setError(data.error || 'Failed to start import');
+      }
+    } catch (err) {
+      console.error('Error starting product import:', err);
+      setError('Error starting product import');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const retryFailedRows = async (jobId: string) => {
+    setIsRetrying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/product-imports/${jobId}/retry`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setSelectedJob(data.job);
+      } else {
+        setError(data.error || 'Failed to retry rows');
+      }
+    } catch (err) {
+      console.error('Error retrying product import rows:', err);
+      setError('Error retrying rows');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Product Imports</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Generate products in bulk from a CSV or JSON file of briefs, with an optional image URL per row
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => (selectedJob ? loadJob(selectedJob.id) : loadJobs())}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </button>
+            <label className={`inline-flex items-center px-3 py-2 text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 cursor-pointer ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}>
+              {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Upload briefs
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="flex items-center space-x-2 text-red-700 bg-red-50 rounded-lg p-4">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!selectedJob && (
+          <>
+            <p className="text-sm text-gray-500">
+              CSV files need a <code>brief</code> column and may have an <code>image</code> column. JSON files are an
+              array of briefs or of <code>{'{ "brief": "...", "image": "..." }'}</code> objects.
+            </p>
+
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">
+                <Loader2 className="h-6 w-6 mx-auto animate-spin" />
+              </div>
+            ) : jobs.length === 0 ? (
+              <div className="text-center py-6 text-gray-500 text-sm">No imports yet</div>
+            ) : (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {jobs.map(job => (
+                  <button
+                    key={job.id}
+                    onClick={() => loadJob(job.id)}
+                    className="w-full text-left px-4 py-3 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-gray-900">{job.name}</span>
+                      <span className="text-xs text-gray-500">
+                        {job.status === 'running' ? 'Running' : 'Completed'} · {new Date(job.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <ProgressBar progress={job.progress} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {selectedJob && (
+          <>
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => {
+                  setSelectedJob(null);
+                  loadJobs();
+                }}
+                className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                All imports
+              </button>
+              {selectedJob.progress.failed > 0 && (
+                <button
+                  onClick={() => retryFailedRows(selectedJob.id)}
+                  disabled={isRetrying}
+                  className="inline-flex items-center px-3 py-2 text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                >
+                  {isRetrying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                  Retry failed rows
+                </button>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{selectedJob.name}</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Started by {selectedJob.createdBy} on {new Date(selectedJob.createdAt).toLocaleString()}
+                {selectedJob.completedAt && `, completed ${new Date(selectedJob.completedAt).toLocaleString()}`}
+              </p>
+              <ProgressBar progress={selectedJob.progress} />
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Row', 'Brief', 'Status', 'Attempts', 'Result'].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {selectedJob.rows.map(row => (
+                    <tr key={row.index}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.index}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 max-w-xs truncate" title={row.brief}>{row.brief}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                          {row.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.attempts}</td>
+                      <td className="px-6 py-4 text-sm">
+                        {row.status === 'succeeded' && row.productId ? (
+                          <a href={`/products/${row.productId}`} target="_blank" className="text-blue-600 hover:text-blue-800">
+                            {row.productName || row.productId}
+                          </a>
+                        ) : row.error ? (
+                          <div className="text-red-700">
+                            <div>{row.error}</div>
+                            {row.validationIssues && row.validationIssues.length > 0 && (
+                              <ul className="list-disc list-inside text-xs mt-1">
+                                {row.validationIssues.map((issue, i) => (
+                                  <li key={i}>{issue.field}: {issue.message}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
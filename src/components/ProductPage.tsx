@@ -1,10 +1,23 @@
 'use client';
 
 import Image from 'next/image';
-import { Heart, Share2, ArrowLeft, Trash2 } from 'lucide-react';
+import { Heart, Share2, ArrowLeft, Trash2, Pencil, History } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 import AddToCartButton from '@/components/cart/AddToCartButton';
+import ProductEditForm, { EditableProduct } from '@/components/ProductEditForm';
+import ProductHistoryPanel from '@/components/ProductHistoryPanel';
+import { useCart } from '@/contexts/CartContext';
+import { toMoney } from '@/lib/money';
+import { getStockInfo, getStockMessage, ProductInventory } from '@/lib/stock-status';
+import {
+  findProductVariant,
+  hasVariants,
+  ProductVariant,
+  ProductVariantAxis,
+  VariantAxis,
+  VariantSelection
+} from '@/lib/product-variants';
 
 interface ProductData {
   productName: string;
@@ -21,7 +34,11 @@ interface ProductData {
   benefits: string[];
   targetAudience: string;
   category: string;
+  categoryId?: string;
   tags: string[];
+  inventory?: ProductInventory;
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
 }
 
 interface ProductPageProps {
@@ -31,10 +48,42 @@ interface ProductPageProps {
   onBack?: () => void;
 }
 
-export default function ProductPage({ productData, imageUrl, productId, onBack }: ProductPageProps) {
+export default function ProductPage({ productData: initialProductData, imageUrl, productId, onBack }: ProductPageProps) {
   const router = useRouter();
+  const { formatDisplayPrice } = useCart();
+  const [productData, setProductData] = useState(initialProductData);
+  // Admin panels shown in place of the product
+  const [panel, setPanel] = useState<'edit' | 'history' | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<VariantSelection>({});
+  const productHasVariants = hasVariants(productData);
+  const selectedVariant = findProductVariant(productData, selectedOptions);
+
+  // Variants without their own inventory share the product's stock
+  const stockInfo = getStockInfo(selectedVariant?.inventory || productData.inventory);
+  const stockMessage = getStockMessage(stockInfo);
+  const displayPrice = selectedVariant?.price ?? productData.pricing.price;
+  const displayImageUrl = selectedVariant?.imageUrl || imageUrl;
+
+  // An option is available when some variant matches it together with the other selected options
+  const isOptionAvailable = (axis: VariantAxis, value: string) => {
+    return (productData.variants || []).some(variant =>
+      variant.options[axis] === value &&
+      Object.entries(selectedOptions).every(([selectedAxis, selectedValue]) =>
+        selectedAxis === axis || variant.options[selectedAxis as VariantAxis] === selectedValue
+      )
+    );
+  };
+
+  const handleSelectOption = (axis: VariantAxis, value: string) => {
+    setSelectedOptions(prev => ({ ...prev, [axis]: value }));
+  };
+
+  const applyProductUpdate = (product: EditableProduct) => {
+    setProductData(prev => ({ ...prev, ...product }));
+    router.refresh();
+  };
 
   const handleBack = () => {
     if (onBack) {
@@ -69,11 +118,9 @@ export default function ProductPage({ productData, imageUrl, productId, onBack }
       setShowDeleteConfirm(false);
     }
   };
+  // Catalog prices are shown in the customer's display currency
   const formatPrice = (price: number, currency: string = 'USD') => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(price);
+    return formatDisplayPrice(toMoney(price, currency));
   };
 
   return (
@@ -91,163 +138,249 @@ export default function ProductPage({ productData, imageUrl, productId, onBack }
             </button>
             
             {productId && (
-              <button
-                onClick={() => setShowDeleteConfirm(true)}
-                className="flex items-center space-x-2 text-red-600 hover:text-red-700 transition-colors px-3 py-1 rounded-md border border-red-300 hover:bg-red-50"
-              >
-                <Trash2 className="h-4 w-4" />
-                <span>Delete Product</span>
-              </button>
+              <div className="flex items-center space-x-3">
+                {!panel && (
+                  <>
+                    <button
+                      onClick={() => setPanel('history')}
+                      className="flex items-center space-x-2 text-gray-600 hover:text-gray-700 transition-colors px-3 py-1 rounded-md border border-gray-300 hover:bg-gray-50"
+                    >
+                      <History className="h-4 w-4" />
+                      <span>History</span>
+                    </button>
+                    <button
+                      onClick={() => setPanel('edit')}
+                      className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors px-3 py-1 rounded-md border border-blue-300 hover:bg-blue-50"
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span>Edit Product</span>
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => setShowDeleteConfirm(true)}
+                  className="flex items-center space-x-2 text-red-600 hover:text-red-700 transition-colors px-3 py-1 rounded-md border border-red-300 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Delete Product</span>
+                </button>
+              </div>
             )}
           </div>
         </div>
       </header>
 
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-          {/* Product Images */}
-          <div className="space-y-4">
-            <div className="aspect-square relative bg-white rounded-lg overflow-hidden shadow-lg">
-              <Image
-                src={imageUrl}
-                alt={productData.productName}
-                fill
-                className="object-cover"
-                priority
-              />
-            </div>
-          </div>
-
-          {/* Product Info */}
-          <div className="space-y-6">
-            {/* Category & Title */}
-            <div>
-              <div className="text-sm text-gray-500 uppercase tracking-wide font-medium mb-2">
-                {productData.category}
+      {/* Edit Mode and History */}
+      {panel && productId ? (
+        <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {panel === 'edit' ? (
+            <ProductEditForm
+              productId={productId}
+              productData={productData}
+              onSaved={(product) => {
+                applyProductUpdate(product);
+                setPanel(null);
+              }}
+              onCancel={() => setPanel(null)}
+            />
+          ) : (
+            <ProductHistoryPanel
+              productId={productId}
+              onRolledBack={applyProductUpdate}
+              onClose={() => setPanel(null)}
+            />
+          )}
+        </main>
+      ) : (
+        /* Main Content */
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+            {/* Product Images */}
+            <div className="space-y-4">
+              <div className="aspect-square relative bg-white rounded-lg overflow-hidden shadow-lg">
+                <Image
+                  src={displayImageUrl}
+                  alt={productData.productName}
+                  fill
+                  className="object-cover"
+                  priority
+                />
               </div>
-              <h1 className="text-3xl lg:text-4xl font-bold text-gray-900 mb-2">
-                {productData.productName}
-              </h1>
-              <p className="text-lg text-gray-600">{productData.tagline}</p>
             </div>
 
-            {/* Pricing */}
-            <div className="space-y-2">
-              <div className="flex items-baseline space-x-3">
-                <span className="text-3xl font-bold text-gray-900">
-                  {formatPrice(productData.pricing.price, productData.pricing.currency)}
-                </span>
+            {/* Product Info */}
+            <div className="space-y-6">
+              {/* Category & Title */}
+              <div>
+                <div className="text-sm text-gray-500 uppercase tracking-wide font-medium mb-2">
+                  {productData.category}
+                </div>
+                <h1 className="text-3xl lg:text-4xl font-bold text-gray-900 mb-2">
+                  {productData.productName}
+                </h1>
+                <p className="text-lg text-gray-600">{productData.tagline}</p>
               </div>
-            </div>
 
-            {/* Add to Cart */}
-            <div className="flex space-x-4">
-              <div className="flex-1">
-                <AddToCartButton
-                  product={{
-                    id: productId || '',
-                    productName: productData.productName,
-                    slug: productData.productName.toLowerCase().replace(/\s+/g, '-'),
-                    imageUrl: imageUrl,
-                    pricing: productData.pricing,
-                    category: productData.category,
-                  }}
-                  size="lg"
-                  showQuantitySelector={true}
-                  className="w-full justify-center"
-                />
+              {/* Pricing */}
+              <div className="space-y-2">
+                <div className="flex items-baseline space-x-3">
+                  <span className="text-3xl font-bold text-gray-900">
+                    {formatPrice(displayPrice, productData.pricing.currency)}
+                  </span>
+                </div>
+                {productHasVariants && !selectedVariant ? (
+                  <p className="text-sm text-gray-500">Choose options to see availability</p>
+                ) : stockInfo.status === 'in_stock' && (
+                  <p className="text-sm font-medium text-green-600">In stock</p>
+                )}
+                {stockMessage && (!productHasVariants || selectedVariant) && (
+                  <p className={`text-sm font-medium ${stockInfo.status === 'out_of_stock' ? 'text-red-600' : 'text-orange-600'}`}>
+                    {stockMessage}
+                  </p>
+                )}
               </div>
-              <button className="p-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <Heart className="h-5 w-5 text-gray-600" />
-              </button>
-              <button className="p-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <Share2 className="h-5 w-5 text-gray-600" />
-              </button>
-            </div>
 
-            {/* Key Features */}
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-3">Key Features</h3>
-              <ul className="space-y-2">
-                {productData.keyFeatures.map((feature, index) => (
-                  <li key={index} className="flex items-start space-x-2">
-                    <div className="w-1.5 h-1.5 bg-blue-600 rounded-full mt-2 flex-shrink-0"></div>
-                    <span className="text-gray-700">{feature}</span>
-                  </li>
-                ))}
-              </ul>
-            </div>
+              {/* Variant Options */}
+              {productHasVariants && (productData.variantAxes || []).map(({ axis, values }) => (
+                <div key={axis}>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2 capitalize">
+                    {axis}{selectedOptions[axis] && <span className="text-gray-500 font-normal">: {selectedOptions[axis]}</span>}
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {values.map(value => {
+                      const isSelected = selectedOptions[axis] === value;
+                      const isAvailable = isOptionAvailable(axis, value);
+                      return (
+                        <button
+                          key={value}
+                          onClick={() => handleSelectOption(axis, value)}
+                          disabled={!isAvailable}
+                          className={`px-4 py-2 text-sm rounded-md border transition-colors ${
+                            isSelected
+                              ? 'border-blue-600 bg-blue-50 text-blue-700'
+                              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                          } disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed`}
+                        >
+                          {value}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {/* Add to Cart */}
+              <div className="flex space-x-4">
+                <div className="flex-1">
+                  <AddToCartButton
+                    product={{
+                      id: productId || '',
+                      productName: productData.productName,
+                      slug: productData.productName.toLowerCase().replace(/\s+/g, '-'),
+                      imageUrl: imageUrl,
+                      pricing: productData.pricing,
+                      category: productData.category,
+                      inventory: productData.inventory,
+                      variantAxes: productData.variantAxes,
+                      variants: productData.variants,
+                    }}
+                    variant={productHasVariants ? selectedOptions : undefined}
+                    size="lg"
+                    showQuantitySelector={true}
+                    className="w-full justify-center"
+                  />
+                </div>
+                <button className="p-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
+                  <Heart className="h-5 w-5 text-gray-600" />
+                </button>
+                <button className="p-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
+                  <Share2 className="h-5 w-5 text-gray-600" />
+                </button>
+              </div>
 
-            {/* Benefits */}
-            {productData.benefits && productData.benefits.length > 0 && (
+              {/* Key Features */}
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Benefits</h3>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Key Features</h3>
                 <ul className="space-y-2">
-                  {productData.benefits.map((benefit, index) => (
+                  {productData.keyFeatures.map((feature, index) => (
                     <li key={index} className="flex items-start space-x-2">
-                      <div className="w-1.5 h-1.5 bg-green-600 rounded-full mt-2 flex-shrink-0"></div>
-                      <span className="text-gray-700">{benefit}</span>
+                      <div className="w-1.5 h-1.5 bg-blue-600 rounded-full mt-2 flex-shrink-0"></div>
+                      <span className="text-gray-700">{feature}</span>
                     </li>
                   ))}
                 </ul>
               </div>
-            )}
-          </div>
-        </div>
 
-        {/* Description */}
-        <div className="mt-16 grid grid-cols-1 lg:grid-cols-3 gap-12">
-          <div className="lg:col-span-2">
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">Description</h2>
-            <div className="prose prose-gray max-w-none">
-              {productData.description.split('\n').map((paragraph, index) => (
-                <p key={index} className="text-gray-700 leading-relaxed mb-4">
-                  {paragraph}
-                </p>
-              ))}
-            </div>
-
-            {/* Target Audience */}
-            <div className="mt-8">
-              <h3 className="text-lg font-semibold text-gray-900 mb-3">Perfect For</h3>
-              <p className="text-gray-700">{productData.targetAudience}</p>
+              {/* Benefits */}
+              {productData.benefits && productData.benefits.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Benefits</h3>
+                  <ul className="space-y-2">
+                    {productData.benefits.map((benefit, index) => (
+                      <li key={index} className="flex items-start space-x-2">
+                        <div className="w-1.5 h-1.5 bg-green-600 rounded-full mt-2 flex-shrink-0"></div>
+                        <span className="text-gray-700">{benefit}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
 
-          {/* Specifications */}
-          <div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">Specifications</h2>
-            <div className="bg-white rounded-lg p-6 shadow-sm">
-              <dl className="space-y-4">
-                {Object.entries(productData.specifications).map(([key, value]) => (
-                  <div key={key}>
-                    <dt className="text-sm font-medium text-gray-500">{key}</dt>
-                    <dd className="text-sm text-gray-900 mt-1">{value}</dd>
-                  </div>
+          {/* Description */}
+          <div className="mt-16 grid grid-cols-1 lg:grid-cols-3 gap-12">
+            <div className="lg:col-span-2">
+              <h2 className="text-2xl font-bold text-gray-900 mb-4">Description</h2>
+              <div className="prose prose-gray max-w-none">
+                {productData.description.split('\n').map((paragraph, index) => (
+                  <p key={index} className="text-gray-700 leading-relaxed mb-4">
+                    {paragraph}
+                  </p>
                 ))}
-              </dl>
+              </div>
+
+              {/* Target Audience */}
+              <div className="mt-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Perfect For</h3>
+                <p className="text-gray-700">{productData.targetAudience}</p>
+              </div>
             </div>
 
-            {/* Tags */}
-            {productData.tags && productData.tags.length > 0 && (
-              <div className="mt-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Tags</h3>
-                <div className="flex flex-wrap gap-2">
-                  {productData.tags.map((tag, index) => (
-                    <span
-                      key={index}
-                      className="bg-gray-100 text-gray-800 text-sm px-3 py-1 rounded-full"
-                    >
-                      {tag}
-                    </span>
+            {/* Specifications */}
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-4">Specifications</h2>
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <dl className="space-y-4">
+                  {Object.entries(productData.specifications).map(([key, value]) => (
+                    <div key={key}>
+                      <dt className="text-sm font-medium text-gray-500">{key}</dt>
+                      <dd className="text-sm text-gray-900 mt-1">{value}</dd>
+                    </div>
                   ))}
-                </div>
+                </dl>
               </div>
-            )}
+
+              {/* Tags */}
+              {productData.tags && productData.tags.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Tags</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {productData.tags.map((tag, index) => (
+                      <span
+                        key={index}
+                        className="bg-gray-100 text-gray-800 text-sm px-3 py-1 rounded-full"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
-      </main>
+        </main>
+      )}
 
       {/* Delete Confirmation Dialog */}
       {showDeleteConfirm && (
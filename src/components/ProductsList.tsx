@@ -1,11 +1,15 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { Trash2, Check, Search, X } from 'lucide-react';
 import { SimpleCategorySelect } from './CategorySelector';
 import AddToCartButton from '@/components/cart/AddToCartButton';
+import { useCart } from '@/contexts/CartContext';
+import { toMoney } from '@/lib/money';
+import { ProductInventory } from '@/lib/stock-status';
+import { hasVariants, ProductVariant, ProductVariantAxis } from '@/lib/product-variants';
 
 interface ProductIndexItem {
   id: string;
@@ -22,6 +26,9 @@ interface ProductIndexItem {
     originalPrice?: number;
     discount?: string;
   };
+  inventory?: ProductInventory;
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
 }
 
 interface SearchState {
@@ -42,7 +49,14 @@ interface SearchState {
   sortDirection: 'asc' | 'desc';
 }
 
+interface ProductsPage {
+  products: ProductIndexItem[];
+  total: number;
+  nextCursor: string | null;
+}
 
+// Products fetched per page as the list scrolls
+const PAGE_SIZE = 24;
 
 interface ProductsListProps {
   initialProducts: ProductIndexItem[];
@@ -50,6 +64,7 @@ interface ProductsListProps {
 
 export default function ProductsList({ initialProducts }: ProductsListProps) {
   const [products, setProducts] = useState<ProductIndexItem[]>(initialProducts);
+  const { formatDisplayPrice } = useCart();
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState(false);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
@@ -70,31 +85,101 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
   // Debounced search term for performance
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(searchState.searchTerm);
   
+  const [total, setTotal] = useState(initialProducts.length);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const loadedCountRef = useRef(initialProducts.length);
+  // Responses for filters that have since changed are ignored
+  const requestIdRef = useRef(0);
+
+  const hasActiveFilters = Boolean(searchState.searchTerm || searchState.selectedCategory ||
+    searchState.priceRange.min !== null || searchState.priceRange.max !== null);
+
+  const fetchProductsPage = useCallback(async (limit: number, cursor: string | null): Promise<ProductsPage | null> => {
+    const params = new URLSearchParams({
+      limit: String(limit),
+      sortBy: searchState.sortBy,
+      sortDirection: searchState.sortDirection
+    });
+    if (cursor) params.set('cursor', cursor);
+    if (debouncedSearchTerm.trim()) params.set('q', debouncedSearchTerm.trim());
+    if (searchState.selectedCategory) params.set('categoryId', searchState.selectedCategory);
+    if (searchState.priceRange.min !== null) params.set('minPrice', String(searchState.priceRange.min));
+    if (searchState.priceRange.max !== null) params.set('maxPrice', String(searchState.priceRange.max));
+
+    // Fetch fresh data directly (no cache revalidation needed)
+    const response = await fetch(`/api/products?${params}`, {
+      cache: 'no-store',
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+      }
+    });
+
+    if (!response.ok) {
+      console.error('Failed to fetch products:', response.status);
+      return null;
+    }
+    return response.json();
+  }, [debouncedSearchTerm, searchState.sortBy, searchState.sortDirection, searchState.selectedCategory,
+    searchState.priceRange.min, searchState.priceRange.max]);
+
+  // Reload from the first page, keeping as many products as were already loaded
   const refreshProducts = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
     try {
-      setIsLoading(true);
-      // Fetch fresh data directly (no cache revalidation needed)
-      const response = await fetch('/api/products', {
-        cache: 'no-store',
-        headers: {
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-        }
-      });
-      
-      if (response.ok) {
-        const freshProducts = await response.json();
-        setProducts(freshProducts);
-        console.log('Products refreshed:', freshProducts.length);
-      } else {
-        console.error('Failed to refresh products:', response.status);
+      const page = await fetchProductsPage(Math.max(PAGE_SIZE, loadedCountRef.current), null);
+      if (page && requestId === requestIdRef.current) {
+        setProducts(page.products);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+        loadedCountRef.current = page.products.length;
+        console.log('Products refreshed:', page.products.length, 'of', page.total);
       }
     } catch (error) {
       console.error('Failed to refresh products:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [fetchProductsPage]);
+
+  const loadMoreProducts = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchProductsPage(PAGE_SIZE, nextCursor);
+      if (page && requestId === requestIdRef.current) {
+        setProducts(prev => {
+          const loaded = [...prev, ...page.products];
+          loadedCountRef.current = loaded.length;
+          return loaded;
+        });
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to load more products:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [fetchProductsPage, nextCursor, isLoadingMore]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMoreProducts();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreProducts]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -104,7 +189,12 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
     return () => clearTimeout(timer);
   }, [searchState.searchTerm]);
 
-  // Auto-refresh products when component mounts or gets focus
+  // Changing filters or sorting starts again from the first page
+  useEffect(() => {
+    loadedCountRef.current = 0;
+  }, [fetchProductsPage]);
+
+  // Auto-refresh products when component mounts, filters change or the page gets focus
   useEffect(() => {
     refreshProducts();
     
@@ -116,11 +206,9 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
     return () => window.removeEventListener('focus', handleFocus);
   }, [refreshProducts]);
 
+  // Catalog prices are shown in the customer's display currency
   const formatPrice = (price: number, currency: string = 'USD') => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(price);
+    return formatDisplayPrice(toMoney(price, currency));
   };
 
   const formatDate = (dateString: string) => {
@@ -131,88 +219,6 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
     });
   };
 
-  // Search and filtering functions
-  const filterProducts = useCallback((productsToFilter: ProductIndexItem[], state: SearchState, searchTerm: string): ProductIndexItem[] => {
-    return productsToFilter.filter(product => {
-      // Text search filter
-      if (searchTerm) {
-        const searchLower = searchTerm.toLowerCase();
-        const matchesText = 
-          product.productName.toLowerCase().includes(searchLower) ||
-          product.category.toLowerCase().includes(searchLower);
-        if (!matchesText) return false;
-      }
-
-      // Category filter - support both new categoryId and legacy category string
-      if (state.selectedCategory) {
-        const matchesNewCategory = product.categoryId === state.selectedCategory;
-        const matchesLegacyCategory = product.category === state.selectedCategory;
-        if (!matchesNewCategory && !matchesLegacyCategory) {
-          return false;
-        }
-      }
-
-      // Price range filter
-      if (state.priceRange.min !== null && product.pricing.price < state.priceRange.min) {
-        return false;
-      }
-      if (state.priceRange.max !== null && product.pricing.price > state.priceRange.max) {
-        return false;
-      }
-
-      // Date range filter
-      if (state.dateRange.from || state.dateRange.to) {
-        const productDate = new Date(product.createdAt);
-        if (state.dateRange.from && productDate < state.dateRange.from) {
-          return false;
-        }
-        if (state.dateRange.to && productDate > state.dateRange.to) {
-          return false;
-        }
-      }
-
-      // Tag filter (would need tags in product data structure)
-      // if (state.selectedTags.length > 0) {
-      //   const hasMatchingTag = state.selectedTags.some(tag => 
-      //     product.tags?.includes(tag)
-      //   );
-      //   if (!hasMatchingTag) return false;
-      // }
-
-      return true;
-    });
-  }, []);
-
-  const sortProducts = useCallback((productsToSort: ProductIndexItem[], state: SearchState): ProductIndexItem[] => {
-    const sorted = [...productsToSort].sort((a, b) => {
-      let comparison = 0;
-      
-      switch (state.sortBy) {
-        case 'date':
-          comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-          break;
-        case 'name':
-          comparison = a.productName.localeCompare(b.productName);
-          break;
-        case 'price':
-          comparison = a.pricing.price - b.pricing.price;
-          break;
-        default:
-          return 0;
-      }
-
-      return state.sortDirection === 'asc' ? comparison : -comparison;
-    });
-
-    return sorted;
-  }, []);
-
-  // Memoized filtered and sorted products
-  const filteredAndSortedProducts = useMemo(() => {
-    const filtered = filterProducts(products, searchState, debouncedSearchTerm);
-    return sortProducts(filtered, searchState);
-  }, [products, searchState, debouncedSearchTerm, filterProducts, sortProducts]);
-
   const handleSelectProduct = (productId: string) => {
     const newSelected = new Set(selectedProducts);
     if (newSelected.has(productId)) {
@@ -224,10 +230,10 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
   };
 
   const handleSelectAll = () => {
-    if (selectedProducts.size === filteredAndSortedProducts.length) {
+    if (selectedProducts.size === products.length) {
       setSelectedProducts(new Set());
     } else {
-      setSelectedProducts(new Set(filteredAndSortedProducts.map(p => p.id)));
+      setSelectedProducts(new Set(products.map(p => p.id)));
     }
   };
 
@@ -249,6 +255,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
       if (response.ok) {
         // Optimistically remove from UI first
         setProducts(prev => prev.filter(p => !selectedProducts.has(p.id)));
+        setTotal(prev => Math.max(0, prev - selectedProducts.size));
         setSelectedProducts(new Set());
         setShowBulkDeleteConfirm(false);
         
@@ -282,7 +289,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
               <div>
                 <h1 className="text-3xl font-bold text-gray-900">Generated Products</h1>
                 <p className="text-base text-gray-700 mt-2">
-                  {filteredAndSortedProducts.length} of {products.length} product{products.length !== 1 ? 's' : ''} shown
+                  {products.length} of {total} product{total !== 1 ? 's' : ''} shown
                 </p>
               </div>
           
@@ -308,7 +315,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
         </div>
 
         {/* Search and Filter Interface */}
-        {products.length > 0 && (
+        {(total > 0 || hasActiveFilters) && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
             <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center">
               {/* Search Input */}
@@ -389,8 +396,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
                 </select>
 
                 {/* Clear Filters Button */}
-                {(searchState.searchTerm || searchState.selectedCategory || 
-                  searchState.priceRange.min !== null || searchState.priceRange.max !== null) && (
+                {hasActiveFilters && (
                   <button
                     onClick={() => setSearchState({
                       searchTerm: '',
@@ -412,8 +418,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
             </div>
 
             {/* Active Filters Display */}
-            {(searchState.searchTerm || searchState.selectedCategory || 
-              searchState.priceRange.min !== null || searchState.priceRange.max !== null) && (
+            {hasActiveFilters && (
               <div className="mt-4 flex flex-wrap gap-2">
                 {searchState.searchTerm && (
                   <span className="inline-flex items-center px-3 py-1 rounded-full text-base font-medium bg-blue-100 text-blue-900">
@@ -461,18 +466,18 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
             <label className="flex items-center space-x-2 cursor-pointer">
               <input
                 type="checkbox"
-                checked={selectedProducts.size === filteredAndSortedProducts.length && filteredAndSortedProducts.length > 0}
+                checked={selectedProducts.size === products.length && products.length > 0}
                 onChange={handleSelectAll}
                 className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
               />
               <span className="text-sm text-gray-600">
-                Select all ({products.length})
+                Select all loaded ({products.length})
               </span>
             </label>
           </div>
         )}
 
-        {products.length === 0 ? (
+        {total === 0 && !hasActiveFilters ? (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
               <svg className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -488,7 +493,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
               Get Started
             </Link>
           </div>
-        ) : filteredAndSortedProducts.length === 0 ? (
+        ) : products.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
               <Search className="mx-auto h-12 w-12" />
@@ -513,7 +518,7 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {filteredAndSortedProducts.map((product) => (
+            {products.map((product) => (
               <div key={product.id} className="bg-white rounded-lg shadow-md overflow-hidden border border-slate-200">
                 <div className="relative">
                   <div className="absolute top-2 left-2 z-10">
@@ -572,24 +577,48 @@ export default function ProductsList({ initialProducts }: ProductsListProps) {
                     </Link>
                   </div>
                   
-                  <AddToCartButton
-                    product={{
-                      id: product.id,
-                      productName: product.productName,
-                      slug: product.slug,
-                      imageUrl: product.imageUrl,
-                      pricing: product.pricing,
-                      category: product.category,
-                    }}
-                    size="sm"
-                    className="w-full"
-                  />
+                  {/* Variant products are added from the product page once options are chosen */}
+                  {hasVariants(product) ? (
+                    <Link
+                      href={`/products/${product.id}`}
+                      className="inline-flex items-center justify-center w-full px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      Choose options
+                    </Link>
+                  ) : (
+                    <AddToCartButton
+                      product={{
+                        id: product.id,
+                        productName: product.productName,
+                        slug: product.slug,
+                        imageUrl: product.imageUrl,
+                        pricing: product.pricing,
+                        category: product.category,
+                        inventory: product.inventory,
+                      }}
+                      size="sm"
+                      className="w-full"
+                    />
+                  )}
                 </div>
               </div>
             ))}
           </div>
         )}
 
+        {/* Next page loads when this scrolls into view; the button is there if it doesn't */}
+        {nextCursor && products.length > 0 && (
+          <div ref={loadMoreRef} className="mt-8 text-center">
+            <button
+              onClick={loadMoreProducts}
+              disabled={isLoadingMore}
+              className="px-6 py-3 text-base font-medium border border-gray-300 bg-white text-gray-800 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading...' : `Load more (${total - products.length} remaining)`}
+            </button>
+          </div>
+        )}
+
         {/* Bulk Delete Confirmation Dialog */}
         {showBulkDeleteConfirm && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
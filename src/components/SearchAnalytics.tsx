@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import type { SearchAnalyticsReport, SearchQueryStats } from '@/lib/search-analytics';
+
+const PERIODS = [7, 30, 90];
+
+const formatPercent = (count: number, total: number) =>
+  total > 0 ? `${Math.round((count / total) * 1000) / 10}%` : '—';
+
+function QueryTable({ title, description, queries, emptyText }: {
+  title: string;
+  description: string;
+  queries: SearchQueryStats[];
+  emptyText: string;
+}) {
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+      <p className="text-sm text-gray-500 mb-3">{description}</p>
+      {queries.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 text-sm">{emptyText}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Query', 'Searches', 'No results', 'Clicked', 'Added to cart', 'Last searched'].map(heading => (
+                  <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {queries.map(stats => (
+                <tr key={stats.query}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{stats.query}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{stats.searches}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{stats.zeroResults}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {stats.clicks} ({formatPercent(stats.clicks, stats.searches)})
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {stats.conversions} ({formatPercent(stats.conversions, stats.searches)})
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(stats.lastSearchedAt).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SearchAnalytics() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<SearchAnalyticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/search/analytics?days=${days}`);
+      const data = await response.json();
+      if (response.ok) {
+        setReport(data);
+      } else {
+        setError(data.error || 'Failed to load search analytics');
+      }
+    } catch (err) {
+      console.error('Error loading search analytics:', err);
+      setError('Error loading search analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Search Analytics</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              What shoppers and the AI assistant search for, and which searches lead to a cart
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-2 text-sm text-gray-800 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PERIODS.map(period => (
+                <option key={period} value={period}>Last {period} days</option>
+              ))}
+            </select>
+            <button
+              onClick={loadReport}
+              disabled={isLoading}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {error && (
+          <div className="flex items-center space-x-2 text-red-700 bg-red-50 rounded-lg p-4">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {isLoading && !report && (
+          <div className="text-center py-8 text-gray-500">
+            <Loader2 className="h-6 w-6 mx-auto animate-spin" />
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="bg-blue-50 rounded-lg p-4">
+                <div className="text-sm text-blue-600">Searches</div>
+                <div className="text-2xl font-bold text-blue-900">{report.totalSearches}</div>
+                <div className="text-xs text-blue-700 mt-1">
+                  {report.bySource.storefront.searches} storefront, {report.bySource.assistant.searches} assistant
+                </div>
+              </div>
+              <div className="bg-red-50 rounded-lg p-4">
+                <div className="text-sm text-red-600">No results</div>
+                <div className="text-2xl font-bold text-red-900">
+                  {formatPercent(report.zeroResultSearches, report.totalSearches)}
+                </div>
+                <div className="text-xs text-red-700 mt-1">{report.zeroResultSearches} searches</div>
+              </div>
+              <div className="bg-yellow-50 rounded-lg p-4">
+                <div className="text-sm text-yellow-700">Clicked a result</div>
+                <div className="text-2xl font-bold text-yellow-900">
+                  {formatPercent(report.searchesWithClick, report.bySource.storefront.searches)}
+                </div>
+                <div className="text-xs text-yellow-800 mt-1">Of storefront searches</div>
+              </div>
+              <div className="bg-green-50 rounded-lg p-4">
+                <div className="text-sm text-green-600">Search-to-cart conversion</div>
+                <div className="text-2xl font-bold text-green-900">
+                  {formatPercent(report.searchesWithAddToCart, report.totalSearches)}
+                </div>
+                <div className="text-xs text-green-700 mt-1">
+                  Storefront {formatPercent(report.bySource.storefront.searchesWithAddToCart, report.bySource.storefront.searches)},
+                  assistant {formatPercent(report.bySource.assistant.searchesWithAddToCart, report.bySource.assistant.searches)}
+                </div>
+              </div>
+            </div>
+
+            <QueryTable
+              title="Top Queries"
+              description="The most searched queries"
+              queries={report.topQueries}
+              emptyText="No searches in this period"
+            />
+
+            <QueryTable
+              title="Zero-Result Queries"
+              description="Queries that found nothing: candidates for synonyms, new products or better descriptions"
+              queries={report.zeroResultQueries}
+              emptyText="Every search found something"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
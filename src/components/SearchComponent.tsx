@@ -1,9 +1,15 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Search, X, Filter, SlidersHorizontal, Loader2 } from 'lucide-react';
+import { Search, X, Filter, SlidersHorizontal, Loader2, Package, Folder, TrendingUp } from 'lucide-react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { useCart } from '@/contexts/CartContext';
+import { toMoney } from '@/lib/money';
+import type { PriceBucket, SearchFacets } from '@/lib/search-facets';
+import type { Suggestion } from '@/lib/search-suggest';
+import { trackSearchClick } from '@/lib/search-tracking';
 
 interface SearchResult {
   id: string;
@@ -20,6 +26,7 @@ interface SearchResult {
   category: string;
   relevanceScore: number;
   matchedFields: string[];
+  merchandising?: string[];
 }
 
 interface SearchFilters {
@@ -27,6 +34,7 @@ interface SearchFilters {
   minPrice?: number;
   maxPrice?: number;
   tags?: string[];
+  specs?: Record<string, string>;
 }
 
 interface SearchProps {
@@ -42,6 +50,7 @@ export default function SearchComponent({
   showFilters = true,
   compact = false 
 }: SearchProps) {
+  const { state: cartState, formatDisplayPrice } = useCart();
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
@@ -50,9 +59,19 @@ export default function SearchComponent({
   const [showFilterPanel, setShowFilterPanel] = useState(false);
   const [executionTime, setExecutionTime] = useState(0);
   const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const router = useRouter();
 
   const searchInputRef = useRef<HTMLInputElement>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
+  const suggestAbortRef = useRef<AbortController | null>(null);
+  // Parameters of the search on screen, reused with a cursor to fetch its next page
+  const lastSearchParamsRef = useRef<URLSearchParams | null>(null);
 
   useEffect(() => {
     if (autoFocus && searchInputRef.current) {
@@ -61,8 +80,10 @@ export default function SearchComponent({
   }, [autoFocus]);
 
   const performSearch = async (searchQuery: string, searchFilters: SearchFilters = {}) => {
-    if (!searchQuery.trim() && !searchFilters.category && !searchFilters.tags?.length) {
+    if (!searchQuery.trim() && !searchFilters.category && !searchFilters.tags?.length && !searchFilters.specs) {
       setResults([]);
+      setFacets(null);
+      setNextCursor(null);
       setShowResults(false);
       return;
     }
@@ -75,7 +96,9 @@ export default function SearchComponent({
       if (searchFilters.minPrice) params.append('minPrice', searchFilters.minPrice.toString());
       if (searchFilters.maxPrice) params.append('maxPrice', searchFilters.maxPrice.toString());
       if (searchFilters.tags?.length) params.append('tags', searchFilters.tags.join(','));
+      Object.entries(searchFilters.specs || {}).forEach(([key, value]) => params.append(`spec.${key}`, value));
       params.append('limit', '20');
+      lastSearchParamsRef.current = params;
 
       const response = await fetch(`/api/search?${params.toString()}`);
       const data = await response.json();
@@ -83,6 +106,9 @@ export default function SearchComponent({
       if (response.ok) {
         setResults(data.results || []);
         setTotal(data.total || 0);
+        setNextCursor(data.nextCursor || null);
+        setSearchId(data.searchId || null);
+        setFacets(data.facets || null);
         setExecutionTime(data.executionTime || 0);
         setShowResults(true);
       } else {
@@ -99,8 +125,111 @@ export default function SearchComponent({
     }
   };
 
+  // Append the next page of the current search
+  const loadMoreResults = async () => {
+    const searchParams = lastSearchParamsRef.current;
+    if (!searchParams || !nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const params = new URLSearchParams(searchParams);
+      params.set('cursor', nextCursor);
+      const response = await fetch(`/api/search?${params.toString()}`);
+      const data = await response.json();
+
+      // Ignore the page if a new search started meanwhile
+      if (response.ok && lastSearchParamsRef.current === searchParams) {
+        setResults(prev => [...prev, ...(data.results || [])]);
+        setNextCursor(data.nextCursor || null);
+      } else if (!response.ok) {
+        console.error('Search error:', data.error);
+      }
+    } catch (error) {
+      console.error('Search request failed:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Completions come from a lightweight endpoint, so they are fetched on every keystroke
+  const fetchSuggestions = async (value: string) => {
+    suggestAbortRef.current?.abort();
+    if (!value.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    suggestAbortRef.current = controller;
+    try {
+      const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(value)}`, { signal: controller.signal });
+      const data = await response.json();
+      if (response.ok) {
+        setSuggestions([...data.queries, ...data.products, ...data.categories]);
+        setActiveSuggestion(-1);
+      }
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Suggest request failed:', error);
+      }
+    }
+  };
+
+  const closeSuggestions = () => {
+    suggestAbortRef.current?.abort();
+    setSuggestions([]);
+    setActiveSuggestion(-1);
+  };
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    closeSuggestions();
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+
+    if (suggestion.type === 'product' && suggestion.productId) {
+      setShowResults(false);
+      onClose?.();
+      router.push(`/products/${suggestion.productId}`);
+    } else if (suggestion.type === 'category') {
+      const newFilters = { ...filters, category: suggestion.text };
+      setQuery('');
+      setFilters(newFilters);
+      performSearch('', newFilters);
+    } else {
+      setQuery(suggestion.text);
+      performSearch(suggestion.text, filters);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveSuggestion(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveSuggestion(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (activeSuggestion >= 0 && activeSuggestion < suggestions.length) {
+        selectSuggestion(suggestions[activeSuggestion]);
+      } else {
+        // Search now instead of waiting for the debounce
+        closeSuggestions();
+        if (debounceRef.current) {
+          clearTimeout(debounceRef.current);
+        }
+        performSearch(query, filters);
+      }
+    } else if (e.key === 'Escape') {
+      closeSuggestions();
+      setShowResults(false);
+    }
+  };
+
   const handleInputChange = (value: string) => {
     setQuery(value);
+    fetchSuggestions(value);
     
     // Clear previous debounce
     if (debounceRef.current) {
@@ -118,9 +247,53 @@ export default function SearchComponent({
     performSearch(query, newFilters);
   };
 
+  // Clicking a facet applies it as a filter; clicking an applied facet removes it
+  const toggleCategory = (category: string) => {
+    handleFilterChange({ ...filters, category: filters.category === category ? undefined : category });
+  };
+
+  const toggleTag = (tag: string) => {
+    const tags = filters.tags?.includes(tag)
+      ? filters.tags.filter(t => t !== tag)
+      : [...(filters.tags || []), tag];
+    handleFilterChange({ ...filters, tags: tags.length > 0 ? tags : undefined });
+  };
+
+  const isPriceBucketSelected = (bucket: PriceBucket) =>
+    filters.minPrice === bucket.min && filters.maxPrice === bucket.max;
+
+  const togglePriceBucket = (bucket: PriceBucket) => {
+    const selected = isPriceBucketSelected(bucket);
+    handleFilterChange({
+      ...filters,
+      minPrice: selected ? undefined : bucket.min,
+      maxPrice: selected ? undefined : bucket.max
+    });
+  };
+
+  const toggleSpecification = (key: string, value: string) => {
+    const specs = { ...filters.specs };
+    if (specs[key] === value) {
+      delete specs[key];
+    } else {
+      specs[key] = value;
+    }
+    handleFilterChange({ ...filters, specs: Object.keys(specs).length > 0 ? specs : undefined });
+  };
+
+  const facetClassName = (selected: boolean) =>
+    `px-2 py-0.5 rounded-full text-xs border transition-colors ${
+      selected
+        ? 'bg-blue-600 border-blue-600 text-white'
+        : 'bg-white border-gray-200 text-gray-700 hover:border-blue-400'
+    }`;
+
   const clearSearch = () => {
     setQuery('');
     setResults([]);
+    setFacets(null);
+    setNextCursor(null);
+    closeSuggestions();
     setShowResults(false);
     setFilters({});
     if (searchInputRef.current) {
@@ -128,11 +301,9 @@ export default function SearchComponent({
     }
   };
 
+  // Catalog prices are shown in the customer's display currency
   const formatPrice = (price: number, currency: string = 'USD') => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(price);
+    return formatDisplayPrice(toMoney(price, currency));
   };
 
   const highlightMatches = (text: string, query: string) => {
@@ -166,6 +337,13 @@ export default function SearchComponent({
           type="text"
           value={query}
           onChange={(e) => handleInputChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={closeSuggestions}
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={activeSuggestion >= 0 ? `search-suggestion-${activeSuggestion}` : undefined}
           placeholder="Search products..."
           className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
         />
@@ -275,20 +453,112 @@ export default function SearchComponent({
         </div>
       )}
 
-      {/* Search Results */}
-      {showResults && (
+      {/* Suggestions and Search Results */}
+      {(showResults || suggestions.length > 0) && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-lg max-h-96 overflow-y-auto z-40">
-          {results.length > 0 ? (
+          {suggestions.length > 0 && (
+            <ul id="search-suggestions" role="listbox" className="py-1 border-b border-gray-100">
+              {suggestions.map((suggestion, index) => {
+                const Icon = suggestion.type === 'product' ? Package : suggestion.type === 'category' ? Folder : TrendingUp;
+                return (
+                  <li
+                    key={`${suggestion.type}-${suggestion.productId || suggestion.text}`}
+                    id={`search-suggestion-${index}`}
+                    role="option"
+                    aria-selected={index === activeSuggestion}
+                    // Keep focus in the input so the blur doesn't close the list before the click lands
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveSuggestion(index)}
+                    onClick={() => selectSuggestion(suggestion)}
+                    className={`flex items-center px-4 py-2 text-sm cursor-pointer ${
+                      index === activeSuggestion ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <span className="flex-1 truncate">{suggestion.text}</span>
+                    {suggestion.type === 'category' && (
+                      <span className="text-xs text-gray-400 ml-2">{suggestion.count} products</span>
+                    )}
+                    {suggestion.type === 'query' && (
+                      <span className="text-xs text-gray-400 ml-2">Popular</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {!showResults ? null : results.length > 0 ? (
             <>
               <div className="px-4 py-2 border-b border-gray-100 text-sm text-gray-600">
-                {total} results found in {executionTime}ms
+                {results.length < total ? `Showing ${results.length} of ${total}` : total} results found in {executionTime}ms
               </div>
+              {showFilters && facets && (
+                <div className="px-4 py-2 border-b border-gray-100 space-y-2">
+                  {facets.categories.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs font-medium text-gray-500 mr-1">Category</span>
+                      {facets.categories.map(facet => (
+                        <button
+                          key={facet.value}
+                          onClick={() => toggleCategory(facet.value)}
+                          className={facetClassName(filters.category === facet.value)}
+                        >
+                          {facet.value} ({facet.count})
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {facets.price.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs font-medium text-gray-500 mr-1">Price</span>
+                      {facets.price.map(bucket => (
+                        <button
+                          key={bucket.min}
+                          onClick={() => togglePriceBucket(bucket)}
+                          className={facetClassName(isPriceBucketSelected(bucket))}
+                        >
+                          {formatPrice(bucket.min, cartState.currency)} - {formatPrice(bucket.max, cartState.currency)} ({bucket.count})
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {facets.tags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs font-medium text-gray-500 mr-1">Tags</span>
+                      {facets.tags.slice(0, 10).map(facet => (
+                        <button
+                          key={facet.value}
+                          onClick={() => toggleTag(facet.value)}
+                          className={facetClassName(!!filters.tags?.includes(facet.value))}
+                        >
+                          {facet.value} ({facet.count})
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {facets.specifications.map(specification => (
+                    <div key={specification.key} className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs font-medium text-gray-500 mr-1">{specification.key}</span>
+                      {specification.values.map(facet => (
+                        <button
+                          key={facet.value}
+                          onClick={() => toggleSpecification(specification.key, facet.value)}
+                          className={facetClassName(filters.specs?.[specification.key] === facet.value)}
+                        >
+                          {facet.value} ({facet.count})
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="py-2">
                 {results.map((result) => (
                   <Link
                     key={result.id}
                     href={`/products/${result.id}`}
                     onClick={() => {
+                      if (searchId) trackSearchClick(searchId, result.id);
                       setShowResults(false);
                       onClose?.();
                     }}
@@ -331,11 +601,29 @@ export default function SearchComponent({
                             </span>
                           </div>
                         )}
+                        {result.merchandising && (
+                          <div className="mt-1">
+                            <span className="text-xs text-purple-500">
+                              {result.merchandising.join(', ')}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </Link>
                 ))}
               </div>
+              {nextCursor && (
+                <div className="px-4 py-3 border-t border-gray-100 text-center">
+                  <button
+                    onClick={loadMoreResults}
+                    disabled={loadingMore}
+                    className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    {loadingMore ? 'Loading...' : `Load more results (${total - results.length} remaining)`}
+                  </button>
+                </div>
+              )}
             </>
           ) : (
             <div className="px-4 py-8 text-center text-gray-500">
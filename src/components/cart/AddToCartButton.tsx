@@ -3,6 +3,9 @@
 import { useState } from 'react';
 import { ShoppingCart, Check, Loader2 } from 'lucide-react';
 import { useCart, CartItem } from '@/contexts/CartContext';
+import { getStockInfo, getStockMessage, ProductInventory } from '@/lib/stock-status';
+import { findProductVariant, hasVariants, ProductVariant, ProductVariantAxis } from '@/lib/product-variants';
+import { toMoney } from '@/lib/money';
 
 interface AddToCartButtonProps {
   product: {
@@ -16,6 +19,9 @@ interface AddToCartButtonProps {
       currency: string;
     };
     category: string;
+    inventory?: ProductInventory;
+    variantAxes?: ProductVariantAxis[];
+    variants?: ProductVariant[];
   };
   variant?: CartItem['variant'];
   quantity?: number;
@@ -40,7 +46,21 @@ export default function AddToCartButton({
   const currentQuantity = getItemQuantity(product.id, variant);
   const isProductInCart = isInCart(product.id, variant);
 
+  // Products with variants can only be added once a variant is chosen
+  const selectedVariant = findProductVariant(product, variant);
+  const needsVariant = hasVariants(product) && !selectedVariant;
+
+  // Stock left to add on top of what is already in the cart (null = not tracked)
+  const stockInfo = getStockInfo(selectedVariant?.inventory || product.inventory);
+  const stockMessage = getStockMessage(stockInfo);
+  const remainingStock = stockInfo.available === null ? null : Math.max(0, stockInfo.available - currentQuantity);
+  const isOutOfStock = stockInfo.status === 'out_of_stock';
+  const canAdd = !needsVariant && (remainingStock === null || selectedQuantity <= remainingStock);
+  const quantityOptions = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+    .filter(num => remainingStock === null || num <= Math.max(1, remainingStock));
+
   const handleAddToCart = async () => {
+    if (!canAdd) return;
     setIsAdding(true);
     
     try {
@@ -48,12 +68,14 @@ export default function AddToCartButton({
         id: product.id,
         productName: product.productName,
         slug: product.slug,
-        imageUrl: product.imageUrl,
-        price: product.pricing.price,
-        originalPrice: product.pricing.originalPrice,
-        currency: product.pricing.currency,
+        imageUrl: selectedVariant?.imageUrl || product.imageUrl,
+        price: toMoney(selectedVariant?.price ?? product.pricing.price, product.pricing.currency),
+        ...(product.pricing.originalPrice !== undefined && {
+          originalPrice: toMoney(product.pricing.originalPrice, product.pricing.currency)
+        }),
         category: product.category,
         variant,
+        ...(selectedVariant && { sku: selectedVariant.sku }),
         quantity: selectedQuantity,
       };
 
@@ -91,7 +113,9 @@ export default function AddToCartButton({
     disabled:opacity-50 disabled:cursor-not-allowed
   `;
 
-  const buttonStyles = justAdded
+  const buttonStyles = isOutOfStock || needsVariant
+    ? `${baseStyles} ${sizeStyles[size]} bg-gray-200 text-gray-500`
+    : justAdded
     ? `${baseStyles} ${sizeStyles[size]} bg-green-600 text-white hover:bg-green-700`
     : isProductInCart
     ? `${baseStyles} ${sizeStyles[size]} bg-gray-100 text-gray-700 border border-gray-300 hover:bg-gray-200`
@@ -99,7 +123,7 @@ export default function AddToCartButton({
 
   return (
     <div className="space-y-2">
-      {showQuantitySelector && (
+      {showQuantitySelector && !isOutOfStock && !needsVariant && (
         <div className="flex items-center gap-2">
           <label htmlFor="quantity" className="text-sm font-medium text-gray-700">
             Quantity:
@@ -110,7 +134,7 @@ export default function AddToCartButton({
             onChange={(e) => setSelectedQuantity(Number(e.target.value))}
             className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(num => (
+            {quantityOptions.map(num => (
               <option key={num} value={num}>{num}</option>
             ))}
           </select>
@@ -119,11 +143,21 @@ export default function AddToCartButton({
 
       <button
         onClick={handleAddToCart}
-        disabled={isAdding}
+        disabled={isAdding || !canAdd}
         className={`${buttonStyles} ${className} cursor-pointer `}
         aria-label={`Add ${product.productName} to cart`}
       >
-        {isAdding ? (
+        {needsVariant ? (
+          <>
+            <ShoppingCart className={iconSizes[size]} />
+            Select Options
+          </>
+        ) : isOutOfStock ? (
+          <>
+            <ShoppingCart className={iconSizes[size]} />
+            Out of Stock
+          </>
+        ) : isAdding ? (
           <>
             <Loader2 className={`${iconSizes[size]} animate-spin`} />
             Adding...
@@ -146,6 +180,14 @@ export default function AddToCartButton({
         )}
       </button>
 
+      {stockMessage && !isOutOfStock && !needsVariant && (
+        <p className="text-xs font-medium text-orange-600">{stockMessage}</p>
+      )}
+
+      {isProductInCart && !justAdded && remainingStock === 0 && !isOutOfStock && (
+        <p className="text-xs text-gray-500">All available stock is in your cart</p>
+      )}
+
       {isProductInCart && !justAdded && (
         <p className="text-xs text-gray-500">
           {currentQuantity} item{currentQuantity > 1 ? 's' : ''} in cart
@@ -2,7 +2,7 @@
 
 import { useRef, useEffect } from 'react';
 import { X, Plus, Minus, ShoppingBag } from 'lucide-react';
-import { useCart, formatPrice } from '@/contexts/CartContext';
+import { useCart } from '@/contexts/CartContext';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -12,7 +12,7 @@ interface CartDropdownProps {
 }
 
 export default function CartDropdown({ isOpen, onClose }: CartDropdownProps) {
-  const { state, updateQuantity, removeItem } = useCart();
+  const { state, updateQuantity, removeItem, formatDisplayPrice } = useCart();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -79,11 +79,11 @@ export default function CartDropdown({ isOpen, onClose }: CartDropdownProps) {
                   </h4>
                   <div className="flex items-center gap-2 mt-1">
                     <span className="text-sm font-semibold text-blue-600">
-                      {formatPrice(item.price, item.currency)}
+                      {formatDisplayPrice(item.price)}
                     </span>
-                    {item.originalPrice && item.originalPrice > item.price && (
+                    {item.originalPrice && item.originalPrice.amount > item.price.amount && (
                       <span className="text-xs text-gray-500 line-through">
-                        {formatPrice(item.originalPrice, item.currency)}
+                        {formatDisplayPrice(item.originalPrice)}
                       </span>
                     )}
                   </div>
@@ -131,7 +131,7 @@ export default function CartDropdown({ isOpen, onClose }: CartDropdownProps) {
           <div className="flex justify-between items-center">
             <span className="font-semibold text-gray-900">Total:</span>
             <span className="font-bold text-lg text-blue-600">
-              {formatPrice(state.totalAmount, state.currency)}
+              {formatDisplayPrice(state.totalAmount)}
             </span>
           </div>
 
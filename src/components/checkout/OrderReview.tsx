@@ -1,8 +1,11 @@
 'use client';
 
-import { ArrowLeft } from 'lucide-react';
-import { CartItem } from '@/contexts/CartContext';
-import { calculateOrderTotals } from '@/lib/order-calculations';
+import { useState } from 'react';
+import { ArrowLeft, Tag, X } from 'lucide-react';
+import { CartItem, useCart } from '@/contexts/CartContext';
+import type { OrderPricing } from '@/lib/pricing';
+import { formatMoney, multiplyMoney } from '@/lib/money';
+import type { Money } from '@/lib/money';
 import Image from 'next/image';
 
 interface CheckoutData {
@@ -33,6 +36,9 @@ interface CheckoutData {
 interface OrderReviewProps {
   checkoutData: CheckoutData;
   cartItems: CartItem[];
+  orderPricing: OrderPricing | null; // From the pricing service, null while loading
+  promotionCode: string | null;
+  onPromotionCodeChange: (code: string | null) => void;
   onPlaceOrder: () => void;
   onBack: () => void;
   isProcessing: boolean;
@@ -41,11 +47,50 @@ interface OrderReviewProps {
 export default function OrderReview({
   checkoutData,
   cartItems,
+  orderPricing,
+  promotionCode,
+  onPromotionCodeChange,
   onPlaceOrder,
   onBack,
   isProcessing,
 }: OrderReviewProps) {
-  const orderTotals = calculateOrderTotals(cartItems);
+  const [codeInput, setCodeInput] = useState('');
+  const [promotionError, setPromotionError] = useState<string | null>(null);
+  const [isApplyingPromotion, setIsApplyingPromotion] = useState(false);
+  const appliedDiscount = orderPricing?.discounts.find(discount => discount.code === promotionCode);
+  const { state, formatDisplayPrice } = useCart();
+  // Shown in the display currency; the order is charged in the store currency
+  const formatTotal = (amount?: Money) => amount ? formatDisplayPrice(amount) : '—';
+
+  const handleApplyPromotion = async () => {
+    if (!codeInput.trim()) return;
+
+    setIsApplyingPromotion(true);
+    setPromotionError(null);
+    try {
+      // Price the cart with the code first, so a code that can't be used is never applied
+      const response = await fetch('/api/pricing', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ cartItems, promotionCode: codeInput }),
+      });
+      const result = await response.json();
+
+      if (result.success && result.promotion) {
+        onPromotionCodeChange(result.promotion.code);
+        setCodeInput('');
+      } else {
+        setPromotionError(result.error || 'Invalid discount code');
+      }
+    } catch (error) {
+      console.error('Error applying discount code:', error);
+      setPromotionError('Failed to apply discount code');
+    } finally {
+      setIsApplyingPromotion(false);
+    }
+  };
 
   const { shipping: shippingInfo, payment: paymentInfo } = checkoutData;
 
@@ -90,11 +135,11 @@ export default function OrderReview({
                 
                 <div className="text-right">
                   <div className="font-medium text-gray-900">
-                    ${(item.price * item.quantity).toFixed(2)}
+                    {formatDisplayPrice(multiplyMoney(item.price, item.quantity))}
                   </div>
                   {item.quantity > 1 && (
                     <div className="text-sm text-gray-500">
-                      ${item.price.toFixed(2)} each
+                      {formatDisplayPrice(item.price)} each
                     </div>
                   )}
                 </div>
@@ -157,35 +202,95 @@ export default function OrderReview({
           </div>
         )}
 
+        {/* Discount Code */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Discount Code</h3>
+          {promotionCode ? (
+            <div className="flex items-center justify-between bg-green-50 border border-green-200 p-4 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Tag className="h-4 w-4 text-green-600" />
+                <span className="font-medium text-green-800">{promotionCode}</span>
+                {appliedDiscount && (
+                  <span className="text-sm text-green-700">{appliedDiscount.description}</span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => onPromotionCodeChange(null)}
+                disabled={isProcessing}
+                className="text-green-700 hover:text-green-900 disabled:opacity-50"
+                aria-label="Remove discount code"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleApplyPromotion()}
+                  placeholder="Enter code"
+                  className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="button"
+                  onClick={handleApplyPromotion}
+                  disabled={isApplyingPromotion || !codeInput.trim()}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  {isApplyingPromotion ? 'Applying...' : 'Apply'}
+                </button>
+              </div>
+              {promotionError && (
+                <p className="text-sm text-red-600">{promotionError}</p>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Order Total */}
         <div>
           <h3 className="text-lg font-medium text-gray-900 mb-4">Order Total</h3>
           <div className="bg-gray-50 p-4 rounded-lg space-y-2">
             <div className="flex justify-between">
               <span className="text-gray-600">Subtotal</span>
-              <span className="font-medium">${orderTotals.subtotal.toFixed(2)}</span>
+              <span className="font-medium">{formatTotal(orderPricing?.subtotal)}</span>
             </div>
+            {orderPricing?.discounts.filter(applied => applied.amount.amount > 0).map(applied => (
+              <div key={applied.code} className="flex justify-between">
+                <span className="text-gray-600">Discount ({applied.code})</span>
+                <span className="font-medium text-green-600">-{formatTotal(applied.amount)}</span>
+              </div>
+            ))}
             <div className="flex justify-between">
               <span className="text-gray-600">Shipping</span>
               <span className="font-medium">
-                {orderTotals.shipping === 0 ? (
+                {orderPricing?.shipping.amount === 0 ? (
                   <span className="text-green-600">Free</span>
                 ) : (
-                  `$${orderTotals.shipping.toFixed(2)}`
+                  formatTotal(orderPricing?.shipping)
                 )}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Tax</span>
-              <span className="font-medium">${orderTotals.tax.toFixed(2)}</span>
+              <span className="font-medium">{formatTotal(orderPricing?.tax)}</span>
             </div>
             <div className="border-t pt-2">
               <div className="flex justify-between">
                 <span className="text-lg font-semibold text-gray-900">Total</span>
                 <span className="text-lg font-bold text-blue-600">
-                  ${orderTotals.total.toFixed(2)}
+                  {formatTotal(orderPricing?.total)}
                 </span>
               </div>
+              {orderPricing && orderPricing.currency !== state.displayCurrency && (
+                <p className="text-xs text-gray-500 mt-1 text-right">
+                  Charged as {formatMoney(orderPricing.total)} ({orderPricing.currency})
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -229,7 +334,7 @@ export default function OrderReview({
               </>
             ) : (
               <>
-                Place Order - ${orderTotals.total.toFixed(2)}
+                Place Order - {orderPricing ? formatMoney(orderPricing.total) : '—'}
               </>
             )}
           </button>
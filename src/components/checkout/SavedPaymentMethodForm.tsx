@@ -3,7 +3,10 @@
 import { useState, useEffect } from 'react';
 import { ArrowLeft, ArrowRight, CreditCard, Loader2, Plus } from 'lucide-react';
 import { SavedPaymentMethod } from '@/types/payment';
-import { getShippingFee, calculateTax } from '@/lib/order-calculations';
+import type { OrderPricing } from '@/lib/pricing';
+import { useCart } from '@/contexts/CartContext';
+import { formatMoney } from '@/lib/money';
+import type { Money } from '@/lib/money';
 
 interface PaymentData {
   selectedPaymentMethodId?: string;
@@ -22,7 +25,7 @@ interface SavedPaymentMethodFormProps {
   onUpdate: (data: Partial<PaymentData>) => void;
   onNext: (paymentData?: { paymentMethodId: string; [key: string]: unknown }) => void;
   onBack: () => void;
-  totalAmount: number; // This is the subtotal from cart
+  orderPricing: OrderPricing | null; // From the pricing service, null while loading
 }
 
 export default function SavedPaymentMethodForm({
@@ -30,17 +33,15 @@ export default function SavedPaymentMethodForm({
   onUpdate,
   onNext,
   onBack,
-  totalAmount
+  orderPricing
 }: SavedPaymentMethodFormProps) {
   const [paymentMethods, setPaymentMethods] = useState<SavedPaymentMethod[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate proper totals using utility functions
-  const subtotal = totalAmount; // This is the subtotal from cart
-  const shipping = getShippingFee(subtotal);
-  const tax = calculateTax(subtotal);
-  const finalTotal = subtotal + shipping + tax;
+  const { state, formatDisplayPrice } = useCart();
+  // Shown in the display currency; the order is charged in the store currency
+  const formatTotal = (amount?: Money) => amount ? formatDisplayPrice(amount) : '—';
 
   useEffect(() => {
     fetchPaymentMethods();
@@ -212,25 +213,36 @@ export default function SavedPaymentMethodForm({
         <div className="space-y-2 mb-4">
           <div className="flex justify-between text-sm">
             <span className="text-gray-600">Subtotal</span>
-            <span className="text-gray-900">${subtotal.toFixed(2)}</span>
+            <span className="text-gray-900">{formatTotal(orderPricing?.subtotal)}</span>
           </div>
+          {orderPricing && orderPricing.discount.amount > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Discount</span>
+              <span className="text-green-600">-{formatTotal(orderPricing.discount)}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
             <span className="text-gray-600">Shipping</span>
             <span className="text-gray-900">
-              {shipping === 0 ? 'Free' : `$${shipping.toFixed(2)}`}
+              {orderPricing?.shipping.amount === 0 ? 'Free' : formatTotal(orderPricing?.shipping)}
             </span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-gray-600">Tax</span>
-            <span className="text-gray-900">${tax.toFixed(2)}</span>
+            <span className="text-gray-900">{formatTotal(orderPricing?.tax)}</span>
           </div>
         </div>
         <div className="flex justify-between items-center pt-2 border-t border-gray-200">
           <span className="text-lg font-medium text-gray-900">Total</span>
           <span className="text-2xl font-bold text-gray-900">
-            ${finalTotal.toFixed(2)}
+            {formatTotal(orderPricing?.total)}
           </span>
         </div>
+        {orderPricing && orderPricing.currency !== state.displayCurrency && (
+          <p className="text-xs text-gray-500 mt-1 text-right">
+            Charged as {formatMoney(orderPricing.total)} ({orderPricing.currency})
+          </p>
+        )}
       </div>
 
       {/* Navigation */}
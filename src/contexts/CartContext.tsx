@@ -1,6 +1,10 @@
 'use client';
 
 import { createContext, useContext, useReducer, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { getCartItemKey, VariantSelection } from '@/lib/product-variants';
+import { convertMoney, formatMoney, getCrossRate, multiplyMoney, STATIC_EXCHANGE_RATES, sumMoney, zeroMoney } from '@/lib/money';
+import type { Money } from '@/lib/money';
+import { trackSearchAddToCart } from '@/lib/search-tracking';
 
 // Cart item interface
 export interface CartItem {
@@ -8,25 +12,23 @@ export interface CartItem {
   productName: string;
   slug: string;
   imageUrl: string;
-  price: number;
-  originalPrice?: number;
-  currency: string;
+  price: Money; // Unit price, in the product's currency
+  originalPrice?: Money;
   quantity: number;
   category: string;
-  // Optional variant info for future expansion
-  variant?: {
-    size?: string;
-    color?: string;
-    style?: string;
-  };
+  // Selected variant options and the SKU they resolve to
+  variant?: VariantSelection;
+  sku?: string;
 }
 
 // Cart state interface
 export interface CartState {
   items: CartItem[];
   totalItems: number;
-  totalAmount: number;
-  currency: string;
+  totalAmount: Money; // In the store currency
+  currency: string; // Store currency, which orders are charged in
+  displayCurrency: string; // Currency the customer sees prices in
+  rates: Record<string, number>; // Units of each currency per unit of the store currency
   isLoading: boolean;
 }
 
@@ -37,26 +39,36 @@ type CartAction =
   | { type: 'UPDATE_QUANTITY'; payload: { id: string; quantity: number; variant?: CartItem['variant'] } }
   | { type: 'CLEAR_CART' }
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'LOAD_CART'; payload: CartItem[] };
-
-// Helper function to create cart item key for variant support (future use)
-// const getCartItemKey = (id: string, variant?: CartItem['variant']): string => {
-//   if (!variant) return id;
-//   const variantKey = Object.entries(variant)
-//     .filter(([, value]) => value)
-//     .map(([key, value]) => `${key}:${value}`)
-//     .join('|');
-//   return variantKey ? `${id}#${variantKey}` : id;
-// };
+  | { type: 'LOAD_CART'; payload: CartItem[] }
+  | { type: 'SET_CURRENCY'; payload: Pick<CartState, 'currency' | 'displayCurrency' | 'rates'> }
+  | { type: 'SET_DISPLAY_CURRENCY'; payload: string };
 
 // Helper function to find cart item by id and variant
 const findCartItem = (items: CartItem[], id: string, variant?: CartItem['variant']): CartItem | undefined => {
-  return items.find(item => 
-    item.id === id && 
-    JSON.stringify(item.variant || {}) === JSON.stringify(variant || {})
-  );
+  const key = getCartItemKey(id, variant);
+  return items.find(item => getCartItemKey(item.id, item.variant) === key);
+};
+
+// Convert with the rates from /api/currency; amounts in currencies without a rate are returned as they are
+const convertWithRates = (money: Money, currency: string, rates: Record<string, number>): Money => {
+  try {
+    return convertMoney(money, currency, getCrossRate(rates, money.currency, currency));
+  } catch {
+    return money;
+  }
 };
 
+// Items in a currency without a rate are left out of the total; checkout prices them on the server
+const getCartTotals = (items: CartItem[], state: Pick<CartState, 'currency' | 'rates'>): Pick<CartState, 'totalItems' | 'totalAmount'> => ({
+  totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+  totalAmount: sumMoney(
+    items
+      .map(item => multiplyMoney(convertWithRates(item.price, state.currency, state.rates), item.quantity))
+      .filter(amount => amount.currency === state.currency),
+    state.currency
+  ),
+});
+
 // Cart reducer
 const cartReducer = (state: CartState, action: CartAction): CartState => {
   switch (action.type) {
@@ -81,31 +93,22 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         updatedItems = [...state.items, newItem];
       }
 
-      const totalItems = updatedItems.reduce((sum, item) => sum + item.quantity, 0);
-      const totalAmount = updatedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-
       return {
         ...state,
         items: updatedItems,
-        totalItems,
-        totalAmount,
+        ...getCartTotals(updatedItems, state),
       };
     }
 
     case 'REMOVE_ITEM': {
       const { id, variant } = action.payload;
-      const updatedItems = state.items.filter(item => 
-        !(item.id === id && JSON.stringify(item.variant || {}) === JSON.stringify(variant || {}))
-      );
-
-      const totalItems = updatedItems.reduce((sum, item) => sum + item.quantity, 0);
-      const totalAmount = updatedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      const key = getCartItemKey(id, variant);
+      const updatedItems = state.items.filter(item => getCartItemKey(item.id, item.variant) !== key);
 
       return {
         ...state,
         items: updatedItems,
-        totalItems,
-        totalAmount,
+        ...getCartTotals(updatedItems, state),
       };
     }
 
@@ -117,20 +120,17 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         return cartReducer(state, { type: 'REMOVE_ITEM', payload: { id, variant } });
       }
 
+      const key = getCartItemKey(id, variant);
       const updatedItems = state.items.map(item =>
-        item.id === id && JSON.stringify(item.variant || {}) === JSON.stringify(variant || {})
+        getCartItemKey(item.id, item.variant) === key
           ? { ...item, quantity }
           : item
       );
 
-      const totalItems = updatedItems.reduce((sum, item) => sum + item.quantity, 0);
-      const totalAmount = updatedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-
       return {
         ...state,
         items: updatedItems,
-        totalItems,
-        totalAmount,
+        ...getCartTotals(updatedItems, state),
       };
     }
 
@@ -139,7 +139,22 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         ...state,
         items: [],
         totalItems: 0,
-        totalAmount: 0,
+        totalAmount: zeroMoney(state.currency),
+      };
+    }
+
+    case 'SET_CURRENCY': {
+      const updated = { ...state, ...action.payload };
+      return {
+        ...updated,
+        ...getCartTotals(updated.items, updated),
+      };
+    }
+
+    case 'SET_DISPLAY_CURRENCY': {
+      return {
+        ...state,
+        displayCurrency: action.payload,
       };
     }
 
@@ -152,14 +167,11 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
 
     case 'LOAD_CART': {
       const items = action.payload;
-      const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-      const totalAmount = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
 
       return {
         ...state,
         items,
-        totalItems,
-        totalAmount,
+        ...getCartTotals(items, state),
         isLoading: false,
       };
     }
@@ -173,8 +185,10 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
 const initialCartState: CartState = {
   items: [],
   totalItems: 0,
-  totalAmount: 0,
+  totalAmount: zeroMoney('USD'),
   currency: 'USD',
+  displayCurrency: 'USD',
+  rates: STATIC_EXCHANGE_RATES, // Until /api/currency returns the store's rates
   isLoading: true,
 };
 
@@ -187,6 +201,9 @@ const CartContext = createContext<{
   clearCart: () => Promise<boolean>;
   getItemQuantity: (id: string, variant?: CartItem['variant']) => number;
   isInCart: (id: string, variant?: CartItem['variant']) => boolean;
+  setDisplayCurrency: (currency: string) => Promise<void>;
+  toDisplayMoney: (money: Money) => Money;
+  formatDisplayPrice: (money: Money) => string;
 } | null>(null);
 
 // Cart provider component
@@ -227,9 +244,30 @@ export function CartProvider({ children }: CartProviderProps) {
     loadServerCart();
   }, []); // Empty dependency array - only run once on mount
 
+  // Load the store currency, the customer's display currency and exchange rates
+  useEffect(() => {
+    const loadCurrency = async () => {
+      try {
+        const response = await fetch('/api/currency');
+        if (response.ok) {
+          const result = await response.json();
+          dispatch({
+            type: 'SET_CURRENCY',
+            payload: { currency: result.storeCurrency, displayCurrency: result.displayCurrency, rates: result.rates }
+          });
+        }
+      } catch (error) {
+        console.error('Error loading currency settings:', error);
+      }
+    };
+
+    loadCurrency();
+  }, []);
+
   // Cart actions (memoized to prevent unnecessary re-renders)
   const addItem = useCallback((item: Omit<CartItem, 'quantity'> & { quantity?: number }) => {
     dispatch({ type: 'ADD_ITEM', payload: item });
+    trackSearchAddToCart(item.id);
   }, []);
 
   const removeItem = useCallback((id: string, variant?: CartItem['variant']) => {
@@ -264,6 +302,28 @@ export function CartProvider({ children }: CartProviderProps) {
     }
   }, []);
 
+  // Saved to the profile when signed in; otherwise kept for this visit only
+  const setDisplayCurrency = useCallback(async (currency: string) => {
+    dispatch({ type: 'SET_DISPLAY_CURRENCY', payload: currency });
+    try {
+      await fetch('/api/currency', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ displayCurrency: currency })
+      });
+    } catch (error) {
+      console.error('Failed to save display currency:', error);
+    }
+  }, []);
+
+  const toDisplayMoney = (money: Money): Money => {
+    return convertWithRates(money, state.displayCurrency, state.rates);
+  };
+
+  const formatDisplayPrice = (money: Money): string => {
+    return formatMoney(toDisplayMoney(money));
+  };
+
   const getItemQuantity = (id: string, variant?: CartItem['variant']): number => {
     const item = findCartItem(state.items, id, variant);
     return item?.quantity || 0;
@@ -281,6 +341,9 @@ export function CartProvider({ children }: CartProviderProps) {
     clearCart,
     getItemQuantity,
     isInCart,
+    setDisplayCurrency,
+    toDisplayMoney,
+    formatDisplayPrice,
   };
 
   return (
@@ -300,12 +363,8 @@ export function useCart() {
 }
 
 // Utility functions for formatting
-export const formatPrice = (price: number, currency: string = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-  }).format(price);
+export const formatPrice = (price: Money): string => {
+  return formatMoney(price);
 };
 
 export const calculateDiscount = (originalPrice?: number, currentPrice?: number): string | null => {
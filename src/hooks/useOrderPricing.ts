@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { OrderPricing, PricingAddress, PricingItem } from '@/lib/pricing';
+import type { Money } from '@/lib/money';
+
+/**
+ * Itemized totals for a cart from the pricing service (/api/pricing)
+ * Re-prices whenever the items, discount code or shipping address change.
+ */
+export function useOrderPricing(
+  items: PricingItem[],
+  options: { promotionCode?: string | null; shippingAddress?: PricingAddress } = {}
+) {
+  const [pricing, setPricing] = useState<OrderPricing | null>(null);
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState<Money | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Compare by content so a re-render with an equal cart doesn't re-price
+  const requestBody = JSON.stringify({
+    cartItems: items.map(({ id, productName, price, quantity }) => ({ id, productName, price, quantity })),
+    promotionCode: options.promotionCode || undefined,
+    shippingAddress: options.shippingAddress
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPricing = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/pricing', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: requestBody,
+        });
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (result.success) {
+          setPricing(result.pricing);
+          setFreeShippingThreshold(result.freeShippingThreshold);
+          setError(null);
+        } else {
+          setError(result.error || 'Failed to calculate totals');
+        }
+      } catch (fetchError) {
+        console.error('Error fetching order pricing:', fetchError);
+        if (!cancelled) setError('Failed to calculate totals');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPricing();
+    return () => {
+      cancelled = true;
+    };
+  }, [requestBody]);
+
+  return { pricing, freeShippingThreshold, error, isLoading };
+}
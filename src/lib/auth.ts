@@ -47,4 +47,15 @@ export const authOptions: NextAuthOptions = {
     maxAge: 30 * 24 * 60 * 60, // 30 days
   },
   secret: process.env.NEXTAUTH_SECRET,
-};
\ No newline at end of file
+};
+
+// Admin check used by admin-only API routes. Admins are the Google accounts
+// listed in ADMIN_EMAILS (comma-separated); nobody is an admin when it's unset.
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(adminEmail => adminEmail.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.trim().toLowerCase());
+}
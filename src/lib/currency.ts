@@ -0,0 +1,82 @@
+/**
+ * Store currency
+ * Orders are priced and charged in the store currency (STORE_CURRENCY,
+ * default USD). Products priced in other currencies are converted with
+ * exchangeRateProvider, and each customer can pick a display currency that
+ * prices are shown in before checkout.
+ */
+
+import { STATIC_EXCHANGE_RATES, StaticExchangeRateProvider } from '../../lib/ai-shopping-assistant/exchange-rates';
+import type { ExchangeRateProvider } from '../../lib/ai-shopping-assistant/types';
+import { convertMoney, multiplyMoney, sumMoney } from './money';
+import type { Money } from './money';
+import { getUserProfileFromSupabase } from './supabase-storage';
+
+export const STORE_CURRENCY = (process.env.STORE_CURRENCY || 'USD').toUpperCase();
+
+// Currencies customers can choose to see prices in
+export const SUPPORTED_CURRENCIES = (process.env.SUPPORTED_CURRENCIES || Object.keys(STATIC_EXCHANGE_RATES).join(','))
+  .split(',')
+  .map(currency => currency.trim().toUpperCase())
+  .filter(Boolean);
+
+// Fixed rates work offline; replace with a provider backed by a rates API for live rates
+export const exchangeRateProvider: ExchangeRateProvider = new StaticExchangeRateProvider();
+
+export function isSupportedCurrency(currency: unknown): currency is string {
+  return typeof currency === 'string' && SUPPORTED_CURRENCIES.includes(currency.toUpperCase());
+}
+
+export async function toStoreCurrency(money: Money): Promise<Money> {
+  if (money.currency === STORE_CURRENCY) {
+    return money;
+  }
+  return convertMoney(money, STORE_CURRENCY, await exchangeRateProvider.getRate(money.currency, STORE_CURRENCY));
+}
+
+// Convert item prices to the store currency; items already in it are returned as they are
+export async function convertItemsToStoreCurrency<T extends { price: Money }>(items: T[]): Promise<T[]> {
+  return Promise.all(items.map(async item =>
+    item.price.currency === STORE_CURRENCY ? item : { ...item, price: await toStoreCurrency(item.price) }
+  ));
+}
+
+// Cart total in the store currency
+export async function getItemsTotal(items: Array<{ price: Money; quantity: number }>): Promise<Money> {
+  const storeItems = await convertItemsToStoreCurrency(items);
+  return sumMoney(storeItems.map(item => multiplyMoney(item.price, item.quantity)), STORE_CURRENCY);
+}
+
+// Rates used to convert these items, keyed by item currency, for the order record
+export async function getConversionRates(items: Array<{ price: Money }>): Promise<Record<string, number>> {
+  const rates: Record<string, number> = {};
+  for (const item of items) {
+    const currency = item.price.currency;
+    if (currency !== STORE_CURRENCY && rates[currency] === undefined) {
+      rates[currency] = await exchangeRateProvider.getRate(currency, STORE_CURRENCY);
+    }
+  }
+  return rates;
+}
+
+// Rates from the store currency to each supported currency, for converting prices in the browser
+export async function getDisplayRates(): Promise<Record<string, number>> {
+  const rates: Record<string, number> = {};
+  for (const currency of SUPPORTED_CURRENCIES) {
+    try {
+      rates[currency] = await exchangeRateProvider.getRate(STORE_CURRENCY, currency);
+    } catch (error) {
+      console.error(`No exchange rate for ${currency}:`, error);
+    }
+  }
+  return rates;
+}
+
+// The customer's chosen display currency, or the store currency
+export async function getDisplayCurrency(email?: string | null): Promise<string> {
+  if (!email) {
+    return STORE_CURRENCY;
+  }
+  const profile = await getUserProfileFromSupabase(email);
+  return isSupportedCurrency(profile?.displayCurrency) ? profile.displayCurrency.toUpperCase() : STORE_CURRENCY;
+}
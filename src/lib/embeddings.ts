@@ -0,0 +1,132 @@
+/**
+ * Text embeddings
+ * Turns text into vectors whose cosine similarity reflects how related the
+ * texts are, for semantic product search. Uses an Azure OpenAI embedding
+ * deployment when AZURE_OPENAI_EMBEDDING_DEPLOYMENT is set, and otherwise a
+ * deterministic local embedding that needs no network access.
+ */
+
+import { normalizeEndpoint } from '../../lib/ai-shopping-assistant/llm-providers';
+import { stem, tokenize } from './search-text';
+
+export interface EmbeddingProvider {
+  // Identifies the vectors this provider makes; vectors from different models can't be compared
+  readonly model: string;
+  // Cosine similarity below which a product isn't considered related to a query
+  readonly minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Words that carry no meaning on their own, ignored by the local embedding
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'in', 'into', 'is', 'it', 'its',
+  'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'with', 'you',
+  'your', 'something', 'anything', 'thing', 'things', 'want', 'need', 'looking', 'some'
+]);
+
+// 32-bit FNV-1a hash
+export function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * Local embedding by feature hashing
+ * Word stems and their letter trigrams are hashed into a fixed number of
+ * dimensions, so texts sharing words or word parts ("keeps"/"keep",
+ * "warmer"/"warming") point the same way. It knows nothing about meaning
+ * beyond that, but it is fast, free and gives the same vector every time.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly minSimilarity = 0.12;
+
+  constructor(private dimensions = 256) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const addFeature = (feature: string, weight: number) => {
+      const hash = hashText(feature);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const token of tokenize(text)) {
+      if (STOP_WORDS.has(token)) continue;
+      const wordStem = stem(token);
+      addFeature(`w:${wordStem}`, 1);
+      const padded = `#${wordStem}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+}
+
+export class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private endpoint: string;
+
+  constructor(
+    endpoint: string,
+    private apiKey: string,
+    private deploymentName: string,
+    private apiVersion: string,
+    readonly minSimilarity: number
+  ) {
+    this.endpoint = normalizeEndpoint(endpoint);
+    this.model = `azure-openai:${deploymentName}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(
+      `${this.endpoint}/openai/deployments/${this.deploymentName}/embeddings?api-version=${this.apiVersion}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'api-key': this.apiKey },
+        body: JSON.stringify({ input: texts })
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data: { data: Array<{ index: number; embedding: number[] }> } = await response.json();
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+function createEmbeddingProvider(): EmbeddingProvider {
+  const deploymentName = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+  if (deploymentName && process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY) {
+    return new AzureOpenAIEmbeddingProvider(
+      process.env.AZURE_OPENAI_ENDPOINT,
+      process.env.AZURE_OPENAI_API_KEY,
+      deploymentName,
+      process.env.AZURE_OPENAI_API_VERSION || '2024-02-01',
+      parseFloat(process.env.SEMANTIC_MIN_SIMILARITY || '') || 0.3
+    );
+  }
+  return new LocalEmbeddingProvider();
+}
+
+export const embeddingProvider: EmbeddingProvider = createEmbeddingProvider();
@@ -0,0 +1,302 @@
+/**
+ * Inventory reservations
+ * Holds stock while a payment token or checkout is open, takes it out of
+ * stock when the order is saved and puts it back on expiry or cancellation.
+ * Products without inventory configured are never limited.
+ */
+
+import {
+  getProductsFromSupabase,
+  getStockReservationsFromSupabase,
+  saveStockReservationsToSupabase,
+  updateProductInventoryInSupabase,
+  OrderData,
+  ProductIndexItem,
+  StockReservation
+} from './supabase-storage';
+import { getAvailableStock, ProductInventory } from './stock-status';
+import { findProductVariant, formatVariantSelection, VariantSelection } from './product-variants';
+
+// Matches the lifetime of shared payment tokens
+export const STOCK_RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+export interface StockRequestItem {
+  productId: string;
+  quantity: number;
+  variant?: VariantSelection;
+}
+
+// Where the stock for an item is counted: a variant with its own inventory,
+// otherwise the product itself
+interface StockLine {
+  productId: string;
+  variantSku?: string;
+  label: string;
+  inventory?: ProductInventory;
+  quantity: number;
+}
+
+async function getProductsById(): Promise<Map<string, ProductIndexItem>> {
+  const products = await getProductsFromSupabase();
+  return new Map(products.map(product => [product.id, product]));
+}
+
+// Sum quantities per stock location so repeated lines are checked together
+function groupStockLines(products: Map<string, ProductIndexItem>, items: StockRequestItem[]): Map<string, StockLine> {
+  const lines = new Map<string, StockLine>();
+
+  for (const item of items) {
+    const product = products.get(item.productId);
+    const variant = product ? findProductVariant(product, item.variant) : undefined;
+    const tracksVariant = !!variant?.inventory;
+    const key = tracksVariant ? `${item.productId}@${variant!.sku}` : item.productId;
+
+    const existing = lines.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+      continue;
+    }
+
+    lines.set(key, {
+      productId: item.productId,
+      ...(tracksVariant && { variantSku: variant!.sku }),
+      label: tracksVariant
+        ? `${product!.productName} (${formatVariantSelection(item.variant)})`
+        : product?.productName || item.productId,
+      inventory: tracksVariant ? variant!.inventory : product?.inventory,
+      quantity: item.quantity
+    });
+  }
+
+  return lines;
+}
+
+function findStockError(lines: Map<string, StockLine>): string | null {
+  for (const line of lines.values()) {
+    const available = getAvailableStock(line.inventory);
+    if (available === null) continue;
+
+    if (available <= 0) {
+      return `${line.label} is out of stock`;
+    }
+    if (line.quantity > available) {
+      return `Only ${available} of ${line.label} left in stock`;
+    }
+  }
+  return null;
+}
+
+// Write a new inventory for a stock line and keep the cached product in sync
+async function updateStockLine(
+  products: Map<string, ProductIndexItem>,
+  line: StockLine,
+  update: (inventory: ProductInventory) => ProductInventory
+) {
+  const product = products.get(line.productId);
+  const inventory = line.variantSku
+    ? product?.variants?.find(variant => variant.sku === line.variantSku)?.inventory
+    : product?.inventory;
+  if (!product || !inventory) return;
+
+  // Apply the change to the stored counts rather than the ones this request read
+  const updatedProduct = await updateProductInventoryInSupabase(
+    line.productId,
+    stored => update(stored || inventory),
+    line.variantSku
+  );
+  // Later updates to the same product build on the new counts
+  products.set(line.productId, { ...product, inventory: updatedProduct.inventory, variants: updatedProduct.variants });
+}
+
+async function adjustReservedStock(products: Map<string, ProductIndexItem>, items: StockRequestItem[], direction: 1 | -1) {
+  for (const line of groupStockLines(products, items).values()) {
+    await updateStockLine(products, line, inventory => ({
+      ...inventory,
+      reserved: Math.max(0, inventory.reserved + direction * line.quantity)
+    }));
+  }
+}
+
+// Stock checks and changes go one at a time, so two checkouts can't both take the last unit
+let stockChain: Promise<unknown> = Promise.resolve();
+
+function queueStockChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = stockChain.then(change);
+  stockChain = result.catch(() => undefined);
+  return result;
+}
+
+function toStockRequestItems(order: OrderData): StockRequestItem[] {
+  return order.items.map(item => ({ productId: item.id, quantity: item.quantity, variant: item.variant }));
+}
+
+async function releaseExpiredReservations(): Promise<number> {
+  const reservations = await getStockReservationsFromSupabase();
+  const now = Date.now();
+  const expired = reservations.filter(reservation => new Date(reservation.expiresAt).getTime() <= now);
+
+  if (expired.length === 0) {
+    return 0;
+  }
+
+  const products = await getProductsById();
+  for (const reservation of expired) {
+    await adjustReservedStock(products, reservation.items, -1);
+  }
+
+  await saveStockReservationsToSupabase(reservations.filter(reservation => !expired.includes(reservation)));
+  console.log(`Released ${expired.length} expired stock reservation(s)`);
+  return expired.length;
+}
+
+// Release reservations whose payment token or checkout was never completed
+export function releaseExpiredStockReservations(): Promise<number> {
+  return queueStockChange(releaseExpiredReservations);
+}
+
+// Check requested quantities against available stock, returning an error message or null
+export async function validateStockAvailability(items: StockRequestItem[]): Promise<string | null> {
+  return queueStockChange(async () => {
+    await releaseExpiredReservations();
+    const products = await getProductsById();
+    return findStockError(groupStockLines(products, items));
+  });
+}
+
+/**
+ * Hold stock for an open payment token or checkout
+ * Throws if any tracked product does not have enough units available.
+ */
+export async function reserveStock(
+  reservationId: string,
+  items: StockRequestItem[],
+  options: { expiresAt?: string; userEmail?: string } = {}
+): Promise<StockReservation> {
+  return queueStockChange(async () => {
+    await releaseExpiredReservations();
+
+    const reservations = await getStockReservationsFromSupabase();
+    const existing = reservations.find(reservation => reservation.reservationId === reservationId);
+    if (existing) {
+      return existing;
+    }
+
+    const products = await getProductsById();
+    const stockError = findStockError(groupStockLines(products, items));
+    if (stockError) {
+      throw new Error(stockError);
+    }
+
+    // Only tracked products need holding
+    const reservedItems = items.filter(item => {
+      const product = products.get(item.productId);
+      return product?.inventory || findProductVariant(product || {}, item.variant)?.inventory;
+    });
+
+    const reservation: StockReservation = {
+      reservationId,
+      items: reservedItems.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        ...(item.variant && { variant: item.variant })
+      })),
+      ...(options.userEmail && { userEmail: options.userEmail }),
+      createdAt: new Date().toISOString(),
+      expiresAt: options.expiresAt || new Date(Date.now() + STOCK_RESERVATION_TTL_MS).toISOString()
+    };
+
+    await adjustReservedStock(products, reservation.items, 1);
+    await saveStockReservationsToSupabase([...reservations, reservation]);
+
+    console.log(`Reserved stock for ${reservationId}: ${reservation.items.length} tracked item(s)`);
+    return reservation;
+  });
+}
+
+// Give back the stock held by a reservation (payment failed, token cancelled...)
+export async function releaseStockReservation(reservationId: string): Promise<boolean> {
+  return queueStockChange(async () => {
+    const reservations = await getStockReservationsFromSupabase();
+    const reservation = reservations.find(r => r.reservationId === reservationId);
+
+    if (!reservation) {
+      return false;
+    }
+
+    await adjustReservedStock(await getProductsById(), reservation.items, -1);
+    await saveStockReservationsToSupabase(reservations.filter(r => r !== reservation));
+
+    console.log(`Released stock reservation ${reservationId}`);
+    return true;
+  });
+}
+
+/**
+ * Take an order's items out of stock
+ * Converts the matching reservation (by order or PaymentIntent ID) into a
+ * sale; items that were never reserved are taken straight from available
+ * stock, and the commit fails if there isn't enough of it.
+ * Returns the order marked as committed so it is only counted once.
+ */
+export async function commitOrderStock(order: OrderData): Promise<OrderData> {
+  return queueStockChange(async () => {
+    if (order.inventoryCommittedAt) {
+      return order;
+    }
+
+    const reservations = await getStockReservationsFromSupabase();
+    const reservation = reservations.find(r =>
+      r.reservationId === order.orderId || (!!order.paymentIntentId && r.reservationId === order.paymentIntentId)
+    );
+    const products = await getProductsById();
+    const reservedLines = groupStockLines(products, reservation?.items || []);
+    const orderLines = groupStockLines(products, toStockRequestItems(order));
+
+    // Nothing is taken unless every unit the reservation didn't hold is available
+    const unreservedLines = new Map<string, StockLine>();
+    for (const [key, line] of orderLines) {
+      const quantity = line.quantity - (reservedLines.get(key)?.quantity || 0);
+      if (quantity > 0) {
+        unreservedLines.set(key, { ...line, quantity });
+      }
+    }
+    const stockError = findStockError(unreservedLines);
+    if (stockError) {
+      throw new Error(stockError);
+    }
+
+    for (const [key, line] of orderLines) {
+      const reservedQuantity = reservedLines.get(key)?.quantity || 0;
+      await updateStockLine(products, line, inventory => ({
+        ...inventory,
+        onHand: Math.max(0, inventory.onHand - line.quantity),
+        reserved: Math.max(0, inventory.reserved - reservedQuantity)
+      }));
+    }
+
+    if (reservation) {
+      await saveStockReservationsToSupabase(reservations.filter(r => r !== reservation));
+    }
+
+    return { ...order, inventoryCommittedAt: new Date().toISOString() };
+  });
+}
+
+// Put a cancelled order's items back into stock
+export async function restockOrder(order: OrderData): Promise<OrderData> {
+  return queueStockChange(async () => {
+    if (!order.inventoryCommittedAt || order.inventoryRestockedAt) {
+      return order;
+    }
+
+    const products = await getProductsById();
+    for (const line of groupStockLines(products, toStockRequestItems(order)).values()) {
+      await updateStockLine(products, line, inventory => ({
+        ...inventory,
+        onHand: inventory.onHand + line.quantity
+      }));
+    }
+
+    return { ...order, inventoryRestockedAt: new Date().toISOString() };
+  });
+}
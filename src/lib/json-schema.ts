@@ -0,0 +1,152 @@
+/**
+ * JSON Schema validation
+ * Checks values against the subset of JSON Schema used for structured AI
+ * output (types, required properties, lengths, ranges, patterns and enums),
+ * reporting every problem with the path of the field it was found in.
+ * Pure functions, safe to import from client components.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  nullable?: boolean; // A null property counts as absent unless this is false
+}
+
+export interface ValidationIssue {
+  field: string; // e.g. "pricing.price" or "keyFeatures[2]"; "(root)" for the whole value
+  message: string;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = ''): ValidationIssue[] {
+  const field = path || '(root)';
+
+  if (schema.type && !isType(value, schema.type)) {
+    const expected = schema.type === 'integer' ? 'a whole number'
+      : schema.type === 'array' || schema.type === 'object' ? `an ${schema.type}` : `a ${schema.type}`;
+    return [{ field, message: `Expected ${expected}, got ${describeType(value)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const add = (message: string) => issues.push({ field, message });
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    add(`Must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = value.trim().length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      add(schema.minLength === 1 ? 'Must not be empty' : `Must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      add(`Must be at most ${schema.maxLength} characters (got ${value.length})`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      add(`Must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) add(`Must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) add(`Must be at most ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      add(`Must be greater than ${schema.exclusiveMinimum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) add(`Must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) add(`Must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateJsonSchema(item, schema.items!, joinPath(path, index))));
+    }
+  }
+
+  if (isType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined || object[key] === null) {
+        issues.push({ field: joinPath(path, key), message: 'Is required' });
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (propertyValue !== undefined && (propertyValue !== null || propertySchema.nullable === false)) {
+          issues.push(...validateJsonSchema(propertyValue, propertySchema, joinPath(path, key)));
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ field: joinPath(path, key), message: 'Is not an allowed field' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(propertyValue, schema.additionalProperties, joinPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+// One issue per line, for prompts and logs
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `- ${issue.field}: ${issue.message}`).join('\n');
+}
+
+// Parse a model response that should hold one JSON object
+export function parseJsonObject(content: string | null): { data: Record<string, unknown> | null; issues: ValidationIssue[] } {
+  if (!content || !content.trim()) {
+    return { data: null, issues: [{ field: '(root)', message: 'The response was empty' }] };
+  }
+
+  let parsed: unknown;
+  try {
+    // Tolerate a ```json fence around the object
+    parsed = JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return { data: null, issues: [{ field: '(root)', message: 'The response is not valid JSON' }] };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { data: null, issues: [{ field: '(root)', message: 'The response must be a JSON object' }] };
+  }
+
+  return { data: parsed as Record<string, unknown>, issues: [] };
+}
@@ -0,0 +1,108 @@
+/**
+ * LLM provider
+ * The chat completion model used by the product generator and the shopping
+ * assistant, chosen by LLM_PROVIDER: `azure` (default) for an Azure OpenAI
+ * deployment, `openai` for OpenAI or any OpenAI-compatible server, or `mock`
+ * for a scripted model that needs no network access.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  AzureOpenAIProvider,
+  MockLLMProvider,
+  OpenAICompatibleProvider
+} from '../../lib/ai-shopping-assistant/llm-providers';
+import type { MockLLMStep } from '../../lib/ai-shopping-assistant/llm-providers';
+import type { LLMCompletionOptions, LLMMessage, LLMProvider } from '../../lib/ai-shopping-assistant/types';
+import { formatValidationIssues, type ValidationIssue } from './json-schema';
+
+export type { LLMProvider, LLMMessage, LLMContentPart, LLMTool, LLMCompletionOptions } from '../../lib/ai-shopping-assistant/types';
+
+// Replies for the mock provider, from the JSON array in LLM_MOCK_SCRIPT
+function loadMockScript(): MockLLMStep[] {
+  const scriptPath = process.env.LLM_MOCK_SCRIPT;
+  if (!scriptPath) return [];
+
+  const script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+  if (!Array.isArray(script)) {
+    throw new Error('LLM_MOCK_SCRIPT must contain a JSON array of replies');
+  }
+  return script;
+}
+
+function createLLMProvider(): LLMProvider {
+  const provider = (process.env.LLM_PROVIDER || 'azure').toLowerCase();
+  // Set LLM_VISION=false for models that can't take images, and
+  // LLM_STRUCTURED_OUTPUT=false for ones without JSON schema response formats
+  const supportsVision = process.env.LLM_VISION !== 'false';
+  const supportsStructuredOutput = process.env.LLM_STRUCTURED_OUTPUT !== 'false';
+
+  switch (provider) {
+    case 'mock':
+      return new MockLLMProvider(loadMockScript());
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        process.env.OPENAI_API_KEY,
+        supportsVision,
+        supportsStructuredOutput
+      );
+    case 'azure':
+      return new AzureOpenAIProvider(
+        process.env.AZURE_OPENAI_ENDPOINT || '',
+        process.env.AZURE_OPENAI_API_KEY || '',
+        process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4',
+        process.env.AZURE_OPENAI_API_VERSION,
+        supportsVision,
+        supportsStructuredOutput
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"; use azure, openai or mock`);
+  }
+}
+
+export const llmProvider: LLMProvider = createLLMProvider();
+
+// Repair round-trips after the first response, before giving up
+const MAX_JSON_REPAIRS = 2;
+
+export interface JsonCompletionResult<T> {
+  data: T | null;
+  attempts: number; // Requests made, including repairs
+  issues: ValidationIssue[]; // Problems left in the final response
+  repairedIssues: ValidationIssue[]; // Problems in earlier responses, sent back to be fixed
+}
+
+/**
+ * Ask for a JSON object and validate it, sending the problems back to the
+ * model to fix until it passes or the repairs run out
+ */
+export async function completeJsonWithRepair<T>(
+  messages: LLMMessage[],
+  options: LLMCompletionOptions,
+  validate: (content: string | null) => { data: T | null; issues: ValidationIssue[] },
+  maxRepairs: number = MAX_JSON_REPAIRS
+): Promise<JsonCompletionResult<T>> {
+  const conversation = [...messages];
+  const repairedIssues: ValidationIssue[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const completion = await llmProvider.complete(conversation, { ...options, responseFormat: 'json' });
+    const { data, issues } = validate(completion.content);
+
+    if (issues.length === 0 || attempt > maxRepairs) {
+      return { data, attempts: attempt, issues, repairedIssues };
+    }
+
+    console.log(`AI JSON response failed validation (attempt ${attempt}), asking for a repair:`, issues);
+    repairedIssues.push(...issues);
+    conversation.push(
+      { role: 'assistant', content: completion.content || '' },
+      {
+        role: 'user',
+        content: `That response has these problems:\n${formatValidationIssues(issues)}\n\nReply with the complete corrected JSON object only.`
+      }
+    );
+  }
+}
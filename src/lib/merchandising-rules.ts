@@ -0,0 +1,263 @@
+/**
+ * Merchandising rules
+ * Admin rules that change the default ranking of search results and
+ * category pages: pin products to the top, boost or bury products by ID,
+ * category or tag, for chosen queries or categories and optionally only
+ * between two dates. Pure functions with no storage access, so they are
+ * safe to import from client components.
+ */
+
+import { tokenize } from './search-text';
+import type { SortDirection, SortKey } from './pagination';
+
+export const MERCHANDISING_ACTIONS = ['pin', 'boost', 'bury'] as const;
+
+export type MerchandisingAction = typeof MERCHANDISING_ACTIONS[number];
+
+export interface MerchandisingRule {
+  id: string;
+  name: string;
+  action: MerchandisingAction;
+  // When the rule fires; with neither, it fires for every search and category page
+  queries?: string[]; // Fires when the query contains one of these words or phrases
+  categories?: string[]; // Fires when browsing or filtering by one of these categories or their subcategories
+  // Which products it moves
+  productIds?: string[]; // For pin, also the order they are pinned in
+  targetCategories?: string[];
+  targetTags?: string[];
+  factor?: number; // boost: multiplies the relevance score
+  startsAt?: string;
+  endsAt?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where results are being ranked
+export interface MerchandisingContext {
+  query: string;
+  categories?: string[]; // IDs, names or paths of the category being browsed or filtered by
+}
+
+export interface MerchandisableProduct {
+  id: string;
+  category: string;
+  categoryId?: string;
+  categoryPath?: string;
+  tags?: string[];
+}
+
+// How the rules that fired placed one product
+export interface MerchandisingPlacement {
+  pinPosition?: number; // 0 is the top
+  buried: boolean;
+  boost: number; // Product of every boost factor
+  notes: string[]; // e.g. 'pinned by "Gift picks"'
+}
+
+// The explain trace for one rule
+export interface FiredMerchandisingRule {
+  ruleId: string;
+  name: string;
+  action: MerchandisingAction;
+  reason: string; // Why it fired, e.g. 'query contains "gift"'
+  productIds: string[]; // Products it moved
+}
+
+export interface MerchandisingOutcome {
+  placements: Map<string, MerchandisingPlacement>;
+  fired: FiredMerchandisingRule[];
+}
+
+const MERCHANDISING_ORDER: MerchandisingAction[] = ['pin', 'bury', 'boost'];
+
+// Boost factors above this would let one rule override everything else
+export const MAX_BOOST_FACTOR = 10;
+
+export function normalizeMerchandisingQuery(query: string): string {
+  return tokenize(query).join(' ');
+}
+
+// Live now: active and inside its date range
+export function isMerchandisingRuleLive(rule: MerchandisingRule, now: Date = new Date()): boolean {
+  if (!rule.active) return false;
+  if (rule.startsAt && now < new Date(rule.startsAt)) return false;
+  if (rule.endsAt && now >= new Date(rule.endsAt)) return false;
+  return true;
+}
+
+// A product is in a category when its ID, name or path matches it, or its path is below it
+function isInCategory(product: MerchandisableProduct, category: string): boolean {
+  const wanted = category.trim().toLowerCase();
+  if (product.categoryId && product.categoryId.toLowerCase() === wanted) return true;
+  return [product.category, product.categoryPath].some(value => {
+    const path = value?.toLowerCase();
+    return !!path && (path === wanted || path.startsWith(`${wanted} >`));
+  });
+}
+
+// Whether a browsed category is one of the rule's, or below it
+function isCategoryMatch(context: string, ruleCategory: string): boolean {
+  const browsed = context.trim().toLowerCase();
+  const wanted = ruleCategory.trim().toLowerCase();
+  return browsed === wanted || browsed.startsWith(`${wanted} >`);
+}
+
+// Why a rule fires in this context, or null if it doesn't
+export function getMerchandisingTrigger(rule: MerchandisingRule, context: MerchandisingContext): string | null {
+  const hasQueries = !!rule.queries?.length;
+  const hasCategories = !!rule.categories?.length;
+  if (!hasQueries && !hasCategories) {
+    return 'applies everywhere';
+  }
+
+  if (hasQueries) {
+    const query = ` ${normalizeMerchandisingQuery(context.query)} `;
+    const matched = rule.queries!.find(ruleQuery => query.includes(` ${ruleQuery} `));
+    if (matched) return `query contains "${matched}"`;
+  }
+
+  if (hasCategories && context.categories?.length) {
+    const matched = rule.categories!.find(ruleCategory =>
+      context.categories!.some(category => isCategoryMatch(category, ruleCategory))
+    );
+    if (matched) return `category is "${matched}"`;
+  }
+
+  return null;
+}
+
+export function isMerchandisingTarget(rule: MerchandisingRule, product: MerchandisableProduct): boolean {
+  if (rule.productIds?.includes(product.id)) return true;
+  if (rule.targetCategories?.some(category => isInCategory(product, category))) return true;
+  const tags = (product.tags || []).map(tag => tag.toLowerCase());
+  return !!rule.targetTags?.some(tag => tags.includes(tag.toLowerCase()));
+}
+
+// Products the live rules pin in this context, so they can be shown even if they didn't match
+export function getPinnedProductIds(rules: MerchandisingRule[], context: MerchandisingContext, now: Date = new Date()): string[] {
+  const pinned = rules
+    .filter(rule => rule.action === 'pin' && isMerchandisingRuleLive(rule, now) && getMerchandisingTrigger(rule, context))
+    .flatMap(rule => rule.productIds || []);
+  return Array.from(new Set(pinned));
+}
+
+/**
+ * Work out how the live rules place each product
+ * Pins come first, in rule order and then the order of each rule's
+ * productIds. A pinned product is not buried, and a buried one is not boosted.
+ */
+export function applyMerchandisingRules(
+  rules: MerchandisingRule[],
+  context: MerchandisingContext,
+  products: MerchandisableProduct[],
+  now: Date = new Date()
+): MerchandisingOutcome {
+  const placements = new Map<string, MerchandisingPlacement>();
+  const fired: FiredMerchandisingRule[] = [];
+  const productsById = new Map(products.map(product => [product.id, product]));
+  let nextPinPosition = 0;
+
+  const getPlacement = (productId: string) => {
+    let placement = placements.get(productId);
+    if (!placement) {
+      placement = { buried: false, boost: 1, notes: [] };
+      placements.set(productId, placement);
+    }
+    return placement;
+  };
+
+  // Pins first, then burials, so boosts can skip products either has placed
+  const liveRules = rules.filter(rule => isMerchandisingRuleLive(rule, now));
+  const orderedRules = MERCHANDISING_ORDER.flatMap(action => liveRules.filter(rule => rule.action === action));
+
+  for (const rule of orderedRules) {
+    const reason = getMerchandisingTrigger(rule, context);
+    if (!reason) continue;
+
+    const targets = rule.action === 'pin'
+      ? (rule.productIds || []).filter(productId => productsById.has(productId))
+      : products.filter(product => isMerchandisingTarget(rule, product)).map(product => product.id);
+
+    const moved: string[] = [];
+    for (const productId of targets) {
+      const placement = getPlacement(productId);
+      if (rule.action === 'pin') {
+        if (placement.pinPosition !== undefined) continue;
+        placement.pinPosition = nextPinPosition++;
+        placement.notes.push(`pinned by "${rule.name}"`);
+      } else if (rule.action === 'bury') {
+        if (placement.pinPosition !== undefined || placement.buried) continue;
+        placement.buried = true;
+        placement.notes.push(`buried by "${rule.name}"`);
+      } else {
+        if (placement.pinPosition !== undefined || placement.buried) continue;
+        placement.boost *= rule.factor || 1;
+        placement.notes.push(`boosted ×${rule.factor} by "${rule.name}"`);
+      }
+      moved.push(productId);
+    }
+
+    if (moved.length > 0) {
+      fired.push({ ruleId: rule.id, name: rule.name, action: rule.action, reason, productIds: moved });
+    }
+  }
+
+  return { placements, fired };
+}
+
+/**
+ * Put pinned products first and buried ones last, ahead of a sort's own key
+ * Boosts aren't applied here; they scale the relevance score in baseKey.
+ */
+export function getMerchandisedSortKey(
+  placement: MerchandisingPlacement | undefined,
+  baseKey: SortKey,
+  direction: SortDirection
+): SortKey {
+  const tier = placement?.pinPosition !== undefined ? 2 : placement?.buried ? 0 : 1;
+  // Lower pin positions come first whichever way the list is sorted
+  const pinRank = placement?.pinPosition !== undefined ? -placement.pinPosition : 0;
+  const sign = direction === 'desc' ? 1 : -1;
+  return [sign * tier, sign * pinRank, ...baseKey];
+}
+
+// Validate admin input for a new or updated rule, returning an error message or null
+export function validateMerchandisingRuleInput(input: Partial<MerchandisingRule>): string | null {
+  if (!input.name || typeof input.name !== 'string' || !input.name.trim() || input.name.trim().length > 100) {
+    return 'Name is required and must be at most 100 characters';
+  }
+  if (!input.action || !(MERCHANDISING_ACTIONS as readonly string[]).includes(input.action)) {
+    return `Action must be one of: ${MERCHANDISING_ACTIONS.join(', ')}`;
+  }
+
+  for (const field of ['queries', 'categories', 'productIds', 'targetCategories', 'targetTags'] as const) {
+    const value = input[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim()))) {
+      return `${field} must be a list of non-empty strings`;
+    }
+  }
+
+  if (input.action === 'pin') {
+    if (!input.productIds?.length) {
+      return 'Pin rules need productIds to pin';
+    }
+  } else if (!input.productIds?.length && !input.targetCategories?.length && !input.targetTags?.length) {
+    return 'Boost and bury rules need productIds, targetCategories or targetTags';
+  }
+  if (input.action === 'boost' &&
+      (typeof input.factor !== 'number' || input.factor <= 1 || input.factor > MAX_BOOST_FACTOR)) {
+    return `Boost rules need a factor above 1 and at most ${MAX_BOOST_FACTOR}`;
+  }
+
+  for (const field of ['startsAt', 'endsAt'] as const) {
+    if (input[field] !== undefined && isNaN(new Date(input[field]!).getTime())) {
+      return `${field} must be a valid date`;
+    }
+  }
+  if (input.startsAt && input.endsAt && new Date(input.startsAt) >= new Date(input.endsAt)) {
+    return 'endsAt must be after startsAt';
+  }
+
+  return null;
+}
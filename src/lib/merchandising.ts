@@ -0,0 +1,125 @@
+/**
+ * Merchandising
+ * Admin management of the rules that pin, boost and bury products in
+ * search results and category pages.
+ */
+
+import { getMerchandisingRulesFromSupabase, saveMerchandisingRulesToSupabase } from './supabase-storage';
+import {
+  MerchandisingRule,
+  normalizeMerchandisingQuery,
+  validateMerchandisingRuleInput
+} from './merchandising-rules';
+
+export type MerchandisingRuleInput = Omit<MerchandisingRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Changes to the rule list go one at a time, so concurrent edits can't
+// overwrite each other
+let merchandisingChain: Promise<unknown> = Promise.resolve();
+
+function queueMerchandisingChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = merchandisingChain.then(change);
+  merchandisingChain = result.catch(() => undefined);
+  return result;
+}
+
+// Keep only the fields an admin may set
+function pickMerchandisingRuleInput(input: Partial<MerchandisingRuleInput>): Partial<MerchandisingRuleInput> {
+  const fields: Array<keyof MerchandisingRuleInput> = [
+    'name', 'action', 'queries', 'categories', 'productIds', 'targetCategories', 'targetTags',
+    'factor', 'startsAt', 'endsAt', 'active'
+  ];
+  const picked: Partial<MerchandisingRuleInput> = {};
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      (picked as Record<string, unknown>)[field] = input[field];
+    }
+  }
+  return picked;
+}
+
+// Trim names, match queries the way search text is read, and drop duplicates
+function normalizeMerchandisingRule(rule: MerchandisingRule): MerchandisingRule {
+  const unique = (values: string[] | undefined, normalize: (value: string) => string) =>
+    values && Array.from(new Set(values.map(normalize).filter(Boolean)));
+
+  return {
+    ...rule,
+    name: rule.name.trim(),
+    queries: unique(rule.queries, normalizeMerchandisingQuery),
+    categories: unique(rule.categories, value => value.trim()),
+    productIds: unique(rule.productIds, value => value.trim()),
+    targetCategories: unique(rule.targetCategories, value => value.trim()),
+    targetTags: unique(rule.targetTags, value => value.trim()),
+    // Only boosts have a factor
+    factor: rule.action === 'boost' ? rule.factor : undefined
+  };
+}
+
+export async function createMerchandisingRule(input: Partial<MerchandisingRuleInput>): Promise<MerchandisingRule> {
+  return queueMerchandisingChange(async () => {
+    const fields = pickMerchandisingRuleInput(input);
+    const validationError = validateMerchandisingRuleInput(fields);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const rules = await getMerchandisingRulesFromSupabase();
+    const now = new Date().toISOString();
+    const rule = normalizeMerchandisingRule({
+      ...fields,
+      id: `merch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      name: fields.name!,
+      action: fields.action!,
+      active: fields.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    await saveMerchandisingRulesToSupabase([...rules, rule]);
+    console.log(`Merchandising rule "${rule.name}" created`);
+    return rule;
+  });
+}
+
+export async function updateMerchandisingRule(
+  ruleId: string,
+  updates: Partial<MerchandisingRuleInput>
+): Promise<MerchandisingRule> {
+  return queueMerchandisingChange(async () => {
+    const rules = await getMerchandisingRulesFromSupabase();
+    const index = rules.findIndex(rule => rule.id === ruleId);
+
+    if (index === -1) {
+      throw new Error('Merchandising rule not found');
+    }
+
+    const updatedRule: MerchandisingRule = {
+      ...rules[index],
+      ...pickMerchandisingRuleInput(updates),
+      updatedAt: new Date().toISOString()
+    };
+
+    const validationError = validateMerchandisingRuleInput(updatedRule);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    rules[index] = normalizeMerchandisingRule(updatedRule);
+    await saveMerchandisingRulesToSupabase(rules);
+    return rules[index];
+  });
+}
+
+export async function deleteMerchandisingRule(ruleId: string): Promise<void> {
+  return queueMerchandisingChange(async () => {
+    const rules = await getMerchandisingRulesFromSupabase();
+    const remaining = rules.filter(rule => rule.id !== ruleId);
+
+    if (remaining.length === rules.length) {
+      throw new Error('Merchandising rule not found');
+    }
+
+    await saveMerchandisingRulesToSupabase(remaining);
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Money migration
+ * Carts and orders saved before amounts became Money store them as decimal
+ * numbers (19.99) with a separate currency field. These functions convert a
+ * stored record to the current shape; records already using Money pass
+ * through unchanged. Storage reads apply them, and /api/migrate-money
+ * rewrites the stored files.
+ */
+
+import { isMoney, toMoney } from './money';
+import type { Money } from './money';
+import type { CartItem, OrderData, OrderIndexItem } from './supabase-storage';
+
+type StoredRecord = Record<string, unknown>;
+
+// A stored amount in either format; plain numbers are legacy decimal amounts
+function migrateAmount(value: unknown, currency: string): Money {
+  return isMoney(value) ? value : toMoney(Number(value) || 0, currency);
+}
+
+function migrateOptionalAmount(value: unknown, currency: string): Money | undefined {
+  return value === undefined || value === null ? undefined : migrateAmount(value, currency);
+}
+
+// Drop the legacy currency field once the amounts carry it
+function withoutCurrency(record: StoredRecord): StoredRecord {
+  const rest = { ...record };
+  delete rest.currency;
+  return rest;
+}
+
+export function isLegacyCartItem(item: unknown): boolean {
+  return !isMoney((item as StoredRecord).price);
+}
+
+export function migrateCartItem(item: unknown): CartItem {
+  const stored = item as StoredRecord;
+  if (!isLegacyCartItem(stored)) {
+    return stored as unknown as CartItem;
+  }
+
+  const currency = typeof stored.currency === 'string' ? stored.currency : 'USD';
+  const originalPrice = migrateOptionalAmount(stored.originalPrice, currency);
+  return {
+    ...withoutCurrency(stored),
+    price: migrateAmount(stored.price, currency),
+    ...(originalPrice && { originalPrice })
+  } as unknown as CartItem;
+}
+
+export function isLegacyOrder(order: unknown): boolean {
+  return !isMoney(((order as StoredRecord).totals as StoredRecord | undefined)?.total);
+}
+
+export function migrateOrderData(order: unknown): OrderData {
+  const stored = order as StoredRecord;
+  if (!isLegacyOrder(stored)) {
+    return stored as unknown as OrderData;
+  }
+
+  const totals = (stored.totals || {}) as StoredRecord;
+  const currency = typeof totals.currency === 'string' ? totals.currency : 'USD';
+
+  const items = ((stored.items || []) as StoredRecord[]).map(item => ({
+    ...withoutCurrency(item),
+    price: migrateAmount(item.price, typeof item.currency === 'string' ? item.currency : currency)
+  }));
+
+  const discount = migrateOptionalAmount(totals.discount, currency);
+  const refunded = migrateOptionalAmount(totals.refunded, currency);
+  const migratedTotals = {
+    ...totals,
+    subtotal: migrateAmount(totals.subtotal, currency),
+    ...(discount && { discount }),
+    ...(Array.isArray(totals.discounts) && {
+      discounts: (totals.discounts as StoredRecord[]).map(applied => ({
+        ...applied,
+        amount: migrateAmount(applied.amount, currency)
+      }))
+    }),
+    shipping: migrateAmount(totals.shipping, currency),
+    tax: migrateAmount(totals.tax, currency),
+    total: migrateAmount(totals.total, currency),
+    ...(refunded && { refunded }),
+    currency,
+    ...(Array.isArray(totals.lines) && {
+      lines: (totals.lines as StoredRecord[]).map(line => ({
+        ...line,
+        amount: migrateAmount(line.amount, currency)
+      }))
+    })
+  };
+
+  const refunds = Array.isArray(stored.refunds)
+    ? (stored.refunds as StoredRecord[]).map(refund => {
+        const refundCurrency = typeof refund.currency === 'string' ? refund.currency.toUpperCase() : currency;
+        return {
+          ...withoutCurrency(refund),
+          amount: migrateAmount(refund.amount, refundCurrency),
+          ...(Array.isArray(refund.items) && {
+            items: (refund.items as StoredRecord[]).map(refundItem => ({
+              ...refundItem,
+              amount: migrateAmount(refundItem.amount, refundCurrency)
+            }))
+          })
+        };
+      })
+    : undefined;
+
+  return {
+    ...stored,
+    items,
+    totals: migratedTotals,
+    ...(refunds && { refunds })
+  } as unknown as OrderData;
+}
+
+export function isLegacyOrderIndexItem(item: unknown): boolean {
+  return !isMoney((item as StoredRecord).total);
+}
+
+export function migrateOrderIndexItem(item: unknown): OrderIndexItem {
+  const stored = item as StoredRecord;
+  if (!isLegacyOrderIndexItem(stored)) {
+    return stored as unknown as OrderIndexItem;
+  }
+
+  const currency = typeof stored.currency === 'string' ? stored.currency : 'USD';
+  return {
+    ...withoutCurrency(stored),
+    total: migrateAmount(stored.total, currency)
+  } as unknown as OrderIndexItem;
+}
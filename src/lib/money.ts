@@ -0,0 +1,24 @@
+/**
+ * Money helpers for the app
+ * Re-exports the assistant library's integer minor-unit Money type so the
+ * cart, checkout, orders and assistant all use the same arithmetic. Safe to
+ * import from client components.
+ */
+
+export type { Money } from '../../lib/ai-shopping-assistant/types';
+export {
+  getCurrencyDigits,
+  isMoney,
+  zeroMoney,
+  toMoney,
+  toMajorUnits,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  sumMoney,
+  minMoney,
+  negateMoney,
+  convertMoney,
+  formatMoney
+} from '../../lib/ai-shopping-assistant/money';
+export { STATIC_EXCHANGE_RATES, getCrossRate } from '../../lib/ai-shopping-assistant/exchange-rates';
@@ -0,0 +1,424 @@
+/**
+ * Order refunds and cancellations
+ * Creates Stripe refunds (or cancels uncaptured PaymentIntents) for an order,
+ * records them on the stored OrderData and moves the order through the
+ * status state machine. Customers don't refund themselves: they file refund
+ * requests, which an admin approves (making the refund) or declines.
+ */
+
+import Stripe from 'stripe';
+import { createHash } from 'crypto';
+import { getOrderFromSupabase, saveOrderToSupabase, OrderData, OrderRefund, OrderRefundRequest } from './supabase-storage';
+import { applyOrderStatusTransition, getAllowedOrderStatusTransitions, OrderStatus } from './order-status';
+import { restockOrder } from './inventory';
+import { addMoney, formatMoney, minMoney, multiplyMoney, subtractMoney, sumMoney, zeroMoney } from './money';
+import type { Money } from './money';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-09-30.clover' as unknown as Stripe.LatestApiVersion,
+});
+
+// PaymentIntent statuses where no money has been captured yet, so the
+// intent can simply be cancelled instead of refunded
+const UNCAPTURED_PAYMENT_STATUSES = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+  'requires_capture'
+];
+
+// Refunds, cancellations and Stripe webhook updates of an order run one at a
+// time, each checking the order as the one before it left it
+const orderChains = new Map<string, Promise<unknown>>();
+
+export function queueOrderChange<T>(orderId: string, change: () => Promise<T>): Promise<T> {
+  const result = (orderChains.get(orderId) || Promise.resolve()).then(change);
+  const settled = result.catch(() => undefined);
+  orderChains.set(orderId, settled);
+  settled.then(() => {
+    if (orderChains.get(orderId) === settled) orderChains.delete(orderId);
+  });
+  return result;
+}
+
+// Statuses in which customers may request a refund of their own orders (admins may refund any time)
+export const CUSTOMER_REFUNDABLE_STATUSES: OrderStatus[] = ['delivered', 'returned'];
+
+export interface RefundItemRequest {
+  id: string;
+  quantity: number;
+}
+
+export interface RefundRequest {
+  items?: RefundItemRequest[]; // Omit for a full refund of the remaining amount
+  reason?: string;
+  requestedBy?: string;
+}
+
+// Whether a posted items list is a list of { id, quantity } with whole, positive quantities
+export function isRefundItemList(items: unknown): items is RefundItemRequest[] {
+  return Array.isArray(items) && items.every(item =>
+    typeof item === 'object' && item !== null &&
+    typeof item.id === 'string' &&
+    Number.isInteger(item.quantity) && item.quantity > 0
+  );
+}
+
+export function getRefundedAmount(order: OrderData): Money {
+  return order.totals.refunded || zeroMoney(order.totals.total.currency);
+}
+
+export function getRefundableAmount(order: OrderData): Money {
+  const remaining = subtractMoney(order.totals.total, getRefundedAmount(order));
+  return remaining.amount > 0 ? remaining : zeroMoney(remaining.currency);
+}
+
+// Quantity of each line item already refunded
+function getRefundedQuantities(order: OrderData): Map<string, number> {
+  const refunded = new Map<string, number>();
+  for (const refund of order.refunds || []) {
+    for (const item of refund.items || []) {
+      refunded.set(item.id, (refunded.get(item.id) || 0) + item.quantity);
+    }
+  }
+  return refunded;
+}
+
+/**
+ * Calculate the refund for specific line items
+ * Each line is refunded at its price less its share of any order discount,
+ * plus its proportional share of the tax
+ */
+export function calculateLineItemRefund(order: OrderData, items: RefundItemRequest[]): OrderRefund['items'] {
+  const { subtotal, tax } = order.totals;
+  const discount = order.totals.discount || zeroMoney(subtotal.currency);
+  const discountRate = subtotal.amount > 0 ? discount.amount / subtotal.amount : 0;
+  const discountedSubtotal = subtractMoney(subtotal, discount);
+  const taxRate = discountedSubtotal.amount > 0 ? tax.amount / discountedSubtotal.amount : 0;
+
+  return items.map(item => {
+    const orderItem = order.items.find(i => i.id === item.id);
+    const linePrice = multiplyMoney(orderItem?.price || zeroMoney(subtotal.currency), item.quantity);
+    return {
+      id: item.id,
+      quantity: item.quantity,
+      amount: multiplyMoney(linePrice, (1 - discountRate) * (1 + taxRate))
+    };
+  });
+}
+
+// Validate a refund request against the order, returning an error message or null
+export function validateRefundRequest(order: OrderData, request: RefundRequest): string | null {
+  if (!order.paymentIntentId) {
+    return 'Order has no payment to refund';
+  }
+
+  if (order.status === 'refunded' || getRefundableAmount(order).amount <= 0) {
+    return 'Order has already been fully refunded';
+  }
+
+  if (!request.items || request.items.length === 0) {
+    // Full refunds settle the order, so it must be able to move to refunded
+    if (!getAllowedOrderStatusTransitions(order.status).includes('refunded')) {
+      return order.status === 'confirmed' || order.status === 'processing'
+        ? 'Order has not shipped yet - cancel it instead of refunding'
+        : `Cannot fully refund an order that is ${order.status} (return it first)`;
+    }
+    return null;
+  }
+
+  if (order.status === 'cancelled') {
+    return 'Cancelled orders can only be refunded in full';
+  }
+
+  const refundedQuantities = getRefundedQuantities(order);
+  for (const item of request.items) {
+    const orderItem = order.items.find(i => i.id === item.id);
+    if (!orderItem) {
+      return `Item ${item.id} is not part of this order`;
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return `Invalid refund quantity for ${orderItem.productName}`;
+    }
+    const remaining = orderItem.quantity - (refundedQuantities.get(item.id) || 0);
+    if (item.quantity > remaining) {
+      return `Only ${remaining} of ${orderItem.productName} can still be refunded`;
+    }
+  }
+
+  return null;
+}
+
+// Add a refund entry to the order and update its refunded total
+export function recordRefund(order: OrderData, refund: OrderRefund): OrderData {
+  return {
+    ...order,
+    refunds: [...(order.refunds || []), refund],
+    totals: {
+      ...order.totals,
+      refunded: addMoney(getRefundedAmount(order), refund.amount)
+    },
+    updatedAt: refund.createdAt
+  };
+}
+
+// The same items refunded from the same refunded total is the same refund, so a
+// repeated request gets Stripe's first refund back instead of a second one
+function getRefundIdempotencyKey(order: OrderData, items?: RefundItemRequest[]): string {
+  const itemsKey = items && items.length > 0
+    ? items.map(item => `${item.id}x${item.quantity}`).sort().join(',')
+    : 'all';
+  const refunded = getRefundedAmount(order);
+  return `refund_${createHash('sha256')
+    .update(`${order.orderId}|${refunded.amount}${refunded.currency}|${itemsKey}`)
+    .digest('hex')}`;
+}
+
+async function createStripeRefund(order: OrderData, amount: Money, request: RefundRequest): Promise<Stripe.Refund> {
+  return await stripe.refunds.create({
+    payment_intent: order.paymentIntentId,
+    amount: amount.amount, // Already in the minor unit Stripe expects
+    reason: 'requested_by_customer',
+    metadata: {
+      order_id: order.orderId,
+      requested_by: request.requestedBy || '',
+      note: request.reason || ''
+    }
+  }, {
+    idempotencyKey: getRefundIdempotencyKey(order, request.items)
+  });
+}
+
+// Refund the loaded order through Stripe and return it with the refund recorded;
+// only call from inside queueOrderChange, and save the result
+async function applyRefund(order: OrderData, request: RefundRequest): Promise<{ order: OrderData; refund?: OrderRefund }> {
+  const validationError = validateRefundRequest(order, request);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const items = request.items && request.items.length > 0
+    ? calculateLineItemRefund(order, request.items)
+    : undefined;
+  const refundableAmount = getRefundableAmount(order);
+  const amount = items
+    ? minMoney(sumMoney(items.map(item => item.amount), refundableAmount.currency), refundableAmount)
+    : refundableAmount;
+
+  const stripeRefund = await createStripeRefund(order, amount, request);
+  // Another server process may have recorded this refund already
+  const recorded = order.refunds?.find(refund => refund.refundId === stripeRefund.id);
+  if (recorded) {
+    return { order, refund: recorded };
+  }
+  console.log(`Stripe refund ${stripeRefund.id} created for order ${order.orderId}: ${formatMoney(amount)}`);
+
+  const refund: OrderRefund = {
+    refundId: stripeRefund.id,
+    type: 'refund',
+    amount,
+    ...(items && { items }),
+    ...(request.reason && { reason: request.reason }),
+    status: stripeRefund.status || 'pending',
+    createdAt: new Date().toISOString(),
+    createdBy: request.requestedBy
+  };
+  let updatedOrder = recordRefund(order, refund);
+
+  // Line item refunds that add up to the whole order also settle it when the
+  // status allows (e.g. delivered); unshipped orders keep their status
+  if (getRefundableAmount(updatedOrder).amount <= 0 &&
+      getAllowedOrderStatusTransitions(updatedOrder.status).includes('refunded')) {
+    updatedOrder = applyOrderStatusTransition(updatedOrder, 'refunded', {
+      changedBy: request.requestedBy,
+      note: request.reason
+    });
+  }
+
+  return { order: updatedOrder, refund };
+}
+
+/**
+ * Refund an order in full or for specific line items (admins only)
+ * Full refunds move the order to "refunded"; partial refunds leave the status as is.
+ */
+export async function refundOrder(orderId: string, request: RefundRequest): Promise<OrderData> {
+  return queueOrderChange(orderId, async () => {
+    const order = await getOrderFromSupabase(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const { order: updatedOrder } = await applyRefund(order, request);
+    if (updatedOrder !== order) {
+      await saveOrderToSupabase(updatedOrder);
+    }
+    return updatedOrder;
+  });
+}
+
+/**
+ * File a customer's refund request for an admin to review
+ * Nothing is refunded until the request is approved.
+ */
+export async function requestOrderRefund(
+  orderId: string,
+  request: RefundRequest & { requestedBy: string }
+): Promise<{ order: OrderData; refundRequest: OrderRefundRequest }> {
+  return queueOrderChange(orderId, async () => {
+    const order = await getOrderFromSupabase(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const validationError = validateRefundRequest(order, request);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+    if (order.refundRequests?.some(refundRequest => refundRequest.status === 'pending')) {
+      throw new Error('A refund request for this order is already waiting for review');
+    }
+
+    const now = new Date().toISOString();
+    const refundRequest: OrderRefundRequest = {
+      requestId: `rr_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      ...(request.items && request.items.length > 0 && { items: request.items }),
+      ...(request.reason && { reason: request.reason }),
+      status: 'pending',
+      requestedBy: request.requestedBy,
+      requestedAt: now
+    };
+    const updatedOrder = {
+      ...order,
+      refundRequests: [...(order.refundRequests || []), refundRequest],
+      updatedAt: now
+    };
+
+    await saveOrderToSupabase(updatedOrder);
+    console.log(`Refund request ${refundRequest.requestId} filed for order ${orderId}`);
+    return { order: updatedOrder, refundRequest };
+  });
+}
+
+/**
+ * Approve or decline a pending refund request
+ * Approving refunds the requested items (or the whole order) through Stripe.
+ */
+export async function reviewRefundRequest(
+  orderId: string,
+  requestId: string,
+  decision: 'approve' | 'decline',
+  reviewedBy: string
+): Promise<OrderData> {
+  return queueOrderChange(orderId, async () => {
+    const order = await getOrderFromSupabase(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const refundRequest = order.refundRequests?.find(r => r.requestId === requestId);
+    if (!refundRequest) {
+      throw new Error('Refund request not found');
+    }
+    if (refundRequest.status !== 'pending') {
+      throw new Error(`Refund request has already been ${refundRequest.status}`);
+    }
+
+    let updatedOrder = order;
+    let refundId: string | undefined;
+    if (decision === 'approve') {
+      const result = await applyRefund(order, {
+        items: refundRequest.items,
+        reason: refundRequest.reason,
+        requestedBy: reviewedBy
+      });
+      updatedOrder = result.order;
+      refundId = result.refund?.refundId;
+    }
+
+    const reviewedAt = new Date().toISOString();
+    updatedOrder = {
+      ...updatedOrder,
+      refundRequests: (updatedOrder.refundRequests || []).map(r => r.requestId !== requestId ? r : {
+        ...r,
+        status: decision === 'approve' ? 'approved' : 'declined',
+        reviewedBy,
+        reviewedAt,
+        ...(refundId && { refundId })
+      }),
+      updatedAt: reviewedAt
+    };
+
+    await saveOrderToSupabase(updatedOrder);
+    console.log(`Refund request ${requestId} for order ${orderId} ${decision === 'approve' ? 'approved' : 'declined'} by ${reviewedBy}`);
+    return updatedOrder;
+  });
+}
+
+/**
+ * Cancel an order that has not shipped yet
+ * Uncaptured payments are voided; captured payments are refunded in full.
+ * The ordered items are put back into stock.
+ */
+export async function cancelOrder(orderId: string, options: { reason?: string; requestedBy?: string } = {}): Promise<OrderData> {
+  return queueOrderChange(orderId, async () => {
+    const order = await getOrderFromSupabase(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    let updatedOrder = applyOrderStatusTransition(order, 'cancelled', {
+      changedBy: options.requestedBy,
+      note: options.reason
+    });
+
+    const refundableAmount = getRefundableAmount(order);
+    if (order.paymentIntentId && refundableAmount.amount > 0) {
+      const paymentIntent = await stripe.paymentIntents.retrieve(order.paymentIntentId);
+
+      if (UNCAPTURED_PAYMENT_STATUSES.includes(paymentIntent.status)) {
+        const cancelledIntent = await stripe.paymentIntents.cancel(order.paymentIntentId, {
+          cancellation_reason: 'requested_by_customer'
+        });
+        console.log(`PaymentIntent ${cancelledIntent.id} cancelled for order ${orderId}`);
+
+        // Nothing was charged, so the void is recorded without counting as refunded money
+        updatedOrder = {
+          ...updatedOrder,
+          refunds: [...(updatedOrder.refunds || []), {
+            refundId: cancelledIntent.id,
+            type: 'void',
+            amount: zeroMoney(refundableAmount.currency),
+            ...(options.reason && { reason: options.reason }),
+            status: cancelledIntent.status,
+            createdAt: new Date().toISOString(),
+            createdBy: options.requestedBy
+          }]
+        };
+      } else if (paymentIntent.status === 'succeeded') {
+        const stripeRefund = await createStripeRefund(order, refundableAmount, options);
+        console.log(`Stripe refund ${stripeRefund.id} created for cancelled order ${orderId}`);
+
+        updatedOrder = recordRefund(updatedOrder, {
+          refundId: stripeRefund.id,
+          type: 'refund',
+          amount: refundableAmount,
+          ...(options.reason && { reason: options.reason }),
+          status: stripeRefund.status || 'pending',
+          createdAt: new Date().toISOString(),
+          createdBy: options.requestedBy
+        });
+        updatedOrder = applyOrderStatusTransition(updatedOrder, 'refunded', {
+          changedBy: options.requestedBy,
+          note: 'Refunded on cancellation'
+        });
+      }
+    }
+
+    // Nothing will ship, so the items go back on sale
+    updatedOrder = await restockOrder(updatedOrder);
+
+    await saveOrderToSupabase(updatedOrder);
+    return updatedOrder;
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Order lifecycle state machine
+ * Defines the order statuses, which transitions between them are allowed,
+ * and the timestamped status history recorded on each order.
+ */
+
+export const ORDER_STATUSES = [
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'returned',
+  'refunded'
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export interface OrderStatusHistoryEntry {
+  status: OrderStatus;
+  changedAt: string;
+  changedBy?: string;
+  note?: string;
+}
+
+// Allowed transitions from each status (terminal statuses map to an empty list)
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned', 'refunded'],
+  cancelled: ['refunded'],
+  returned: ['refunded'],
+  refunded: []
+};
+
+// Statuses a customer may move their own order into (everything else is admin-only)
+export const CUSTOMER_ORDER_STATUSES: OrderStatus[] = ['cancelled'];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function getAllowedOrderStatusTransitions(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] || [];
+}
+
+// Validate a status transition, returning an error message or null when allowed
+export function validateOrderStatusTransition(from: OrderStatus, to: OrderStatus): string | null {
+  if (!isOrderStatus(to)) {
+    return `Unknown order status: ${to}`;
+  }
+
+  if (from === to) {
+    return `Order is already ${to}`;
+  }
+
+  const allowed = getAllowedOrderStatusTransitions(from);
+  if (!allowed.includes(to)) {
+    return allowed.length > 0
+      ? `Cannot change order status from ${from} to ${to} (allowed: ${allowed.join(', ')})`
+      : `Cannot change order status from ${from}: ${from} is a final status`;
+  }
+
+  return null;
+}
+
+export function createOrderStatusHistoryEntry(
+  status: OrderStatus,
+  options: { changedBy?: string; note?: string; changedAt?: string } = {}
+): OrderStatusHistoryEntry {
+  return {
+    status,
+    changedAt: options.changedAt || new Date().toISOString(),
+    ...(options.changedBy && { changedBy: options.changedBy }),
+    ...(options.note && { note: options.note })
+  };
+}
+
+interface StatusTrackedOrder {
+  status: OrderStatus;
+  statusHistory?: OrderStatusHistoryEntry[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// Return a copy of the order moved to the new status with the change recorded
+// in its history. Throws if the transition is not allowed.
+export function applyOrderStatusTransition<T extends StatusTrackedOrder>(
+  order: T,
+  status: OrderStatus,
+  options: { changedBy?: string; note?: string } = {}
+): T {
+  const validationError = validateOrderStatusTransition(order.status, status);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const changedAt = new Date().toISOString();
+  const history = order.statusHistory && order.statusHistory.length > 0
+    ? order.statusHistory
+    : [createOrderStatusHistoryEntry(order.status, { changedAt: order.createdAt })];
+
+  return {
+    ...order,
+    status,
+    statusHistory: [...history, createOrderStatusHistoryEntry(status, { ...options, changedAt })],
+    updatedAt: changedAt
+  };
+}
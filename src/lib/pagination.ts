@@ -0,0 +1,108 @@
+/**
+ * Cursor pagination
+ * A cursor records the sort key of the last item on a page, and the next
+ * page starts after it. Unlike an offset, products added or removed while
+ * someone is paging don't shift later pages, so nothing is skipped or shown
+ * twice.
+ */
+
+// The values a list is sorted by, most significant first, then the item ID so equal values keep a fixed order
+export type SortKey = [...(string | number)[], string];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface Page<T> {
+  items: T[];
+  total: number; // All items across every page
+  nextCursor: string | null; // Null on the last page
+}
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+interface CursorData {
+  sort: string;
+  key: SortKey;
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+export function compareSortKeys(a: SortKey, b: SortKey, direction: SortDirection): number {
+  let comparison = 0;
+  for (let i = 0; i < Math.max(a.length, b.length) && comparison === 0; i++) {
+    comparison = compareValues(a[i] ?? '', b[i] ?? '');
+  }
+  return direction === 'asc' ? comparison : -comparison;
+}
+
+function encodeCursor(data: CursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorData | null {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof data?.sort === 'string' && Array.isArray(data.key) && data.key.length >= 2 &&
+        typeof data.key[data.key.length - 1] === 'string') {
+      return data;
+    }
+  } catch {
+    // Fall through to invalid
+  }
+  return null;
+}
+
+// A page size from a query parameter, within 1 and MAX_PAGE_SIZE
+export function parsePageSize(value: string | null, defaultSize = DEFAULT_PAGE_SIZE): number {
+  const size = parseInt(value || '');
+  return Number.isFinite(size) && size > 0 ? Math.min(size, MAX_PAGE_SIZE) : defaultSize;
+}
+
+/**
+ * Sort items and return the page after the cursor
+ * `sort` names the ordering (e.g. "price-asc"); a cursor from a different
+ * ordering is rejected, since its position means nothing in this one.
+ * Throws 'Invalid cursor' for cursors that can't be used.
+ */
+export function paginate<T>(
+  items: T[],
+  options: {
+    sort: string;
+    direction: SortDirection;
+    getSortKey: (item: T) => SortKey;
+    limit: number;
+    cursor?: string | null;
+  }
+): Page<T> {
+  const { sort, direction, getSortKey, limit, cursor } = options;
+  const keyed = items
+    .map(item => ({ item, key: getSortKey(item) }))
+    .sort((a, b) => compareSortKeys(a.key, b.key, direction));
+
+  let start = 0;
+  if (cursor) {
+    const data = decodeCursor(cursor);
+    if (!data || data.sort !== sort) {
+      throw new Error('Invalid cursor');
+    }
+    start = keyed.findIndex(entry => compareSortKeys(entry.key, data.key, direction) > 0);
+    if (start === -1) {
+      start = keyed.length;
+    }
+  }
+
+  const pageEntries = keyed.slice(start, start + limit);
+  const hasMore = start + limit < keyed.length;
+  return {
+    items: pageEntries.map(entry => entry.item),
+    total: items.length,
+    nextCursor: hasMore && pageEntries.length > 0
+      ? encodeCursor({ sort, key: pageEntries[pageEntries.length - 1].key })
+      : null
+  };
+}
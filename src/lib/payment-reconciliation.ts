@@ -0,0 +1,349 @@
+/**
+ * Stripe payment reconciliation
+ * Applies Stripe webhook events to stored orders so that order records match
+ * what Stripe actually charged, regardless of what the client or agent reported.
+ * Every handler is idempotent: events already applied to an order are skipped.
+ */
+
+import Stripe from 'stripe';
+import {
+  findOrderByPaymentIntentFromSupabase,
+  getOrderFromSupabase,
+  saveOrderToSupabase,
+  OrderData,
+  OrderPaymentReconciliation
+} from './supabase-storage';
+import { applyOrderStatusTransition, getAllowedOrderStatusTransitions } from './order-status';
+import { getRefundableAmount, getRefundedAmount, queueOrderChange, recordRefund } from './order-refunds';
+import { zeroMoney } from './money';
+import { releaseStockReservation, restockOrder } from './inventory';
+
+// Number of processed event IDs remembered per order for idempotency
+const MAX_PROCESSED_EVENT_IDS = 50;
+
+// Checkout routes save the order right after the payment succeeds, so a
+// success event may arrive first. Within this window a missing order is
+// deferred (Stripe retries the event) instead of being recreated here.
+const ORDER_SAVE_GRACE_MS = 10 * 60 * 1000;
+
+export interface ReconciliationResult {
+  handled: boolean;
+  orderId?: string;
+  action: 'created' | 'updated' | 'skipped' | 'ignored' | 'deferred';
+  issues: string[];
+}
+
+function getPaymentIntentId(value: string | { id: string } | null): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+// Run a webhook update of the order paid by a PaymentIntent in the order's
+// queue, so it can't overwrite a refund or cancellation saved at the same time.
+// The update gets the order as stored when its turn comes, or null if there is
+// none; newOrderId queues the update of a payment whose order may not exist yet.
+async function updatePaymentOrder<T>(
+  paymentIntentId: string | null,
+  update: (order: OrderData | null) => Promise<T>,
+  newOrderId?: string
+): Promise<T> {
+  const found = paymentIntentId ? await findOrderByPaymentIntentFromSupabase(paymentIntentId) : null;
+  const orderId = found?.orderId || newOrderId;
+  if (!orderId) {
+    return update(null);
+  }
+
+  return queueOrderChange(orderId, async () => {
+    const order = await getOrderFromSupabase(orderId);
+    return update(order?.paymentIntentId === paymentIntentId ? order : null);
+  });
+}
+
+function hasProcessedEvent(order: OrderData, eventId: string): boolean {
+  return order.paymentReconciliation?.processedEventIds.includes(eventId) || false;
+}
+
+// Compare what Stripe received against the stored order totals
+export function findPaymentMismatches(order: OrderData, paymentIntent: Stripe.PaymentIntent): string[] {
+  const issues: string[] = [];
+  const expectedAmount = order.totals.total.amount;
+  const receivedAmount = paymentIntent.amount_received || paymentIntent.amount;
+
+  if (receivedAmount !== expectedAmount) {
+    issues.push(`PaymentIntent amount ${receivedAmount} does not match order total ${expectedAmount} (${paymentIntent.currency})`);
+  }
+
+  if (paymentIntent.currency.toUpperCase() !== order.totals.total.currency) {
+    issues.push(`PaymentIntent currency ${paymentIntent.currency} does not match order currency ${order.totals.total.currency}`);
+  }
+
+  return issues;
+}
+
+function withReconciliation(
+  order: OrderData,
+  event: Stripe.Event,
+  update: Omit<OrderPaymentReconciliation, 'lastEventId' | 'lastEventType' | 'processedEventIds' | 'updatedAt'>
+): OrderData {
+  const processedEventIds = [...(order.paymentReconciliation?.processedEventIds || []), event.id]
+    .slice(-MAX_PROCESSED_EVENT_IDS);
+  const updatedAt = new Date().toISOString();
+
+  return {
+    ...order,
+    paymentReconciliation: {
+      ...update,
+      lastEventId: event.id,
+      lastEventType: event.type,
+      processedEventIds,
+      updatedAt
+    },
+    updatedAt
+  };
+}
+
+// Build an order for a paid PaymentIntent that never had one saved. The cart
+// is not known here, so the order is flagged for manual review.
+function createOrderFromPaymentIntent(paymentIntent: Stripe.PaymentIntent): OrderData {
+  const shipping = paymentIntent.shipping;
+  const [firstName = '', ...lastNameParts] = (shipping?.name || '').split(' ');
+  const currency = paymentIntent.currency.toUpperCase();
+  const total = { amount: paymentIntent.amount_received || paymentIntent.amount, currency };
+
+  return {
+    // Reuse the ID the checkout reserved, else derive one from the intent, so
+    // repeated deliveries of the event cannot create duplicates
+    orderId: paymentIntent.metadata.order_id || `ORD-WH-${paymentIntent.id}`,
+    paymentIntentId: paymentIntent.id,
+    customerInfo: {
+      firstName,
+      lastName: lastNameParts.join(' '),
+      email: paymentIntent.metadata.user_email || paymentIntent.receipt_email || '',
+      phone: shipping?.phone || ''
+    },
+    shippingAddress: {
+      address: [shipping?.address?.line1, shipping?.address?.line2].filter(Boolean).join(', '),
+      city: shipping?.address?.city || '',
+      state: shipping?.address?.state || '',
+      zipCode: shipping?.address?.postal_code || '',
+      country: shipping?.address?.country || ''
+    },
+    items: [],
+    totals: {
+      subtotal: total,
+      shipping: zeroMoney(currency),
+      tax: zeroMoney(currency),
+      total,
+      currency
+    },
+    status: 'confirmed',
+    createdAt: new Date(paymentIntent.created * 1000).toISOString(),
+    userId: paymentIntent.metadata.user_email || undefined
+  };
+}
+
+async function handlePaymentSucceeded(event: Stripe.Event, paymentIntent: Stripe.PaymentIntent): Promise<ReconciliationResult> {
+  const newOrder = createOrderFromPaymentIntent(paymentIntent);
+  return updatePaymentOrder(
+    paymentIntent.id,
+    existingOrder => reconcileSucceededPayment(event, paymentIntent, existingOrder, newOrder),
+    newOrder.orderId
+  );
+}
+
+async function reconcileSucceededPayment(
+  event: Stripe.Event,
+  paymentIntent: Stripe.PaymentIntent,
+  existingOrder: OrderData | null,
+  newOrder: OrderData
+): Promise<ReconciliationResult> {
+  if (existingOrder && hasProcessedEvent(existingOrder, event.id)) {
+    return { handled: true, orderId: existingOrder.orderId, action: 'skipped', issues: [] };
+  }
+
+  if (!existingOrder && Date.now() - paymentIntent.created * 1000 < ORDER_SAVE_GRACE_MS) {
+    return { handled: false, action: 'deferred', issues: ['Order not saved yet; waiting for checkout to finish'] };
+  }
+
+  const order = existingOrder || newOrder;
+  const issues = existingOrder
+    ? findPaymentMismatches(order, paymentIntent)
+    : ['No order was saved for this payment; created from the PaymentIntent without line items - needs review'];
+
+  const updatedOrder = withReconciliation(order, event, {
+    status: issues.length > 0 ? 'mismatch' : 'matched',
+    paymentIntentStatus: paymentIntent.status,
+    expectedAmount: order.totals.total.amount,
+    receivedAmount: paymentIntent.amount_received || paymentIntent.amount,
+    issues
+  });
+
+  await saveOrderToSupabase(updatedOrder);
+  return { handled: true, orderId: updatedOrder.orderId, action: existingOrder ? 'updated' : 'created', issues };
+}
+
+// A token that was cancelled before capture no longer needs its stock held
+async function handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<ReconciliationResult> {
+  const released = await releaseStockReservation(paymentIntent.id);
+  return { handled: true, action: released ? 'updated' : 'ignored', issues: [] };
+}
+
+async function handlePaymentFailed(event: Stripe.Event, paymentIntent: Stripe.PaymentIntent): Promise<ReconciliationResult> {
+  return updatePaymentOrder(paymentIntent.id, order => reconcileFailedPayment(event, paymentIntent, order));
+}
+
+async function reconcileFailedPayment(
+  event: Stripe.Event,
+  paymentIntent: Stripe.PaymentIntent,
+  order: OrderData | null
+): Promise<ReconciliationResult> {
+  if (!order) {
+    // Nothing to reconcile: no order is saved until a payment goes through
+    return { handled: true, action: 'ignored', issues: [] };
+  }
+  if (hasProcessedEvent(order, event.id)) {
+    return { handled: true, orderId: order.orderId, action: 'skipped', issues: [] };
+  }
+
+  const failureMessage = paymentIntent.last_payment_error?.message || 'Payment failed';
+  const issues = [`Payment failed after the order was saved: ${failureMessage}`];
+
+  let updatedOrder = withReconciliation(order, event, {
+    status: 'failed',
+    paymentIntentStatus: paymentIntent.status,
+    expectedAmount: order.totals.total.amount,
+    receivedAmount: paymentIntent.amount_received || 0,
+    issues
+  });
+
+  // An order that was never paid for must not be fulfilled
+  if (getAllowedOrderStatusTransitions(updatedOrder.status).includes('cancelled')) {
+    updatedOrder = applyOrderStatusTransition(updatedOrder, 'cancelled', {
+      changedBy: 'stripe-webhook',
+      note: failureMessage
+    });
+    updatedOrder = await restockOrder(updatedOrder);
+  }
+
+  await saveOrderToSupabase(updatedOrder);
+  return { handled: true, orderId: order.orderId, action: 'updated', issues };
+}
+
+// Record refunds made outside the app (e.g. in the Stripe dashboard)
+async function handleChargeRefunded(event: Stripe.Event, charge: Stripe.Charge, stripe: Stripe): Promise<ReconciliationResult> {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  return updatePaymentOrder(paymentIntentId, order => reconcileRefundedCharge(event, charge, stripe, paymentIntentId, order));
+}
+
+async function reconcileRefundedCharge(
+  event: Stripe.Event,
+  charge: Stripe.Charge,
+  stripe: Stripe,
+  paymentIntentId: string | null,
+  order: OrderData | null
+): Promise<ReconciliationResult> {
+  if (!order) {
+    return { handled: true, action: 'ignored', issues: [`No order found for refunded charge ${charge.id}`] };
+  }
+  if (hasProcessedEvent(order, event.id)) {
+    return { handled: true, orderId: order.orderId, action: 'skipped', issues: [] };
+  }
+
+  let updatedOrder = order;
+  const knownRefundIds = new Set((order.refunds || []).map(refund => refund.refundId));
+  const refunds = await stripe.refunds.list({ payment_intent: paymentIntentId!, limit: 100 });
+
+  for (const refund of refunds.data) {
+    if (knownRefundIds.has(refund.id) || refund.status === 'failed' || refund.status === 'canceled') {
+      continue;
+    }
+    updatedOrder = recordRefund(updatedOrder, {
+      refundId: refund.id,
+      type: 'refund',
+      amount: { amount: refund.amount, currency: refund.currency.toUpperCase() },
+      ...(refund.metadata?.note && { reason: refund.metadata.note }),
+      status: refund.status || 'succeeded',
+      createdAt: new Date(refund.created * 1000).toISOString(),
+      createdBy: 'stripe-webhook'
+    });
+  }
+
+  const issues: string[] = [];
+  const recordedRefunded = getRefundedAmount(updatedOrder).amount;
+  if (recordedRefunded !== charge.amount_refunded) {
+    issues.push(`Stripe refunded ${charge.amount_refunded} but the order records ${recordedRefunded}`);
+  }
+
+  updatedOrder = withReconciliation(updatedOrder, event, {
+    status: issues.length > 0 ? 'mismatch' : (order.paymentReconciliation?.status === 'disputed' ? 'disputed' : 'matched'),
+    paymentIntentStatus: order.paymentReconciliation?.paymentIntentStatus || 'succeeded',
+    expectedAmount: order.totals.total.amount,
+    receivedAmount: charge.amount_captured,
+    issues
+  });
+
+  if (getRefundableAmount(updatedOrder).amount <= 0 &&
+      getAllowedOrderStatusTransitions(updatedOrder.status).includes('refunded')) {
+    updatedOrder = applyOrderStatusTransition(updatedOrder, 'refunded', {
+      changedBy: 'stripe-webhook',
+      note: 'Charge fully refunded in Stripe'
+    });
+  }
+
+  await saveOrderToSupabase(updatedOrder);
+  return { handled: true, orderId: order.orderId, action: 'updated', issues };
+}
+
+async function handleDisputeCreated(event: Stripe.Event, dispute: Stripe.Dispute): Promise<ReconciliationResult> {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  return updatePaymentOrder(paymentIntentId, order => reconcileDispute(event, dispute, paymentIntentId, order));
+}
+
+async function reconcileDispute(
+  event: Stripe.Event,
+  dispute: Stripe.Dispute,
+  paymentIntentId: string | null,
+  order: OrderData | null
+): Promise<ReconciliationResult> {
+  if (!order) {
+    return { handled: true, action: 'ignored', issues: [`No order found for disputed payment ${paymentIntentId}`] };
+  }
+  if (hasProcessedEvent(order, event.id)) {
+    return { handled: true, orderId: order.orderId, action: 'skipped', issues: [] };
+  }
+
+  const issues = [`Payment disputed (${dispute.reason}) for ${dispute.amount} ${dispute.currency}`];
+  const updatedOrder = withReconciliation(order, event, {
+    status: 'disputed',
+    paymentIntentStatus: order.paymentReconciliation?.paymentIntentStatus || 'succeeded',
+    expectedAmount: order.totals.total.amount,
+    receivedAmount: order.paymentReconciliation?.receivedAmount ?? order.totals.total.amount,
+    issues
+  });
+
+  await saveOrderToSupabase(updatedOrder);
+  return { handled: true, orderId: order.orderId, action: 'updated', issues };
+}
+
+// Apply a verified Stripe webhook event to the matching order
+export async function reconcileStripeEvent(event: Stripe.Event, stripe: Stripe): Promise<ReconciliationResult> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return await handlePaymentSucceeded(event, event.data.object as Stripe.PaymentIntent);
+
+    case 'payment_intent.payment_failed':
+      return await handlePaymentFailed(event, event.data.object as Stripe.PaymentIntent);
+
+    case 'payment_intent.canceled':
+      return await handlePaymentCanceled(event.data.object as Stripe.PaymentIntent);
+
+    case 'charge.refunded':
+      return await handleChargeRefunded(event, event.data.object as Stripe.Charge, stripe);
+
+    case 'charge.dispute.created':
+      return await handleDisputeCreated(event, event.data.object as Stripe.Dispute);
+
+    default:
+      return { handled: false, action: 'ignored', issues: [] };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Popular search queries
+ * Counts how often each query is searched, for autocomplete. Searches are
+ * counted in memory and written to storage at most once a minute, so
+ * searching doesn't wait on a storage write. Flushes run one at a time and
+ * are skipped if the stored counts can't be read, so they are never replaced
+ * by a partial batch.
+ */
+
+import { getPopularQueriesFromSupabase, savePopularQueriesToSupabase } from './supabase-storage';
+import { normalizeSuggestionText } from './search-suggest';
+
+const FLUSH_INTERVAL = 60 * 1000; // 1 minute
+const POPULAR_QUERIES_CACHE_TTL = 60 * 1000; // 1 minute
+const MAX_QUERY_LENGTH = 60;
+// Least-searched queries are dropped beyond this many
+const MAX_STORED_QUERIES = 1000;
+
+let pendingCounts = new Map<string, number>();
+let lastFlushAt = Date.now();
+let storedCache: { queries: Record<string, number>; loadedAt: number } | null = null;
+let flushChain: Promise<void> = Promise.resolve();
+
+// Stored counts, without searches still waiting to be written
+// The same object is returned until the cache expires or a flush replaces it
+export async function getPopularQueries(): Promise<Record<string, number>> {
+  if (storedCache && Date.now() - storedCache.loadedAt < POPULAR_QUERIES_CACHE_TTL) {
+    return storedCache.queries;
+  }
+  try {
+    const queries = await getPopularQueriesFromSupabase();
+    storedCache = { queries, loadedAt: Date.now() };
+    return queries;
+  } catch (error) {
+    // Suggestions go without popular queries rather than failing
+    console.error('Error fetching popular queries:', error);
+    return {};
+  }
+}
+
+function flushQueryCounts(): Promise<void> {
+  lastFlushAt = Date.now();
+  flushChain = flushChain.then(writePendingCounts);
+  return flushChain;
+}
+
+async function writePendingCounts(): Promise<void> {
+  const batch = pendingCounts;
+  pendingCounts = new Map();
+  if (batch.size === 0) {
+    return;
+  }
+
+  try {
+    const queries = { ...await getPopularQueriesFromSupabase() };
+    batch.forEach((count, query) => {
+      queries[query] = (queries[query] || 0) + count;
+    });
+
+    const kept = Object.fromEntries(
+      Object.entries(queries).sort((a, b) => b[1] - a[1]).slice(0, MAX_STORED_QUERIES)
+    );
+    await savePopularQueriesToSupabase(kept);
+    storedCache = { queries: kept, loadedAt: Date.now() };
+  } catch (error) {
+    console.error('Error saving popular queries:', error);
+    // Keep the counts for the next flush
+    batch.forEach((count, query) => pendingCounts.set(query, (pendingCounts.get(query) || 0) + count));
+  }
+}
+
+// Count a search that found something; searches with no results aren't worth suggesting
+export async function recordSearchQuery(query: string): Promise<void> {
+  const normalized = normalizeSuggestionText(query);
+  if (!normalized || normalized.length > MAX_QUERY_LENGTH) {
+    return;
+  }
+
+  pendingCounts.set(normalized, (pendingCounts.get(normalized) || 0) + 1);
+  if (Date.now() - lastFlushAt >= FLUSH_INTERVAL) {
+    await flushQueryCounts();
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Pricing service
+ * Every order total in the app comes from here: the cart and checkout pages
+ * (through /api/pricing), the Stripe checkout routes and the AI assistant.
+ * Tax and shipping are configured once, in orderCalculations below. Orders
+ * are priced in the store currency (see currency.ts).
+ */
+
+import { createHash } from 'crypto';
+import { calculateOrderPricing } from '../../lib/ai-shopping-assistant/pricing';
+import { FlatRateTaxProvider, ThresholdShippingProvider } from '../../lib/ai-shopping-assistant/calculation-providers';
+import type {
+  OrderCalculationsProvider,
+  OrderPricing as EngineOrderPricing,
+  PriceLine
+} from '../../lib/ai-shopping-assistant/types';
+import { AppliedDiscount, calculatePromotionDiscount, Promotion, PromotionCartItem } from './promotion-rules';
+import { reservePromotion, resolvePromotion } from './promotions';
+import { getProductsFromSupabase } from './supabase-storage';
+import type { OrderData } from './supabase-storage';
+import { getCartItemKey, VariantSelection } from './product-variants';
+import type { Money } from './money';
+import { convertItemsToStoreCurrency, exchangeRateProvider, getConversionRates, STORE_CURRENCY } from './currency';
+
+export type { PriceLine };
+
+export const FREE_SHIPPING_THRESHOLD = 50; // In the store currency
+
+// The one tax and shipping configuration for the whole store
+export const orderCalculations: OrderCalculationsProvider = {
+  currency: STORE_CURRENCY,
+  exchangeRateProvider,
+  taxProvider: new FlatRateTaxProvider(0.08),
+  shippingProvider: new ThresholdShippingProvider(FREE_SHIPPING_THRESHOLD, 9.99)
+};
+
+export interface PricingItem {
+  id: string;
+  productName?: string;
+  price: Money; // Unit price, in any supported currency
+  quantity: number;
+}
+
+// Shipping details as collected by the checkout form
+export interface PricingAddress {
+  firstName?: string;
+  lastName?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+}
+
+export type OrderPricing = Omit<EngineOrderPricing, 'discounts'> & {
+  discounts: AppliedDiscount[];
+  exchangeRates?: Record<string, number>; // Rates used for items priced in other currencies
+};
+
+/**
+ * Items as promotions see them: in the store currency, with each product's
+ * category from the catalog rather than from the client
+ */
+export async function getPromotionItems(items: PricingItem[]): Promise<PromotionCartItem[]> {
+  const [storeItems, products] = await Promise.all([convertItemsToStoreCurrency(items), getProductsFromSupabase()]);
+  return storeItems.map(item => ({
+    price: item.price,
+    quantity: item.quantity,
+    category: products.find(product => product.id === item.id)?.category
+  }));
+}
+
+/**
+ * Price a cart
+ * Items are converted to the store currency first. Promotions must already
+ * have been checked against the items (see resolvePromotion); they are
+ * applied as given.
+ */
+export async function priceOrder(
+  items: PricingItem[],
+  options: { promotions?: Promotion[]; shippingAddress?: PricingAddress } = {}
+): Promise<OrderPricing> {
+  const { promotions = [], shippingAddress } = options;
+  const storeItems = await convertItemsToStoreCurrency(items);
+  const promotionItems = promotions.length > 0 ? await getPromotionItems(items) : [];
+  const discounts = promotions.map(promotion => calculatePromotionDiscount(promotion, promotionItems));
+  const exchangeRates = await getConversionRates(items);
+
+  const pricing = await calculateOrderPricing(
+    storeItems.map(item => ({ id: item.id, name: item.productName || item.id, price: item.price, quantity: item.quantity })),
+    orderCalculations,
+    {
+      discounts,
+      ...(shippingAddress && {
+        shippingAddress: {
+          firstName: shippingAddress.firstName || '',
+          lastName: shippingAddress.lastName || '',
+          address1: shippingAddress.address || '',
+          city: shippingAddress.city || '',
+          state: shippingAddress.state || '',
+          zipCode: shippingAddress.zipCode || '',
+          country: shippingAddress.country || 'US'
+        }
+      })
+    }
+  );
+
+  return {
+    ...pricing,
+    // Keep the promotion details, with the amounts as capped at the subtotal
+    discounts: discounts.map((applied, index) => ({ ...applied, amount: pricing.discounts[index].amount })),
+    ...(Object.keys(exchangeRates).length > 0 && { exchangeRates })
+  };
+}
+
+/**
+ * Price a cart with an optional promotion code
+ * Throws with a customer-facing message if the code can't be used. Checkouts
+ * pass a reservation to hold a use of the code until they redeem or release it.
+ */
+export async function priceOrderWithCode(
+  items: PricingItem[],
+  promotionCode?: string | null,
+  shippingAddress?: PricingAddress,
+  reservation?: { id: string; expiresAt: string }
+): Promise<{ pricing: OrderPricing; promotion: Promotion | null }> {
+  let promotion: Promotion | null = null;
+  if (promotionCode) {
+    // Codes are checked against store currency prices, like the minimum subtotal they set
+    const promotionItems = await getPromotionItems(items);
+    promotion = reservation
+      ? await reservePromotion(promotionCode, reservation.id, promotionItems, reservation.expiresAt)
+      : await resolvePromotion(promotionCode, promotionItems);
+  }
+  const pricing = await priceOrder(items, { promotions: promotion ? [promotion] : [], shippingAddress });
+  return { pricing, promotion };
+}
+
+// Amount to charge in Stripe; Money is already in the minor unit Stripe expects
+export function toStripeAmount(pricing: OrderPricing): number {
+  return pricing.total.amount;
+}
+
+// Stripe takes lower-case currency codes
+export function toStripeCurrency(pricing: OrderPricing): string {
+  return pricing.total.currency.toLowerCase();
+}
+
+// The totals stored on an order
+export function toOrderTotals(pricing: OrderPricing): OrderData['totals'] {
+  return {
+    subtotal: pricing.subtotal,
+    ...(pricing.discounts.length > 0 && {
+      discount: pricing.discount,
+      discounts: pricing.discounts
+    }),
+    shipping: pricing.shipping,
+    tax: pricing.tax,
+    total: pricing.total,
+    currency: pricing.currency,
+    lines: pricing.lines,
+    ...(pricing.exchangeRates && { exchangeRates: pricing.exchangeRates })
+  };
+}
+
+/**
+ * Fingerprint of a cart's contents
+ * Stored with a shared payment token and compared again at checkout, so any
+ * change to a product, variant, quantity or unit price invalidates the token.
+ */
+export function generateCartHash(items: Array<{ id: string; variant?: VariantSelection; quantity: number; price: Money }>): string {
+  const lines = items
+    .map(item => `${getCartItemKey(item.id, item.variant)}:${item.quantity}:${item.price.amount}:${item.price.currency}`)
+    .sort();
+  return createHash('sha256').update(lines.join('\n')).digest('hex');
+}
@@ -0,0 +1,104 @@
+/**
+ * Product editing
+ * Admin changes to saved products: updating their details, and asking the
+ * model to rewrite a single field of a product being edited.
+ */
+
+import {
+  getCategoriesFromSupabase,
+  getCategoryPath,
+  updateProductInSupabase,
+  type ProductData,
+} from './supabase-storage';
+import { completeJsonWithRepair, type LLMMessage } from './llm';
+import { JsonSchema, ValidationIssue, parseJsonObject, validateJsonSchema } from './json-schema';
+import { EditableProductField, GENERATED_PRODUCT_SCHEMA, RegeneratableProductField } from './product-schema';
+import { createProductSlug } from './product-generation';
+
+export type ProductUpdate = Partial<Pick<ProductData, EditableProductField>>;
+
+export interface RegeneratedProductField {
+  value: string | string[] | null; // null when the model's answer never passed validation
+  attempts: number;
+  issues: ValidationIssue[];
+}
+
+const FIELD_INSTRUCTIONS: Record<RegeneratableProductField, string> = {
+  tagline: 'a short, catchy tagline of at most 60 characters',
+  description: 'a detailed product description of 2-3 paragraphs separated by blank lines',
+  keyFeatures: 'a list of 3 to 10 key features, each a short sentence'
+};
+
+// Fields the model sees as context for a rewrite
+const CONTEXT_FIELDS = [
+  'productName', 'tagline', 'description', 'keyFeatures', 'specifications', 'pricing',
+  'benefits', 'targetAudience', 'category', 'tags'
+];
+
+// Apply validated changes to a saved product, keeping its category details and slug in step
+export async function updateProductDetails(productId: string, updates: ProductUpdate, author: string): Promise<ProductData> {
+  const changes: Partial<ProductData> = { ...updates };
+
+  if (updates.categoryId) {
+    const categories = await getCategoriesFromSupabase();
+    const category = categories.find(cat => cat.id === updates.categoryId);
+    if (!category) {
+      throw new Error(`Category ${updates.categoryId} not found`);
+    }
+    changes.category = category.name;
+    changes.categoryPath = getCategoryPath(categories, category.id);
+    // An admin's choice replaces the AI's
+    changes.categoryConfidence = 1;
+    changes.categoryReasoning = 'Assigned by an admin';
+  }
+
+  if (updates.productName) {
+    changes.slug = createProductSlug(updates.productName);
+  }
+
+  return updateProductInSupabase(productId, changes, { author, source: 'edit' });
+}
+
+// Ask the model for a new version of one field, given the rest of the product as it is being edited
+export async function regenerateProductField(
+  field: RegeneratableProductField,
+  product: Record<string, unknown>,
+  instructions?: string
+): Promise<RegeneratedProductField> {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: { [field]: GENERATED_PRODUCT_SCHEMA.properties![field] },
+    required: [field],
+    additionalProperties: false
+  };
+  const context = Object.fromEntries(CONTEXT_FIELDS.filter(key => product[key] !== undefined).map(key => [key, product[key]]));
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: `You are an expert e-commerce copywriter improving an existing product page. Rewrite only the "${field}" field as ${FIELD_INSTRUCTIONS[field]}. Keep it consistent with the rest of the product and don't invent specifications. Respond with a JSON object containing only the "${field}" field.`
+    },
+    {
+      role: 'user',
+      content: `Product:\n${JSON.stringify(context, null, 2)}\n\nWrite a new ${field} that is different from the current one.${instructions ? `\nInstructions: ${instructions}` : ''}`
+    }
+  ];
+
+  const result = await completeJsonWithRepair(
+    messages,
+    { jsonSchema: { name: `product_${field}`, schema: schema as Record<string, unknown> }, maxTokens: 1500, temperature: 0.8 },
+    content => {
+      const parsed = parseJsonObject(content);
+      if (!parsed.data) return parsed;
+      const value = parsed.data[field];
+      const data = { [field]: typeof value === 'string' ? value.trim() : value };
+      return { data, issues: validateJsonSchema(data, schema) };
+    }
+  );
+
+  return {
+    value: result.data && result.issues.length === 0 ? result.data[field] as string | string[] : null,
+    attempts: result.attempts,
+    issues: result.issues
+  };
+}
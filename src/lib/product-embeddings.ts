@@ -0,0 +1,64 @@
+/**
+ * Product embeddings
+ * A product is embedded when it is saved and the vector is stored in its
+ * JSON file, so rebuilding the search index only embeds products whose text
+ * or embedding model has changed since.
+ */
+
+import { embeddingProvider, hashText } from './embeddings';
+import type { ProductEmbedding, SearchableProduct } from './search-index';
+
+// Products sent to the embedding provider per request
+const EMBEDDING_BATCH_SIZE = 16;
+
+// The text a product is embedded from: everything a shopper might describe it by
+export function getProductEmbeddingText(product: SearchableProduct): string {
+  return [
+    product.productName,
+    product.tagline,
+    product.description,
+    ...(product.keyFeatures || []),
+    ...(product.benefits || []),
+    product.categoryPath || product.category,
+    (product.tags || []).join(', '),
+    product.targetAudience,
+    ...Object.entries(product.specifications || {}).map(([key, value]) => `${key}: ${value}`)
+  ].filter(Boolean).join('\n');
+}
+
+export function isProductEmbeddingCurrent(product: SearchableProduct): boolean {
+  return product.embedding?.model === embeddingProvider.model &&
+    product.embedding.textHash === hashText(getProductEmbeddingText(product));
+}
+
+/**
+ * Embed products whose embedding is missing or stale, setting `embedding` on
+ * each. Returns the products that changed. A provider failure is logged and
+ * leaves those products as they were, so saving never fails over search.
+ */
+export async function updateProductEmbeddings<T extends SearchableProduct>(products: T[]): Promise<T[]> {
+  const stale = products.filter(product => !isProductEmbeddingCurrent(product));
+  const updated: T[] = [];
+
+  for (let i = 0; i < stale.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = stale.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const texts = batch.map(getProductEmbeddingText);
+    try {
+      const vectors = await embeddingProvider.embed(texts);
+      batch.forEach((product, j) => {
+        const embedding: ProductEmbedding = {
+          model: embeddingProvider.model,
+          textHash: hashText(texts[j]),
+          // Six decimal places keep the stored JSON small without changing rankings
+          vector: vectors[j].map(value => Math.round(value * 1e6) / 1e6)
+        };
+        product.embedding = embedding;
+        updated.push(product);
+      });
+    } catch (error) {
+      console.error(`Error embedding ${batch.length} product(s) with ${embeddingProvider.model}:`, error);
+    }
+  }
+
+  return updated;
+}
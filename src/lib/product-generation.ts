@@ -0,0 +1,467 @@
+/**
+ * Product generation
+ * Turns a short brief, and optionally the product photo, into validated
+ * product details for a new product page, and saves them as a product.
+ * Used by the product builder form and bulk imports.
+ */
+
+import {
+  getCategoriesFromSupabase,
+  buildCategoryTree,
+  initializeDefaultCategories,
+  getCategoryPath,
+  getImageFromSupabase,
+  saveProductToSupabase,
+  type Category,
+  type ProductImageAnalysis,
+} from './supabase-storage';
+import { completeJsonWithRepair, llmProvider, type LLMCompletionOptions, type LLMMessage } from './llm';
+import { GENERATED_PRODUCT_SCHEMA, validateGeneratedProduct, type GeneratedProduct } from './product-schema';
+import type { ValidationIssue } from './json-schema';
+
+export interface ProductGenerationInput {
+  productBrief: string;
+  imageName?: string;
+  imageUrl?: string; // An uploaded image, sent to the model when it supports vision
+}
+
+export interface ProductValidationReport {
+  valid: boolean;
+  attempts: number; // Requests made, including repairs
+  issues: ValidationIssue[]; // Problems left in the final response
+  repairedIssues: ValidationIssue[]; // Problems in earlier responses, sent back to be fixed
+}
+
+// Generated details as returned to the builder form and passed to saveGeneratedProduct
+export interface GeneratedProductData extends GeneratedProduct {
+  categoryPath?: string;
+  categoryMetadata: {
+    confidence: number;
+    reasoning: string;
+    isNovelProduct?: boolean;
+    assignmentMethod?: 'ai_primary' | 'fallback';
+  };
+  imageAnalysis?: ProductImageAnalysis;
+}
+
+// Product details as sent by the builder form
+export interface SaveProductInput {
+  productName: string;
+  tagline: string;
+  description: string;
+  keyFeatures: string[];
+  specifications: Record<string, string>;
+  pricing: {
+    currency: string;
+    price: number;
+    originalPrice?: number;
+    discount?: string;
+  };
+  benefits: string[];
+  targetAudience: string;
+  category?: string; // Legacy field for backward compatibility
+  categoryId?: string; // New structured category reference
+  categoryPath?: string; // Full category path
+  categoryConfidence?: number; // AI confidence in category selection
+  categoryReasoning?: string; // AI reasoning for category choice
+  categoryMetadata?: {
+    confidence: number;
+    reasoning: string;
+    isNovelProduct?: boolean;
+    assignmentMethod?: 'ai_primary' | 'fallback';
+  };
+  imageAnalysis?: ProductImageAnalysis;
+  tags: string[];
+}
+
+export type ProductGenerationResult =
+  | { success: true; productData: GeneratedProductData; validation: ProductValidationReport }
+  | { success: false; error: string; productData: Record<string, unknown> | null; validation: ProductValidationReport };
+
+// Added to the system prompt when the product photo is sent along
+const IMAGE_PROMPT = `
+IMPORTANT - Product Photo:
+The product photo is attached. Treat it as the source of truth for what the product looks like:
+1. Take the color, material, finish, shape and visible features from the photo rather than guessing them from the brief
+2. Use what the photo shows to fill in the specifications and to choose the category
+3. Where the brief and the photo disagree about appearance, follow the photo
+4. Add an "imageInferredFields" array listing every field you based on the photo, using "specifications.<Key>" for specifications, e.g. ["specifications.Color", "specifications.Material", "categoryId", "keyFeatures"]`;
+
+// Largest image sent to the model; the upload form compresses photos to about 300KB
+const MAX_VISION_IMAGE_BYTES = 4 * 1024 * 1024;
+
+// The uploaded photo as a data URL, or null if it can't be sent to the model
+async function getVisionImage(imageUrl: string | undefined): Promise<string | null> {
+  if (!imageUrl || !llmProvider.supportsVision) {
+    return null;
+  }
+  try {
+    const image = await getImageFromSupabase(imageUrl);
+    if (!image || !image.contentType.startsWith('image/') || image.data.length > MAX_VISION_IMAGE_BYTES) {
+      return null;
+    }
+    return `data:${image.contentType};base64,${image.data.toString('base64')}`;
+  } catch (error) {
+    console.error('Failed to load product image for generation:', error);
+    return null;
+  }
+}
+
+// Keep only reported fields that exist in the generated product
+function getImageInferredFields(productData: Record<string, unknown>): string[] {
+  const reported = Array.isArray(productData.imageInferredFields) ? productData.imageInferredFields : [];
+  const specifications = (productData.specifications || {}) as Record<string, unknown>;
+
+  const fields = reported.filter((field): field is string => {
+    if (typeof field !== 'string') return false;
+    if (field.startsWith('specifications.')) {
+      return Object.prototype.hasOwnProperty.call(specifications, field.slice('specifications.'.length));
+    }
+    return field !== 'imageInferredFields' && productData[field] !== undefined;
+  });
+  return Array.from(new Set(fields));
+}
+
+// Fetch categories without caching
+async function getCategories(): Promise<Category[]> {
+  try {
+    // Initialize default categories if needed
+    await initializeDefaultCategories();
+    
+    // Fetch fresh categories every time
+    const categories = await getCategoriesFromSupabase();
+    return categories;
+  } catch (error) {
+    console.error('Failed to fetch categories:', error);
+    return [];
+  }
+}
+
+// Format category tree for AI prompt
+function formatCategoriesForAI(categories: Category[]): string {
+  const categoryTree = buildCategoryTree(categories);
+  
+  let formatted = 'Available Product Categories (2-level hierarchy):\n\n';
+  
+  categoryTree.forEach(parent => {
+    formatted += `**${parent.category.name}** (ID: ${parent.category.id})\n`;
+    if (parent.category.description) {
+      formatted += `  Description: ${parent.category.description}\n`;
+    }
+    
+    if (parent.children.length > 0) {
+      parent.children.forEach(child => {
+        formatted += `  - ${child.category.name} (ID: ${child.category.id})\n`;
+        if (child.category.description) {
+          formatted += `    Description: ${child.category.description}\n`;
+        }
+      });
+    }
+    formatted += '\n';
+  });
+  
+  return formatted;
+}
+
+// Validate category assignment
+function validateCategoryAssignment(categoryId: string, categories: Category[]): {
+  isValid: boolean;
+  category?: Category;
+  categoryPath?: string;
+} {
+  if (!categoryId) {
+    return { isValid: false };
+  }
+  
+  const category = categories.find(cat => cat.id === categoryId);
+  if (!category) {
+    return { isValid: false };
+  }
+  
+  const categoryPath = getCategoryPath(categories, categoryId);
+  return {
+    isValid: true,
+    category,
+    categoryPath,
+  };
+}
+
+// Find fallback category based on product characteristics
+function findFallbackCategory(productDescription: string, categories: Category[]): Category | null {
+  const description = productDescription.toLowerCase();
+  
+  // Define mapping keywords to category patterns
+  const categoryMappings = [
+    { keywords: ['phone', 'smartphone', 'mobile', 'iphone', 'android'], categoryNames: ['smartphones & tablets'] },
+    { keywords: ['laptop', 'computer', 'pc', 'desktop'], categoryNames: ['computers & laptops'] },
+    { keywords: ['headphone', 'earphone', 'speaker', 'audio'], categoryNames: ['audio & headphones'] },
+    { keywords: ['smart home', 'iot', 'automation'], categoryNames: ['smart home & iot'] },
+    { keywords: ['game', 'gaming', 'console'], categoryNames: ['gaming & entertainment'] },
+    { keywords: ['clothing', 'shirt', 'dress', 'pants'], categoryNames: ['clothing & fashion'] },
+    { keywords: ['shoes', 'sneaker', 'boot', 'footwear'], categoryNames: ['shoes & footwear'] },
+    { keywords: ['furniture', 'chair', 'table', 'desk'], categoryNames: ['furniture & decor'] },
+    { keywords: ['kitchen', 'cookware', 'appliance'], categoryNames: ['kitchen & dining'] },
+    { keywords: ['fitness', 'exercise', 'workout', 'gym'], categoryNames: ['fitness equipment'] },
+    { keywords: ['beauty', 'skincare', 'cosmetic'], categoryNames: ['skincare & cosmetics'] },
+  ];
+  
+  // Try to find matching category
+  for (const mapping of categoryMappings) {
+    if (mapping.keywords.some(keyword => description.includes(keyword))) {
+      for (const categoryName of mapping.categoryNames) {
+        const category = categories.find(cat => 
+          cat.name.toLowerCase().includes(categoryName.toLowerCase())
+        );
+        if (category) {
+          return category;
+        }
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Generate product details from a brief
+ * Fails with a validation report, rather than throwing, when the model's
+ * output still doesn't match the schema after repairs. Throws on model errors.
+ */
+export async function generateProductDetails({
+  productBrief,
+  imageName,
+  imageUrl
+}: ProductGenerationInput): Promise<ProductGenerationResult> {
+  // Fetch categories for AI context
+  const categories = await getCategories();
+  const categoryContext = formatCategoriesForAI(categories);
+
+  const systemPrompt = `You are a professional product marketing expert. Based on the product brief provided, generate comprehensive product details for an e-commerce product page.
+
+${categoryContext}
+
+IMPORTANT - Category Selection Requirements:
+1. You MUST select the most appropriate category from the available categories above
+2. Use the exact categoryId from the list (e.g., "cat_electronics_smartphones")
+3. Choose the most specific subcategory when possible
+4. Use parent category only if no subcategory fits well
+5. Consider the primary function/purpose of the product
+6. For multi-purpose products, select the most prominent use case
+
+Return a JSON object with the following structure:
+{
+"productName": "Clear, compelling product name",
+"tagline": "Short catchy tagline (max 60 characters)",
+"description": "Detailed product description (2-3 paragraphs)",
+"keyFeatures": ["Feature 1", "Feature 2", "Feature 3", "Feature 4"],
+"specifications": {
+  "Dimensions": "value",
+  "Weight": "value",
+  "Material": "value",
+  "Color": "value"
+},
+"pricing": {
+  "currency": "USD",
+  "price": 99.99
+},
+"benefits": ["Benefit 1", "Benefit 2", "Benefit 3"],
+"targetAudience": "Description of ideal customer",
+"category": "Legacy category name for compatibility",
+"categoryId": "REQUIRED: Exact category ID from the available categories above",
+"categoryConfidence": 0.95,
+"categoryReasoning": "Brief explanation for why this category was selected",
+"tags": ["tag1", "tag2", "tag3"]
+}
+
+Make the content engaging, professional, and sales-focused. Be specific and detailed based on the product brief. Only include the regular price - no discounts or sale prices.
+
+CRITICAL: You must include a valid categoryId from the available categories list above.`;
+
+  const userPrompt = `Product Brief: ${productBrief}${imageName ? `\nImage: ${imageName}` : ''}
+
+Generate professional product details for this item.`;
+
+  const textMessages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt }
+  ];
+  const completionOptions: LLMCompletionOptions = {
+    jsonSchema: { name: 'product_details', schema: GENERATED_PRODUCT_SCHEMA as Record<string, unknown> },
+    maxTokens: 2000,
+    temperature: 0.7
+  };
+
+  // Schema problems plus a categoryId that isn't in the catalog, which the model can also fix
+  const validate = (content: string | null) => {
+    const validation = validateGeneratedProduct(content);
+    const categoryId = validation.data?.categoryId;
+    if (typeof categoryId === 'string' && categoryId && categories.length > 0 && !categories.some(category => category.id === categoryId)) {
+      validation.issues.push({ field: 'categoryId', message: `"${categoryId}" is not one of the available category IDs` });
+    }
+    return validation;
+  };
+
+  // Send the photo when the model can see it, and fall back to the brief alone if that fails
+  const visionImage = await getVisionImage(imageUrl);
+  let usedImage = false;
+  let imageFallbackReason: string | undefined = !imageUrl
+    ? undefined
+    : !llmProvider.supportsVision
+      ? 'Model does not support images'
+      : !visionImage ? 'Image could not be loaded' : undefined;
+  let result;
+  if (visionImage) {
+    try {
+      result = await completeJsonWithRepair([
+        { role: 'system', content: `${systemPrompt}\n${IMAGE_PROMPT}` },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: userPrompt },
+            { type: 'image_url', image_url: { url: visionImage, detail: 'auto' } }
+          ]
+        }
+      ], completionOptions, validate);
+      usedImage = true;
+    } catch (error) {
+      console.error('Generation with the product image failed, retrying without it:', error);
+      imageFallbackReason = error instanceof Error ? error.message : 'Image request failed';
+    }
+  }
+  if (!result) {
+    result = await completeJsonWithRepair(textMessages, completionOptions, validate);
+  }
+
+  // An unknown category is left to the fallback mapping below; anything else can't be saved
+  const blockingIssues = result.issues.filter(issue => issue.field !== 'categoryId');
+  const validationReport: ProductValidationReport = {
+    valid: blockingIssues.length === 0,
+    attempts: result.attempts,
+    issues: result.issues,
+    repairedIssues: result.repairedIssues
+  };
+  if (!result.data || blockingIssues.length > 0) {
+    console.error('Generated product details failed validation:', result.issues);
+    return {
+      success: false,
+      error: `The generated product details failed validation after ${result.attempts} attempts`,
+      validation: validationReport,
+      productData: result.data
+    };
+  }
+
+  const productData = result.data as unknown as GeneratedProduct;
+
+  // Record which fields came from the photo rather than the brief
+  let imageInferredFields = usedImage ? getImageInferredFields(result.data) : [];
+  delete productData.imageInferredFields;
+
+  // Validate and enhance category assignment
+  let categoryValidation: {
+    isValid: boolean;
+    category?: Category;
+    categoryPath?: string;
+  } = { isValid: false };
+  
+  if (productData.categoryId) {
+    categoryValidation = validateCategoryAssignment(productData.categoryId, categories);
+  }
+
+  // Handle invalid or missing category assignment
+  if (!categoryValidation.isValid) {
+    console.log('Invalid category assignment, attempting fallback mapping');
+    imageInferredFields = imageInferredFields.filter(field => field !== 'categoryId');
+    
+    // Try to find a fallback category based on the legacy category field or product name
+    const fallbackCategory = findFallbackCategory(
+      productData.category || productData.productName || '',
+      categories
+    );
+    
+    if (fallbackCategory) {
+      categoryValidation = validateCategoryAssignment(fallbackCategory.id, categories);
+      productData.categoryId = fallbackCategory.id;
+      productData.categoryConfidence = 0.5; // Lower confidence for fallback
+      productData.categoryReasoning = `Fallback mapping: AI selection invalid, mapped based on product characteristics`;
+    } else {
+      // Last resort: assign to a default parent category
+      const defaultCategory = categories.find(cat => !cat.parentId); // First parent category
+      if (defaultCategory) {
+        categoryValidation = validateCategoryAssignment(defaultCategory.id, categories);
+        productData.categoryId = defaultCategory.id;
+        productData.categoryConfidence = 0.2; // Very low confidence
+        productData.categoryReasoning = `Default assignment: Could not determine appropriate category`;
+      }
+    }
+  }
+
+  // Add enhanced category information to response
+  const enhancedProductData: GeneratedProductData = {
+    ...productData,
+    imageAnalysis: {
+      usedImage,
+      inferredFields: imageInferredFields,
+      ...(imageFallbackReason && { fallbackReason: imageFallbackReason })
+    },
+    categoryPath: categoryValidation.categoryPath,
+    categoryMetadata: {
+      confidence: productData.categoryConfidence || 0.8,
+      reasoning: productData.categoryReasoning || 'AI category selection',
+      isNovelProduct: (productData.categoryConfidence ?? 1) < 0.7,
+      assignmentMethod: categoryValidation.isValid ? 'ai_primary' : 'fallback'
+    }
+  };
+
+  // Ensure backward compatibility by keeping legacy category field
+  if (!enhancedProductData.category && categoryValidation.isValid && categoryValidation.category) {
+    enhancedProductData.category = categoryValidation.category.name;
+  }
+
+  return { success: true, productData: enhancedProductData, validation: validationReport };
+}
+
+export function createProductSlug(productName: string): string {
+  return productName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+// Save generated details as a new product, returning its ID and slug
+export async function saveGeneratedProduct(
+  productData: SaveProductInput,
+  imageUrl: string,
+  author: string = 'system',
+  productId?: string
+): Promise<{ productId: string; slug: string }> {
+  const slug = createProductSlug(productData.productName);
+
+  // saveProductToSupabase returns the actual product ID that was used
+  const savedProductId = await saveProductToSupabase({
+    productName: productData.productName,
+    tagline: productData.tagline,
+    description: productData.description,
+    keyFeatures: productData.keyFeatures,
+    specifications: productData.specifications,
+    pricing: productData.pricing,
+    benefits: productData.benefits,
+    targetAudience: productData.targetAudience,
+    category: productData.category || '',
+    categoryId: productData.categoryId || 'cat_electronics',
+    categoryConfidence: productData.categoryConfidence || 0.8,
+    categoryReasoning: productData.categoryReasoning || 'Default category assignment',
+    tags: productData.tags,
+    categoryPath: productData.categoryPath || productData.category || '',
+    categoryMetadata: {
+      level: 0,
+      parentCategory: undefined,
+      suggestedSubcategories: []
+    },
+    imageUrl,
+    imageAnalysis: productData.imageAnalysis,
+    createdAt: new Date().toISOString(),
+    slug
+  }, author, productId);
+
+  return { productId: savedProductId, slug };
+}
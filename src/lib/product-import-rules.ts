@@ -0,0 +1,183 @@
+/**
+ * Product import rules
+ * Parsing of bulk import files (CSV or JSON lists of product briefs with
+ * optional image references) and the job and row types shared by the import
+ * queue and the admin page. Pure functions, safe to import from client components.
+ */
+
+import type { ValidationIssue } from './json-schema';
+
+export type ProductImportFormat = 'csv' | 'json';
+export type ProductImportRowStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+export type ProductImportJobStatus = 'running' | 'completed';
+
+export interface ProductImportRowInput {
+  brief: string;
+  image?: string; // Image URL, or the URL of an image already uploaded to the store
+}
+
+export interface ProductImportRow extends ProductImportRowInput {
+  index: number; // Row number in the file, from 1
+  status: ProductImportRowStatus;
+  attempts: number; // Attempts in the current run; reset by a retry
+  productId?: string; // Picked before the product is saved; only a saved product once the row succeeded
+  productName?: string;
+  error?: string;
+  validationIssues?: ValidationIssue[];
+  updatedAt?: string;
+}
+
+export interface ProductImportJob {
+  id: string;
+  name: string; // Usually the uploaded file name
+  status: ProductImportJobStatus;
+  rows: ProductImportRow[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface ProductImportProgress {
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+}
+
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_BRIEF_LENGTH = 2000;
+
+// Header names accepted for each column
+const BRIEF_COLUMNS = ['brief', 'productbrief', 'product brief', 'description'];
+const IMAGE_COLUMNS = ['image', 'imageurl', 'image url', 'image_url', 'photo'];
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180)
+ * Quoted cells may contain commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const content = text.replace(/^\uFEFF/, ''); // Byte order mark from spreadsheet exports
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unclosed quote');
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(name => names.includes(name.trim().toLowerCase()));
+}
+
+function parseCsvRows(text: string): ProductImportRowInput[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const briefColumn = findColumn(header, BRIEF_COLUMNS);
+  if (briefColumn === -1) {
+    throw new Error('CSV needs a "brief" column');
+  }
+  const imageColumn = findColumn(header, IMAGE_COLUMNS);
+
+  return rows.map(cells => ({
+    brief: (cells[briefColumn] || '').trim(),
+    image: imageColumn === -1 ? undefined : (cells[imageColumn] || '').trim() || undefined
+  }));
+}
+
+function parseJsonRows(text: string): ProductImportRowInput[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('JSON must be an array of briefs');
+  }
+
+  return parsed.map(item => {
+    // A plain string is a brief without an image
+    if (typeof item === 'string') return { brief: item.trim() };
+    const record = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const brief = record.brief ?? record.productBrief ?? record.description;
+    const image = record.image ?? record.imageUrl;
+    return {
+      brief: typeof brief === 'string' ? brief.trim() : '',
+      image: typeof image === 'string' && image.trim() ? image.trim() : undefined
+    };
+  });
+}
+
+// Parse an import file into rows, throwing with a message naming the first bad row
+export function parseProductImportFile(content: string, format: ProductImportFormat): ProductImportRowInput[] {
+  const rows = format === 'csv' ? parseCsvRows(content) : parseJsonRows(content);
+
+  if (rows.length === 0) {
+    throw new Error('The file has no rows');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+  }
+
+  rows.forEach((row, i) => {
+    if (!row.brief) {
+      throw new Error(`Row ${i + 1} has no brief`);
+    }
+    if (row.brief.length > MAX_BRIEF_LENGTH) {
+      throw new Error(`Row ${i + 1}: brief must be at most ${MAX_BRIEF_LENGTH} characters`);
+    }
+    if (row.image && !/^https?:\/\//i.test(row.image) && !row.image.startsWith('/')) {
+      throw new Error(`Row ${i + 1}: image must be an http(s) URL or an uploaded image URL`);
+    }
+  });
+
+  return rows;
+}
+
+export function getProductImportProgress(job: ProductImportJob): ProductImportProgress {
+  const progress: ProductImportProgress = { total: job.rows.length, pending: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const row of job.rows) {
+    progress[row.status]++;
+  }
+  return progress;
+}
@@ -0,0 +1,393 @@
+/**
+ * Product import
+ * Bulk product generation: each row of an uploaded file of briefs is run
+ * through product generation and saved as a product by a background queue
+ * in this server process. Jobs run one at a time, with a few rows of a job
+ * in flight at once; rows that fail are retried with a backoff before being
+ * marked failed, and an admin can queue the failed rows again.
+ */
+
+import { lookup } from 'dns/promises';
+import { get as httpGet, IncomingMessage } from 'http';
+import { get as httpsGet } from 'https';
+import { isIP, LookupFunction } from 'net';
+import {
+  createProductId,
+  getImageFromSupabase,
+  getProductFromSupabase,
+  getProductsFromSupabase,
+  getProductImportJobsFromSupabase,
+  saveImageToSupabase,
+  saveProductImportJobsToSupabase,
+  saveProductToSupabase
+} from './supabase-storage';
+import { generateProductDetails, saveGeneratedProduct } from './product-generation';
+import { ProductImportJob, ProductImportRow, ProductImportRowInput } from './product-import-rules';
+
+// Rows of a job generated at the same time
+const CONCURRENCY = Math.max(1, parseInt(process.env.PRODUCT_IMPORT_CONCURRENCY || '2') || 2);
+const MAX_ROW_ATTEMPTS = 3;
+const RETRY_DELAY = 2000; // Doubled after each failed attempt
+const MAX_IMAGE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760');
+const IMAGE_DOWNLOAD_TIMEOUT = 15000; // 15 seconds
+const MAX_IMAGE_REDIRECTS = 3;
+// Oldest jobs are dropped beyond this many
+const MAX_STORED_JOBS = 50;
+
+// Jobs queued or running in this process; while here they are newer than storage
+const activeJobs = new Map<string, ProductImportJob>();
+const jobQueue: string[] = [];
+let queueRunning = false;
+// Job writes go one at a time so concurrent rows don't overwrite each other
+let saveChain: Promise<void> = Promise.resolve();
+
+function saveJob(job: ProductImportJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const snapshot: ProductImportJob = { ...job, rows: job.rows.map(row => ({ ...row })) };
+
+  saveChain = saveChain.then(async () => {
+    const jobs = await getProductImportJobsFromSupabase();
+    const index = jobs.findIndex(stored => stored.id === snapshot.id);
+    if (index === -1) {
+      jobs.push(snapshot);
+    } else {
+      jobs[index] = snapshot;
+    }
+    await saveProductImportJobsToSupabase(jobs.slice(-MAX_STORED_JOBS));
+  }).catch(error => {
+    console.error(`Error saving product import job ${snapshot.id}:`, error);
+  });
+  return saveChain;
+}
+
+function updateRow(job: ProductImportJob, row: ProductImportRow, updates: Partial<ProductImportRow>): Promise<void> {
+  Object.assign(row, updates, { updatedAt: new Date().toISOString() });
+  return saveJob(job);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const ip = address.toLowerCase();
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    return ip === '::' || ip === '::1' || /^f[c-d]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+}
+
+// Only fetch public http(s) hosts, so an uploaded file can't make the server call internal services
+// Host names are checked by lookupPublicAddress as the connection is made
+function checkImageUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Image URL must use http or https');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error('Image URL must point to a public host');
+  }
+}
+
+// DNS lookup for image requests that refuses private addresses. The request
+// connects to the address checked here, so a host can't pass the check and
+// then resolve somewhere internal.
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, family: options.family }).then(entries => {
+    if (entries.length === 0 || entries.some(entry => isPrivateAddress(entry.address))) {
+      throw new Error('Image URL must point to a public host');
+    }
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  }).catch(error => callback(error, ''));
+};
+
+function requestImage(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const get = url.protocol === 'https:' ? httpsGet : httpGet;
+  return new Promise((resolve, reject) => {
+    get(url, { signal, lookup: lookupPublicAddress }, resolve).on('error', reject);
+  });
+}
+
+// Download an external image, checking each redirect and giving up on slow or oversized responses
+async function downloadImportImage(image: string): Promise<{ data: Buffer; contentType: string; url: URL }> {
+  const signal = AbortSignal.timeout(IMAGE_DOWNLOAD_TIMEOUT);
+  let url = new URL(image);
+
+  for (let redirects = 0; ; redirects++) {
+    checkImageUrl(url);
+    const response = await requestImage(url, signal);
+    const status = response.statusCode || 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects >= MAX_IMAGE_REDIRECTS) {
+        throw new Error('Image URL redirects too many times');
+      }
+      url = new URL(location, url);
+      continue;
+    }
+
+    try {
+      if (status < 200 || status >= 300) {
+        throw new Error(`Image download failed: ${status}`);
+      }
+      const contentType = response.headers['content-type'] || '';
+      if (!contentType.startsWith('image/')) {
+        throw new Error('Image URL does not point to an image');
+      }
+      if (parseInt(response.headers['content-length'] || '0') > MAX_IMAGE_SIZE) {
+        throw new Error('Image is too large');
+      }
+
+      // The declared length can't be trusted, so count the bytes as they arrive
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of response) {
+        size += chunk.length;
+        if (size > MAX_IMAGE_SIZE) {
+          throw new Error('Image is too large');
+        }
+        chunks.push(chunk);
+      }
+
+      return { data: Buffer.concat(chunks), contentType, url };
+    } catch (error) {
+      response.destroy();
+      throw error;
+    }
+  }
+}
+
+// The URL of the row's image in our store, copying it in first if it is hosted elsewhere
+async function resolveImportImage(image: string | undefined): Promise<string | undefined> {
+  if (!image) return undefined;
+
+  if (await getImageFromSupabase(image)) {
+    return image;
+  }
+  if (!/^https?:\/\//i.test(image)) {
+    throw new Error('Image not found in the store');
+  }
+
+  const { data, contentType, url } = await downloadImportImage(image);
+  const filename = decodeURIComponent(url.pathname.split('/').pop() || '') || 'import-image';
+  return saveImageToSupabase(new File([new Uint8Array(data)], filename, { type: contentType }), filename);
+}
+
+// Finish a row whose product an earlier attempt saved, making sure it is listed
+async function completeSavedRow(job: ProductImportJob, row: ProductImportRow): Promise<boolean> {
+  const saved = await getProductFromSupabase(row.productId!);
+  if (!saved) return false;
+
+  const listed = (await getProductsFromSupabase()).some(product => product.id === row.productId);
+  if (!listed) {
+    await saveProductToSupabase(saved, job.createdBy, row.productId);
+  }
+  await updateRow(job, row, {
+    status: 'succeeded',
+    productName: saved.productName,
+    error: undefined,
+    validationIssues: undefined
+  });
+  return true;
+}
+
+async function processRow(job: ProductImportJob, row: ProductImportRow): Promise<void> {
+  // Pick the product ID up front, so an attempt that fails after saving the
+  // product is finished off instead of creating it a second time
+  const triedBefore = !!row.productId;
+  await updateRow(job, row, {
+    status: 'running',
+    attempts: 0,
+    productId: row.productId || createProductId(),
+    error: undefined,
+    validationIssues: undefined
+  });
+
+  let imageUrl: string | undefined;
+  let imageResolved = false;
+  while (row.attempts < MAX_ROW_ATTEMPTS) {
+    row.attempts++;
+    row.validationIssues = undefined;
+    try {
+      if ((triedBefore || row.attempts > 1) && await completeSavedRow(job, row)) {
+        return;
+      }
+
+      if (!imageResolved) {
+        imageUrl = await resolveImportImage(row.image);
+        imageResolved = true;
+      }
+
+      const result = await generateProductDetails({ productBrief: row.brief, imageUrl });
+      if (!result.success) {
+        row.validationIssues = result.validation.issues;
+        throw new Error(result.error);
+      }
+
+      await saveGeneratedProduct(result.productData, imageUrl || '', job.createdBy, row.productId);
+      await updateRow(job, row, {
+        status: 'succeeded',
+        productName: result.productData.productName,
+        error: undefined,
+        validationIssues: undefined
+      });
+      return;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Product import ${job.id} row ${row.index} attempt ${row.attempts} failed:`, message);
+
+      if (row.attempts >= MAX_ROW_ATTEMPTS) {
+        await updateRow(job, row, { status: 'failed', error: message });
+        return;
+      }
+      await updateRow(job, row, { error: message });
+      await delay(RETRY_DELAY * 2 ** (row.attempts - 1));
+    }
+  }
+}
+
+async function processJob(job: ProductImportJob): Promise<void> {
+  console.log(`Product import ${job.id} started with ${job.rows.length} rows`);
+
+  // Each worker takes the next pending row until none are left; rows queued
+  // again by a retry while the job runs are picked up by the next pass
+  const worker = async () => {
+    let row: ProductImportRow | undefined;
+    while ((row = job.rows.find(candidate => candidate.status === 'pending'))) {
+      await processRow(job, row);
+    }
+  };
+  while (job.rows.some(row => row.status === 'pending')) {
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  }
+
+  job.status = 'completed';
+  job.completedAt = new Date().toISOString();
+  await saveJob(job);
+  // A retry during the save queues the job again
+  if (job.status === 'completed') {
+    activeJobs.delete(job.id);
+  }
+  console.log(`Product import ${job.id} completed`);
+}
+
+async function runQueue(): Promise<void> {
+  queueRunning = true;
+  try {
+    let jobId: string | undefined;
+    while ((jobId = jobQueue.shift())) {
+      const job = activeJobs.get(jobId);
+      if (!job) continue;
+      try {
+        await processJob(job);
+      } catch (error) {
+        console.error(`Product import ${job.id} stopped:`, error);
+        activeJobs.delete(job.id);
+      }
+    }
+  } finally {
+    queueRunning = false;
+  }
+}
+
+function enqueueJob(job: ProductImportJob): void {
+  activeJobs.set(job.id, job);
+  jobQueue.push(job.id);
+  if (!queueRunning) {
+    runQueue().catch(error => console.error('Product import queue error:', error));
+  }
+}
+
+// Stored jobs, with jobs left running by a restart queued again
+async function loadJobs(): Promise<ProductImportJob[]> {
+  const stored = await getProductImportJobsFromSupabase();
+
+  return stored.map(job => {
+    const active = activeJobs.get(job.id);
+    if (active) return active;
+
+    if (job.status === 'running') {
+      console.log(`Resuming product import ${job.id}`);
+      job.rows.forEach(row => {
+        if (row.status === 'running') row.status = 'pending';
+      });
+      enqueueJob(job);
+    }
+    return job;
+  });
+}
+
+export async function createProductImportJob(
+  name: string,
+  rows: ProductImportRowInput[],
+  createdBy: string
+): Promise<ProductImportJob> {
+  const now = new Date().toISOString();
+  const job: ProductImportJob = {
+    id: `import_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    name: name.trim() || 'Product import',
+    status: 'running',
+    rows: rows.map((row, i) => ({ ...row, index: i + 1, status: 'pending', attempts: 0 })),
+    createdBy,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await saveJob(job);
+  enqueueJob(job);
+  console.log(`Product import ${job.id} queued by ${createdBy}`);
+  return job;
+}
+
+// Newest first
+export async function listProductImportJobs(): Promise<ProductImportJob[]> {
+  const jobs = await loadJobs();
+  return jobs.reverse();
+}
+
+export async function getProductImportJob(jobId: string): Promise<ProductImportJob | null> {
+  const jobs = await loadJobs();
+  return jobs.find(job => job.id === jobId) || null;
+}
+
+// Queue a job's failed rows again, each with a fresh set of attempts
+export async function retryFailedProductImportRows(jobId: string): Promise<ProductImportJob> {
+  const job = await getProductImportJob(jobId);
+
+  if (!job) {
+    throw new Error('Product import job not found');
+  }
+
+  const failedRows = job.rows.filter(row => row.status === 'failed');
+  if (failedRows.length === 0) {
+    throw new Error('The job has no failed rows');
+  }
+
+  failedRows.forEach(row => {
+    Object.assign(row, { status: 'pending', attempts: 0, error: undefined, validationIssues: undefined });
+  });
+  console.log(`Retrying ${failedRows.length} failed rows of product import ${job.id}`);
+
+  // A running job picks the rows up itself
+  if (job.status === 'completed') {
+    job.status = 'running';
+    delete job.completedAt;
+    enqueueJob(job);
+  }
+  await saveJob(job);
+  return job;
+}
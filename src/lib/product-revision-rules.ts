@@ -0,0 +1,93 @@
+/**
+ * Product revision rules
+ * Types for the saved copies of a product kept on every save, and the
+ * field-by-field comparison of two copies. Pure functions, safe to import
+ * from client components.
+ */
+
+import type { ProductData } from './supabase-storage';
+
+// What caused a save; 'baseline' is the copy that existed before history was kept
+export type ProductRevisionSource = 'baseline' | 'create' | 'edit' | 'variants' | 'rollback';
+
+export interface ProductRevisionInfo {
+  author: string; // Admin email, or 'system' for saves not made by an admin
+  source: ProductRevisionSource;
+  restoredFrom?: number; // For rollbacks, the revision number that was restored
+}
+
+export interface ProductRevision extends ProductRevisionInfo {
+  id: string;
+  productId: string;
+  number: number; // 1 for the oldest revision
+  createdAt: string;
+  changedFields: string[]; // Fields changed since the previous revision
+  product: ProductData; // The product as saved, without its search embedding
+}
+
+export type ProductRevisionSummary = Omit<ProductRevision, 'product'>;
+
+export interface ProductFieldChange {
+  field: string; // e.g. "tagline", "pricing.price" or "specifications.Weight"
+  before?: unknown; // Absent when the field was added
+  after?: unknown; // Absent when the field was removed
+}
+
+// Kept up to date by the store rather than edited, so not worth comparing.
+// Stock counts change with checkouts and aren't restored by a rollback.
+const IGNORED_FIELDS = new Set(['embedding', 'updatedAt', 'inventory']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffValues(field: string, before: unknown, after: unknown, changes: ProductFieldChange[], expand: boolean) {
+  if (isEqual(before, after)) return;
+
+  // Objects such as pricing and specifications are compared one key at a time
+  if (expand && isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    keys.forEach(key => diffValues(`${field}.${key}`, before[key], after[key], changes, false));
+    return;
+  }
+
+  changes.push({
+    field,
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after })
+  });
+}
+
+function withoutVariantStock(product: Partial<ProductData>): Partial<ProductData> {
+  if (!product.variants) return product;
+  return {
+    ...product,
+    variants: product.variants.map(variant => {
+      const copy = { ...variant };
+      delete copy.inventory;
+      return copy;
+    })
+  };
+}
+
+// Field-by-field differences between two copies of a product
+export function diffProducts(before: Partial<ProductData>, after: Partial<ProductData>): ProductFieldChange[] {
+  const previous = withoutVariantStock(before) as Record<string, unknown>;
+  const current = withoutVariantStock(after) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]))
+    .filter(field => !IGNORED_FIELDS.has(field));
+
+  const changes: ProductFieldChange[] = [];
+  fields.forEach(field => diffValues(field, previous[field], current[field], changes, true));
+  return changes;
+}
+
+// Top-level fields that differ, for revision lists
+export function getChangedProductFields(before: Partial<ProductData> | null, after: Partial<ProductData>): string[] {
+  if (!before) return [];
+  return Array.from(new Set(diffProducts(before, after).map(change => change.field.split('.')[0])));
+}
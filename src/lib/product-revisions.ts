@@ -0,0 +1,103 @@
+/**
+ * Product revisions
+ * Lists, compares and restores the copies of a product kept on every save.
+ */
+
+import {
+  getProductFromSupabase,
+  getProductRevisionsFromSupabase,
+  updateProductInSupabase,
+  type ProductData,
+} from './supabase-storage';
+import {
+  diffProducts,
+  ProductFieldChange,
+  ProductRevision,
+  ProductRevisionSummary
+} from './product-revision-rules';
+
+export interface ProductRevisionDiff {
+  from: ProductRevisionSummary;
+  to: ProductRevisionSummary;
+  changes: ProductFieldChange[];
+}
+
+function toSummary(revision: ProductRevision): ProductRevisionSummary {
+  const summary: Partial<ProductRevision> = { ...revision };
+  delete summary.product;
+  return summary as ProductRevisionSummary;
+}
+
+// Newest first, without the product copies
+export async function listProductRevisions(productId: string): Promise<ProductRevisionSummary[]> {
+  const revisions = await getProductRevisionsFromSupabase(productId);
+  return revisions.map(toSummary).reverse();
+}
+
+export async function getProductRevision(productId: string, revisionId: string): Promise<ProductRevision | null> {
+  const revisions = await getProductRevisionsFromSupabase(productId);
+  return revisions.find(revision => revision.id === revisionId) || null;
+}
+
+// Compare two revisions; without a second one, compare with the latest
+export async function diffProductRevisions(
+  productId: string,
+  fromRevisionId: string,
+  toRevisionId?: string
+): Promise<ProductRevisionDiff> {
+  const revisions = await getProductRevisionsFromSupabase(productId);
+  const from = revisions.find(revision => revision.id === fromRevisionId);
+  const to = toRevisionId ? revisions.find(revision => revision.id === toRevisionId) : revisions[revisions.length - 1];
+
+  if (!from || !to) {
+    throw new Error('Revision not found');
+  }
+
+  return {
+    from: toSummary(from),
+    to: toSummary(to),
+    changes: diffProducts(from.product, to.product)
+  };
+}
+
+/**
+ * Save a revision's copy as the current product
+ * Stock counts stay as they are, since they track real units and open
+ * checkouts. The rollback is itself a new revision, so it can be undone.
+ */
+export async function rollbackProductToRevision(
+  productId: string,
+  revisionId: string,
+  author: string
+): Promise<ProductData> {
+  const current = await getProductFromSupabase(productId);
+  if (!current) {
+    throw new Error('Product not found');
+  }
+
+  const revision = await getProductRevision(productId, revisionId);
+  if (!revision) {
+    throw new Error('Revision not found');
+  }
+
+  const currentVariantStock = new Map((current.variants || []).map(variant => [variant.sku, variant.inventory]));
+  const restored: Partial<ProductData> = {
+    // Clear fields added since the revision
+    ...Object.fromEntries(Object.keys(current).map(field => [field, undefined])),
+    ...revision.product,
+    createdAt: current.createdAt,
+    inventory: current.inventory,
+    variants: revision.product.variants?.map(variant => ({
+      ...variant,
+      inventory: currentVariantStock.get(variant.sku) ?? variant.inventory
+    }))
+  };
+
+  const product = await updateProductInSupabase(productId, restored, {
+    author,
+    source: 'rollback',
+    restoredFrom: revision.number
+  });
+  console.log(`Product ${productId} rolled back to revision ${revision.number} by ${author}`);
+  return product;
+}
@@ -0,0 +1,169 @@
+/**
+ * Generated product schema
+ * The shape the product generator asks the model for, used both as the
+ * structured output schema sent to the model and to validate what comes back.
+ * Pure functions, safe to import from client components.
+ */
+
+import { JsonSchema, ValidationIssue, parseJsonObject, validateJsonSchema } from './json-schema';
+
+export const MAX_TAGLINE_LENGTH = 60;
+
+const stringList = (description: string, minItems: number, maxItems: number): JsonSchema => ({
+  type: 'array',
+  description,
+  items: { type: 'string', minLength: 1, maxLength: 300 },
+  minItems,
+  maxItems
+});
+
+export const GENERATED_PRODUCT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    productName: { type: 'string', description: 'Clear, compelling product name', minLength: 1, maxLength: 120 },
+    tagline: { type: 'string', description: 'Short catchy tagline', minLength: 1, maxLength: MAX_TAGLINE_LENGTH },
+    description: { type: 'string', description: 'Detailed product description (2-3 paragraphs)', minLength: 50, maxLength: 5000 },
+    keyFeatures: stringList('Key features', 3, 10),
+    specifications: {
+      type: 'object',
+      description: 'Specification name to value, e.g. { "Weight": "1.2 kg" }',
+      additionalProperties: { type: 'string', minLength: 1, maxLength: 200 }
+    },
+    pricing: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string', description: 'ISO 4217 code', pattern: '^[A-Z]{3}$' },
+        price: { type: 'number', description: 'Regular price in major units', exclusiveMinimum: 0, maximum: 1000000 }
+      },
+      required: ['currency', 'price']
+    },
+    benefits: stringList('Customer benefits', 1, 10),
+    targetAudience: { type: 'string', description: 'Description of ideal customer', minLength: 1 },
+    category: { type: 'string', description: 'Legacy category name for compatibility' },
+    categoryId: { type: 'string', description: 'Exact category ID from the available categories', minLength: 1 },
+    categoryConfidence: { type: 'number', minimum: 0, maximum: 1 },
+    categoryReasoning: { type: 'string' },
+    tags: stringList('Search tags', 1, 20),
+    imageInferredFields: { type: 'array', items: { type: 'string' } }
+  },
+  required: [
+    'productName', 'tagline', 'description', 'keyFeatures', 'specifications', 'pricing',
+    'benefits', 'targetAudience', 'categoryId', 'tags'
+  ]
+};
+
+// A product that passed validation
+export interface GeneratedProduct {
+  productName: string;
+  tagline: string;
+  description: string;
+  keyFeatures: string[];
+  specifications: Record<string, string>;
+  pricing: { currency: string; price: number };
+  benefits: string[];
+  targetAudience: string;
+  category?: string;
+  categoryId?: string;
+  categoryConfidence?: number;
+  categoryReasoning?: string;
+  tags: string[];
+  imageInferredFields?: string[];
+}
+
+export interface GeneratedProductValidation {
+  data: Record<string, unknown> | null; // The parsed, normalized product, or null if the content isn't a JSON object
+  issues: ValidationIssue[];
+}
+
+// Fix harmless deviations before validating, so they don't cost a repair round-trip
+function normalizeGeneratedProduct(data: Record<string, unknown>): Record<string, unknown> {
+  const normalized = { ...data };
+
+  for (const [key, value] of Object.entries(normalized)) {
+    if (typeof value === 'string') normalized[key] = value.trim();
+  }
+
+  // Models often give numeric specifications as numbers
+  if (normalized.specifications && typeof normalized.specifications === 'object' && !Array.isArray(normalized.specifications)) {
+    normalized.specifications = Object.fromEntries(
+      Object.entries(normalized.specifications as Record<string, unknown>).map(([key, value]) => [
+        key.trim(),
+        typeof value === 'number' || typeof value === 'boolean' ? String(value) : value
+      ])
+    );
+  }
+
+  // "$99.99" or "99.99" for a price
+  const pricing = normalized.pricing as Record<string, unknown> | undefined;
+  if (pricing && typeof pricing === 'object') {
+    const price = typeof pricing.price === 'string' ? parseFloat(pricing.price.replace(/[^0-9.]/g, '')) : pricing.price;
+    normalized.pricing = {
+      ...pricing,
+      price: Number.isFinite(price) ? price : pricing.price,
+      currency: typeof pricing.currency === 'string' ? pricing.currency.trim().toUpperCase() : pricing.currency
+    };
+  }
+
+  return normalized;
+}
+
+// Parse model output and check it against GENERATED_PRODUCT_SCHEMA
+export function validateGeneratedProduct(content: string | null): GeneratedProductValidation {
+  const parsed = parseJsonObject(content);
+  if (!parsed.data) {
+    return parsed;
+  }
+
+  const data = normalizeGeneratedProduct(parsed.data);
+  return { data, issues: validateJsonSchema(data, GENERATED_PRODUCT_SCHEMA) };
+}
+
+// Fields an admin can change on a saved product
+export const EDITABLE_PRODUCT_FIELDS = [
+  'productName', 'tagline', 'description', 'keyFeatures', 'specifications', 'pricing',
+  'benefits', 'targetAudience', 'categoryId', 'tags'
+] as const;
+export type EditableProductField = typeof EDITABLE_PRODUCT_FIELDS[number];
+
+// Fields the edit form can ask the model to rewrite
+export const REGENERATABLE_PRODUCT_FIELDS = ['tagline', 'description', 'keyFeatures'] as const;
+export type RegeneratableProductField = typeof REGENERATABLE_PRODUCT_FIELDS[number];
+
+const generatedProperties = GENERATED_PRODUCT_SCHEMA.properties!;
+
+// An update can't clear a field by setting it to null
+const notNull = (properties: Record<string, JsonSchema>): Record<string, JsonSchema> =>
+  Object.fromEntries(Object.entries(properties).map(([field, schema]) => [field, { ...schema, nullable: false }]));
+
+// Any subset of the editable fields, held to the same rules as generated details
+export const PRODUCT_UPDATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: notNull({
+    ...Object.fromEntries(EDITABLE_PRODUCT_FIELDS.map(field => [field, generatedProperties[field]])),
+    // Hand-edited products may list fewer features than generated ones
+    keyFeatures: stringList('Key features', 1, 10),
+    pricing: {
+      ...generatedProperties.pricing,
+      properties: notNull({
+        ...generatedProperties.pricing.properties,
+        originalPrice: { type: 'number', description: 'Price before a discount', exclusiveMinimum: 0, maximum: 1000000 },
+        discount: { type: 'string', maxLength: 50 }
+      }),
+      additionalProperties: false
+    }
+  }),
+  additionalProperties: false
+};
+
+// Parse and check the fields of a product update
+export function validateProductUpdate(updates: unknown): GeneratedProductValidation {
+  if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+    return { data: null, issues: [{ field: '(root)', message: 'Expected an object of product fields' }] };
+  }
+  if (Object.keys(updates).length === 0) {
+    return { data: null, issues: [{ field: '(root)', message: 'No fields to update' }] };
+  }
+
+  const data = normalizeGeneratedProduct(updates as Record<string, unknown>);
+  return { data, issues: validateJsonSchema(data, PRODUCT_UPDATE_SCHEMA) };
+}
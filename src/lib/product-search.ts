@@ -0,0 +1,314 @@
+/**
+ * Product search
+ * The search behind the storefront's /api/search and the AI assistant's
+ * search_products tool: keyword matching from the search index, semantic
+ * matching on embeddings, filters, sorting and facets.
+ */
+
+import {
+  getMerchandisingRulesFromSupabase,
+  getProductFromSupabase,
+  getSearchIndexFromSupabase,
+  getSearchSynonymsFromSupabase
+} from './supabase-storage';
+import { SearchDocument, searchIndex, SearchMatch } from './search-index';
+import { computeSearchFacets, SearchFacets } from './search-facets';
+import { embeddingProvider } from './embeddings';
+import { combineSearchMatches, searchEmbeddings } from './vector-search';
+import { paginate, SortDirection, SortKey } from './pagination';
+import { matchesSpecFilter, SpecFilter } from './spec-filters';
+import {
+  applyMerchandisingRules,
+  FiredMerchandisingRule,
+  getMerchandisedSortKey,
+  getPinnedProductIds
+} from './merchandising-rules';
+
+export interface ProductRecord {
+  id: string;
+  productName: string;
+  tagline: string;
+  description: string;
+  keyFeatures: string[];
+  specifications: Record<string, string>;
+  pricing: {
+    currency: string;
+    price: number;
+    originalPrice?: number;
+    discount?: string;
+  };
+  benefits: string[];
+  targetAudience: string;
+  category: string;
+  tags: string[];
+  imageUrl: string;
+  createdAt: string;
+  slug: string;
+  categoryId?: string;
+  categoryPath?: string;
+}
+
+export interface SearchFilters {
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  tags?: string[];
+  // Specification filters such as Color=Black or Weight<2kg, all of which must pass
+  specs?: SpecFilter[];
+}
+
+// keyword: words only, semantic: embeddings only, hybrid: both blended
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+export interface SearchResult extends ProductRecord {
+  relevanceScore: number;
+  matchedFields: string[];
+  semanticScore?: number;
+  merchandising?: string[]; // How merchandising rules moved this result, e.g. 'pinned by "Gift picks"'
+}
+
+// A match as scored from the index, before the full product is loaded
+export interface IndexedResult extends SearchDocument {
+  relevanceScore: number;
+  matchedFields: string[];
+  semanticScore?: number;
+  merchandising?: string[];
+}
+
+export interface ProductSearchOptions {
+  query: string;
+  filters?: SearchFilters;
+  sortBy?: string; // relevance, price, price-desc, name, date
+  limit?: number;
+  cursor?: string | null; // nextCursor from the previous page
+  mode?: SearchMode;
+}
+
+export interface ProductSearchResults {
+  results: SearchResult[];
+  total: number; // Results matching the query and filters across all pages
+  nextCursor: string | null;
+  // Counts over every result matching the filters, not just the returned page
+  facets: SearchFacets;
+  // Merchandising rules that moved results, for relevance ordering only
+  merchandising: FiredMerchandisingRule[];
+}
+
+// How each sortBy orders results; the product ID breaks ties so pages are stable
+const SEARCH_SORTS: Record<string, { direction: SortDirection; getSortKey: (result: IndexedResult) => SortKey }> = {
+  relevance: { direction: 'desc', getSortKey: result => [result.relevanceScore, result.id] },
+  price: { direction: 'asc', getSortKey: result => [result.pricing.price, result.id] },
+  'price-desc': { direction: 'desc', getSortKey: result => [result.pricing.price, result.id] },
+  name: { direction: 'asc', getSortKey: result => [result.productName.toLowerCase(), result.id] },
+  date: { direction: 'desc', getSortKey: result => [new Date(result.createdAt).getTime() || 0, result.id] }
+};
+
+// Recent query embeddings, so paging through or refining a search doesn't embed the query again
+const queryEmbeddingCache = new Map<string, number[]>();
+const QUERY_EMBEDDING_CACHE_MAX_SIZE = 200;
+
+async function embedQuery(query: string): Promise<number[]> {
+  const key = `${embeddingProvider.model}:${query.trim().toLowerCase()}`;
+  const cached = queryEmbeddingCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const [vector] = await embeddingProvider.embed([query]);
+  if (queryEmbeddingCache.size >= QUERY_EMBEDDING_CACHE_MAX_SIZE) {
+    queryEmbeddingCache.delete(queryEmbeddingCache.keys().next().value!);
+  }
+  queryEmbeddingCache.set(key, vector);
+  return vector;
+}
+
+/**
+ * Score the catalog against a query
+ * In hybrid mode a failing embedding provider falls back to keyword results
+ * rather than failing the search.
+ */
+async function matchProducts(query: string, mode: SearchMode): Promise<{ matches: SearchMatch[]; documents: Record<string, SearchDocument> }> {
+  const [index, synonyms] = await Promise.all([
+    getSearchIndexFromSupabase(),
+    // Search keeps working without synonyms if they can't be read
+    getSearchSynonymsFromSupabase().catch(error => {
+      console.error('Error fetching search synonyms:', error);
+      return [];
+    })
+  ]);
+
+  if (!query.trim()) {
+    return {
+      matches: Object.keys(index.documents).map(productId => ({ productId, relevanceScore: 1, matchedFields: [] })),
+      documents: index.documents
+    };
+  }
+
+  const keywordMatches = mode === 'semantic' ? [] : searchIndex(index, query, synonyms);
+  if (mode === 'keyword') {
+    return { matches: keywordMatches, documents: index.documents };
+  }
+
+  try {
+    const queryVector = await embedQuery(query);
+    const semanticMatches = searchEmbeddings(index, queryVector, embeddingProvider.minSimilarity);
+    return { matches: combineSearchMatches(keywordMatches, semanticMatches), documents: index.documents };
+  } catch (error) {
+    if (mode === 'semantic') {
+      throw error;
+    }
+    console.error('Semantic search failed, using keyword results only:', error);
+    return { matches: keywordMatches, documents: index.documents };
+  }
+}
+
+export async function searchProducts(options: ProductSearchOptions): Promise<ProductSearchResults> {
+  const { query, filters = {}, sortBy = 'relevance', limit = 50, cursor, mode = 'hybrid' } = options;
+
+  // Score against the prebuilt search index instead of scanning every product
+  const [{ matches, documents }, rules] = await Promise.all([
+    matchProducts(query, mode),
+    getMerchandisingRulesFromSupabase().catch(error => {
+      console.error('Error fetching merchandising rules:', error);
+      return [];
+    })
+  ]);
+
+  let results: IndexedResult[] = matches.map(match => ({
+    ...documents[match.productId],
+    relevanceScore: match.relevanceScore,
+    matchedFields: match.matchedFields,
+    ...(match.semanticScore !== undefined && { semanticScore: match.semanticScore })
+  }));
+
+  // Merchandising only reorders the default relevance ranking; a shopper's own sort wins
+  const sort = Object.prototype.hasOwnProperty.call(SEARCH_SORTS, sortBy) ? sortBy : 'relevance';
+  const merchandisingContext = { query, categories: filters.category ? [filters.category] : [] };
+  if (sort === 'relevance') {
+    // Pinned products show up even when they didn't match the query
+    const matched = new Set(results.map(result => result.id));
+    getPinnedProductIds(rules, merchandisingContext)
+      .filter(productId => !matched.has(productId) && documents[productId])
+      .forEach(productId => results.push({ ...documents[productId], relevanceScore: 0, matchedFields: [] }));
+  }
+
+  // Apply filters
+  results = applyFilters(results, filters);
+
+  // Facets describe everything that matched, before the limit is applied
+  const facets = computeSearchFacets(results);
+
+  // Sort and take the page after the cursor
+  let fired: FiredMerchandisingRule[] = [];
+  let sortOptions = SEARCH_SORTS[sort];
+  if (sort === 'relevance') {
+    const outcome = applyMerchandisingRules(rules, merchandisingContext, results);
+    fired = outcome.fired;
+    sortOptions = {
+      direction: 'desc',
+      getSortKey: result => {
+        const placement = outcome.placements.get(result.id);
+        return getMerchandisedSortKey(placement, [result.relevanceScore * (placement?.boost ?? 1), result.id], 'desc');
+      }
+    };
+    results = results.map(result => {
+      const notes = outcome.placements.get(result.id)?.notes;
+      return notes?.length ? { ...result, merchandising: notes } : result;
+    });
+  }
+  const page = paginate(results, { sort, ...sortOptions, limit, cursor });
+
+  // Load the full records only for the results being returned
+  return {
+    results: await loadProductRecords(page.items),
+    total: page.total,
+    nextCursor: page.nextCursor,
+    facets,
+    merchandising: fired
+  };
+}
+
+async function loadProductRecords(results: IndexedResult[]): Promise<SearchResult[]> {
+  const records = await Promise.all(results.map(async result => {
+    try {
+      const product = await getProductFromSupabase(result.id);
+      if (!product) {
+        return null;
+      }
+      const productRecord: ProductRecord = {
+        id: result.id,
+        productName: product.productName,
+        tagline: product.tagline,
+        description: product.description,
+        keyFeatures: product.keyFeatures,
+        specifications: product.specifications,
+        pricing: product.pricing,
+        benefits: product.benefits,
+        targetAudience: product.targetAudience,
+        category: product.category,
+        tags: product.tags,
+        imageUrl: product.imageUrl || '',
+        createdAt: product.createdAt,
+        slug: product.slug,
+        categoryId: product.categoryId,
+        categoryPath: product.categoryPath
+      };
+      const searchResult: SearchResult = {
+        ...productRecord,
+        relevanceScore: result.relevanceScore,
+        matchedFields: result.matchedFields,
+        ...(result.semanticScore !== undefined && { semanticScore: result.semanticScore }),
+        ...(result.merchandising && { merchandising: result.merchandising })
+      };
+      return searchResult;
+    } catch (error) {
+      console.error(`Error fetching product ${result.id}:`, error);
+      return null;
+    }
+  }));
+
+  return records.filter((record): record is SearchResult => record !== null);
+}
+
+function applyFilters(results: IndexedResult[], filters: SearchFilters): IndexedResult[] {
+  let filtered = results;
+
+  // Category filter
+  if (filters.category) {
+    filtered = filtered.filter(product =>
+      product.category.toLowerCase().includes(filters.category!.toLowerCase()) ||
+      product.categoryPath?.toLowerCase().includes(filters.category!.toLowerCase())
+    );
+  }
+
+  // Price range filter
+  if (filters.minPrice !== undefined) {
+    filtered = filtered.filter(product => product.pricing.price >= filters.minPrice!);
+  }
+
+  if (filters.maxPrice !== undefined) {
+    filtered = filtered.filter(product => product.pricing.price <= filters.maxPrice!);
+  }
+
+  // Tags filter
+  if (filters.tags && filters.tags.length > 0) {
+    filtered = filtered.filter(product =>
+      filters.tags!.some(tag =>
+        product.tags.some(productTag =>
+          productTag.toLowerCase().includes(tag.toLowerCase())
+        )
+      )
+    );
+  }
+
+  // Specification filters, comparing numbers with their units
+  if (filters.specs) {
+    for (const specFilter of filters.specs) {
+      filtered = filtered.filter(product => matchesSpecFilter(product.specifications, specFilter));
+    }
+  }
+
+  return filtered;
+}
@@ -0,0 +1,166 @@
+/**
+ * Product variants
+ * Products may declare variant axes (size, color, style) and one entry per
+ * purchasable combination with its own SKU, price override, image and stock.
+ * Safe to import from client components.
+ */
+
+import { ProductInventory } from './stock-status';
+
+export const VARIANT_AXES = ['size', 'color', 'style'] as const;
+
+export type VariantAxis = typeof VARIANT_AXES[number];
+
+// The options picked for one cart or order line, e.g. { size: 'M', color: 'Red' }
+export type VariantSelection = Partial<Record<VariantAxis, string>>;
+
+export interface ProductVariantAxis {
+  axis: VariantAxis;
+  values: string[];
+}
+
+export interface ProductVariant {
+  sku: string;
+  options: VariantSelection;
+  price?: number; // Overrides pricing.price when set
+  imageUrl?: string; // Overrides the product image when set
+  inventory?: ProductInventory; // Variants without inventory share the product's stock
+}
+
+interface VariantProduct {
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
+}
+
+export function isVariantAxis(value: unknown): value is VariantAxis {
+  return typeof value === 'string' && (VARIANT_AXES as readonly string[]).includes(value);
+}
+
+export function hasVariants(product: VariantProduct): boolean {
+  return !!product.variants && product.variants.length > 0;
+}
+
+// Drop empty and unknown options so equal selections compare equal
+export function normalizeVariantSelection(selection?: object | null): VariantSelection | undefined {
+  if (!selection) return undefined;
+
+  const normalized: VariantSelection = {};
+  for (const axis of VARIANT_AXES) {
+    const value = (selection as Record<string, unknown>)[axis];
+    if (typeof value === 'string' && value.trim()) {
+      normalized[axis] = value.trim();
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+// Unique key for a product/variant combination, used to merge cart lines
+export function getCartItemKey(id: string, variant?: VariantSelection | null): string {
+  const normalized = normalizeVariantSelection(variant);
+  if (!normalized) return id;
+
+  const variantKey = VARIANT_AXES
+    .filter(axis => normalized[axis])
+    .map(axis => `${axis}:${normalized[axis]}`)
+    .join('|');
+  return `${id}#${variantKey}`;
+}
+
+export function isSameVariant(a?: VariantSelection | null, b?: VariantSelection | null): boolean {
+  return getCartItemKey('', a) === getCartItemKey('', b);
+}
+
+// Find the variant matching every declared axis of the selection
+export function findProductVariant(product: VariantProduct, selection?: VariantSelection | null): ProductVariant | undefined {
+  if (!hasVariants(product) || !selection) return undefined;
+  return product.variants!.find(variant => isSameVariant(variant.options, selection));
+}
+
+// Validate a variant selection against the product, returning an error message or null
+export function validateVariantSelection(
+  product: VariantProduct & { productName: string },
+  selection?: VariantSelection | null
+): string | null {
+  const normalized = normalizeVariantSelection(selection);
+
+  if (!hasVariants(product)) {
+    return normalized ? `${product.productName} has no variants to choose from` : null;
+  }
+
+  const missingAxes = (product.variantAxes || [])
+    .filter(({ axis }) => !normalized?.[axis])
+    .map(({ axis }) => axis);
+  if (missingAxes.length > 0) {
+    return `Please choose a ${missingAxes.join(' and ')} for ${product.productName}`;
+  }
+
+  if (!findProductVariant(product, normalized)) {
+    return `${product.productName} is not available in ${formatVariantSelection(normalized)}`;
+  }
+
+  return null;
+}
+
+// Validate declared axes and variants, returning an error message or null
+export function validateProductVariants(variantAxes: unknown, variants: unknown): string | null {
+  if (!Array.isArray(variantAxes) || !Array.isArray(variants)) {
+    return 'variantAxes and variants must be arrays';
+  }
+
+  for (const entry of variantAxes) {
+    if (!isVariantAxis(entry?.axis)) {
+      return `Unknown variant axis: ${entry?.axis} (allowed: ${VARIANT_AXES.join(', ')})`;
+    }
+    if (!Array.isArray(entry.values) || entry.values.length === 0) {
+      return `Variant axis ${entry.axis} needs at least one value`;
+    }
+  }
+
+  const axes = (variantAxes as ProductVariantAxis[]).map(entry => entry.axis);
+  const skus = new Set<string>();
+  const keys = new Set<string>();
+
+  for (const variant of variants as ProductVariant[]) {
+    if (!variant?.sku || typeof variant.sku !== 'string') {
+      return 'Every variant needs a SKU';
+    }
+    if (skus.has(variant.sku)) {
+      return `Duplicate SKU: ${variant.sku}`;
+    }
+    skus.add(variant.sku);
+
+    const options = normalizeVariantSelection(variant.options) || {};
+    for (const axis of axes) {
+      const declared = (variantAxes as ProductVariantAxis[]).find(entry => entry.axis === axis)!;
+      if (!options[axis] || !declared.values.includes(options[axis]!)) {
+        return `Variant ${variant.sku} needs a ${axis} from: ${declared.values.join(', ')}`;
+      }
+    }
+    if (Object.keys(options).some(axis => !axes.includes(axis as VariantAxis))) {
+      return `Variant ${variant.sku} uses an axis that is not declared`;
+    }
+
+    const key = getCartItemKey('', options);
+    if (keys.has(key)) {
+      return `More than one variant is defined for ${formatVariantSelection(options)}`;
+    }
+    keys.add(key);
+
+    if (variant.price !== undefined && (typeof variant.price !== 'number' || variant.price < 0)) {
+      return `Variant ${variant.sku} has an invalid price`;
+    }
+  }
+
+  return null;
+}
+
+// "Size: M, Color: Red"
+export function formatVariantSelection(selection?: VariantSelection | null): string {
+  const normalized = normalizeVariantSelection(selection);
+  if (!normalized) return '';
+
+  return VARIANT_AXES
+    .filter(axis => normalized[axis])
+    .map(axis => `${axis.charAt(0).toUpperCase()}${axis.slice(1)}: ${normalized[axis]}`)
+    .join(', ');
+}
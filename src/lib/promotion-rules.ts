@@ -0,0 +1,207 @@
+/**
+ * Promotion rules
+ * Discount codes and how they apply to a cart. Pure functions with no storage
+ * access, so the same numbers come out in the browser, the API routes and the
+ * AI assistant. Safe to import from client components.
+ */
+
+import { formatMoney, minMoney, multiplyMoney, sumMoney, toMoney, zeroMoney } from './money';
+import type { Money } from './money';
+
+export const PROMOTION_TYPES = ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y'] as const;
+
+export type PromotionType = typeof PROMOTION_TYPES[number];
+
+export interface Promotion {
+  id: string;
+  code: string; // Stored upper-case, matched case-insensitively
+  description: string;
+  type: PromotionType;
+  value?: number; // Percent off (0-100) or amount off in the store currency, for percentage and fixed_amount
+  buyQuantity?: number; // buy_x_get_y: units to pay for...
+  getQuantity?: number; // ...before this many more of the cheapest eligible units are free
+  minSubtotal?: number; // Cart subtotal in the store currency required before the code applies
+  categories?: string[]; // Only items in these categories count; all items when empty
+  startsAt?: string;
+  expiresAt?: string;
+  usageLimit?: number; // Total redemptions allowed across all customers
+  usageCount: number;
+  reservations?: PromotionReservation[]; // Uses held by checkouts that haven't finished yet
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One use of a code held for a checkout, counted against the usage limit until
+// the order is saved (and the use redeemed) or the checkout fails or expires
+export interface PromotionReservation {
+  id: string; // The order ID or payment token of the checkout
+  expiresAt: string;
+}
+
+// A discount as applied to one order, stored in OrderData.totals.discounts
+export interface AppliedDiscount {
+  promotionId: string;
+  code: string;
+  description: string;
+  type: PromotionType;
+  amount: Money; // Taken off the merchandise subtotal
+  freeShipping?: boolean;
+}
+
+export interface PromotionCartItem {
+  price: Money; // Unit price
+  quantity: number;
+  category?: string;
+}
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function getActiveReservations(promotion: Promotion, now: Date = new Date()): PromotionReservation[] {
+  return (promotion.reservations || []).filter(reservation => new Date(reservation.expiresAt) > now);
+}
+
+function getEligibleItems(promotion: Promotion, items: PromotionCartItem[]): PromotionCartItem[] {
+  if (!promotion.categories || promotion.categories.length === 0) {
+    return items;
+  }
+  const categories = promotion.categories.map(category => category.toLowerCase());
+  return items.filter(item => !!item.category && categories.includes(item.category.toLowerCase()));
+}
+
+function getCartCurrency(items: PromotionCartItem[]): string {
+  return items[0]?.price.currency || 'USD';
+}
+
+function getItemsSubtotal(items: PromotionCartItem[], currency: string): Money {
+  return sumMoney(items.map(item => multiplyMoney(item.price, item.quantity)), currency);
+}
+
+// Check whether a promotion can be used on this cart, returning an error message or null
+export function getPromotionError(promotion: Promotion, items: PromotionCartItem[], now: Date = new Date()): string | null {
+  if (!promotion.active) {
+    return `Code ${promotion.code} is not active`;
+  }
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    return `Code ${promotion.code} is not valid yet`;
+  }
+  if (promotion.expiresAt && new Date(promotion.expiresAt) <= now) {
+    return `Code ${promotion.code} has expired`;
+  }
+  if (promotion.usageLimit !== undefined &&
+      promotion.usageCount + getActiveReservations(promotion, now).length >= promotion.usageLimit) {
+    return `Code ${promotion.code} has reached its usage limit`;
+  }
+
+  const currency = getCartCurrency(items);
+  const subtotal = getItemsSubtotal(items, currency);
+  if (promotion.minSubtotal && subtotal.amount < toMoney(promotion.minSubtotal, currency).amount) {
+    return `Code ${promotion.code} requires a subtotal of at least ${formatMoney(toMoney(promotion.minSubtotal, currency))}`;
+  }
+
+  const eligibleItems = getEligibleItems(promotion, items);
+  if (eligibleItems.length === 0) {
+    return `Code ${promotion.code} only applies to ${promotion.categories!.join(', ')} items`;
+  }
+
+  if (promotion.type === 'buy_x_get_y') {
+    const units = eligibleItems.reduce((sum, item) => sum + item.quantity, 0);
+    if (units < promotion.buyQuantity! + promotion.getQuantity!) {
+      return `Code ${promotion.code} needs ${promotion.buyQuantity! + promotion.getQuantity!} eligible items in the cart`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out the discount a promotion gives on a cart
+ * Call getPromotionError first; this only computes the amount.
+ */
+export function calculatePromotionDiscount(promotion: Promotion, items: PromotionCartItem[]): AppliedDiscount {
+  const currency = getCartCurrency(items);
+  const eligibleItems = getEligibleItems(promotion, items);
+  const eligibleSubtotal = getItemsSubtotal(eligibleItems, currency);
+  let amount = zeroMoney(currency);
+
+  switch (promotion.type) {
+    case 'percentage':
+      amount = multiplyMoney(eligibleSubtotal, (promotion.value || 0) / 100);
+      break;
+
+    case 'fixed_amount':
+      amount = minMoney(toMoney(promotion.value || 0, currency), eligibleSubtotal);
+      break;
+
+    case 'buy_x_get_y': {
+      // Pricier units are paid for first, so each group's cheapest units are the free ones
+      const groupSize = promotion.buyQuantity! + promotion.getQuantity!;
+      const unitPrices = eligibleItems
+        .flatMap(item => Array<Money>(item.quantity).fill(item.price))
+        .sort((a, b) => b.amount - a.amount);
+      for (let start = 0; start + groupSize <= unitPrices.length; start += groupSize) {
+        amount = sumMoney([amount, ...unitPrices.slice(start + promotion.buyQuantity!, start + groupSize)], currency);
+      }
+      break;
+    }
+
+    case 'free_shipping':
+      break;
+  }
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    description: promotion.description,
+    type: promotion.type,
+    amount,
+    ...(promotion.type === 'free_shipping' && { freeShipping: true })
+  };
+}
+
+// Validate admin input for a new or updated promotion, returning an error message or null
+export function validatePromotionInput(input: Partial<Promotion>): string | null {
+  if (!input.code || typeof input.code !== 'string' || !/^[A-Za-z0-9_-]{3,32}$/.test(input.code.trim())) {
+    return 'Code must be 3-32 letters, numbers, dashes or underscores';
+  }
+  if (!input.type || !(PROMOTION_TYPES as readonly string[]).includes(input.type)) {
+    return `Type must be one of: ${PROMOTION_TYPES.join(', ')}`;
+  }
+
+  if (input.type === 'percentage' && (typeof input.value !== 'number' || input.value <= 0 || input.value > 100)) {
+    return 'Percentage promotions need a value between 0 and 100';
+  }
+  if (input.type === 'fixed_amount' && (typeof input.value !== 'number' || input.value <= 0)) {
+    return 'Fixed amount promotions need a positive value';
+  }
+  if (input.type === 'buy_x_get_y') {
+    if (!Number.isInteger(input.buyQuantity) || input.buyQuantity! < 1 ||
+        !Number.isInteger(input.getQuantity) || input.getQuantity! < 1) {
+      return 'Buy X get Y promotions need whole buyQuantity and getQuantity of at least 1';
+    }
+  }
+
+  if (input.minSubtotal !== undefined && (typeof input.minSubtotal !== 'number' || input.minSubtotal < 0)) {
+    return 'minSubtotal must be a non-negative number';
+  }
+  if (input.categories !== undefined &&
+      (!Array.isArray(input.categories) || input.categories.some(category => typeof category !== 'string'))) {
+    return 'categories must be a list of category names';
+  }
+  if (input.usageLimit !== undefined && (!Number.isInteger(input.usageLimit) || input.usageLimit < 1)) {
+    return 'usageLimit must be a whole number of at least 1';
+  }
+
+  for (const field of ['startsAt', 'expiresAt'] as const) {
+    if (input[field] !== undefined && isNaN(new Date(input[field]!).getTime())) {
+      return `${field} must be a valid date`;
+    }
+  }
+  if (input.startsAt && input.expiresAt && new Date(input.startsAt) >= new Date(input.expiresAt)) {
+    return 'expiresAt must be after startsAt';
+  }
+
+  return null;
+}
@@ -0,0 +1,216 @@
+/**
+ * Promotions
+ * Admin management of discount codes, resolving a code at checkout, holding
+ * a use of it while the payment goes through and counting the redemption
+ * once the order is placed.
+ */
+
+import { getPromotionsFromSupabase, savePromotionsToSupabase } from './supabase-storage';
+import {
+  getActiveReservations,
+  getPromotionError,
+  normalizePromotionCode,
+  validatePromotionInput,
+  Promotion,
+  PromotionCartItem
+} from './promotion-rules';
+
+export type PromotionInput = Omit<Promotion, 'id' | 'usageCount' | 'reservations' | 'createdAt' | 'updatedAt'>;
+
+// Changes to promotions.json go one at a time, so concurrent checkouts can't
+// lose each other's redemptions or both take the last use of a code
+let promotionsChain: Promise<unknown> = Promise.resolve();
+
+function queuePromotionsChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = promotionsChain.then(change);
+  promotionsChain = result.catch(() => undefined);
+  return result;
+}
+
+// Keep only the fields an admin may set, so usage counts can't be edited by hand
+function pickPromotionInput(input: Partial<PromotionInput>): Partial<PromotionInput> {
+  const fields: Array<keyof PromotionInput> = [
+    'code', 'description', 'type', 'value', 'buyQuantity', 'getQuantity', 'minSubtotal',
+    'categories', 'startsAt', 'expiresAt', 'usageLimit', 'active'
+  ];
+  const picked: Partial<PromotionInput> = {};
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      (picked as Record<string, unknown>)[field] = input[field];
+    }
+  }
+  return picked;
+}
+
+export async function getPromotionByCode(code: string): Promise<Promotion | null> {
+  const promotions = await getPromotionsFromSupabase();
+  const normalized = normalizePromotionCode(code);
+  return promotions.find(promotion => promotion.code === normalized) || null;
+}
+
+export async function createPromotion(input: Partial<PromotionInput>): Promise<Promotion> {
+  return queuePromotionsChange(async () => {
+    const fields = pickPromotionInput(input);
+    const validationError = validatePromotionInput(fields);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const promotions = await getPromotionsFromSupabase();
+    const code = normalizePromotionCode(fields.code!);
+    if (promotions.some(promotion => promotion.code === code)) {
+      throw new Error(`Code ${code} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const promotion: Promotion = {
+      ...fields,
+      id: `promo_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      code,
+      description: fields.description?.trim() || code,
+      type: fields.type!,
+      active: fields.active ?? true,
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await savePromotionsToSupabase([...promotions, promotion]);
+    console.log(`Promotion ${code} created`);
+    return promotion;
+  });
+}
+
+export async function updatePromotion(promotionId: string, updates: Partial<PromotionInput>): Promise<Promotion> {
+  return queuePromotionsChange(async () => {
+    const promotions = await getPromotionsFromSupabase();
+    const index = promotions.findIndex(promotion => promotion.id === promotionId);
+
+    if (index === -1) {
+      throw new Error('Promotion not found');
+    }
+
+    const updatedPromotion: Promotion = {
+      ...promotions[index],
+      ...pickPromotionInput(updates),
+      updatedAt: new Date().toISOString()
+    };
+    updatedPromotion.code = normalizePromotionCode(updatedPromotion.code);
+
+    const validationError = validatePromotionInput(updatedPromotion);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+    if (promotions.some(promotion => promotion.id !== promotionId && promotion.code === updatedPromotion.code)) {
+      throw new Error(`Code ${updatedPromotion.code} already exists`);
+    }
+
+    promotions[index] = updatedPromotion;
+    await savePromotionsToSupabase(promotions);
+    return updatedPromotion;
+  });
+}
+
+export async function deletePromotion(promotionId: string): Promise<void> {
+  return queuePromotionsChange(async () => {
+    const promotions = await getPromotionsFromSupabase();
+    const remaining = promotions.filter(promotion => promotion.id !== promotionId);
+
+    if (remaining.length === promotions.length) {
+      throw new Error('Promotion not found');
+    }
+
+    await savePromotionsToSupabase(remaining);
+  });
+}
+
+/**
+ * Look up a code for a checkout
+ * Throws with a customer-facing message if the code is unknown or can't be
+ * used on these items.
+ */
+export async function resolvePromotion(code: string, items: PromotionCartItem[]): Promise<Promotion> {
+  const promotion = await getPromotionByCode(code);
+  if (!promotion) {
+    throw new Error(`Code ${normalizePromotionCode(code)} is not valid`);
+  }
+
+  const promotionError = getPromotionError(promotion, items);
+  if (promotionError) {
+    throw new Error(promotionError);
+  }
+
+  return promotion;
+}
+
+/**
+ * Hold one use of a code for a checkout until it is redeemed or released
+ * The code is checked against the items under the same lock, so two checkouts
+ * can't both take its last use. Reserving again with the same ID keeps the
+ * hold without checking the code again.
+ */
+export async function reservePromotion(
+  code: string,
+  reservationId: string,
+  items: PromotionCartItem[],
+  expiresAt: string
+): Promise<Promotion> {
+  return queuePromotionsChange(async () => {
+    const promotions = await getPromotionsFromSupabase();
+    const promotion = promotions.find(p => p.code === normalizePromotionCode(code));
+    if (!promotion) {
+      throw new Error(`Code ${normalizePromotionCode(code)} is not valid`);
+    }
+
+    promotion.reservations = getActiveReservations(promotion);
+    if (!promotion.reservations.some(reservation => reservation.id === reservationId)) {
+      const promotionError = getPromotionError(promotion, items);
+      if (promotionError) {
+        throw new Error(promotionError);
+      }
+      promotion.reservations.push({ id: reservationId, expiresAt });
+    }
+
+    await savePromotionsToSupabase(promotions);
+    return promotion;
+  });
+}
+
+// Give back a use held for a checkout that failed
+export async function releasePromotionReservation(code: string, reservationId: string): Promise<void> {
+  try {
+    await queuePromotionsChange(async () => {
+      const promotions = await getPromotionsFromSupabase();
+      const promotion = promotions.find(p => p.code === normalizePromotionCode(code));
+      if (!promotion?.reservations?.some(reservation => reservation.id === reservationId)) {
+        return;
+      }
+
+      promotion.reservations = getActiveReservations(promotion).filter(reservation => reservation.id !== reservationId);
+      await savePromotionsToSupabase(promotions);
+    });
+  } catch (error) {
+    // The hold expires on its own, so a failed release only delays the use
+    console.error(`Error releasing promotion ${code} for ${reservationId}:`, error);
+  }
+}
+
+// Count a redemption once the order using the code has been saved, turning its hold into a use
+export async function redeemPromotion(code: string, orderId: string, reservationId?: string): Promise<void> {
+  await queuePromotionsChange(async () => {
+    const promotions = await getPromotionsFromSupabase();
+    const promotion = promotions.find(p => p.code === normalizePromotionCode(code));
+
+    if (!promotion) {
+      console.warn(`Promotion ${code} redeemed by ${orderId} no longer exists`);
+      return;
+    }
+
+    promotion.usageCount += 1;
+    promotion.reservations = getActiveReservations(promotion).filter(reservation => reservation.id !== (reservationId || orderId));
+    promotion.updatedAt = new Date().toISOString();
+    await savePromotionsToSupabase(promotions);
+
+    console.log(`Promotion ${promotion.code} redeemed by order ${orderId} (${promotion.usageCount} use(s))`);
+  });
+}
@@ -0,0 +1,284 @@
+/**
+ * Search analytics
+ * Records searches from the storefront and the AI assistant, the results
+ * shoppers click and the products they add to their cart afterwards. Like
+ * popular queries, records are kept in memory and written to storage at
+ * most once a minute, so searching doesn't wait on a storage write. A timer
+ * writes them within a minute even when nothing else is searched, and the
+ * server tries to write them before it stops. If the stored events can't be
+ * read, nothing is written and the records wait for the next attempt.
+ */
+
+import { getSearchEventsFromSupabase, saveSearchEventsToSupabase, SearchEvent } from './supabase-storage';
+import { normalizeSuggestionText } from './search-suggest';
+import type { SearchFilters } from './product-search';
+
+export type SearchAction = 'click' | 'add_to_cart';
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  zeroResults: number;
+  clicks: number; // Searches with at least one click
+  conversions: number; // Searches followed by an add-to-cart
+  lastSearchedAt: string;
+}
+
+export interface SearchAnalyticsReport {
+  since: string;
+  totalSearches: number;
+  zeroResultSearches: number;
+  searchesWithClick: number;
+  searchesWithAddToCart: number;
+  bySource: Record<SearchEvent['source'], { searches: number; searchesWithAddToCart: number }>;
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: SearchQueryStats[];
+}
+
+const FLUSH_INTERVAL = 60 * 1000; // 1 minute
+const RETENTION_DAYS = 90;
+// Oldest events are dropped beyond this many
+const MAX_STORED_EVENTS = 20000;
+const MAX_QUERY_LENGTH = 200;
+const REPORT_QUERY_LIMIT = 20;
+// How long an assistant search can be credited with an add-to-cart
+const ASSISTANT_ATTRIBUTION_WINDOW = 30 * 60 * 1000; // 30 minutes
+// Clicks and add-to-carts reported by browsers must be for a search at most this old
+const SEARCH_ACTION_WINDOW = 24 * 60 * 60 * 1000; // 1 day
+// Reported actions accepted per client per minute
+const MAX_ACTIONS_PER_MINUTE = 30;
+const MAX_TRACKED_CLIENTS = 10000;
+
+// Searches not yet written, and actions on searches that already were
+let pendingEvents = new Map<string, SearchEvent>();
+let pendingActions: Array<{ searchId: string; action: SearchAction; productId: string }> = [];
+let lastFlushAt = Date.now();
+let flushInProgress: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let shutdownFlushInstalled = false;
+
+// The assistant's latest search per shopper, held only in memory
+const recentAssistantSearches = new Map<string, { searchId: string; productIds: string[]; at: number }>();
+// Actions reported per client in the current minute
+const clientActionCounts = new Map<string, { count: number; windowStart: number }>();
+
+function applyAction(event: SearchEvent, action: SearchAction, productId: string): void {
+  const productIds = action === 'click' ? event.clickedProductIds : event.addedToCartProductIds;
+  if (!productIds.includes(productId)) {
+    productIds.push(productId);
+  }
+}
+
+async function writePendingEvents(): Promise<void> {
+  const events = pendingEvents;
+  const actions = pendingActions;
+  pendingEvents = new Map();
+  pendingActions = [];
+  lastFlushAt = Date.now();
+
+  try {
+    const stored = await getSearchEventsFromSupabase();
+    const byId = new Map(stored.map(event => [event.id, event]));
+    actions.forEach(({ searchId, action, productId }) => {
+      const event = byId.get(searchId);
+      if (event) applyAction(event, action, productId);
+    });
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const kept = [...stored, ...events.values()]
+      .filter(event => event.createdAt >= cutoff)
+      .slice(-MAX_STORED_EVENTS);
+    await saveSearchEventsToSupabase(kept);
+  } catch (error) {
+    console.error('Error saving search events:', error);
+    // Keep the records for the next flush
+    events.forEach((event, id) => pendingEvents.set(id, event));
+    pendingActions = [...actions, ...pendingActions];
+    scheduleFlush();
+  }
+}
+
+// Write pending records now; a flush already under way is waited for rather than repeated
+export async function flushSearchEvents(): Promise<void> {
+  while (flushInProgress) {
+    await flushInProgress;
+  }
+  if (pendingEvents.size === 0 && pendingActions.length === 0) {
+    return;
+  }
+  flushInProgress = writePendingEvents().finally(() => {
+    flushInProgress = null;
+  });
+  await flushInProgress;
+}
+
+// Write pending records once the last flush is a minute old, even if nothing else is recorded
+function scheduleFlush(): void {
+  installShutdownFlush();
+  if (flushTimer) {
+    return;
+  }
+  const delay = Math.max(0, FLUSH_INTERVAL - (Date.now() - lastFlushAt));
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushSearchEvents().catch(error => console.error('Error flushing search events:', error));
+  }, delay);
+  // The timer alone shouldn't keep the process running
+  flushTimer.unref?.();
+}
+
+// Try to write pending records when the server is asked to stop
+function installShutdownFlush(): void {
+  if (shutdownFlushInstalled) {
+    return;
+  }
+  shutdownFlushInstalled = true;
+
+  (['SIGTERM', 'SIGINT'] as const).forEach(signal => {
+    process.once(signal, () => {
+      flushSearchEvents()
+        .catch(error => console.error('Error flushing search events on shutdown:', error))
+        .finally(() => {
+          // Stop the way the signal would have, unless something else is handling it
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+    });
+  });
+}
+
+// Record a search and return its ID, which clicks and add-to-carts refer to
+export function recordSearch(search: {
+  source: SearchEvent['source'];
+  query: string;
+  filters?: SearchFilters;
+  resultCount: number;
+}): string {
+  const id = `srch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const hasFilters = search.filters && Object.values(search.filters).some(value => value !== undefined);
+
+  pendingEvents.set(id, {
+    id,
+    source: search.source,
+    query: search.query.trim().slice(0, MAX_QUERY_LENGTH),
+    ...(hasFilters && { filters: search.filters }),
+    resultCount: search.resultCount,
+    createdAt: new Date().toISOString(),
+    clickedProductIds: [],
+    addedToCartProductIds: []
+  });
+  scheduleFlush();
+  return id;
+}
+
+// Whether a search ID could have been issued here recently; IDs start with the time they were recorded
+export function isRecentSearchId(searchId: string): boolean {
+  const match = /^srch_(\d+)_[a-z0-9]+$/.exec(searchId);
+  if (!match) return false;
+  const age = Date.now() - Number(match[1]);
+  // Allow a little clock skew between server processes
+  return age > -60 * 1000 && age <= SEARCH_ACTION_WINDOW;
+}
+
+// Count an action reported by a client, returning false once it has sent too many this minute
+export function allowSearchAction(clientKey: string): boolean {
+  const now = Date.now();
+  const entry = clientActionCounts.get(clientKey);
+  if (entry && now - entry.windowStart < 60 * 1000) {
+    entry.count++;
+    return entry.count <= MAX_ACTIONS_PER_MINUTE;
+  }
+
+  if (clientActionCounts.size >= MAX_TRACKED_CLIENTS) {
+    clientActionCounts.forEach((counts, key) => {
+      if (now - counts.windowStart >= 60 * 1000) clientActionCounts.delete(key);
+    });
+  }
+  clientActionCounts.set(clientKey, { count: 1, windowStart: now });
+  return true;
+}
+
+export function recordSearchAction(searchId: string, action: SearchAction, productId: string): void {
+  const pending = pendingEvents.get(searchId);
+  if (pending) {
+    applyAction(pending, action, productId);
+  } else {
+    pendingActions.push({ searchId, action, productId });
+  }
+  scheduleFlush();
+}
+
+// Remember the assistant's search for a shopper, so items they then add through the assistant count for it
+export function rememberAssistantSearch(userIdentifier: string, searchId: string, productIds: string[]): void {
+  recentAssistantSearches.set(userIdentifier, { searchId, productIds, at: Date.now() });
+}
+
+export function recordAssistantAddToCart(userIdentifier: string, productIds: string[]): void {
+  const recent = recentAssistantSearches.get(userIdentifier);
+  if (!recent || Date.now() - recent.at > ASSISTANT_ATTRIBUTION_WINDOW) {
+    recentAssistantSearches.delete(userIdentifier);
+    return;
+  }
+  productIds
+    .filter(productId => recent.productIds.includes(productId))
+    .forEach(productId => recordSearchAction(recent.searchId, 'add_to_cart', productId));
+}
+
+// Every stored search, including ones not yet written
+export async function getSearchEvents(): Promise<SearchEvent[]> {
+  await flushSearchEvents();
+  return getSearchEventsFromSupabase();
+}
+
+export function summarizeSearchEvents(events: SearchEvent[], since: Date): SearchAnalyticsReport {
+  const sinceIso = since.toISOString();
+  const recent = events.filter(event => event.createdAt >= sinceIso);
+
+  const report: SearchAnalyticsReport = {
+    since: sinceIso,
+    totalSearches: recent.length,
+    zeroResultSearches: 0,
+    searchesWithClick: 0,
+    searchesWithAddToCart: 0,
+    bySource: {
+      storefront: { searches: 0, searchesWithAddToCart: 0 },
+      assistant: { searches: 0, searchesWithAddToCart: 0 }
+    },
+    topQueries: [],
+    zeroResultQueries: []
+  };
+
+  const queries = new Map<string, SearchQueryStats>();
+  for (const event of recent) {
+    const clicked = event.clickedProductIds.length > 0;
+    const converted = event.addedToCartProductIds.length > 0;
+    if (event.resultCount === 0) report.zeroResultSearches++;
+    if (clicked) report.searchesWithClick++;
+    if (converted) report.searchesWithAddToCart++;
+    report.bySource[event.source].searches++;
+    if (converted) report.bySource[event.source].searchesWithAddToCart++;
+
+    // Filter-only searches count in the totals but have no query to report
+    const query = normalizeSuggestionText(event.query);
+    if (!query) continue;
+    const stats = queries.get(query) || { query, searches: 0, zeroResults: 0, clicks: 0, conversions: 0, lastSearchedAt: event.createdAt };
+    stats.searches++;
+    if (event.resultCount === 0) stats.zeroResults++;
+    if (clicked) stats.clicks++;
+    if (converted) stats.conversions++;
+    if (event.createdAt > stats.lastSearchedAt) stats.lastSearchedAt = event.createdAt;
+    queries.set(query, stats);
+  }
+
+  const allQueries = Array.from(queries.values());
+  report.topQueries = allQueries
+    .sort((a, b) => b.searches - a.searches || a.query.localeCompare(b.query))
+    .slice(0, REPORT_QUERY_LIMIT);
+  report.zeroResultQueries = allQueries
+    .filter(stats => stats.zeroResults > 0)
+    .sort((a, b) => b.zeroResults - a.zeroResults || b.lastSearchedAt.localeCompare(a.lastSearchedAt))
+    .slice(0, REPORT_QUERY_LIMIT);
+
+  return report;
+}
@@ -0,0 +1,122 @@
+/**
+ * Search facets
+ * How many matching products fall under each category, tag, price band and
+ * common specification, so the search UI can offer them as filters.
+ */
+
+import type { SearchDocument } from './search-index';
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+// Products priced from min up to (not including) max; the last bucket includes max
+export interface PriceBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface SpecificationFacet {
+  key: string;
+  count: number;
+  values: FacetValue[];
+}
+
+export interface SearchFacets {
+  categories: FacetValue[];
+  tags: FacetValue[];
+  price: PriceBucket[];
+  specifications: SpecificationFacet[];
+}
+
+const MAX_FACET_VALUES = 20;
+const MAX_SPECIFICATION_FACETS = 8;
+const MAX_SPECIFICATION_VALUES = 10;
+const PRICE_BUCKET_TARGET = 5;
+
+// Count values case-insensitively, keeping the first spelling seen, most common first
+function countValues(values: string[], limit: number): FacetValue[] {
+  const counts = new Map<string, FacetValue>();
+  for (const value of values) {
+    const key = value.trim().toLowerCase();
+    if (!key) continue;
+    const entry = counts.get(key) || { value: value.trim(), count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+}
+
+// Each level of a category path, so "Electronics" counts products under "Electronics > Audio"
+function getCategoryLevels(document: SearchDocument): string[] {
+  const parts = (document.categoryPath || document.category || '').split('>').map(part => part.trim()).filter(Boolean);
+  return parts.map((_, i) => parts.slice(0, i + 1).join(' > '));
+}
+
+// A round bucket width (1, 2, 2.5 or 5 times a power of ten) giving about PRICE_BUCKET_TARGET buckets
+function getPriceStep(range: number): number {
+  const rough = range / PRICE_BUCKET_TARGET;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const multiplier = [1, 2, 2.5, 5, 10].find(m => m * magnitude >= rough) || 10;
+  return multiplier * magnitude;
+}
+
+function getPriceBuckets(prices: number[]): PriceBucket[] {
+  if (prices.length === 0) {
+    return [];
+  }
+
+  const lowest = Math.min(...prices);
+  const highest = Math.max(...prices);
+  if (lowest === highest) {
+    return [{ min: lowest, max: highest, count: prices.length }];
+  }
+
+  const step = getPriceStep(highest - lowest);
+  const start = Math.floor(lowest / step) * step;
+  const bucketCount = Math.floor((highest - start) / step) + 1;
+  // Rounded to cents so steps like 0.25 don't drift
+  const bound = (i: number) => Math.round((start + i * step) * 100) / 100;
+  const buckets: PriceBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    min: bound(i),
+    max: bound(i + 1),
+    count: 0
+  }));
+
+  for (const price of prices) {
+    buckets[Math.min(Math.floor((price - start) / step), bucketCount - 1)].count += 1;
+  }
+
+  return buckets.filter(bucket => bucket.count > 0);
+}
+
+// Specification keys shared by at least two products, with their most common values
+function getSpecificationFacets(documents: SearchDocument[]): SpecificationFacet[] {
+  const valuesByKey = new Map<string, string[]>();
+  for (const document of documents) {
+    for (const [key, value] of Object.entries(document.specifications || {})) {
+      if (typeof value !== 'string' || !value.trim()) continue;
+      valuesByKey.set(key, [...(valuesByKey.get(key) || []), value]);
+    }
+  }
+
+  const minimumCount = Math.min(2, documents.length);
+  return Array.from(valuesByKey.entries())
+    .filter(([, values]) => values.length >= minimumCount)
+    .map(([key, values]) => ({ key, count: values.length, values: countValues(values, MAX_SPECIFICATION_VALUES) }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, MAX_SPECIFICATION_FACETS);
+}
+
+export function computeSearchFacets(documents: SearchDocument[]): SearchFacets {
+  return {
+    categories: countValues(documents.flatMap(getCategoryLevels), MAX_FACET_VALUES),
+    tags: countValues(documents.flatMap(document => document.tags || []), MAX_FACET_VALUES),
+    price: getPriceBuckets(documents.map(document => document.pricing.price).filter(price => typeof price === 'number')),
+    specifications: getSpecificationFacets(documents)
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * Product search index
+ * An inverted index from words to the products and fields they appear in. It
+ * is stored next to the products index and kept up to date as products are
+ * saved and deleted, so a search reads one file instead of every product.
+ * Queries also match word stems, admin-defined synonyms and small typos.
+ * The index also holds each product's embedding for semantic search.
+ */
+
+import { getEditDistance, getTypoAllowance, stem, tokenize } from './search-text';
+
+// Relevance weight of a match in each field
+export const SEARCH_FIELD_WEIGHTS = {
+  name: 10,
+  tagline: 8,
+  description: 5,
+  features: 6,
+  benefits: 5,
+  category: 6,
+  tags: 5,
+  audience: 3,
+  specifications: 2
+} as const;
+
+export type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+// Bump when tokenizing or the stored shape changes; older indexes are rebuilt
+export const SEARCH_INDEX_VERSION = 4;
+
+// A product's text embedding, stored in its JSON file and copied into the index
+export interface ProductEmbedding {
+  model: string;
+  textHash: number; // Hash of the embedded text, to tell when it needs embedding again
+  vector: number[];
+}
+
+// The product fields search reads and filters on
+export interface SearchableProduct {
+  productName: string;
+  tagline: string;
+  description: string;
+  keyFeatures: string[];
+  specifications: Record<string, string>;
+  pricing: {
+    currency: string;
+    price: number;
+    originalPrice?: number;
+    discount?: string;
+  };
+  benefits: string[];
+  targetAudience: string;
+  category: string;
+  categoryId?: string;
+  categoryPath?: string;
+  tags: string[];
+  createdAt: string;
+  embedding?: ProductEmbedding;
+}
+
+// What the index keeps of each product, enough to filter and sort without loading it
+export interface SearchDocument {
+  id: string;
+  productName: string;
+  category: string;
+  categoryId?: string;
+  categoryPath?: string;
+  tags: string[];
+  specifications: Record<string, string>;
+  pricing: SearchableProduct['pricing'];
+  createdAt: string;
+}
+
+export interface SearchIndex {
+  version: number;
+  updatedAt: string;
+  documents: Record<string, SearchDocument>;
+  // word -> product ID -> field -> times the word appears in that field
+  postings: Record<string, Record<string, Partial<Record<SearchField, number>>>>;
+  // stem -> the indexed words that reduce to it
+  stems: Record<string, string[]>;
+  // Model the embeddings were made with; products embedded with another model are left out
+  embeddingModel: string | null;
+  embeddings: Record<string, number[]>;
+}
+
+// Words an admin has declared equivalent, e.g. ["cellphone", "smartphone", "mobile phone"]
+export interface SynonymGroup {
+  id: string;
+  terms: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SearchMatch {
+  productId: string;
+  relevanceScore: number;
+  // Fields that matched, with the expansion that matched them, e.g. "name (typo: headphones)"
+  matchedFields: string[];
+  // Cosine similarity to the query, when ranked semantically
+  semanticScore?: number;
+}
+
+type ExpansionKind = 'exact' | 'stem' | 'synonym' | 'typo';
+
+// A word or phrase a query word is matched as
+interface Expansion {
+  words: string[];
+  kind: ExpansionKind;
+}
+
+// Points per occurrence for each kind of match, before field weights
+const MATCH_POINTS: Record<ExpansionKind, number> = {
+  exact: 2,
+  stem: 1.5,
+  synonym: 1.5,
+  typo: 1
+};
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function getFieldTexts(product: SearchableProduct): Record<SearchField, string> {
+  return {
+    name: product.productName || '',
+    tagline: product.tagline || '',
+    description: product.description || '',
+    features: (product.keyFeatures || []).join(' '),
+    benefits: (product.benefits || []).join(' '),
+    category: product.category || '',
+    tags: (product.tags || []).join(' '),
+    audience: product.targetAudience || '',
+    specifications: Object.values(product.specifications || {}).join(' ')
+  };
+}
+
+export function createSearchIndex(embeddingModel: string | null = null): SearchIndex {
+  return {
+    version: SEARCH_INDEX_VERSION,
+    updatedAt: new Date().toISOString(),
+    documents: {},
+    postings: {},
+    stems: {},
+    embeddingModel,
+    embeddings: {}
+  };
+}
+
+export function removeFromSearchIndex(index: SearchIndex, productId: string): void {
+  delete index.documents[productId];
+  delete index.embeddings[productId];
+  for (const token of Object.keys(index.postings)) {
+    const postings = index.postings[token];
+    if (!hasOwn(postings, productId)) continue;
+
+    delete postings[productId];
+    if (Object.keys(postings).length === 0) {
+      delete index.postings[token];
+      const tokenStem = stem(token);
+      const words = (hasOwn(index.stems, tokenStem) ? index.stems[tokenStem] : []).filter(word => word !== token);
+      if (words.length > 0) {
+        index.stems[tokenStem] = words;
+      } else {
+        delete index.stems[tokenStem];
+      }
+    }
+  }
+  index.updatedAt = new Date().toISOString();
+}
+
+// Add a product, replacing any earlier entry for it
+export function addToSearchIndex(index: SearchIndex, productId: string, product: SearchableProduct): void {
+  removeFromSearchIndex(index, productId);
+
+  index.documents[productId] = {
+    id: productId,
+    productName: product.productName,
+    category: product.category,
+    categoryId: product.categoryId,
+    categoryPath: product.categoryPath,
+    tags: product.tags || [],
+    specifications: product.specifications || {},
+    pricing: product.pricing,
+    createdAt: product.createdAt
+  };
+
+  if (product.embedding && product.embedding.model === index.embeddingModel) {
+    index.embeddings[productId] = product.embedding.vector;
+  }
+
+  const fieldTexts = getFieldTexts(product);
+  for (const field of Object.keys(fieldTexts) as SearchField[]) {
+    for (const token of tokenize(fieldTexts[field])) {
+      if (!hasOwn(index.postings, token)) {
+        index.postings[token] = {};
+        const tokenStem = stem(token);
+        index.stems[tokenStem] = [...(hasOwn(index.stems, tokenStem) ? index.stems[tokenStem] : []), token];
+      }
+      const postings = index.postings[token];
+      if (!hasOwn(postings, productId)) {
+        postings[productId] = {};
+      }
+      postings[productId][field] = (postings[productId][field] || 0) + 1;
+    }
+  }
+}
+
+// Indexed words sharing a stem with this word
+function getStemVariants(index: SearchIndex, word: string): string[] {
+  const wordStem = stem(word);
+  return hasOwn(index.stems, wordStem) ? index.stems[wordStem] : [];
+}
+
+// Synonyms of a query word or phrase, matched on stems so "cellphones" finds the "cellphone" group
+function getSynonyms(phrase: string[], synonyms: SynonymGroup[]): string[][] {
+  const phraseStems = phrase.map(stem).join(' ');
+  const expansions: string[][] = [];
+  for (const group of synonyms) {
+    const groupTerms = group.terms.map(term => tokenize(term)).filter(words => words.length > 0);
+    if (!groupTerms.some(words => words.map(stem).join(' ') === phraseStems)) continue;
+    for (const words of groupTerms) {
+      if (words.map(stem).join(' ') !== phraseStems) {
+        expansions.push(words);
+      }
+    }
+  }
+  return expansions;
+}
+
+/**
+ * The words a query word or phrase is matched as
+ * A single word matches itself, words with the same stem and its synonyms'
+ * stem variants. Only a word that isn't in the index at all is matched
+ * against misspellings, so "case" doesn't also find "cast".
+ */
+function expandQuery(index: SearchIndex, phrase: string[], synonyms: SynonymGroup[], vocabulary: string[]): Expansion[] {
+  const expansions = new Map<string, Expansion>();
+  const add = (words: string[], kind: ExpansionKind) => {
+    const key = words.join(' ');
+    if (!expansions.has(key)) {
+      expansions.set(key, { words, kind });
+    }
+  };
+
+  if (phrase.length === 1) {
+    const [term] = phrase;
+    if (hasOwn(index.postings, term)) {
+      add([term], 'exact');
+    }
+    getStemVariants(index, term).forEach(word => add([word], 'stem'));
+
+    if (expansions.size === 0) {
+      const allowance = getTypoAllowance(term);
+      for (const word of vocabulary) {
+        if (allowance > 0 && getEditDistance(term, word, allowance) <= allowance) {
+          add([word], 'typo');
+        }
+      }
+    }
+  }
+
+  for (const words of getSynonyms(phrase, synonyms)) {
+    if (words.length === 1) {
+      getStemVariants(index, words[0]).forEach(word => add([word], 'synonym'));
+    } else {
+      add(words, 'synonym');
+    }
+  }
+
+  return Array.from(expansions.values());
+}
+
+// Times a word or phrase appears in each field of each product; a phrase counts where all its words appear
+function getOccurrences(index: SearchIndex, words: string[]): Map<string, Partial<Record<SearchField, number>>> {
+  const occurrences = new Map<string, Partial<Record<SearchField, number>>>();
+  const [first, ...rest] = words;
+  if (!hasOwn(index.postings, first)) {
+    return occurrences;
+  }
+
+  for (const [productId, fields] of Object.entries(index.postings[first])) {
+    const counts: Partial<Record<SearchField, number>> = {};
+    for (const [field, count] of Object.entries(fields) as Array<[SearchField, number]>) {
+      const otherCounts = rest.map(word =>
+        hasOwn(index.postings, word) && hasOwn(index.postings[word], productId) ? index.postings[word][productId][field] || 0 : 0
+      );
+      const phraseCount = Math.min(count, ...otherCounts);
+      if (phraseCount > 0) {
+        counts[field] = phraseCount;
+      }
+    }
+    if (Object.keys(counts).length > 0) {
+      occurrences.set(productId, counts);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Score products against a query
+ * Each query word scores per occurrence of every word it expands to (see
+ * MATCH_POINTS), plus 1 if any word in a field contains it, times the
+ * field's weight. Neighbouring query words are also looked up together as a
+ * synonym phrase. Results are sorted by score, highest first.
+ */
+export function searchIndex(index: SearchIndex, query: string, synonyms: SynonymGroup[] = []): SearchMatch[] {
+  const terms = tokenize(query);
+  const scores = new Map<string, { relevanceScore: number; matchedFields: Set<string> }>();
+  const vocabulary = Object.keys(index.postings);
+
+  const addScore = (productId: string, field: SearchField, points: number, label: string) => {
+    const entry = scores.get(productId) || { relevanceScore: 0, matchedFields: new Set<string>() };
+    entry.relevanceScore += points * SEARCH_FIELD_WEIGHTS[field];
+    entry.matchedFields.add(label);
+    scores.set(productId, entry);
+  };
+
+  const phrases = [
+    ...terms.map(term => [term]),
+    ...terms.slice(1).map((term, i) => [terms[i], term])
+  ];
+
+  for (const phrase of phrases) {
+    for (const expansion of expandQuery(index, phrase, synonyms, vocabulary)) {
+      for (const [productId, fields] of getOccurrences(index, expansion.words)) {
+        for (const [field, count] of Object.entries(fields) as Array<[SearchField, number]>) {
+          const label = expansion.kind === 'exact' ? field : `${field} (${expansion.kind}: ${expansion.words.join(' ')})`;
+          addScore(productId, field, count * MATCH_POINTS[expansion.kind], label);
+        }
+      }
+    }
+  }
+
+  // Partial matches, counted once per field
+  for (const term of terms) {
+    const partialFields = new Map<string, Set<SearchField>>();
+    for (const token of vocabulary) {
+      if (!token.includes(term)) continue;
+      for (const [productId, fields] of Object.entries(index.postings[token])) {
+        const matched = partialFields.get(productId) || new Set<SearchField>();
+        Object.keys(fields).forEach(field => matched.add(field as SearchField));
+        partialFields.set(productId, matched);
+      }
+    }
+    for (const [productId, fields] of partialFields) {
+      fields.forEach(field => addScore(productId, field, 1, field));
+    }
+  }
+
+  const fieldOrder = Object.keys(SEARCH_FIELD_WEIGHTS);
+  const fieldRank = (label: string) => fieldOrder.indexOf(label.split(' ')[0]);
+
+  return Array.from(scores.entries())
+    .filter(([productId]) => hasOwn(index.documents, productId))
+    .map(([productId, entry]) => ({
+      productId,
+      relevanceScore: Math.round(entry.relevanceScore * 100) / 100,
+      matchedFields: Array.from(entry.matchedFields).sort((a, b) => fieldRank(a) - fieldRank(b) || a.localeCompare(b))
+    }))
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
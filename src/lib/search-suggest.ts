@@ -0,0 +1,126 @@
+/**
+ * Search autocomplete
+ * A prefix tree over product names, categories and popular queries. Each
+ * node keeps its best few suggestions of each kind, so a lookup only walks
+ * the typed prefix and needs no sorting.
+ */
+
+import { tokenize } from './search-text';
+import type { SearchDocument } from './search-index';
+
+export type SuggestionType = 'product' | 'category' | 'query';
+
+export interface Suggestion {
+  type: SuggestionType;
+  text: string;
+  productId?: string;
+  count?: number; // Products in a category, or times a query was searched
+}
+
+export interface SearchSuggestions {
+  products: Suggestion[];
+  categories: Suggestion[];
+  queries: Suggestion[];
+}
+
+interface TrieNode {
+  children: Record<string, TrieNode>;
+  // Indexes into SuggestionTrie.suggestions, best first
+  top: Record<SuggestionType, number[]>;
+}
+
+export interface SuggestionTrie {
+  suggestions: Suggestion[];
+  root: TrieNode;
+}
+
+// Suggestions of each kind kept per prefix
+export const MAX_SUGGESTIONS_PER_TYPE = 5;
+
+// A query must have been searched this often before it is suggested to other shoppers
+export const MIN_POPULAR_QUERY_COUNT = 2;
+
+function createNode(): TrieNode {
+  return { children: {}, top: { product: [], category: [], query: [] } };
+}
+
+// The text a suggestion or prefix is matched on: lower-case words separated by single spaces
+export function normalizeSuggestionText(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+// Higher counts first, then shorter text, so "Headphones" comes before "Headphones Stand"
+function compareSuggestions(a: Suggestion, b: Suggestion): number {
+  return (b.count || 0) - (a.count || 0) || a.text.length - b.text.length || a.text.localeCompare(b.text);
+}
+
+function insert(trie: SuggestionTrie, key: string, suggestionIndex: number): void {
+  const suggestion = trie.suggestions[suggestionIndex];
+  let node = trie.root;
+  for (const char of key) {
+    if (!Object.prototype.hasOwnProperty.call(node.children, char)) {
+      node.children[char] = createNode();
+    }
+    node = node.children[char];
+
+    const top = node.top[suggestion.type];
+    if (top.includes(suggestionIndex)) continue;
+    const position = top.findIndex(index => compareSuggestions(suggestion, trie.suggestions[index]) < 0);
+    if (position === -1) {
+      if (top.length < MAX_SUGGESTIONS_PER_TYPE) top.push(suggestionIndex);
+    } else {
+      top.splice(position, 0, suggestionIndex);
+      top.length = Math.min(top.length, MAX_SUGGESTIONS_PER_TYPE);
+    }
+  }
+}
+
+// Add a suggestion under its full text and from the start of each later word, so "hea" finds "Wireless Headphones"
+function addSuggestion(trie: SuggestionTrie, suggestion: Suggestion): void {
+  const words = normalizeSuggestionText(suggestion.text).split(' ').filter(Boolean);
+  if (words.length === 0) return;
+
+  trie.suggestions.push(suggestion);
+  const index = trie.suggestions.length - 1;
+  const keys = new Set(words.map((_, i) => words.slice(i).join(' ')));
+  keys.forEach(key => insert(trie, key, index));
+}
+
+export function buildSuggestionTrie(
+  documents: Record<string, SearchDocument>,
+  popularQueries: Record<string, number>
+): SuggestionTrie {
+  const trie: SuggestionTrie = { suggestions: [], root: createNode() };
+
+  const categoryCounts = new Map<string, number>();
+  for (const document of Object.values(documents)) {
+    addSuggestion(trie, { type: 'product', text: document.productName, productId: document.id });
+
+    // Count each level of the path, so "Electronics" covers "Electronics > Audio"
+    const parts = (document.categoryPath || document.category || '').split('>').map(part => part.trim()).filter(Boolean);
+    parts.forEach((_, i) => {
+      const path = parts.slice(0, i + 1).join(' > ');
+      categoryCounts.set(path, (categoryCounts.get(path) || 0) + 1);
+    });
+  }
+
+  categoryCounts.forEach((count, path) => addSuggestion(trie, { type: 'category', text: path, count }));
+
+  Object.entries(popularQueries)
+    .filter(([, count]) => count >= MIN_POPULAR_QUERY_COUNT)
+    .forEach(([query, count]) => addSuggestion(trie, { type: 'query', text: query, count }));
+
+  return trie;
+}
+
+export function getSuggestions(trie: SuggestionTrie, prefix: string, limit = MAX_SUGGESTIONS_PER_TYPE): SearchSuggestions {
+  const key = normalizeSuggestionText(prefix);
+  let node: TrieNode | undefined = key ? trie.root : undefined;
+  for (const char of key) {
+    node = Object.prototype.hasOwnProperty.call(node!.children, char) ? node!.children[char] : undefined;
+    if (!node) break;
+  }
+
+  const pick = (type: SuggestionType) => (node ? node.top[type].slice(0, limit).map(index => trie.suggestions[index]) : []);
+  return { products: pick('product'), categories: pick('category'), queries: pick('query') };
+}
@@ -0,0 +1,104 @@
+/**
+ * Search synonyms
+ * Admin management of groups of equivalent search terms. A query for any
+ * term in a group also matches products mentioning the others.
+ */
+
+import { getSearchSynonymsFromSupabase, saveSearchSynonymsToSupabase } from './supabase-storage';
+import { tokenize } from './search-text';
+import type { SynonymGroup } from './search-index';
+
+// Changes to the synonym list go one at a time, so concurrent edits can't
+// overwrite each other
+let synonymsChain: Promise<unknown> = Promise.resolve();
+
+function queueSynonymsChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = synonymsChain.then(change);
+  synonymsChain = result.catch(() => undefined);
+  return result;
+}
+
+// Lower-case a term and collapse its punctuation and spacing the way product text is indexed
+export function normalizeSynonymTerm(term: string): string {
+  return tokenize(term).join(' ');
+}
+
+export function validateSynonymTerms(terms: unknown): string | null {
+  if (!Array.isArray(terms) || terms.some(term => typeof term !== 'string')) {
+    return 'terms must be a list of words or phrases';
+  }
+
+  const normalized = new Set(terms.map(normalizeSynonymTerm).filter(Boolean));
+  if (normalized.size < 2) {
+    return 'A synonym group needs at least two different terms';
+  }
+  if (Array.from(normalized).some(term => term.length > 50)) {
+    return 'Synonym terms must be at most 50 characters';
+  }
+  return null;
+}
+
+function normalizeSynonymTerms(terms: string[]): string[] {
+  return Array.from(new Set(terms.map(normalizeSynonymTerm).filter(Boolean)));
+}
+
+export async function createSynonymGroup(terms: unknown): Promise<SynonymGroup> {
+  return queueSynonymsChange(async () => {
+    const validationError = validateSynonymTerms(terms);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const synonyms = await getSearchSynonymsFromSupabase();
+    const now = new Date().toISOString();
+    const group: SynonymGroup = {
+      id: `syn_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      terms: normalizeSynonymTerms(terms as string[]),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await saveSearchSynonymsToSupabase([...synonyms, group]);
+    console.log(`Synonym group created: ${group.terms.join(', ')}`);
+    return group;
+  });
+}
+
+export async function updateSynonymGroup(synonymId: string, terms: unknown): Promise<SynonymGroup> {
+  return queueSynonymsChange(async () => {
+    const synonyms = await getSearchSynonymsFromSupabase();
+    const index = synonyms.findIndex(group => group.id === synonymId);
+
+    if (index === -1) {
+      throw new Error('Synonym group not found');
+    }
+
+    const validationError = validateSynonymTerms(terms);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const updatedGroup: SynonymGroup = {
+      ...synonyms[index],
+      terms: normalizeSynonymTerms(terms as string[]),
+      updatedAt: new Date().toISOString()
+    };
+
+    synonyms[index] = updatedGroup;
+    await saveSearchSynonymsToSupabase(synonyms);
+    return updatedGroup;
+  });
+}
+
+export async function deleteSynonymGroup(synonymId: string): Promise<void> {
+  return queueSynonymsChange(async () => {
+    const synonyms = await getSearchSynonymsFromSupabase();
+    const remaining = synonyms.filter(group => group.id !== synonymId);
+
+    if (remaining.length === synonyms.length) {
+      throw new Error('Synonym group not found');
+    }
+
+    await saveSearchSynonymsToSupabase(remaining);
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Search text helpers
+ * Splitting text into words, reducing English words to a common stem so
+ * "shoes" finds "shoe", and measuring how far a misspelling is from a word.
+ */
+
+// Lower-case words, split on anything that isn't a letter or digit
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+const VOWELS = /[aeiouy]/;
+
+// Drop a doubled final consonant left by removing a suffix: "runn" -> "run"
+function undouble(word: string): string {
+  const last = word[word.length - 1];
+  return word.length > 3 && last === word[word.length - 2] && !'lsz'.includes(last) ? word.slice(0, -1) : word;
+}
+
+/**
+ * A light English stemmer
+ * Removes plural, -ing, -ed and -ly endings and a final silent e, which is
+ * enough for product text ("charging cables" and "charge cable" share stems)
+ * without the over-stemming of a full Porter stemmer.
+ */
+export function stem(word: string): string {
+  let result = word.toLowerCase();
+  if (result.length <= 3 || /\d/.test(result)) {
+    return result;
+  }
+
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (/(sh|ch|x|z)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  if (result.endsWith('ing') && VOWELS.test(result.slice(0, -3)) && result.length > 5) {
+    result = undouble(result.slice(0, -3));
+  } else if (result.endsWith('ed') && VOWELS.test(result.slice(0, -2)) && result.length > 4) {
+    result = undouble(result.slice(0, -2));
+  } else if (result.endsWith('ly') && result.length > 5) {
+    result = result.slice(0, -2);
+  }
+
+  if (result.endsWith('e') && result.length > 4) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+// Typos allowed in a query word: none for short words, where one edit changes the meaning
+export function getTypoAllowance(term: string): number {
+  if (term.length < 4 || /\d/.test(term)) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance between two words, counting a swap of neighbouring letters
+ * as one edit. Stops early and returns max + 1 once the distance is known to
+ * be larger than max.
+ */
+export function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
@@ -0,0 +1,59 @@
+/**
+ * Search tracking (browser)
+ * Reports clicks on search results to /api/search/events, and remembers
+ * which search each clicked product came from so adding it to the cart
+ * later in the session counts towards that search.
+ */
+
+import type { SearchAction } from './search-analytics';
+
+const CLICKS_STORAGE_KEY = 'search-clicks';
+// Clicked products remembered per browser tab
+const MAX_REMEMBERED_CLICKS = 20;
+
+function sendSearchEvent(searchId: string, action: SearchAction, productId: string): void {
+  const body = JSON.stringify({ searchId, action, productId });
+  // sendBeacon survives the navigation a result click starts
+  if (typeof navigator !== 'undefined' && navigator.sendBeacon?.('/api/search/events', body)) {
+    return;
+  }
+  fetch('/api/search/events', { method: 'POST', body, keepalive: true })
+    .catch(error => console.error('Error sending search event:', error));
+}
+
+function getRememberedClicks(): Record<string, string> {
+  try {
+    return JSON.parse(sessionStorage.getItem(CLICKS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveRememberedClicks(clicks: Record<string, string>): void {
+  try {
+    sessionStorage.setItem(CLICKS_STORAGE_KEY, JSON.stringify(clicks));
+  } catch {
+    // Storage may be full or disabled; tracking is best effort
+  }
+}
+
+export function trackSearchClick(searchId: string, productId: string): void {
+  sendSearchEvent(searchId, 'click', productId);
+
+  // productId -> searchId, most recent last
+  const clicks = getRememberedClicks();
+  delete clicks[productId];
+  clicks[productId] = searchId;
+  saveRememberedClicks(Object.fromEntries(Object.entries(clicks).slice(-MAX_REMEMBERED_CLICKS)));
+}
+
+// Credit an add-to-cart to the search the product was clicked from, once
+export function trackSearchAddToCart(productId: string): void {
+  const clicks = getRememberedClicks();
+  const searchId = clicks[productId];
+  if (!searchId) return;
+
+  sendSearchEvent(searchId, 'add_to_cart', productId);
+  delete clicks[productId];
+  saveRememberedClicks(clicks);
+}
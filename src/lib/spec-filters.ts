@@ -0,0 +1,144 @@
+/**
+ * Specification filters
+ * Filters on product specifications such as "Color=Black" or "Weight<2kg".
+ * Numeric values are read with their units, so "1.2 kg", "1200g" and
+ * "2.6 lbs" compare as weights and "15 inch" compares with "38 cm".
+ */
+
+export type SpecFilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface SpecFilter {
+  key: string;
+  operator: SpecFilterOperator;
+  value: string;
+}
+
+export interface SpecQuantity {
+  value: number; // In the dimension's base unit
+  dimension: string | null; // Null for plain numbers
+  factor: number; // Size of the unit it was written in, in the base unit
+}
+
+// Unit -> dimension and size in that dimension's base unit
+const UNITS: Record<string, { dimension: string; factor: number }> = {};
+
+function defineUnits(dimension: string, units: Record<string, number>): void {
+  for (const [names, factor] of Object.entries(units)) {
+    names.split(',').forEach(name => {
+      UNITS[name] = { dimension, factor };
+    });
+  }
+}
+
+defineUnits('mass', { 'mg': 0.001, 'g,gram,grams': 1, 'kg,kgs,kilogram,kilograms': 1000, 'lb,lbs,pound,pounds': 453.59237, 'oz,ounce,ounces': 28.349523 });
+defineUnits('length', { 'mm': 1, 'cm': 10, 'm,meter,meters,metre,metres': 1000, 'km': 1000000, 'in,inch,inches,",″': 25.4, 'ft,foot,feet': 304.8 });
+defineUnits('volume', { 'ml': 1, 'l,liter,liters,litre,litres': 1000 });
+defineUnits('data', { 'kb': 0.001, 'mb': 1, 'gb': 1000, 'tb': 1000000 });
+defineUnits('frequency', { 'hz': 1, 'khz': 1000, 'mhz': 1000000, 'ghz': 1000000000 });
+defineUnits('power', { 'w,watt,watts': 1, 'kw': 1000 });
+defineUnits('charge', { 'mah': 1, 'ah': 1000 });
+defineUnits('time', { 's,sec,secs,second,seconds': 1 / 60, 'min,mins,minute,minutes': 1, 'h,hr,hrs,hour,hours': 60 });
+defineUnits('voltage', { 'v,volt,volts': 1 });
+
+const FILTER_PATTERN = /^\s*([^<>=!]+?)\s*(<=|>=|!=|<|>|=)\s*(.+?)\s*$/;
+// A number not inside a word, so "Core i7" has none
+const QUANTITY_PATTERN = /(?<![a-z\d.])(-?\d+(?:\.\d+)?)\s*([a-z"″]+)?/i;
+
+/**
+ * Read the first number in a specification value, with its unit
+ * Unknown units still count as their own dimension, so "8 cores" compares
+ * with "4 cores" but not with "8 GB". Returns null if there is no number.
+ */
+export function parseSpecQuantity(text: string): SpecQuantity | null {
+  // "1,200 mAh" is a thousands separator; "1,2 kg" is a decimal comma
+  const normalized = text.replace(/(\d),(\d{3})(?!\d)/g, '$1$2').replace(/(\d),(\d)/g, '$1.$2');
+  const match = normalized.match(QUANTITY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = match[2]?.toLowerCase();
+  if (!unit) {
+    return { value, dimension: null, factor: 1 };
+  }
+  const known = UNITS[unit];
+  return known
+    ? { value: value * known.factor, dimension: known.dimension, factor: known.factor }
+    : { value, dimension: `unit:${unit}`, factor: 1 };
+}
+
+// Parse "Key=Value", "Key<2kg", "Key>=15 inch" and similar; null if it isn't a filter
+export function parseSpecFilter(expression: string): SpecFilter | null {
+  const match = expression.match(FILTER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, key, operator, value] = match;
+  // Ordering only makes sense for numbers
+  if (operator !== '=' && operator !== '!=' && !parseSpecQuantity(value)) {
+    return null;
+  }
+  return { key, operator: operator as SpecFilterOperator, value };
+}
+
+// Compare two quantities; null when their units measure different things
+function compareQuantities(a: SpecQuantity, b: SpecQuantity): number | null {
+  // A plain number is taken to be in the other value's unit
+  if (a.dimension && b.dimension && a.dimension !== b.dimension) {
+    return null;
+  }
+  const aValue = a.dimension ? a.value : a.value * b.factor;
+  const bValue = b.dimension ? b.value : b.value * a.factor;
+  const tolerance = 1e-9 * Math.max(Math.abs(aValue), Math.abs(bValue), 1);
+  return Math.abs(aValue - bValue) <= tolerance ? 0 : aValue - bValue;
+}
+
+function matchesValue(specValue: string, filter: SpecFilter): boolean {
+  if (filter.operator === '=' || filter.operator === '!=') {
+    let equal = specValue.trim().toLowerCase() === filter.value.trim().toLowerCase();
+    if (!equal) {
+      const specQuantity = parseSpecQuantity(specValue);
+      const filterQuantity = parseSpecQuantity(filter.value);
+      // Only numeric filters compare numerically, so "Black" never equals "Black 2"
+      equal = Boolean(specQuantity && filterQuantity && /^\s*-?\d/.test(filter.value) &&
+        compareQuantities(specQuantity, filterQuantity) === 0);
+    }
+    return filter.operator === '=' ? equal : !equal;
+  }
+
+  const specQuantity = parseSpecQuantity(specValue);
+  const filterQuantity = parseSpecQuantity(filter.value);
+  if (!specQuantity || !filterQuantity) {
+    return false;
+  }
+  const comparison = compareQuantities(specQuantity, filterQuantity);
+  if (comparison === null) {
+    return false;
+  }
+
+  switch (filter.operator) {
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+  }
+}
+
+/**
+ * Whether a product's specifications pass a filter
+ * Keys match case-insensitively. A product without the specification fails
+ * every filter except "!=".
+ */
+export function matchesSpecFilter(specifications: Record<string, string> | undefined, filter: SpecFilter): boolean {
+  const key = filter.key.trim().toLowerCase();
+  const values = Object.entries(specifications || {})
+    .filter(([specKey, specValue]) => specKey.trim().toLowerCase() === key && typeof specValue === 'string')
+    .map(([, specValue]) => specValue);
+
+  if (values.length === 0) {
+    return filter.operator === '!=';
+  }
+  return values.some(value => matchesValue(value, filter));
+}
@@ -0,0 +1,66 @@
+/**
+ * Product stock levels
+ * Inventory fields stored on each product and helpers to turn them into the
+ * availability shown to shoppers. Safe to import from client components.
+ */
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+export interface ProductInventory {
+  onHand: number; // Units physically in stock
+  reserved: number; // Units held by open payment tokens/checkouts
+  lowStockThreshold: number; // At or below this many available units the product is "low stock"
+  updatedAt?: string;
+}
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock' | 'untracked';
+
+export interface StockInfo {
+  status: StockStatus;
+  available: number | null; // null when the product has no inventory configured
+}
+
+// Units that can still be sold, or null for products without inventory tracking
+export function getAvailableStock(inventory?: ProductInventory | null): number | null {
+  if (!inventory) return null;
+  return Math.max(0, inventory.onHand - inventory.reserved);
+}
+
+export function getStockInfo(inventory?: ProductInventory | null): StockInfo {
+  const available = getAvailableStock(inventory);
+
+  if (available === null) {
+    return { status: 'untracked', available: null };
+  }
+  if (available <= 0) {
+    return { status: 'out_of_stock', available: 0 };
+  }
+  if (available <= (inventory?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD)) {
+    return { status: 'low_stock', available };
+  }
+  return { status: 'in_stock', available };
+}
+
+// Shopper-facing label ("Out of stock", "Only 3 left"), or null when there is nothing to warn about
+export function getStockMessage(info: StockInfo): string | null {
+  switch (info.status) {
+    case 'out_of_stock':
+      return 'Out of stock';
+    case 'low_stock':
+      return `Only ${info.available} left`;
+    default:
+      return null;
+  }
+}
+
+// Validate requested inventory values, returning an error message or null
+export function validateInventoryUpdate(update: { onHand?: unknown; lowStockThreshold?: unknown }): string | null {
+  if (update.onHand !== undefined && (!Number.isInteger(update.onHand) || (update.onHand as number) < 0)) {
+    return 'onHand must be a non-negative integer';
+  }
+  if (update.lowStockThreshold !== undefined &&
+      (!Number.isInteger(update.lowStockThreshold) || (update.lowStockThreshold as number) < 0)) {
+    return 'lowStockThreshold must be a non-negative integer';
+  }
+  return null;
+}
@@ -0,0 +1,104 @@
+/**
+ * Pluggable storage backend used by supabase-storage.ts
+ *
+ * The shop persists everything (products, carts, orders, profiles, images) as
+ * files in named buckets. Backends mirror the subset of the Supabase Storage
+ * API we use, returning `{ data, error }` results instead of throwing, so the
+ * storage functions behave the same whichever backend is active.
+ *
+ * Select a backend with STORAGE_BACKEND:
+ *   - "supabase" (default): Supabase Storage buckets
+ *   - "local": files on disk under LOCAL_STORAGE_DIR (default: ./.storage)
+ *   - "memory": in-process maps, reset on every server restart
+ */
+
+export interface StorageError {
+  name?: string;
+  message: string;
+}
+
+export interface StorageFileObject {
+  name: string;
+}
+
+export interface BucketOptions {
+  public: boolean;
+  allowedMimeTypes?: string[];
+  fileSizeLimit?: number;
+}
+
+export interface UploadOptions {
+  contentType?: string;
+  upsert?: boolean;
+}
+
+export type StorageBody = string | Blob | Buffer;
+
+export type StorageResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: StorageError };
+
+export interface StorageBackend {
+  name: 'supabase' | 'local' | 'memory';
+  getBucket(bucket: string): Promise<{ data: { name: string } | null; error: StorageError | null }>;
+  createBucket(bucket: string, options: BucketOptions): Promise<{ error: StorageError | null }>;
+  upload(bucket: string, path: string, body: StorageBody, options?: UploadOptions): Promise<{ error: StorageError | null }>;
+  download(bucket: string, path: string): Promise<StorageResult<Blob>>;
+  remove(bucket: string, paths: string[]): Promise<{ error: StorageError | null }>;
+  list(bucket: string, folder?: string): Promise<StorageResult<StorageFileObject[]>>; // Files directly in the folder (default: the bucket root)
+  getPublicUrl(bucket: string, path: string): string;
+}
+
+export type StorageBackendName = StorageBackend['name'];
+
+// Backends report a missing file (or bucket) on download with this message
+export const NOT_FOUND_MESSAGE = 'Object not found';
+
+// Whether a download failed only because there is nothing stored there yet
+export function isNotFoundError(error: StorageError | null): boolean {
+  return error?.message === NOT_FOUND_MESSAGE;
+}
+
+let activeBackend: StorageBackend | null = null;
+
+export function getConfiguredBackendName(): StorageBackendName {
+  const configured = (process.env.STORAGE_BACKEND || 'supabase').toLowerCase();
+  if (configured === 'local' || configured === 'memory' || configured === 'supabase') {
+    return configured;
+  }
+  throw new Error(`Unknown STORAGE_BACKEND "${configured}" (expected supabase, local or memory)`);
+}
+
+// Backends are imported lazily so the Supabase client is never constructed
+// (and its env vars never required) when running offline.
+async function createStorageBackend(name: StorageBackendName): Promise<StorageBackend> {
+  switch (name) {
+    case 'local': {
+      const { LocalStorageBackend } = await import('./local');
+      return new LocalStorageBackend(process.env.LOCAL_STORAGE_DIR);
+    }
+    case 'memory': {
+      const { MemoryStorageBackend } = await import('./memory');
+      return new MemoryStorageBackend();
+    }
+    default: {
+      const { SupabaseStorageBackend } = await import('./supabase');
+      return new SupabaseStorageBackend();
+    }
+  }
+}
+
+// Get the active storage backend (created on first use from STORAGE_BACKEND)
+export async function getStorageBackend(): Promise<StorageBackend> {
+  if (!activeBackend) {
+    activeBackend = await createStorageBackend(getConfiguredBackendName());
+    console.log(`Using ${activeBackend.name} storage backend`);
+  }
+  return activeBackend;
+}
+
+// Override the active backend (e.g. a fresh MemoryStorageBackend per test run)
+export function setStorageBackend(backend: StorageBackend | null): void {
+  activeBackend = backend;
+}
+
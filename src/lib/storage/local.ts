@@ -0,0 +1,115 @@
+import { NOT_FOUND_MESSAGE } from './index';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { join, resolve, sep, dirname, extname } from 'path';
+import type { StorageBackend, StorageBody, UploadOptions, StorageResult, StorageFileObject } from './index';
+import { toStoredFile, publicStorageUrl } from './utils';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// Filesystem backend: each bucket is a directory under the storage root
+export class LocalStorageBackend implements StorageBackend {
+  name = 'local' as const;
+  private root: string;
+
+  constructor(rootDir?: string) {
+    this.root = resolve(rootDir || join(process.cwd(), '.storage'));
+  }
+
+  // Resolve a bucket/path pair, refusing anything that escapes the bucket
+  private resolvePath(bucket: string, path = ''): string {
+    const bucketDir = resolve(this.root, bucket);
+    const target = resolve(bucketDir, path);
+    if (!bucketDir.startsWith(this.root + sep) || (target !== bucketDir && !target.startsWith(bucketDir + sep))) {
+      throw new Error(`Invalid storage path: ${bucket}/${path}`);
+    }
+    return target;
+  }
+
+  async getBucket(bucket: string) {
+    try {
+      const info = await stat(this.resolvePath(bucket));
+      return { data: info.isDirectory() ? { name: bucket } : null, error: null };
+    } catch {
+      return { data: null, error: { name: 'StorageError', message: 'Bucket not found' } };
+    }
+  }
+
+  async createBucket(bucket: string) {
+    try {
+      await mkdir(this.resolvePath(bucket), { recursive: true });
+      return { error: null };
+    } catch (error) {
+      return { error: { name: 'StorageError', message: error instanceof Error ? error.message : 'Failed to create bucket' } };
+    }
+  }
+
+  async upload(bucket: string, path: string, body: StorageBody, options?: UploadOptions) {
+    try {
+      const filePath = this.resolvePath(bucket, path);
+      const { data } = await toStoredFile(body, options?.contentType);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, data, { flag: options?.upsert === false ? 'wx' : 'w' });
+      return { error: null };
+    } catch (error) {
+      const exists = (error as NodeJS.ErrnoException)?.code === 'EEXIST';
+      return {
+        error: {
+          name: 'StorageError',
+          message: exists ? 'The resource already exists' : (error instanceof Error ? error.message : 'Upload failed')
+        }
+      };
+    }
+  }
+
+  async download(bucket: string, path: string): Promise<StorageResult<Blob>> {
+    try {
+      const data = await readFile(this.resolvePath(bucket, path));
+      const type = CONTENT_TYPES[extname(path).toLowerCase()] || 'application/octet-stream';
+      return { data: new Blob([new Uint8Array(data)], { type }), error: null };
+    } catch (error) {
+      const missing = (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+      return {
+        data: null,
+        error: {
+          name: 'StorageError',
+          message: missing ? NOT_FOUND_MESSAGE : (error instanceof Error ? error.message : 'Download failed')
+        }
+      };
+    }
+  }
+
+  async remove(bucket: string, paths: string[]) {
+    try {
+      for (const path of paths) {
+        await rm(this.resolvePath(bucket, path), { force: true });
+      }
+      return { error: null };
+    } catch (error) {
+      return { error: { name: 'StorageError', message: error instanceof Error ? error.message : 'Remove failed' } };
+    }
+  }
+
+  async list(bucket: string, folder?: string): Promise<StorageResult<StorageFileObject[]>> {
+    try {
+      const entries = await readdir(this.resolvePath(bucket, folder), { withFileTypes: true });
+      return {
+        data: entries.filter(entry => entry.isFile()).map(entry => ({ name: entry.name })),
+        error: null
+      };
+    } catch {
+      // Buckets and folders are created on first write, so a missing directory is just empty
+      return { data: [], error: null };
+    }
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    return publicStorageUrl(bucket, path);
+  }
+}
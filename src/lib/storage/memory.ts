@@ -0,0 +1,65 @@
+import { NOT_FOUND_MESSAGE } from './index';
+import type { StorageBackend, StorageBody, UploadOptions, StorageResult, StorageFileObject } from './index';
+import { toStoredFile, StoredFile, publicStorageUrl } from './utils';
+
+// In-memory backend for offline development and tests. Buckets are created on
+// first write, so no setup is needed; everything is lost on restart.
+export class MemoryStorageBackend implements StorageBackend {
+  name = 'memory' as const;
+  private buckets = new Map<string, Map<string, StoredFile>>();
+
+  private bucketFiles(bucket: string): Map<string, StoredFile> {
+    let files = this.buckets.get(bucket);
+    if (!files) {
+      files = new Map();
+      this.buckets.set(bucket, files);
+    }
+    return files;
+  }
+
+  async getBucket(bucket: string) {
+    return { data: this.buckets.has(bucket) ? { name: bucket } : null, error: null };
+  }
+
+  async createBucket(bucket: string) {
+    this.bucketFiles(bucket);
+    return { error: null };
+  }
+
+  async upload(bucket: string, path: string, body: StorageBody, options?: UploadOptions) {
+    const files = this.bucketFiles(bucket);
+    if (files.has(path) && options?.upsert === false) {
+      return { error: { name: 'StorageError', message: 'The resource already exists' } };
+    }
+    files.set(path, await toStoredFile(body, options?.contentType));
+    return { error: null };
+  }
+
+  async download(bucket: string, path: string): Promise<StorageResult<Blob>> {
+    const file = this.buckets.get(bucket)?.get(path);
+    if (!file) {
+      return { data: null, error: { name: 'StorageError', message: NOT_FOUND_MESSAGE } };
+    }
+    return { data: new Blob([new Uint8Array(file.data)], { type: file.contentType }), error: null };
+  }
+
+  async remove(bucket: string, paths: string[]) {
+    const files = this.buckets.get(bucket);
+    paths.forEach(path => files?.delete(path));
+    return { error: null };
+  }
+
+  async list(bucket: string, folder?: string): Promise<StorageResult<StorageFileObject[]>> {
+    const files = this.buckets.get(bucket);
+    const prefix = folder ? `${folder.replace(/\/$/, '')}/` : '';
+    // Only files directly in the folder, like the other backends
+    const names = Array.from(files?.keys() || [])
+      .filter(path => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+      .map(path => path.slice(prefix.length));
+    return { data: names.map(name => ({ name })), error: null };
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    return publicStorageUrl(bucket, path);
+  }
+}
@@ -0,0 +1,79 @@
+import { supabase, supabaseAdmin } from '../supabase';
+import { NOT_FOUND_MESSAGE } from './index';
+import type { StorageBackend, BucketOptions, StorageBody, UploadOptions, StorageResult, StorageFileObject } from './index';
+
+const LIST_PAGE_SIZE = 1000;
+
+// Supabase Storage backend (the production default)
+export class SupabaseStorageBackend implements StorageBackend {
+  name = 'supabase' as const;
+
+  async getBucket(bucket: string) {
+    const { data, error } = await supabaseAdmin.storage.getBucket(bucket);
+    return { data: data ? { name: data.name } : null, error };
+  }
+
+  async createBucket(bucket: string, options: BucketOptions) {
+    const { error } = await supabaseAdmin.storage.createBucket(bucket, options);
+    return { error };
+  }
+
+  async upload(bucket: string, path: string, body: StorageBody, options?: UploadOptions) {
+    const { error } = await supabaseAdmin.storage
+      .from(bucket)
+      .upload(path, body, options);
+    return { error };
+  }
+
+  async download(bucket: string, path: string): Promise<StorageResult<Blob>> {
+    // Use supabaseAdmin for consistent permissions
+    const { data, error } = await supabaseAdmin.storage
+      .from(bucket)
+      .download(path);
+
+    if (error) {
+      // Missing files and buckets come back as the HTTP response (400 or 404);
+      // report them like the other backends so callers can tell them from failures
+      const { originalError } = error as { originalError?: { status?: number } };
+      if (originalError?.status === 404 || originalError?.status === 400) {
+        return { data: null, error: { name: 'StorageError', message: NOT_FOUND_MESSAGE } };
+      }
+      return { data: null, error };
+    }
+    return { data, error: null };
+  }
+
+  async remove(bucket: string, paths: string[]) {
+    const { error } = await supabaseAdmin.storage
+      .from(bucket)
+      .remove(paths);
+    return { error };
+  }
+
+  // Supabase returns at most one page of objects per call, so keep asking until a short page
+  async list(bucket: string, folder?: string): Promise<StorageResult<StorageFileObject[]>> {
+    const files: StorageFileObject[] = [];
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin.storage
+        .from(bucket)
+        .list(folder, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      files.push(...data);
+      if (data.length < LIST_PAGE_SIZE) {
+        return { data: files, error: null };
+      }
+    }
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    const { data: { publicUrl } } = supabase.storage
+      .from(bucket)
+      .getPublicUrl(path);
+    return publicUrl;
+  }
+}
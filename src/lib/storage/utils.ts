@@ -0,0 +1,26 @@
+import type { StorageBody } from './index';
+
+export interface StoredFile {
+  data: Buffer;
+  contentType: string;
+}
+
+// Normalize an upload body into raw bytes plus a content type
+export async function toStoredFile(body: StorageBody, contentType?: string): Promise<StoredFile> {
+  if (typeof body === 'string') {
+    return { data: Buffer.from(body, 'utf-8'), contentType: contentType || 'text/plain' };
+  }
+  if (Buffer.isBuffer(body)) {
+    return { data: body, contentType: contentType || 'application/octet-stream' };
+  }
+  return {
+    data: Buffer.from(await body.arrayBuffer()),
+    contentType: contentType || body.type || 'application/octet-stream'
+  };
+}
+
+// Public URL served by /api/storage for backends without their own CDN
+export function publicStorageUrl(bucket: string, path: string): string {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  return `/api/storage/${encodeURIComponent(bucket)}/${encodedPath}`;
+}
@@ -1,14 +1,44 @@
-import { supabase, supabaseAdmin } from './supabase';
-
-// Re-export for use in other modules
-export { supabaseAdmin };
+import { getStorageBackend, isNotFoundError, type StorageError } from './storage';
+import {
+  OrderStatus,
+  OrderStatusHistoryEntry,
+  applyOrderStatusTransition,
+  createOrderStatusHistoryEntry
+} from './order-status';
+import { ProductInventory } from './stock-status';
+import { getCartItemKey, ProductVariant, ProductVariantAxis, VariantSelection } from './product-variants';
+import { AppliedDiscount, Promotion } from './promotion-rules';
+import type { MerchandisingRule } from './merchandising-rules';
+import type { ProductImportJob } from './product-import-rules';
+import {
+  getChangedProductFields,
+  type ProductRevision,
+  type ProductRevisionInfo
+} from './product-revision-rules';
+import type { PriceLine } from '../../lib/ai-shopping-assistant/types';
+import type { Money } from './money';
+import type { SearchFilters } from './product-search';
+import { migrateCartItem, migrateOrderData, migrateOrderIndexItem } from './money-migration';
+import {
+  addToSearchIndex,
+  createSearchIndex,
+  ProductEmbedding,
+  removeFromSearchIndex,
+  SEARCH_INDEX_VERSION,
+  SearchIndex,
+  SynonymGroup
+} from './search-index';
+import { embeddingProvider } from './embeddings';
+import { updateProductEmbeddings } from './product-embeddings';
 
 export interface CartItem {
   id: string;
   productName: string;
-  price: number;
+  price: Money; // Unit price
   quantity: number;
   imageUrl?: string;
+  variant?: VariantSelection;
+  sku?: string;
   addedAt: string;
 }
 
@@ -30,6 +60,47 @@ export interface CategoryTree {
   level: number; // 0 for parent, 1 for subcategory
 }
 
+export interface OrderRefund {
+  refundId: string; // Stripe refund ID, or the PaymentIntent ID when an uncaptured payment was cancelled
+  type: 'refund' | 'void';
+  amount: Money;
+  items?: Array<{
+    id: string;
+    quantity: number;
+    amount: Money;
+  }>;
+  reason?: string;
+  status: string; // Stripe refund status (pending, succeeded, failed, canceled)
+  createdAt: string;
+  createdBy?: string;
+}
+
+// A customer's refund request, waiting for an admin to approve or decline it
+export interface OrderRefundRequest {
+  requestId: string;
+  items?: Array<{ id: string; quantity: number }>; // Omitted for the whole order
+  reason?: string;
+  status: 'pending' | 'approved' | 'declined';
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  refundId?: string; // The refund made when it was approved
+}
+
+// Result of reconciling an order against Stripe webhook events
+export interface OrderPaymentReconciliation {
+  status: 'matched' | 'mismatch' | 'failed' | 'disputed';
+  paymentIntentStatus: string;
+  expectedAmount: number; // In the smallest currency unit, from OrderData.totals
+  receivedAmount: number; // In the smallest currency unit, as reported by Stripe
+  issues: string[];
+  lastEventId: string;
+  lastEventType: string;
+  processedEventIds: string[];
+  updatedAt: string;
+}
+
 export interface OrderData {
   orderId: string;
   paymentIntentId: string;
@@ -50,33 +121,54 @@ export interface OrderData {
     id: string;
     productName: string;
     quantity: number;
-    price: number;
-    currency: string;
+    price: Money; // Unit price, in the order currency
+    variant?: VariantSelection;
+    sku?: string;
   }>;
   totals: {
-    subtotal: number;
-    shipping: number;
-    tax: number;
-    total: number;
+    subtotal: Money;
+    discount?: Money; // Taken off the subtotal by promotion codes
+    discounts?: AppliedDiscount[];
+    shipping: Money;
+    tax: Money;
+    total: Money;
+    refunded?: Money; // Total amount refunded so far
     currency: string;
+    lines?: PriceLine[]; // Itemized breakdown from the pricing service
+    exchangeRates?: Record<string, number>; // Rates to the order currency for items priced in other currencies
   };
-  status: 'confirmed' | 'processing' | 'shipped' | 'delivered';
+  refunds?: OrderRefund[];
+  refundRequests?: OrderRefundRequest[];
+  paymentReconciliation?: OrderPaymentReconciliation;
+  inventoryCommittedAt?: string; // When the ordered units were taken out of stock
+  inventoryRestockedAt?: string; // When they were put back after a cancellation
+  status: OrderStatus;
+  statusHistory?: OrderStatusHistoryEntry[];
   createdAt: string;
+  updatedAt?: string;
   userId?: string;
 }
 
 export interface OrderIndexItem {
   orderId: string;
+  paymentIntentId?: string;
   customerEmail: string;
   customerName: string;
-  total: number;
-  currency: string;
-  status: string;
+  total: Money;
+  status: OrderStatus;
   createdAt: string;
+  updatedAt?: string;
   userId?: string;
 }
 
-interface ProductData {
+// How the product photo was used when the product was generated
+export interface ProductImageAnalysis {
+  usedImage: boolean; // Whether the model saw the photo
+  inferredFields: string[]; // Fields taken from the photo, e.g. "specifications.Color", "categoryId"
+  fallbackReason?: string; // Why the photo wasn't used
+}
+
+export interface ProductData {
   productName: string;
   tagline: string;
   description: string;
@@ -102,7 +194,13 @@ interface ProductData {
     suggestedSubcategories: string[];
   };
   imageUrl?: string;
+  imageAnalysis?: ProductImageAnalysis;
+  inventory?: ProductInventory; // Absent for products without stock tracking
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
+  embedding?: ProductEmbedding; // For semantic search, refreshed whenever the product is saved
   createdAt: string;
+  updatedAt?: string; // Set when an admin edits the product
   slug: string;
 }
 
@@ -121,6 +219,34 @@ export interface ProductIndexItem {
     originalPrice?: number;
     discount?: string;
   };
+  inventory?: ProductInventory;
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
+}
+
+// A hold on stock for an open payment token or checkout
+export interface StockReservation {
+  reservationId: string; // PaymentIntent ID, or the order ID for direct checkouts
+  items: Array<{
+    productId: string;
+    quantity: number;
+    variant?: VariantSelection;
+  }>;
+  userEmail?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// One search from the storefront or the AI assistant, and what the shopper did with its results
+export interface SearchEvent {
+  id: string;
+  source: 'storefront' | 'assistant';
+  query: string;
+  filters?: SearchFilters;
+  resultCount: number;
+  createdAt: string;
+  clickedProductIds: string[];
+  addedToCartProductIds: string[];
 }
 
 // Storage bucket names
@@ -130,9 +256,13 @@ export const BUCKETS = {
   CART: 'cart',
   CATEGORIES: 'categories',
   ORDERS: 'orders',
-  PROFILES: 'profiles'
+  PROFILES: 'profiles',
+  PRIVATE: 'private' // Server-only files, such as stock reservations holding customer emails
 } as const;
 
+// Buckets whose files must never be readable through public URLs
+const PRIVATE_BUCKETS: string[] = [BUCKETS.ORDERS, BUCKETS.PROFILES, BUCKETS.PRIVATE];
+
 // ========================================
 // CART CACHING
 // ========================================
@@ -250,19 +380,28 @@ export async function refreshCartCache(sessionId: string): Promise<CartItem[]> {
 // File paths
 const FILES = {
   PRODUCTS_INDEX: 'products-index.json',
-  CATEGORIES: 'categories.json'
+  CATEGORIES: 'categories.json',
+  STOCK_RESERVATIONS: 'stock-reservations.json',
+  PROMOTIONS: 'promotions.json',
+  SEARCH_INDEX: 'search-index.json',
+  SEARCH_SYNONYMS: 'search-synonyms.json',
+  POPULAR_QUERIES: 'popular-queries.json',
+  SEARCH_EVENTS: 'search-events.json',
+  MERCHANDISING_RULES: 'merchandising-rules.json',
+  PRODUCT_IMPORT_JOBS: 'product-import-jobs.json'
 } as const;
 
 // Initialize storage buckets (call this once during setup)
 export async function initializeSupabaseBuckets() {
+  const storage = await getStorageBackend();
   const bucketsToCreate = Object.values(BUCKETS);
   
   for (const bucketName of bucketsToCreate) {
-    const { data: bucket } = await supabaseAdmin.storage.getBucket(bucketName);
+    const { data: bucket } = await storage.getBucket(bucketName);
     
     if (!bucket) {
-      const { error } = await supabaseAdmin.storage.createBucket(bucketName, {
-        public: true,
+      const { error } = await storage.createBucket(bucketName, {
+        public: !PRIVATE_BUCKETS.includes(bucketName),
         allowedMimeTypes: ['image/*', 'application/json'],
         fileSizeLimit: 10485760 // 10MB
       });
@@ -277,18 +416,14 @@ export async function initializeSupabaseBuckets() {
   
   // Initialize empty products index if it doesn't exist
   try {
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .download(FILES.PRODUCTS_INDEX);
+    const { error } = await storage.download(BUCKETS.PRODUCTS, FILES.PRODUCTS_INDEX);
     
     if (error) {
       // File doesn't exist, create empty index
-      const { error: uploadError } = await supabaseAdmin.storage
-        .from(BUCKETS.PRODUCTS)
-        .upload(FILES.PRODUCTS_INDEX, JSON.stringify([], null, 2), {
-          contentType: 'application/json',
-          upsert: false
-        });
+      const { error: uploadError } = await storage.upload(BUCKETS.PRODUCTS, FILES.PRODUCTS_INDEX, JSON.stringify([], null, 2), {
+        contentType: 'application/json',
+        upsert: false
+      });
       
       if (uploadError) {
         console.error('Failed to create empty products index:', uploadError);
@@ -304,19 +439,85 @@ export async function initializeSupabaseBuckets() {
   await initializeDefaultCategories();
 }
 
+// Private file functions
+// Upload a JSON file to the private bucket, creating the bucket on first use.
+// Without upsert, an existing file is left alone and an error returned.
+async function uploadPrivateFile(fileName: string, content: string, upsert = true): Promise<{ error: StorageError | null }> {
+  const storage = await getStorageBackend();
+  const options = { contentType: 'application/json', upsert };
+  const { error } = await storage.upload(BUCKETS.PRIVATE, fileName, content, options);
+
+  if (error && error.message.includes('Bucket not found')) {
+    const { error: createError } = await storage.createBucket(BUCKETS.PRIVATE, { public: false });
+    if (createError) {
+      return { error: createError };
+    }
+    return storage.upload(BUCKETS.PRIVATE, fileName, content, options);
+  }
+
+  return { error };
+}
+
+// Download a file from the private bucket. Files that used to be kept in the
+// public products bucket are moved over the first time they're read.
+// Returns null only when the file doesn't exist; other read failures throw.
+async function downloadPrivateFile(fileName: string): Promise<Blob | null> {
+  const storage = await getStorageBackend();
+  const { data, error: readError } = await storage.download(BUCKETS.PRIVATE, fileName);
+  if (data) {
+    return data;
+  }
+  if (readError && !isNotFoundError(readError)) {
+    throw new Error(`Failed to read ${fileName}: ${readError.message}`);
+  }
+
+  const legacy = await downloadProductsFile(fileName);
+  if (!legacy) {
+    return null;
+  }
+
+  const { error } = await uploadPrivateFile(fileName, await legacy.text());
+  if (error) {
+    console.error(`Failed to move ${fileName} to the private bucket:`, error);
+  } else {
+    await storage.remove(BUCKETS.PRODUCTS, [fileName]);
+    console.log(`Moved ${fileName} to the private bucket`);
+  }
+  return legacy;
+}
+
+// Download a file from the products bucket. Returns null only when the file
+// doesn't exist, so a failed read is never mistaken for "nothing stored yet".
+async function downloadProductsFile(fileName: string): Promise<Blob | null> {
+  const storage = await getStorageBackend();
+  const { data, error } = await storage.download(BUCKETS.PRODUCTS, fileName);
+  if (error && !isNotFoundError(error)) {
+    throw new Error(`Failed to read ${fileName}: ${error.message}`);
+  }
+  return data;
+}
+
 // Product storage functions
-export async function saveProductToSupabase(productData: ProductData): Promise<string> {
+export function createProductId(): string {
+  return `product_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Pass a product ID from createProductId to know it before the product is saved
+export async function saveProductToSupabase(
+  productData: ProductData,
+  author: string = 'system',
+  productId: string = createProductId()
+): Promise<string> {
   try {
-    const productId = `product_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const storage = await getStorageBackend();
     const fileName = `${productId}.json`;
+    await updateProductEmbeddings([productData]);
     
     // Save individual product file
-    const { error: uploadError } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .upload(fileName, JSON.stringify(productData, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const { error: uploadError } = await storage.upload(BUCKETS.PRODUCTS, fileName, JSON.stringify(productData, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
     
     if (uploadError) {
       throw new Error(`Failed to save product: ${uploadError.message}`);
@@ -324,6 +525,8 @@ export async function saveProductToSupabase(productData: ProductData): Promise<s
 
     // Update products index
     await updateProductsIndex(productId, productData);
+    await updateSearchIndexForProduct(productId, productData);
+    await recordProductRevision(productId, productData, { author, source: 'create' });
     
     console.log(`Product ${productId} saved successfully to Supabase`);
     return productId;
@@ -335,12 +538,10 @@ export async function saveProductToSupabase(productData: ProductData): Promise<s
 
 export async function getProductFromSupabase(productId: string): Promise<ProductData | null> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${productId}.json`;
     
-    // Use supabaseAdmin for consistent permissions
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .download(fileName);
+    const { data, error } = await storage.download(BUCKETS.PRODUCTS, fileName);
     
     if (error || !data) {
       console.error('Error fetching product:', error);
@@ -357,9 +558,8 @@ export async function getProductFromSupabase(productId: string): Promise<Product
 
 export async function getProductsFromSupabase(): Promise<ProductIndexItem[]> {
   try {
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .download(FILES.PRODUCTS_INDEX);
+    const storage = await getStorageBackend();
+    const { data, error } = await storage.download(BUCKETS.PRODUCTS, FILES.PRODUCTS_INDEX);
     
     if (error || !data) {
       console.error('Error fetching products index:', error);
@@ -376,48 +576,485 @@ export async function getProductsFromSupabase(): Promise<ProductIndexItem[]> {
   }
 }
 
+// Changes to the shared products index go one at a time, so concurrent saves
+// in this process don't overwrite each other's entries
+let productsIndexChain: Promise<unknown> = Promise.resolve();
+
+function queueProductsIndexChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = productsIndexChain.then(change);
+  productsIndexChain = result.catch(() => undefined);
+  return result;
+}
+
+// Read, change and save the products index; only call from inside queueProductsIndexChange
+async function modifyProductsIndex(change: (products: ProductIndexItem[]) => ProductIndexItem[]) {
+  const storage = await getStorageBackend();
+  const updatedProducts = change(await getProductsFromSupabase());
+
+  const { error } = await storage.upload(BUCKETS.PRODUCTS, FILES.PRODUCTS_INDEX, JSON.stringify(updatedProducts, null, 2), {
+    contentType: 'application/json',
+    upsert: true
+  });
+
+  if (error) {
+    throw new Error(`Failed to update products index: ${error.message}`);
+  }
+}
+
+function toProductIndexItem(productId: string, productData: ProductData): ProductIndexItem {
+  return {
+    id: productId,
+    productName: productData.productName,
+    slug: productData.slug,
+    category: productData.category,
+    categoryId: productData.categoryId,
+    categoryPath: productData.categoryPath,
+    createdAt: productData.createdAt,
+    imageUrl: productData.imageUrl || '',
+    pricing: productData.pricing,
+    ...(productData.inventory && { inventory: productData.inventory }),
+    ...(productData.variants && productData.variants.length > 0 && {
+      variantAxes: productData.variantAxes,
+      variants: productData.variants
+    })
+  };
+}
+
 async function updateProductsIndex(productId: string, productData: ProductData) {
   try {
-    // Get existing index
-    const existingProducts = await getProductsFromSupabase();
-    
-    // Create index item
-    const indexItem: ProductIndexItem = {
-      id: productId,
-      productName: productData.productName,
-      slug: productData.slug,
-      category: productData.category,
-      categoryId: productData.categoryId,
-      categoryPath: productData.categoryPath,
-      createdAt: productData.createdAt,
-      imageUrl: productData.imageUrl || '',
-      pricing: productData.pricing
+    await queueProductsIndexChange(() => modifyProductsIndex(products => [
+      ...products.filter(p => p.id !== productId),
+      toProductIndexItem(productId, productData)
+    ]));
+  } catch (error) {
+    console.error('Error updating products index:', error);
+    throw error;
+  }
+}
+
+// Overwrite an existing product file and refresh its index entry, keeping a revision
+async function updateExistingProduct(productId: string, productData: ProductData, revision: ProductRevisionInfo): Promise<void> {
+  const storage = await getStorageBackend();
+  // Products saved before history was kept get their current copy as the first revision
+  if ((await listProductRevisionNumbers(productId)).length === 0) {
+    const previous = await getProductFromSupabase(productId);
+    if (previous) {
+      await recordProductRevision(productId, previous, { author: 'system', source: 'baseline' });
+    }
+  }
+
+  await updateProductEmbeddings([productData]);
+
+  const savedProduct = await queueProductsIndexChange(async () => {
+    // Checkouts may have changed stock since the caller read the product, so keep
+    // the stored counts; a variants save sets on-hand stock but never reserved units
+    const stored = await getProductFromSupabase(productId);
+    const storedVariantStock = new Map((stored?.variants || []).map(variant => [variant.sku, variant.inventory]));
+    const product: ProductData = {
+      ...productData,
+      ...(stored?.inventory && { inventory: stored.inventory }),
+      ...(productData.variants && {
+        variants: productData.variants.map(variant => {
+          const storedInventory = storedVariantStock.get(variant.sku);
+          if (!storedInventory || !variant.inventory) return variant;
+          return {
+            ...variant,
+            inventory: revision.source === 'variants' ? { ...variant.inventory, reserved: storedInventory.reserved } : storedInventory
+          };
+        })
+      })
     };
-    
-    // Update or add to index
-    const updatedProducts = existingProducts.filter(p => p.id !== productId);
-    updatedProducts.push(indexItem);
-    
-    // Save updated index
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .upload(FILES.PRODUCTS_INDEX, JSON.stringify(updatedProducts, null, 2), {
+
+    const { error } = await storage.upload(BUCKETS.PRODUCTS, `${productId}.json`, JSON.stringify(product, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
+
+    if (error) {
+      throw new Error(`Failed to save product: ${error.message}`);
+    }
+
+    // Keep the index copy in sync so listings can show availability and variants
+    await modifyProductsIndex(products => [
+      ...products.filter(p => p.id !== productId),
+      toProductIndexItem(productId, product)
+    ]);
+    return product;
+  });
+
+  await updateSearchIndexForProduct(productId, savedProduct);
+  await recordProductRevision(productId, savedProduct, revision);
+}
+
+// Inventory storage functions
+// Stock changes with every checkout, so this only rewrites the product file and
+// its index entry: no embedding refresh, search index update or revision.
+// `update` gets the stored inventory, read after any earlier stock change finished.
+// Pass a variant SKU to update that variant's stock instead of the product's
+export async function updateProductInventoryInSupabase(
+  productId: string,
+  update: (inventory: ProductInventory | undefined) => ProductInventory,
+  variantSku?: string
+): Promise<ProductData> {
+  try {
+    return await queueProductsIndexChange(async () => {
+      const storage = await getStorageBackend();
+      const productData = await getProductFromSupabase(productId);
+
+      if (!productData) {
+        throw new Error('Product not found');
+      }
+
+      let updatedProduct: ProductData;
+
+      if (variantSku) {
+        const variant = productData.variants?.find(v => v.sku === variantSku);
+        if (!variant) {
+          throw new Error(`Variant ${variantSku} not found`);
+        }
+        const updatedInventory = { ...update(variant.inventory), updatedAt: new Date().toISOString() };
+        updatedProduct = {
+          ...productData,
+          variants: productData.variants!.map(v => v.sku === variantSku ? { ...v, inventory: updatedInventory } : v)
+        };
+      } else {
+        updatedProduct = {
+          ...productData,
+          inventory: { ...update(productData.inventory), updatedAt: new Date().toISOString() }
+        };
+      }
+
+      const { error } = await storage.upload(BUCKETS.PRODUCTS, `${productId}.json`, JSON.stringify(updatedProduct, null, 2), {
         contentType: 'application/json',
         upsert: true
       });
-    
-    if (error) {
-      throw new Error(`Failed to update products index: ${error.message}`);
+
+      if (error) {
+        throw new Error(`Failed to save product: ${error.message}`);
+      }
+
+      await modifyProductsIndex(products => products.map(product =>
+        product.id === productId ? toProductIndexItem(productId, updatedProduct) : product
+      ));
+      return updatedProduct;
+    });
+  } catch (error) {
+    console.error('Error updating product inventory:', error);
+    throw error;
+  }
+}
+
+// Variant storage functions
+export async function updateProductVariantsInSupabase(
+  productId: string,
+  variantAxes: ProductVariantAxis[],
+  variants: ProductVariant[],
+  author: string = 'system'
+): Promise<ProductData> {
+  try {
+    const productData = await getProductFromSupabase(productId);
+
+    if (!productData) {
+      throw new Error('Product not found');
     }
+
+    const updatedProduct: ProductData = { ...productData, variantAxes, variants };
+    await updateExistingProduct(productId, updatedProduct, { author, source: 'variants' });
+
+    console.log(`Product ${productId} now has ${variants.length} variant(s)`);
+    return updatedProduct;
   } catch (error) {
-    console.error('Error updating products index:', error);
+    console.error('Error updating product variants:', error);
+    throw error;
+  }
+}
+
+// Product detail storage functions
+export async function updateProductInSupabase(
+  productId: string,
+  updates: Partial<ProductData>,
+  revision: ProductRevisionInfo = { author: 'system', source: 'edit' }
+): Promise<ProductData> {
+  try {
+    const productData = await getProductFromSupabase(productId);
+
+    if (!productData) {
+      throw new Error('Product not found');
+    }
+
+    const updatedProduct: ProductData = { ...productData, ...updates, updatedAt: new Date().toISOString() };
+    await updateExistingProduct(productId, updatedProduct, revision);
+
+    console.log(`Product ${productId} updated`);
+    return updatedProduct;
+  } catch (error) {
+    console.error('Error updating product:', error);
     throw error;
   }
 }
 
+// Product revision functions
+// Each revision is its own file in the private bucket, written once and never
+// replaced: revisions/<productId>/<number>.json
+const MAX_REVISION_WRITE_ATTEMPTS = 5;
+
+const productRevisionFolder = (productId: string) => `revisions/${productId}`;
+const productRevisionFile = (productId: string, revisionNumber: number) =>
+  `${productRevisionFolder(productId)}/${String(revisionNumber).padStart(6, '0')}.json`;
+
+// Oldest first
+async function listProductRevisionNumbers(productId: string): Promise<number[]> {
+  const storage = await getStorageBackend();
+  const { data, error } = await storage.list(BUCKETS.PRIVATE, productRevisionFolder(productId));
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data
+    .map(file => parseInt(file.name, 10))
+    .filter(revisionNumber => Number.isInteger(revisionNumber))
+    .sort((a, b) => a - b);
+}
+
+async function getProductRevisionFromSupabase(productId: string, revisionNumber: number): Promise<ProductRevision | null> {
+  try {
+    const storage = await getStorageBackend();
+    const { data, error } = await storage.download(BUCKETS.PRIVATE, productRevisionFile(productId, revisionNumber));
+
+    if (error || !data) {
+      return null;
+    }
+
+    const text = await data.text();
+    return JSON.parse(text);
+  } catch (error) {
+    console.error(`Error fetching revision ${revisionNumber} of product ${productId}:`, error);
+    return null;
+  }
+}
+
+// Oldest first; empty for products not saved since history was kept
+export async function getProductRevisionsFromSupabase(productId: string): Promise<ProductRevision[]> {
+  const revisionNumbers = await listProductRevisionNumbers(productId);
+  const revisions = await Promise.all(
+    revisionNumbers.map(revisionNumber => getProductRevisionFromSupabase(productId, revisionNumber))
+  );
+  return revisions.filter((revision): revision is ProductRevision => revision !== null);
+}
+
+export async function deleteProductRevisionsFromSupabase(productId: string): Promise<void> {
+  const storage = await getStorageBackend();
+  const revisionNumbers = await listProductRevisionNumbers(productId);
+  if (revisionNumbers.length === 0) return;
+
+  const { error } = await storage.remove(
+    BUCKETS.PRIVATE,
+    revisionNumbers.map(revisionNumber => productRevisionFile(productId, revisionNumber))
+  );
+
+  if (error) {
+    throw new Error(`Failed to delete product revisions: ${error.message}`);
+  }
+}
+
+// Add a copy of the product as saved. When another save takes the next number
+// first, the copy is compared with that revision instead and numbered after it.
+async function recordProductRevision(productId: string, productData: ProductData, info: ProductRevisionInfo): Promise<void> {
+  // The embedding is derived from the other fields and large
+  const product = { ...productData };
+  delete product.embedding;
+
+  for (let attempt = 1; ; attempt++) {
+    const revisionNumbers = await listProductRevisionNumbers(productId);
+    const lastNumber = revisionNumbers[revisionNumbers.length - 1];
+    const previous = lastNumber ? await getProductRevisionFromSupabase(productId, lastNumber) : null;
+    const revision: ProductRevision = {
+      id: `rev_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      productId,
+      number: (lastNumber || 0) + 1,
+      ...info,
+      createdAt: new Date().toISOString(),
+      changedFields: getChangedProductFields(previous?.product || null, product),
+      product
+    };
+
+    const { error } = await uploadPrivateFile(
+      productRevisionFile(productId, revision.number),
+      JSON.stringify(revision, null, 2),
+      false
+    );
+    if (!error) return;
+
+    if (!error.message.includes('already exists') || attempt >= MAX_REVISION_WRITE_ATTEMPTS) {
+      throw new Error(`Failed to save product revision: ${error.message}`);
+    }
+  }
+}
+
+export async function getStockReservationsFromSupabase(): Promise<StockReservation[]> {
+  const data = await downloadPrivateFile(FILES.STOCK_RESERVATIONS);
+
+  if (!data) {
+    // No reservations have been made yet
+    return [];
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function saveStockReservationsToSupabase(reservations: StockReservation[]): Promise<void> {
+  const { error } = await uploadPrivateFile(FILES.STOCK_RESERVATIONS, JSON.stringify(reservations, null, 2));
+
+  if (error) {
+    throw new Error(`Failed to save stock reservations: ${error.message}`);
+  }
+}
+
+// Promotion functions
+export async function getPromotionsFromSupabase(): Promise<Promotion[]> {
+  const data = await downloadPrivateFile(FILES.PROMOTIONS);
+
+  if (!data) {
+    // No promotions have been created yet
+    return [];
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function savePromotionsToSupabase(promotions: Promotion[]): Promise<void> {
+  const { error } = await uploadPrivateFile(FILES.PROMOTIONS, JSON.stringify(promotions, null, 2));
+
+  if (error) {
+    throw new Error(`Failed to save promotions: ${error.message}`);
+  }
+}
+
+// Search synonym functions
+export async function getSearchSynonymsFromSupabase(): Promise<SynonymGroup[]> {
+  const data = await downloadProductsFile(FILES.SEARCH_SYNONYMS);
+
+  if (!data) {
+    // No synonyms have been defined yet
+    return [];
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function saveSearchSynonymsToSupabase(synonyms: SynonymGroup[]): Promise<void> {
+  const storage = await getStorageBackend();
+  const { error } = await storage.upload(BUCKETS.PRODUCTS, FILES.SEARCH_SYNONYMS, JSON.stringify(synonyms, null, 2), {
+    contentType: 'application/json',
+    upsert: true
+  });
+
+  if (error) {
+    throw new Error(`Failed to save search synonyms: ${error.message}`);
+  }
+}
+
+// Popular search query functions
+// Normalized query -> times searched
+export async function getPopularQueriesFromSupabase(): Promise<Record<string, number>> {
+  const data = await downloadProductsFile(FILES.POPULAR_QUERIES);
+
+  if (!data) {
+    // Nothing has been searched yet
+    return {};
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function savePopularQueriesToSupabase(queries: Record<string, number>): Promise<void> {
+  const storage = await getStorageBackend();
+  const { error } = await storage.upload(BUCKETS.PRODUCTS, FILES.POPULAR_QUERIES, JSON.stringify(queries), {
+    contentType: 'application/json',
+    upsert: true
+  });
+
+  if (error) {
+    throw new Error(`Failed to save popular queries: ${error.message}`);
+  }
+}
+
+// Merchandising rule functions
+export async function getMerchandisingRulesFromSupabase(): Promise<MerchandisingRule[]> {
+  const data = await downloadProductsFile(FILES.MERCHANDISING_RULES);
+
+  if (!data) {
+    // No rules have been created yet
+    return [];
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function saveMerchandisingRulesToSupabase(rules: MerchandisingRule[]): Promise<void> {
+  const storage = await getStorageBackend();
+  const { error } = await storage.upload(BUCKETS.PRODUCTS, FILES.MERCHANDISING_RULES, JSON.stringify(rules, null, 2), {
+    contentType: 'application/json',
+    upsert: true
+  });
+
+  if (error) {
+    throw new Error(`Failed to save merchandising rules: ${error.message}`);
+  }
+}
+
+// Product import job functions
+export async function getProductImportJobsFromSupabase(): Promise<ProductImportJob[]> {
+  const data = await downloadPrivateFile(FILES.PRODUCT_IMPORT_JOBS);
+
+  if (!data) {
+    // No imports have been run yet
+    return [];
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function saveProductImportJobsToSupabase(jobs: ProductImportJob[]): Promise<void> {
+  const { error } = await uploadPrivateFile(FILES.PRODUCT_IMPORT_JOBS, JSON.stringify(jobs, null, 2));
+
+  if (error) {
+    throw new Error(`Failed to save product import jobs: ${error.message}`);
+  }
+}
+
+// Search analytics functions
+export async function getSearchEventsFromSupabase(): Promise<SearchEvent[]> {
+  const data = await downloadPrivateFile(FILES.SEARCH_EVENTS);
+
+  if (!data) {
+    // Nothing has been recorded yet
+    return [];
+  }
+
+  const text = await data.text();
+  return JSON.parse(text);
+}
+
+export async function saveSearchEventsToSupabase(events: SearchEvent[]): Promise<void> {
+  const { error } = await uploadPrivateFile(FILES.SEARCH_EVENTS, JSON.stringify(events));
+
+  if (error) {
+    throw new Error(`Failed to save search events: ${error.message}`);
+  }
+}
+
 // Delete product functions
 export async function deleteProductFromSupabase(productId: string): Promise<void> {
   try {
+    const storage = await getStorageBackend();
     console.log(`Starting deletion of product ${productId}...`);
     const startTime = Date.now();
     
@@ -426,9 +1063,7 @@ export async function deleteProductFromSupabase(productId: string): Promise<void
     // Delete the individual product file
     console.log(`Deleting product file ${fileName}...`);
     const deleteStart = Date.now();
-    const { error: deleteError } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .remove([fileName]);
+    const { error: deleteError } = await storage.remove(BUCKETS.PRODUCTS, [fileName]);
     console.log(`Product file deletion took ${Date.now() - deleteStart}ms`);
     
     if (deleteError) {
@@ -439,6 +1074,8 @@ export async function deleteProductFromSupabase(productId: string): Promise<void
     console.log(`Updating products index...`);
     const indexStart = Date.now();
     await removeFromProductsIndex(productId);
+    await updateSearchIndexForProduct(productId, null);
+    await deleteProductRevisionsFromSupabase(productId);
     console.log(`Index update took ${Date.now() - indexStart}ms`);
     
     const totalTime = Date.now() - startTime;
@@ -451,33 +1088,151 @@ export async function deleteProductFromSupabase(productId: string): Promise<void
 
 async function removeFromProductsIndex(productId: string) {
   try {
-    // Get existing index
-    console.log(`Fetching existing products index...`);
-    const fetchStart = Date.now();
-    const existingProducts = await getProductsFromSupabase();
-    console.log(`Fetching index took ${Date.now() - fetchStart}ms (${existingProducts.length} products)`);
-    
-    // Remove the product from index
-    const updatedProducts = existingProducts.filter(p => p.id !== productId);
-    console.log(`Filtered ${existingProducts.length} -> ${updatedProducts.length} products`);
-    
-    // Save updated index
-    console.log(`Uploading updated index...`);
-    const uploadStart = Date.now();
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.PRODUCTS)
-      .upload(FILES.PRODUCTS_INDEX, JSON.stringify(updatedProducts, null, 2), {
+    await queueProductsIndexChange(() => modifyProductsIndex(products => {
+      const updatedProducts = products.filter(p => p.id !== productId);
+      console.log(`Filtered ${products.length} -> ${updatedProducts.length} products`);
+      return updatedProducts;
+    }));
+  } catch (error) {
+    console.error('Error removing from products index:', error);
+    throw error;
+  }
+}
+
+// ========================================
+// SEARCH INDEX
+// ========================================
+
+// Searches in the same process reuse the index for a short while
+let searchIndexCache: { index: SearchIndex; loadedAt: number } | null = null;
+const SEARCH_INDEX_CACHE_TTL = 30 * 1000; // 30 seconds
+// Set when a product change couldn't be written to the index; the next search rebuilds it
+let searchIndexStale = false;
+
+// Changes to the search index go one at a time, like the products index
+let searchIndexChain: Promise<unknown> = Promise.resolve();
+
+function queueSearchIndexChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = searchIndexChain.then(change);
+  searchIndexChain = result.catch(() => undefined);
+  return result;
+}
+
+async function saveSearchIndexToSupabase(index: SearchIndex): Promise<void> {
+  const storage = await getStorageBackend();
+  const { error } = await storage.upload(BUCKETS.PRODUCTS, FILES.SEARCH_INDEX, JSON.stringify(index), {
+    contentType: 'application/json',
+    upsert: true
+  });
+
+  if (error) {
+    throw new Error(`Failed to save search index: ${error.message}`);
+  }
+  searchIndexCache = { index, loadedAt: Date.now() };
+}
+
+// Build the search index from every product in the catalog and save it
+// Products without a current embedding are embedded and saved on the way
+export async function rebuildSearchIndexInSupabase(): Promise<SearchIndex> {
+  return queueSearchIndexChange(buildSearchIndex);
+}
+
+// Only call from inside queueSearchIndexChange
+async function buildSearchIndex(): Promise<SearchIndex> {
+  console.log('Rebuilding search index...');
+  const startTime = Date.now();
+  const storage = await getStorageBackend();
+  const index = createSearchIndex(embeddingProvider.model);
+  const products = await getProductsFromSupabase();
+
+  const loaded: Array<{ id: string; product: ProductData }> = [];
+  for (const productItem of products) {
+    const product = await getProductFromSupabase(productItem.id);
+    if (product) {
+      loaded.push({ id: productItem.id, product });
+    }
+  }
+
+  const embedded = new Set(await updateProductEmbeddings(loaded.map(entry => entry.product)));
+  for (const { id, product } of loaded) {
+    if (embedded.has(product)) {
+      const { error } = await storage.upload(BUCKETS.PRODUCTS, `${id}.json`, JSON.stringify(product, null, 2), {
         contentType: 'application/json',
         upsert: true
       });
-    console.log(`Uploading index took ${Date.now() - uploadStart}ms`);
-    
-    if (error) {
-      throw new Error(`Failed to update products index: ${error.message}`);
+      if (error) {
+        console.error(`Failed to save embedding for product ${id}:`, error.message);
+      }
+    }
+    addToSearchIndex(index, id, product);
+  }
+
+  await saveSearchIndexToSupabase(index);
+  searchIndexStale = false;
+  console.log(`Search index rebuilt with ${Object.keys(index.documents).length} products in ${Date.now() - startTime}ms`);
+  return index;
+}
+
+// The stored search index, rebuilt first if it is missing, stale, was built by an older version or with another embedding model
+export async function getSearchIndexFromSupabase(): Promise<SearchIndex> {
+  if (!searchIndexStale && searchIndexCache && Date.now() - searchIndexCache.loadedAt < SEARCH_INDEX_CACHE_TTL) {
+    return searchIndexCache.index;
+  }
+
+  const index = searchIndexStale ? null : await loadSearchIndex();
+  // Searches waiting on the same rebuild reuse it rather than each rebuilding
+  return index || queueSearchIndexChange(loadOrBuildSearchIndex);
+}
+
+// Only call from inside queueSearchIndexChange
+async function loadOrBuildSearchIndex(): Promise<SearchIndex> {
+  return (!searchIndexStale && await loadSearchIndex()) || buildSearchIndex();
+}
+
+// The stored search index, or null when it can't be used as is
+async function loadSearchIndex(): Promise<SearchIndex | null> {
+  try {
+    const storage = await getStorageBackend();
+    const { data, error } = await storage.download(BUCKETS.PRODUCTS, FILES.SEARCH_INDEX);
+
+    if (!error && data) {
+      const index: SearchIndex = JSON.parse(await data.text());
+      if (index.version === SEARCH_INDEX_VERSION && index.embeddingModel === embeddingProvider.model) {
+        searchIndexCache = { index, loadedAt: Date.now() };
+        return index;
+      }
     }
   } catch (error) {
-    console.error('Error removing from products index:', error);
-    throw error;
+    console.error('Error reading search index:', error);
+  }
+
+  return null;
+}
+
+// Add, replace or (with null) remove one product. A failure doesn't fail the save:
+// the index is flagged stale instead, and removed so other servers rebuild it too
+async function updateSearchIndexForProduct(productId: string, productData: ProductData | null): Promise<void> {
+  try {
+    await queueSearchIndexChange(async () => {
+      searchIndexCache = null;
+      const index = await loadOrBuildSearchIndex();
+      if (productData) {
+        addToSearchIndex(index, productId, productData);
+      } else {
+        removeFromSearchIndex(index, productId);
+      }
+      await saveSearchIndexToSupabase(index);
+    });
+  } catch (error) {
+    console.error(`Error updating search index for product ${productId}; it will be rebuilt on the next search:`, error);
+    searchIndexStale = true;
+    searchIndexCache = null;
+    try {
+      const storage = await getStorageBackend();
+      await storage.remove(BUCKETS.PRODUCTS, [FILES.SEARCH_INDEX]);
+    } catch (removeError) {
+      console.error('Error removing stale search index:', removeError);
+    }
   }
 }
 
@@ -487,24 +1242,21 @@ export async function saveImageToSupabase(
   filename: string
 ): Promise<string> {
   try {
+    const storage = await getStorageBackend();
     const timestamp = Date.now();
     const uniqueFilename = `${timestamp}-${filename}`;
     
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.IMAGES)
-      .upload(uniqueFilename, file, {
-        contentType: file instanceof File ? file.type : 'image/jpeg',
-        upsert: true
-      });
+    const { error } = await storage.upload(BUCKETS.IMAGES, uniqueFilename, file, {
+      contentType: file instanceof File ? file.type : 'image/jpeg',
+      upsert: true
+    });
     
     if (error) {
       throw new Error(`Failed to upload image: ${error.message}`);
     }
     
     // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from(BUCKETS.IMAGES)
-      .getPublicUrl(uniqueFilename);
+    const publicUrl = storage.getPublicUrl(BUCKETS.IMAGES, uniqueFilename);
     
     return publicUrl;
   } catch (error) {
@@ -513,18 +1265,41 @@ export async function saveImageToSupabase(
   }
 }
 
+// Read back an uploaded image from its public URL; null for URLs outside the images bucket
+export async function getImageFromSupabase(imageUrl: string): Promise<{ data: Buffer; contentType: string } | null> {
+  const marker = `/${BUCKETS.IMAGES}/`;
+  const markerIndex = imageUrl.indexOf(marker);
+  if (markerIndex === -1) {
+    return null;
+  }
+
+  const path = decodeURIComponent(imageUrl.slice(markerIndex + marker.length).split('?')[0]);
+  const storage = await getStorageBackend();
+  const { data, error } = await storage.download(BUCKETS.IMAGES, path);
+  if (error || !data) {
+    console.error(`Error downloading image ${path}:`, error);
+    return null;
+  }
+
+  return {
+    data: Buffer.from(await data.arrayBuffer()),
+    contentType: data.type || 'image/jpeg'
+  };
+}
+
 // Cart storage functions
 export async function saveCartToSupabase(sessionId: string, cartItems: CartItem[]): Promise<CartItem[]> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${sessionId}.json`;
     
     // First, get existing cart items
     const existingItems = await getCartFromSupabase(sessionId);
 
-    // Create a map of existing items by ID for quick lookup
+    // Create a map of existing items by product/variant key for quick lookup
     const existingItemsMap = new Map<string, CartItem>();
     existingItems.forEach(item => {
-      existingItemsMap.set(item.id, item);
+      existingItemsMap.set(getCartItemKey(item.id, item.variant), item);
     });
     
     // Merge new items with existing ones
@@ -532,7 +1307,8 @@ export async function saveCartToSupabase(sessionId: string, cartItems: CartItem[
     
     // Process new items
     cartItems.forEach(newItem => {
-      const existingItem = existingItemsMap.get(newItem.id);
+      const itemKey = getCartItemKey(newItem.id, newItem.variant);
+      const existingItem = existingItemsMap.get(itemKey);
       if (existingItem) {
         // Item exists, update quantity and use the newer addedAt timestamp
         mergedItems.push({
@@ -540,7 +1316,7 @@ export async function saveCartToSupabase(sessionId: string, cartItems: CartItem[
           quantity: newItem.quantity + existingItem.quantity, 
         });
         // Mark as processed
-        existingItemsMap.delete(newItem.id);
+        existingItemsMap.delete(itemKey);
       } else {
         // New item, add it
         mergedItems.push(newItem);
@@ -555,12 +1331,10 @@ export async function saveCartToSupabase(sessionId: string, cartItems: CartItem[
     // Sort by addedAt timestamp (newest first)
     mergedItems.sort((a, b) => new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime());
     
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.CART)
-      .upload(fileName, JSON.stringify(mergedItems, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const { error } = await storage.upload(BUCKETS.CART, fileName, JSON.stringify(mergedItems, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
 
     if (error) {
       throw new Error(`Failed to save cart: ${error.message}`);
@@ -579,6 +1353,7 @@ export async function saveCartToSupabase(sessionId: string, cartItems: CartItem[
 
 export async function getCartFromSupabase(sessionId: string): Promise<CartItem[]> {
   try {
+    const storage = await getStorageBackend();
     // Check cache first
     const cachedItems = getCachedCart(sessionId);
     if (cachedItems !== null) {
@@ -589,9 +1364,7 @@ export async function getCartFromSupabase(sessionId: string): Promise<CartItem[]
     
     const fileName = `${sessionId}.json`;
     
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.CART)
-      .download(fileName);
+    const { data, error } = await storage.download(BUCKETS.CART, fileName);
     
     if (error || !data) {
       // Cache empty cart to avoid repeated requests for non-existent carts
@@ -600,7 +1373,8 @@ export async function getCartFromSupabase(sessionId: string): Promise<CartItem[]
     }
     
     const text = await data.text();
-    const items = JSON.parse(text);
+    // Carts saved before amounts became Money are converted as they are read
+    const items = (JSON.parse(text) as unknown[]).map(migrateCartItem);
     
     // Cache the retrieved items
     setCachedCart(sessionId, items);
@@ -612,8 +1386,9 @@ export async function getCartFromSupabase(sessionId: string): Promise<CartItem[]
   }
 }
 
-export async function deleteCartFromSupabase(sessionId: string, cartItems?: {productId: string, quantity: number}[]): Promise<void> {
+export async function deleteCartFromSupabase(sessionId: string, cartItems?: {productId: string, quantity: number, variant?: VariantSelection}[]): Promise<void> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${sessionId}.json`;
     
     if (cartItems && cartItems.length > 0) {
@@ -625,10 +1400,11 @@ export async function deleteCartFromSupabase(sessionId: string, cartItems?: {pro
         return;
       }
       
-      // Create a map of items to remove for quick lookup
+      // Create a map of items to remove for quick lookup. Entries without a
+      // variant apply to every variant of the product.
       const itemsToRemoveMap = new Map<string, number>();
       cartItems.forEach(item => {
-        itemsToRemoveMap.set(item.productId, item.quantity);
+        itemsToRemoveMap.set(getCartItemKey(item.productId, item.variant), item.quantity);
       });
 
       console.log("Items to remove:", cartItems);
@@ -637,7 +1413,8 @@ export async function deleteCartFromSupabase(sessionId: string, cartItems?: {pro
       const updatedItems: CartItem[] = [];
       
       existingItems.forEach(existingItem => {
-        const quantityToRemove = itemsToRemoveMap.get(existingItem.id);
+        const quantityToRemove = itemsToRemoveMap.get(getCartItemKey(existingItem.id, existingItem.variant))
+          ?? itemsToRemoveMap.get(existingItem.id);
         
         if (quantityToRemove !== undefined) {
           // Item is in removal list, subtract quantity
@@ -662,12 +1439,10 @@ export async function deleteCartFromSupabase(sessionId: string, cartItems?: {pro
       // console.log(`Updated cart for session: ${sessionId}. Items remaining: ${updatedItems.length}`);
       
       // Save updated cart
-      const { error } = await supabaseAdmin.storage
-        .from(BUCKETS.CART)
-        .upload(fileName, JSON.stringify(updatedItems, null, 2), {
-          contentType: 'application/json',
-          upsert: true
-        });
+      const { error } = await storage.upload(BUCKETS.CART, fileName, JSON.stringify(updatedItems, null, 2), {
+        contentType: 'application/json',
+        upsert: true
+      });
       
       if (error) {
         throw new Error(`Failed to update cart after removal: ${error.message}`);
@@ -681,9 +1456,7 @@ export async function deleteCartFromSupabase(sessionId: string, cartItems?: {pro
       console.log(`Selectively removed items from cart for session: ${sessionId}. Items remaining: ${updatedItems.length}`);
     } else {
       // Complete deletion: remove entire cart file
-      const { error } = await supabaseAdmin.storage
-        .from(BUCKETS.CART)
-        .remove([fileName]);
+      const { error } = await storage.remove(BUCKETS.CART, [fileName]);
       
       if (error) {
         console.error('Error deleting entire cart from Supabase:', error);
@@ -703,9 +1476,8 @@ export async function deleteCartFromSupabase(sessionId: string, cartItems?: {pro
 // Category functions
 export async function getCategoriesFromSupabase(): Promise<Category[]> {
   try {
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.CATEGORIES)
-      .download(FILES.CATEGORIES);
+    const storage = await getStorageBackend();
+    const { data, error } = await storage.download(BUCKETS.CATEGORIES, FILES.CATEGORIES);
     
     if (error || !data) {
       // Return default categories if file doesn't exist
@@ -722,12 +1494,11 @@ export async function getCategoriesFromSupabase(): Promise<Category[]> {
 
 export async function saveCategoriesToSupabase(categories: Category[]): Promise<void> {
   try {
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.CATEGORIES)
-      .upload(FILES.CATEGORIES, JSON.stringify(categories, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const storage = await getStorageBackend();
+    const { error } = await storage.upload(BUCKETS.CATEGORIES, FILES.CATEGORIES, JSON.stringify(categories, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
     
     if (error) {
       throw new Error(`Failed to save categories: ${error.message}`);
@@ -972,21 +1743,27 @@ export async function deleteCategoryFromSupabase(categoryId: string, options?: {
 // Save order to Supabase
 export async function saveOrderToSupabase(orderData: OrderData): Promise<string> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${orderData.orderId}.json`;
+
+    // Seed the status history for new orders
+    if (!orderData.statusHistory || orderData.statusHistory.length === 0) {
+      orderData.statusHistory = [
+        createOrderStatusHistoryEntry(orderData.status, { changedAt: orderData.createdAt })
+      ];
+    }
     
     // Try to upload the order
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.ORDERS)
-      .upload(fileName, JSON.stringify(orderData, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const { error } = await storage.upload(BUCKETS.ORDERS, fileName, JSON.stringify(orderData, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
     
     // If bucket doesn't exist, create it and try again
     if (error && error.message.includes('Bucket not found')) {
       console.log('Orders bucket not found, creating it...');
       
-      const { error: createError } = await supabaseAdmin.storage.createBucket(BUCKETS.ORDERS, {
+      const { error: createError } = await storage.createBucket(BUCKETS.ORDERS, {
         public: false
       });
       
@@ -998,12 +1775,10 @@ export async function saveOrderToSupabase(orderData: OrderData): Promise<string>
       console.log('Orders bucket created successfully, retrying upload...');
       
       // Retry the upload
-      const { error: retryError } = await supabaseAdmin.storage
-        .from(BUCKETS.ORDERS)
-        .upload(fileName, JSON.stringify(orderData, null, 2), {
-          contentType: 'application/json',
-          upsert: true
-        });
+      const { error: retryError } = await storage.upload(BUCKETS.ORDERS, fileName, JSON.stringify(orderData, null, 2), {
+        contentType: 'application/json',
+        upsert: true
+      });
       
       if (retryError) {
         console.error('Error saving order to Supabase after bucket creation:', retryError);
@@ -1028,11 +1803,10 @@ export async function saveOrderToSupabase(orderData: OrderData): Promise<string>
 // Get order from Supabase
 export async function getOrderFromSupabase(orderId: string): Promise<OrderData | null> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${orderId}.json`;
     
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.ORDERS)
-      .download(fileName);
+    const { data, error } = await storage.download(BUCKETS.ORDERS, fileName);
     
     if (error || !data) {
       console.error('Error fetching order:', error);
@@ -1040,7 +1814,7 @@ export async function getOrderFromSupabase(orderId: string): Promise<OrderData |
     }
     
     const text = await data.text();
-    return JSON.parse(text);
+    return migrateOrderData(JSON.parse(text));
   } catch (error) {
     console.error('Error parsing order data:', error);
     return null;
@@ -1050,10 +1824,9 @@ export async function getOrderFromSupabase(orderId: string): Promise<OrderData |
 // Get orders index from Supabase
 export async function getOrdersFromSupabase(): Promise<OrderIndexItem[]> {
   try {
+    const storage = await getStorageBackend();
     console.log('Attempting to download orders-index.json from bucket:', BUCKETS.ORDERS);
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.ORDERS)
-      .download('orders-index.json');
+    const { data, error } = await storage.download(BUCKETS.ORDERS, 'orders-index.json');
     
     if (error) {
       console.error('Error downloading orders index:', error);
@@ -1066,7 +1839,7 @@ export async function getOrdersFromSupabase(): Promise<OrderIndexItem[]> {
     }
     
     const text = await data.text();
-    const orders = JSON.parse(text);
+    const orders = (JSON.parse(text) as unknown[]).map(migrateOrderIndexItem);
     
     console.log(`Successfully fetched ${orders.length} orders from Supabase`);
     return orders;
@@ -1079,6 +1852,7 @@ export async function getOrdersFromSupabase(): Promise<OrderIndexItem[]> {
 // Update orders index
 export async function updateOrdersIndex(orderData: OrderData): Promise<void> {
   try {
+    const storage = await getStorageBackend();
     const existingOrders = await getOrdersFromSupabase();
     
     // Remove existing order if updating
@@ -1087,24 +1861,23 @@ export async function updateOrdersIndex(orderData: OrderData): Promise<void> {
     // Add new order to index
     const orderIndexItem: OrderIndexItem = {
       orderId: orderData.orderId,
+      paymentIntentId: orderData.paymentIntentId,
       customerEmail: orderData.customerInfo.email,
       customerName: `${orderData.customerInfo.firstName} ${orderData.customerInfo.lastName}`,
       total: orderData.totals.total,
-      currency: orderData.totals.currency,
       status: orderData.status,
       createdAt: orderData.createdAt,
+      updatedAt: orderData.updatedAt,
       userId: orderData.userId
     };
     
     const updatedOrders = [...filteredOrders, orderIndexItem];
     
     // Save updated index
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.ORDERS)
-      .upload('orders-index.json', JSON.stringify(updatedOrders, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const { error } = await storage.upload(BUCKETS.ORDERS, 'orders-index.json', JSON.stringify(updatedOrders, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
     
     if (error) {
       throw new Error(`Failed to update orders index: ${error.message}`);
@@ -1116,6 +1889,50 @@ export async function updateOrdersIndex(orderData: OrderData): Promise<void> {
   }
 }
 
+// Find the order paid by a Stripe PaymentIntent
+export async function findOrderByPaymentIntentFromSupabase(paymentIntentId: string): Promise<OrderData | null> {
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  const orders = await getOrdersFromSupabase();
+  const indexed = orders.find(order => order.paymentIntentId === paymentIntentId);
+  if (indexed) {
+    return await getOrderFromSupabase(indexed.orderId);
+  }
+
+  // Index entries written before paymentIntentId was indexed have to be checked one by one
+  for (const order of orders.filter(order => order.paymentIntentId === undefined)) {
+    const fullOrder = await getOrderFromSupabase(order.orderId);
+    if (fullOrder?.paymentIntentId === paymentIntentId) {
+      return fullOrder;
+    }
+  }
+
+  return null;
+}
+
+// Move an order to a new status, enforcing the allowed transitions
+export async function updateOrderStatusInSupabase(
+  orderId: string,
+  status: OrderStatus,
+  options: { changedBy?: string; note?: string } = {}
+): Promise<OrderData> {
+  const order = await getOrderFromSupabase(orderId);
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const updatedOrder = applyOrderStatusTransition(order, status, options);
+
+  // Saving also refreshes the orders index entry
+  await saveOrderToSupabase(updatedOrder);
+
+  console.log(`Order ${orderId} status changed: ${order.status} -> ${status}`);
+  return updatedOrder;
+}
+
 // ========================================
 // USER PROFILE STORAGE FUNCTIONS
 // ========================================
@@ -1125,20 +1942,19 @@ import { UserProfile } from '@/types/user';
 // Save user profile to Supabase
 export async function saveUserProfileToSupabase(userProfile: UserProfile): Promise<void> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${userProfile.email}.json`;
     
-    const { error } = await supabaseAdmin.storage
-      .from(BUCKETS.PROFILES)
-      .upload(fileName, JSON.stringify(userProfile, null, 2), {
-        contentType: 'application/json',
-        upsert: true
-      });
+    const { error } = await storage.upload(BUCKETS.PROFILES, fileName, JSON.stringify(userProfile, null, 2), {
+      contentType: 'application/json',
+      upsert: true
+    });
     
     // If bucket doesn't exist, create it and try again
     if (error && error.message.includes('Bucket not found')) {
       console.log('Profiles bucket not found, creating it...');
       
-      const { error: createError } = await supabaseAdmin.storage.createBucket(BUCKETS.PROFILES, {
+      const { error: createError } = await storage.createBucket(BUCKETS.PROFILES, {
         public: false
       });
       
@@ -1150,12 +1966,10 @@ export async function saveUserProfileToSupabase(userProfile: UserProfile): Promi
       console.log('Profiles bucket created successfully, retrying upload...');
       
       // Retry the upload
-      const { error: retryError } = await supabaseAdmin.storage
-        .from(BUCKETS.PROFILES)
-        .upload(fileName, JSON.stringify(userProfile, null, 2), {
-          contentType: 'application/json',
-          upsert: true
-        });
+      const { error: retryError } = await storage.upload(BUCKETS.PROFILES, fileName, JSON.stringify(userProfile, null, 2), {
+        contentType: 'application/json',
+        upsert: true
+      });
       
       if (retryError) {
         console.error('Error saving profile to Supabase after bucket creation:', retryError);
@@ -1176,13 +1990,12 @@ export async function saveUserProfileToSupabase(userProfile: UserProfile): Promi
 // Get user profile from Supabase
 export async function getUserProfileFromSupabase(email: string): Promise<UserProfile | null> {
   try {
+    const storage = await getStorageBackend();
     const fileName = `${email}.json`;
     
     console.log(`Attempting to fetch profile for: ${email} from file: ${fileName}`);
     
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKETS.PROFILES)
-      .download(fileName);
+    const { data, error } = await storage.download(BUCKETS.PROFILES, fileName);
     
     if (error) {
       // Log the specific error details
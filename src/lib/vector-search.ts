@@ -0,0 +1,87 @@
+/**
+ * Semantic and hybrid ranking
+ * Ranks products by how close their embedding is to the query's, and blends
+ * that with keyword scores so a product matching both comes first while
+ * products described in different words than the query are still found.
+ */
+
+import type { SearchIndex, SearchMatch } from './search-index';
+
+// Share of the hybrid score from each ranking; keyword scores are scaled to 0-1 first
+export const KEYWORD_WEIGHT = 0.6;
+export const SEMANTIC_WEIGHT = 0.4;
+
+// Most products a semantic search adds on top of keyword matches
+const MAX_SEMANTIC_MATCHES = 50;
+
+export interface SemanticMatch {
+  productId: string;
+  similarity: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let lengthA = 0;
+  let lengthB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    lengthA += a[i] * a[i];
+    lengthB += b[i] * b[i];
+  }
+  return lengthA > 0 && lengthB > 0 ? dot / Math.sqrt(lengthA * lengthB) : 0;
+}
+
+// Products whose embedding is at least minSimilarity from the query, closest first
+export function searchEmbeddings(index: SearchIndex, queryVector: number[], minSimilarity: number): SemanticMatch[] {
+  return Object.entries(index.embeddings)
+    .filter(([productId]) => Object.prototype.hasOwnProperty.call(index.documents, productId))
+    .map(([productId, vector]) => ({ productId, similarity: cosineSimilarity(queryVector, vector) }))
+    .filter(match => match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_SEMANTIC_MATCHES);
+}
+
+/**
+ * Merge keyword and semantic matches into one ranking
+ * Each product scores KEYWORD_WEIGHT times its keyword score relative to the
+ * best keyword match, plus SEMANTIC_WEIGHT times its similarity, scaled to
+ * 0-100. Products found only semantically are listed with a "semantic" match.
+ */
+export function combineSearchMatches(keywordMatches: SearchMatch[], semanticMatches: SemanticMatch[]): SearchMatch[] {
+  const bestKeywordScore = Math.max(0, ...keywordMatches.map(match => match.relevanceScore));
+  const similarities = new Map(semanticMatches.map(match => [match.productId, match.similarity]));
+  const combined = new Map<string, SearchMatch>();
+
+  for (const match of keywordMatches) {
+    const similarity = similarities.get(match.productId) || 0;
+    combined.set(match.productId, {
+      ...match,
+      relevanceScore: KEYWORD_WEIGHT * (bestKeywordScore > 0 ? match.relevanceScore / bestKeywordScore : 0) +
+        SEMANTIC_WEIGHT * similarity,
+      matchedFields: similarity > 0 ? [...match.matchedFields, 'semantic'] : match.matchedFields,
+      ...(similarity > 0 && { semanticScore: similarity })
+    });
+  }
+
+  for (const match of semanticMatches) {
+    if (!combined.has(match.productId)) {
+      combined.set(match.productId, {
+        productId: match.productId,
+        relevanceScore: SEMANTIC_WEIGHT * match.similarity,
+        matchedFields: ['semantic'],
+        semanticScore: match.similarity
+      });
+    }
+  }
+
+  return Array.from(combined.values())
+    .map(match => ({
+      ...match,
+      relevanceScore: Math.round(match.relevanceScore * 10000) / 100,
+      ...(match.semanticScore !== undefined && { semanticScore: Math.round(match.semanticScore * 1000) / 1000 })
+    }))
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
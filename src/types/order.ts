@@ -1,3 +1,7 @@
+import type { OrderStatus, OrderStatusHistoryEntry } from '@/lib/order-status';
+
+export type { OrderStatus, OrderStatusHistoryEntry };
+
 export interface OrderItem {
   id: string;
   productId: string;
@@ -40,7 +44,8 @@ export interface Order {
   billingAddress: OrderAddress;
   totals: OrderTotals;
   paymentIntentId: string;
-  status: 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  statusHistory?: OrderStatusHistoryEntry[];
   createdAt: string;
   updatedAt: string;
   notes?: string;
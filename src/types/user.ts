@@ -27,6 +27,7 @@ export interface UserProfile {
   billingAddress?: Address;
   useBillingAsShipping: boolean;
   paymentPreferences: PaymentPreferences;
+  displayCurrency?: string; // ISO code prices are shown in; the store currency if unset
   createdAt: string;
   updatedAt: string;
 }
@@ -36,6 +37,7 @@ export interface UserProfileFormData {
   billingAddress: Address;
   useBillingAsShipping: boolean;
   paymentPreferences: PaymentPreferences;
+  displayCurrency?: string;
 }
 
 export interface SaveProfileRequest {